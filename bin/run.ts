@@ -1,6 +1,7 @@
 import { config } from 'dotenv'
 import yargs, { CommandModule } from 'yargs'
 import { commands } from '../src/commands'
+import { enablePersistentCache } from '../src/lib/utils/cache'
 
 config()
 
@@ -15,6 +16,16 @@ async function main() {
   }
 
   run
+    .option('cache', {
+      type: 'boolean',
+      description: 'Reuse API responses cached by earlier runs (disable with --no-cache)',
+      default: true,
+    })
+    .middleware((argv) => {
+      if (argv.cache) {
+        enablePersistentCache()
+      }
+    })
     .demandCommand(1, 'You need at least one command before moving on')
     .help()
     .epilogue(chalk.dim(`See ${chalk.bold('https://doorman.griffen.codes/getting-started')} for more info`)).argv
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { handler } from '../migrate'
+
+describe('migrate command', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'doorman-migrate-'))
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('prints the json report to stdout as is, as the logger prefixes its lines in CI', async () => {
+    const config = join(dir, '.doorman.json')
+    writeFileSync(
+      config,
+      JSON.stringify({
+        projectId: 'prj_1',
+        rules: [
+          {
+            id: 'rule_block_admin',
+            name: 'Block admin',
+            active: true,
+            conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: '/admin' }] }],
+            action: { mitigate: { action: 'deny' } },
+          },
+        ],
+      }),
+    )
+    const chunks: string[] = []
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      chunks.push(String(chunk))
+      return true
+    })
+
+    await handler({
+      config,
+      to: 'cloudflare',
+      output: join(dir, '.doorman.cloudflare.json'),
+      format: 'json',
+    } as Parameters<typeof handler>[0])
+
+    const report = JSON.parse(chunks.join(''))
+    expect(report).toMatchObject({ from: 'vercel', to: 'cloudflare', summary: { full: 1, failed: 0 } })
+  })
+})
@@ -1,8 +1,9 @@
 import chalk from 'chalk'
 import { LogLevels } from 'consola'
 import { Arguments } from 'yargs'
+import { configErrors } from '../lib/errors'
 import { logger } from '../lib/logger'
-import { firewallRuleSchema, ipBlockingRuleSchema } from '../lib/schemas/firewallSchemas'
+import { bypassRuleSchema, firewallRuleSchema, ipBlockingRuleSchema } from '../lib/schemas/firewallSchemas'
 import {
   ActionType,
   ConditionGroup,
@@ -13,8 +14,10 @@ import {
   RuleOperator,
   RuleType,
 } from '../lib/types'
+import type { VercelBypassRule } from '../lib/types/vercel'
 import { prompt } from '../lib/ui/prompt'
 import { getConfig, saveConfig } from '../lib/utils/config'
+import { addEnvironmentRule, resolveEnvironment } from '../lib/utils/environments'
 import { handleCommandError } from '../lib/utils/handleCommandError'
 
 interface AddOptions {
@@ -37,7 +40,9 @@ interface AddOptions {
   ip?: string
   hostname?: string
   notes?: string
+  domain?: string
   config?: string
+  env?: string
   dryRun?: boolean
   debug?: boolean
 }
@@ -48,9 +53,9 @@ export const desc = 'Add a new firewall rule to your configuration'
 export const builder = {
   type: {
     type: 'string',
-    description: 'Rule type: "rule" (default) or "ip"',
+    description: 'Rule type: "rule" (default), "ip" or "bypass"',
     default: 'rule',
-    choices: ['rule', 'ip'],
+    choices: ['rule', 'ip', 'bypass'],
   },
   interactive: {
     alias: 'i',
@@ -121,7 +126,7 @@ export const builder = {
   },
   ip: {
     type: 'string',
-    description: 'IP address or CIDR for IP blocking rules',
+    description: 'IP address or CIDR for IP blocking and bypass rules',
   },
   hostname: {
     type: 'string',
@@ -130,13 +135,22 @@ export const builder = {
   },
   notes: {
     type: 'string',
-    description: 'Notes for IP blocking rules',
+    description: 'Notes for IP blocking and bypass rules',
+  },
+  domain: {
+    type: 'string',
+    description: 'Domain for bypass rules (defaults to every domain of the project)',
   },
   config: {
     alias: 'c',
     type: 'string',
     description: 'Config file path',
   },
+  env: {
+    alias: 'e',
+    type: 'string',
+    description: "Add the rule to this environment's addRules instead of the base config",
+  },
   dryRun: {
     alias: 'd',
     type: 'boolean',
@@ -470,6 +484,42 @@ function buildIPRuleInline(argv: Arguments<AddOptions>): IPBlockingRule {
   }
 }
 
+/**
+ * Build a bypass rule from interactive prompts.
+ */
+async function buildBypassRuleInteractive(): Promise<VercelBypassRule> {
+  const sourceIp = (await prompt('IP address or CIDR allowed to bypass system mitigations:', {
+    type: 'text',
+  })) as string
+  if (!sourceIp.trim()) {
+    throw new Error('IP address cannot be empty')
+  }
+
+  const domain = (await prompt('Domain (leave empty for every domain of the project):', { type: 'text' })) as string
+  const note = (await prompt('Note (optional):', { type: 'text' })) as string
+
+  return {
+    sourceIp: sourceIp.trim(),
+    ...(domain.trim() && { domain: domain.trim() }),
+    ...(note.trim() && { note: note.trim() }),
+  }
+}
+
+/**
+ * Build a bypass rule from inline CLI arguments.
+ */
+function buildBypassRuleInline(argv: Arguments<AddOptions>): VercelBypassRule {
+  if (!argv.ip) {
+    throw new Error('--ip is required for bypass rules')
+  }
+
+  return {
+    sourceIp: argv.ip.trim(),
+    ...(argv.domain && { domain: argv.domain }),
+    ...(argv.notes && { note: argv.notes }),
+  }
+}
+
 /**
  * Check for duplicate rule names or IDs in the config.
  */
@@ -526,6 +576,18 @@ function displayRuleSummary(rule: CustomRule): void {
   logger.log(chalk.dim(`  Active: ${rule.active ? '✅' : '❌'}`))
 }
 
+/**
+ * Display a summary of the added bypass rule.
+ */
+function displayBypassRuleSummary(rule: VercelBypassRule): void {
+  logger.log('')
+  logger.log(chalk.bold(`  Bypass Rule: ${rule.sourceIp}`))
+  logger.log(chalk.dim(`  Domain: ${rule.domain || 'All domains'}`))
+  if (rule.note) {
+    logger.log(chalk.dim(`  Note: ${rule.note}`))
+  }
+}
+
 /**
  * Display a summary of the added IP rule.
  */
@@ -549,6 +611,13 @@ export const handler = async (argv: Arguments<AddOptions>) => {
 
     const ruleType = argv.type || 'rule'
 
+    if (argv.env && ruleType !== 'rule') {
+      throw configErrors.environmentNotSupported(
+        argv.env,
+        `environments only change custom rules, so ${ruleType} rules are added to the base config`,
+      )
+    }
+
     if (ruleType === 'ip') {
       // --- IP Blocking Rule ---
       const ipRule: IPBlockingRule = argv.interactive ? await buildIPRuleInteractive() : buildIPRuleInline(argv)
@@ -585,6 +654,53 @@ export const handler = async (argv: Arguments<AddOptions>) => {
       await saveConfig(updatedConfig, argv.config)
       logger.success(chalk.green(`✔ IP rule "${ipRule.ip}" added to configuration`))
       displayIPRuleSummary(ipRule)
+    } else if (ruleType === 'bypass') {
+      // --- System Bypass Rule ---
+      const bypassRule = argv.interactive ? await buildBypassRuleInteractive() : buildBypassRuleInline(argv)
+
+      // Validate the bypass rule against schema
+      const validationResult = bypassRuleSchema.safeParse(bypassRule)
+      if (!validationResult.success) {
+        logger.error(chalk.red('Rule validation failed:'))
+        validationResult.error.errors.forEach((err) => {
+          const path = err.path.join('.')
+          logger.error(chalk.red(`  - ${path || 'bypass'}: ${err.message}`))
+        })
+        process.exit(1)
+      }
+
+      if (argv.dryRun) {
+        logger.info(chalk.cyan('\nDry run - The following bypass rule would be added:'))
+        displayBypassRuleSummary(bypassRule)
+        logger.log('')
+        logger.log(chalk.dim(JSON.stringify(bypassRule, null, 2)))
+        return
+      }
+
+      // Load config
+      logger.start('Loading configuration...')
+      const config = await getConfig(argv.config, 'raw')
+      const bypass = config.bypass || []
+
+      // Bypass rules are identified by source IP and domain
+      if (bypass.some((rule) => rule.sourceIp === bypassRule.sourceIp && rule.domain === bypassRule.domain)) {
+        logger.error(
+          chalk.red(
+            `A bypass rule for "${bypassRule.sourceIp}" on ${bypassRule.domain ? `"${bypassRule.domain}"` : 'all domains'} already exists`,
+          ),
+        )
+        process.exit(1)
+      }
+
+      // Append bypass rule
+      const updatedConfig: FirewallConfig = {
+        ...config,
+        bypass: [...bypass, bypassRule],
+      }
+
+      await saveConfig(updatedConfig, argv.config)
+      logger.success(chalk.green(`✔ Bypass rule "${bypassRule.sourceIp}" added to configuration`))
+      displayBypassRuleSummary(bypassRule)
     } else {
       // --- Custom Firewall Rule ---
       const rule: CustomRule = argv.interactive ? await buildRuleInteractive() : buildRuleInline(argv)
@@ -611,7 +727,7 @@ export const handler = async (argv: Arguments<AddOptions>) => {
       // Load config
       logger.start('Loading configuration...')
       const config = await getConfig(argv.config, 'raw')
-      const rules = config.rules || []
+      const rules = (argv.env ? resolveEnvironment(config, argv.env) : config).rules || []
 
       // Check for duplicates
       const duplicateWarning = checkDuplicates({ ...config, rules }, rule)
@@ -628,18 +744,21 @@ export const handler = async (argv: Arguments<AddOptions>) => {
       }
 
       // Append rule
-      const updatedConfig: FirewallConfig = {
-        ...config,
-        rules: [...rules, rule],
-      }
+      const updatedConfig: FirewallConfig = argv.env
+        ? addEnvironmentRule(config, argv.env, rule)
+        : { ...config, rules: [...rules, rule] }
 
       await saveConfig(updatedConfig, argv.config)
-      logger.success(chalk.green(`✔ Rule "${rule.name}" added to configuration`))
+      logger.success(
+        chalk.green(`✔ Rule "${rule.name}" added to ${argv.env ? `the ${argv.env} environment` : 'configuration'}`),
+      )
       displayRuleSummary(rule)
     }
 
     logger.log('')
-    logger.log(chalk.dim(`Run ${chalk.cyan('vercel-doorman sync')} to deploy this rule.`))
+    logger.log(
+      chalk.dim(`Run ${chalk.cyan(`vercel-doorman sync${argv.env ? ` --env ${argv.env}` : ''}`)} to deploy this rule.`),
+    )
   } catch (error) {
     handleCommandError(error, 'adding rule')
   }
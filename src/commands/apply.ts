@@ -0,0 +1,133 @@
+import chalk from 'chalk'
+import { Arguments } from 'yargs'
+import { syncErrors } from '../lib/errors/helpers'
+import { logger } from '../lib/logger'
+import { saveSyncedConfig } from '../lib/utils/config'
+import { handleCommandError } from '../lib/utils/handleCommandError'
+import { isDeepEqual } from '../lib/utils/isDeepEqual'
+import { assertPlanCurrent, assertPlanTarget, DEFAULT_PLAN_PATH, FirewallPlan, readPlan } from '../lib/utils/plan'
+import { enforcePolicies } from '../lib/utils/policies'
+import { getProviderDisplayName } from '../lib/utils/providerHelper'
+import { retry } from '../lib/utils/retry'
+import { applyRemoteState, fromUnifiedConfig } from '../lib/utils/unifiedConfig'
+import { withCredentials } from '../lib/utils/withCredentials'
+
+interface ApplyOptions {
+  plan?: string
+  config?: string
+  env?: string
+  projectId?: string
+  teamId?: string
+  token?: string
+  apiToken?: string
+  zoneId?: string
+  accountId?: string
+  debug?: boolean
+  ci?: boolean
+  policies?: string
+  allowDelete?: boolean
+}
+
+export const command = 'apply'
+export const desc = 'Apply a plan file created by `plan`, refusing if the remote configuration has changed since'
+
+export const builder = {
+  plan: { type: 'string', description: 'Path to the plan file', default: DEFAULT_PLAN_PATH },
+  config: {
+    alias: 'c',
+    type: 'string',
+    description: 'Path to firewall config file to update with the applied state (defaults to .doorman.json)',
+  },
+  env: {
+    alias: 'e',
+    type: 'string',
+    description: "Environment from the config to apply (defaults to the plan's environment)",
+  },
+  projectId: { alias: 'p', type: 'string', description: 'Vercel Project ID' },
+  teamId: { alias: 't', type: 'string', description: 'Vercel Team ID' },
+  token: { type: 'string', description: 'Vercel API token (defaults to VERCEL_TOKEN env var)' },
+  apiToken: { type: 'string', description: 'Cloudflare API token (defaults to CLOUDFLARE_API_TOKEN env var)' },
+  zoneId: { type: 'string', description: 'Cloudflare Zone ID (defaults to CLOUDFLARE_ZONE_ID env var)' },
+  accountId: { type: 'string', description: 'Cloudflare Account ID (optional)' },
+  debug: { type: 'boolean', description: 'Enable debug logging', default: false },
+  ci: { type: 'boolean', description: 'Run in CI mode (non-interactive)', default: false },
+  policies: {
+    type: 'string',
+    description: 'Path to a policies file, used when DOORMAN_POLICIES is not set (defaults to doorman.policies.json)',
+  },
+  allowDelete: { type: 'boolean', description: 'Allow deleting rules when a policy requires it', default: false },
+}
+
+export const handler = async (argv: Arguments<ApplyOptions>) => {
+  let plan: FirewallPlan
+  try {
+    plan = readPlan(argv.plan || DEFAULT_PLAN_PATH)
+    if (argv.env && plan.environment && argv.env !== plan.environment) {
+      throw syncErrors.invalidPlan(
+        argv.plan || DEFAULT_PLAN_PATH,
+        `plan was made for the ${plan.environment} environment, not ${argv.env}`,
+      )
+    }
+    // Policies may have changed since the plan was made
+    enforcePolicies(fromUnifiedConfig(plan.config), argv.policies, {
+      changes: plan.changes,
+      allowDelete: argv.allowDelete,
+    })
+  } catch (error) {
+    handleCommandError(error, 'reading plan')
+  }
+  const environment = argv.env || plan.environment
+
+  await withCredentials(
+    {
+      config: argv.config,
+      env: environment,
+      provider: plan.provider,
+      projectId: argv.projectId,
+      teamId: argv.teamId,
+      token: argv.token,
+      apiToken: argv.apiToken,
+      zoneId: argv.zoneId,
+      accountId: argv.accountId,
+      debug: argv.debug,
+      ci: argv.ci,
+      errorContext: 'applying plan',
+    },
+    async ({ config, provider }) => {
+      assertPlanTarget(plan, provider.getTarget(), argv.plan || DEFAULT_PLAN_PATH)
+      logger.start(chalk.magenta('Checking remote configuration against the plan...'))
+
+      // Recompute against the planned config: if the remote moved, the stored change set is stale
+      const current = await provider.getChanges(plan.config)
+      assertPlanCurrent(plan, current)
+
+      if (!plan.changes.hasChanges) {
+        logger.success(chalk.green('Plan contains no changes. Firewall rules are in sync.'))
+        return
+      }
+
+      logger.start(`Applying plan to ${getProviderDisplayName(provider.name)}...`)
+      const syncResult = await provider.syncRules(plan.config, { force: true })
+      if (!syncResult.success) {
+        throw new Error(`Apply failed: ${(syncResult.errors || []).join(', ') || 'unknown error'}`)
+      }
+      syncResult.warnings?.forEach((warning) => logger.warn(warning))
+      logger.success(
+        chalk.green(
+          `Plan applied: ${syncResult.rulesAdded} added, ${syncResult.rulesUpdated} updated, ${syncResult.rulesDeleted} deleted`,
+        ),
+      )
+
+      // Pull the post-apply state to pick up the new version and any remote-assigned IDs
+      const remoteConfig = await retry(() => provider.fetchConfig(), { maxAttempts: 3, delayMs: 1500 })
+      const updatedConfig = applyRemoteState(config, remoteConfig)
+
+      if (!isDeepEqual(updatedConfig, config)) {
+        await saveSyncedConfig(updatedConfig, argv.config, environment)
+        logger.success(
+          chalk.green(`Updated version ${chalk.dim(`(v${updatedConfig.version})`)} and metadata in local config file`),
+        )
+      }
+    },
+  )
+}
@@ -7,11 +7,14 @@ import { logger } from '../lib/logger'
 import { FirewallConfig } from '../lib/types'
 import { prompt } from '../lib/ui/prompt'
 import { getConfig, saveConfig } from '../lib/utils/config'
+import { storeEnvironmentRules, unstoredSections } from '../lib/utils/environments'
 import { handleCommandError } from '../lib/utils/handleCommandError'
+import { fromUnifiedConfig } from '../lib/utils/unifiedConfig'
 import { withCredentials } from '../lib/utils/withCredentials'
 
 interface BackupOptions {
   config?: string
+  env?: string
   provider?: 'vercel' | 'cloudflare'
   projectId?: string
   teamId?: string
@@ -35,6 +38,11 @@ export const builder = {
     type: 'string',
     description: 'Path to firewall config file (defaults to .doorman.json)',
   },
+  env: {
+    alias: 'e',
+    type: 'string',
+    description: "Back up this environment's project, or restore a backup into the environment",
+  },
   provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
   projectId: {
     alias: 'p',
@@ -133,6 +141,18 @@ export const handler = async (argv: Arguments<BackupOptions>) => {
       const backupConfig = await getConfig(restorePath, 'raw')
       const outputPath = argv.config || '.doorman.json'
 
+      if (argv.env) {
+        // Only the rules go into the environment, the rest of the config file is kept
+        const config = await getConfig(argv.config, 'raw')
+        const skipped = unstoredSections(await getConfig(argv.config, 'raw', argv.env), backupConfig)
+        if (skipped.length > 0) {
+          logger.warn(chalk.yellow(`Environments cannot override ${skipped.join(', ')}; these were not restored`))
+        }
+        await saveConfig(storeEnvironmentRules(config, argv.env, backupConfig.rules, backupConfig), outputPath)
+        logger.success(chalk.green(`✅ Restored the ${argv.env} environment from ${restorePath} in ${outputPath}`))
+        return
+      }
+
       if (existsSync(outputPath)) {
         const overwrite = await prompt(`Config file ${outputPath} already exists. Do you want to overwrite it?`, {
           type: 'confirm',
@@ -153,6 +173,7 @@ export const handler = async (argv: Arguments<BackupOptions>) => {
     await withCredentials(
       {
         config: argv.config,
+        env: argv.env,
         provider: argv.provider,
         projectId: argv.projectId,
         teamId: argv.teamId,
@@ -164,9 +185,9 @@ export const handler = async (argv: Arguments<BackupOptions>) => {
         ci: argv.ci,
         errorContext: 'creating backup',
       },
-      async ({ client, projectId, teamId }) => {
+      async ({ provider, projectId, teamId }) => {
         logger.start('Fetching current remote configuration...')
-        const remoteConfig = await client.fetchFirewallConfig()
+        const remoteConfig = fromUnifiedConfig(await provider.fetchConfig())
 
         if (!existsSync(backupDir)) {
           mkdirSync(backupDir, { recursive: true })
@@ -183,17 +204,20 @@ export const handler = async (argv: Arguments<BackupOptions>) => {
           backup: {
             createdAt: string
             source: string
-            projectId: string
-            teamId: string
-            originalVersion: number
+            provider: string
+            environment?: string
+            projectId?: string
+            teamId?: string
+            originalVersion?: number
           }
         } = {
           ...remoteConfig,
           backup: {
             createdAt: new Date().toISOString(),
             source: 'remote',
-            projectId,
-            teamId,
+            provider: provider.name,
+            ...(argv.env ? { environment: argv.env } : {}),
+            ...(provider.name === 'vercel' ? { projectId, teamId } : {}),
             originalVersion: remoteConfig.version,
           },
         }
@@ -204,11 +228,15 @@ export const handler = async (argv: Arguments<BackupOptions>) => {
         logger.log('')
         logger.log(chalk.bold('Backup Details:'))
         logger.log(`${chalk.dim('Version:')} ${remoteConfig.version}`)
-        logger.log(`${chalk.dim('Rules:')} ${remoteConfig.rules.length} custom, ${remoteConfig.ips.length} IP blocking`)
+        logger.log(
+          `${chalk.dim('Rules:')} ${remoteConfig.rules.length} custom, ${(remoteConfig.ips || []).length} IP blocking`,
+        )
         logger.log(`${chalk.dim('Created:')} ${new Date().toLocaleString()}`)
         logger.log('')
         logger.log(chalk.dim('To restore this backup later, run:'))
-        logger.log(chalk.cyan(`vercel-doorman backup --restore ${backupFilename}`))
+        logger.log(
+          chalk.cyan(`vercel-doorman backup --restore ${backupFilename}${argv.env ? ` --env ${argv.env}` : ''}`),
+        )
       },
     )
   } catch (error) {
@@ -0,0 +1,37 @@
+import chalk from 'chalk'
+import { Arguments } from 'yargs'
+import { logger } from '../lib/logger'
+import { getCacheDir } from '../lib/utils/cache'
+import { FileCacheStore } from '../lib/utils/fileCacheStore'
+import { handleCommandError } from '../lib/utils/handleCommandError'
+
+interface CacheCommandOptions {
+  action: 'clear' | 'path'
+}
+
+export const command = 'cache <action>'
+export const desc = 'Manage the API response cache shared between runs'
+
+export const builder = {
+  action: {
+    type: 'string',
+    choices: ['clear', 'path'],
+    description: 'clear: delete every cached response; path: print the cache directory',
+  },
+}
+
+export const handler = async (argv: Arguments<CacheCommandOptions>) => {
+  try {
+    const dir = getCacheDir()
+
+    if (argv.action === 'path') {
+      logger.log(dir)
+      return
+    }
+
+    const count = new FileCacheStore(dir).clear()
+    logger.success(chalk.green(`Cleared ${count} cached response(s) from ${chalk.dim(dir)}`))
+  } catch (error) {
+    handleCommandError(error, 'managing the cache')
+  }
+}
@@ -1,11 +1,22 @@
 import chalk from 'chalk'
 import { Arguments } from 'yargs'
 import { logger } from '../lib/logger'
-import { displayIPBlockingTable, displayRulesTable, RULE_STATUS_MAP } from '../lib/ui/table'
-import { withCredentials } from '../lib/utils/withCredentials'
+import type { ChangeSet } from '../lib/providers/IFirewallProvider'
+import type { FirewallConfig } from '../lib/types'
+import {
+  displayBypassTable,
+  displayIPBlockingTable,
+  displayRulesTable,
+  displaySecurityTable,
+  RULE_STATUS_MAP,
+} from '../lib/ui/table'
+import { toConfigIPRule, toConfigRule, toUnifiedConfig } from '../lib/utils/unifiedConfig'
+import { withAllProviders, withCredentials } from '../lib/utils/withCredentials'
+import type { CommandContext, WithCredentialsOptions } from '../lib/utils/withCredentials'
 
 interface DiffOptions {
   config?: string
+  env?: string
   provider?: 'vercel' | 'cloudflare'
   projectId?: string
   teamId?: string
@@ -16,6 +27,7 @@ interface DiffOptions {
   debug?: boolean
   format?: 'table' | 'json'
   ci?: boolean
+  allProviders?: boolean
 }
 
 export const command = 'diff'
@@ -23,6 +35,7 @@ export const desc = 'Show detailed differences between local and remote firewall
 
 export const builder = {
   config: { alias: 'c', type: 'string', description: 'Path to firewall config file' },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
   provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
   projectId: { alias: 'p', type: 'string', description: 'Vercel Project ID' },
   teamId: { alias: 't', type: 'string', description: 'Vercel Team ID' },
@@ -33,108 +46,202 @@ export const builder = {
   format: { alias: 'f', type: 'string', choices: ['table', 'json'], description: 'Output format', default: 'table' },
   debug: { type: 'boolean', description: 'Enable debug logging', default: false },
   ci: { type: 'boolean', description: 'Run in CI mode (non-interactive)', default: false },
+  allProviders: {
+    type: 'boolean',
+    description: 'Show the differences for every provider configured in the config file',
+    default: false,
+  },
 }
 
-export const handler = async (argv: Arguments<DiffOptions>) => {
-  await withCredentials(
-    {
-      config: argv.config,
-      provider: argv.provider,
-      projectId: argv.projectId,
-      teamId: argv.teamId,
-      token: argv.token,
-      apiToken: argv.apiToken,
-      zoneId: argv.zoneId,
-      accountId: argv.accountId,
-      debug: argv.debug,
-      ci: argv.ci,
-      errorContext: 'calculating diff',
+type ConfigDiff = ReturnType<typeof buildDiff>
+
+const buildDiff = (config: FirewallConfig, changes: ChangeSet, primary: boolean) => {
+  const { version } = changes
+
+  const toAdd = changes.rulesToAdd.map(toConfigRule)
+  const toUpdate = changes.rulesToUpdate.map(toConfigRule)
+  const toDelete = changes.rulesToDelete.map(toConfigRule)
+  const toMove = changes.rulesToMove || []
+  const ipsToAdd = (changes.ipsToAdd || []).map(toConfigIPRule)
+  const ipsToUpdate = (changes.ipsToUpdate || []).map(toConfigIPRule)
+  const ipsToDelete = (changes.ipsToDelete || []).map(toConfigIPRule)
+
+  const hasCustomRuleChanges = toAdd.length > 0 || toUpdate.length > 0 || toDelete.length > 0 || toMove.length > 0
+  const hasIPRuleChanges = ipsToAdd.length > 0 || ipsToUpdate.length > 0 || ipsToDelete.length > 0
+  const securityChanges = changes.securityChanges || []
+  const bypassToAdd = changes.bypassToAdd || []
+  const bypassToDelete = changes.bypassToDelete || []
+  // The config file only records the version of its primary provider
+  const hasVersionChange = primary && version !== undefined && config.version !== version
+
+  return {
+    version: { local: config.version, remote: version, changed: hasVersionChange },
+    customRules: {
+      toAdd: toAdd.map((rule) => ({ ...rule, status: 'add' })),
+      toUpdate: toUpdate.map((rule) => ({ ...rule, status: 'update' })),
+      toDelete: toDelete.map((rule) => ({ ...rule, status: 'delete' })),
+      toMove: toMove.map((rule) => ({ ...toConfigRule(rule), position: rule.priority, status: 'move' })),
+    },
+    ipRules: {
+      toAdd: ipsToAdd.map((rule) => ({ ...rule, status: 'add' })),
+      toUpdate: ipsToUpdate.map((rule) => ({ ...rule, status: 'update' })),
+      toDelete: ipsToDelete.map((rule) => ({ ...rule, status: 'delete' })),
+    },
+    security: securityChanges.map((change) => ({ ...change, status: change.from ? 'update' : 'add' })),
+    bypassRules: {
+      toAdd: bypassToAdd.map((rule) => ({ ...rule, status: 'add' })),
+      toDelete: bypassToDelete.map((rule) => ({ ...rule, status: 'delete' })),
+    },
+    summary: {
+      hasChanges:
+        hasCustomRuleChanges ||
+        hasIPRuleChanges ||
+        securityChanges.length > 0 ||
+        bypassToAdd.length > 0 ||
+        bypassToDelete.length > 0 ||
+        hasVersionChange,
+      customRuleChanges: toAdd.length + toUpdate.length + toDelete.length + toMove.length,
+      ipRuleChanges: ipsToAdd.length + ipsToUpdate.length + ipsToDelete.length,
+      securityChanges: securityChanges.length,
+      bypassRuleChanges: bypassToAdd.length + bypassToDelete.length,
     },
-    async ({ config, service }) => {
-      logger.start('Calculating differences...')
+  }
+}
 
-      const { toAdd, toUpdate, toDelete, ipsToAdd, ipsToUpdate, ipsToDelete, version } =
-        await service.getChanges(config)
+const displayDiff = (diff: ConfigDiff) => {
+  const { version, customRules, ipRules, security, bypassRules, summary } = diff
 
-      const hasCustomRuleChanges = toAdd.length > 0 || toUpdate.length > 0 || toDelete.length > 0
-      const hasIPRuleChanges = ipsToAdd.length > 0 || ipsToUpdate.length > 0 || ipsToDelete.length > 0
-      const hasVersionChange = config.version !== version
+  if (!summary.hasChanges) {
+    logger.success(chalk.green('No differences found. Local and remote configurations are in sync.'))
+    return
+  }
 
-      if (!hasCustomRuleChanges && !hasIPRuleChanges && !hasVersionChange) {
-        logger.success(chalk.green('No differences found. Local and remote configurations are in sync.'))
-        return
-      }
+  logger.log(chalk.bold('\n🔍 Configuration Differences\n'))
 
-      if (argv.format === 'json') {
-        const diff = {
-          version: { local: config.version, remote: version, changed: hasVersionChange },
-          customRules: {
-            toAdd: toAdd.map((rule) => ({ ...rule, status: 'add' })),
-            toUpdate: toUpdate.map((rule) => ({ ...rule, status: 'update' })),
-            toDelete: toDelete.map((rule) => ({ ...rule, status: 'delete' })),
-          },
-          ipRules: {
-            toAdd: ipsToAdd.map((rule) => ({ ...rule, status: 'add' })),
-            toUpdate: ipsToUpdate.map((rule) => ({ ...rule, status: 'update' })),
-            toDelete: ipsToDelete.map((rule) => ({ ...rule, status: 'delete' })),
-          },
-          summary: {
-            hasChanges: hasCustomRuleChanges || hasIPRuleChanges || hasVersionChange,
-            customRuleChanges: toAdd.length + toUpdate.length + toDelete.length,
-            ipRuleChanges: ipsToAdd.length + ipsToUpdate.length + ipsToDelete.length,
-          },
-        }
-        logger.log(JSON.stringify(diff, null, 2))
-        return
-      }
+  if (version.changed) {
+    logger.log(chalk.bold('Version Changes:'))
+    logger.log(`  Local:  ${chalk.red(version.local || 'unknown')}`)
+    logger.log(`  Remote: ${chalk.green(version.remote)}`)
+    logger.log('')
+  }
 
-      logger.log(chalk.bold('\n🔍 Configuration Differences\n'))
+  if (summary.customRuleChanges > 0) {
+    logger.log(chalk.bold('Custom Rule Changes:\n'))
+    displayRulesTable(
+      [
+        ...customRules.toAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new })),
+        ...customRules.toUpdate.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.modified })),
+        ...customRules.toDelete.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.deleted })),
+        ...customRules.toMove.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.moved })),
+      ],
+      { showStatus: true },
+    )
+    logger.log('')
+  }
 
-      if (hasVersionChange) {
-        logger.log(chalk.bold('Version Changes:'))
-        logger.log(`  Local:  ${chalk.red(config.version || 'unknown')}`)
-        logger.log(`  Remote: ${chalk.green(version)}`)
-        logger.log('')
-      }
+  if (summary.ipRuleChanges > 0) {
+    logger.log(chalk.bold('IP Blocking Rule Changes:\n'))
+    displayIPBlockingTable(
+      [
+        ...ipRules.toAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new, id: rule.id || undefined })),
+        ...ipRules.toUpdate.map((rule) => ({
+          ...rule,
+          changeStatus: RULE_STATUS_MAP.modified,
+          id: rule.id || undefined,
+        })),
+        ...ipRules.toDelete.map((rule) => ({
+          ...rule,
+          changeStatus: RULE_STATUS_MAP.deleted,
+          id: rule.id || undefined,
+        })),
+      ],
+      { showStatus: true },
+    )
+    logger.log('')
+  }
 
-      if (hasCustomRuleChanges) {
-        logger.log(chalk.bold('Custom Rule Changes:\n'))
-        displayRulesTable(
-          [
-            ...toAdd.map((rule: any) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new, id: rule.id as string })),
-            ...toUpdate.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.modified, id: rule.id as string })),
-            ...toDelete.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.deleted, id: rule.id as string })),
-          ],
-          { showStatus: true },
-        )
-        logger.log('')
-      }
+  if (summary.securityChanges > 0) {
+    logger.log(chalk.bold('Managed Rules & Attack Mode Changes:\n'))
+    displaySecurityTable(
+      security.map(({ section, id, to, status }) => ({
+        section,
+        id,
+        value: to,
+        changeStatus: status === 'add' ? RULE_STATUS_MAP.new : RULE_STATUS_MAP.modified,
+      })),
+      { showStatus: true },
+    )
+    logger.log('')
+  }
+
+  if (summary.bypassRuleChanges > 0) {
+    logger.log(chalk.bold('Bypass Rule Changes:\n'))
+    displayBypassTable(
+      [
+        ...bypassRules.toAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new })),
+        ...bypassRules.toDelete.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.deleted })),
+      ],
+      { showStatus: true },
+    )
+    logger.log('')
+  }
+
+  const totalChanges =
+    summary.customRuleChanges + summary.ipRuleChanges + summary.securityChanges + summary.bypassRuleChanges
+  logger.log(chalk.bold(`Summary: ${totalChanges} total changes detected`))
+  logger.log(chalk.dim('Run `sync` to apply these changes to the remote configuration.'))
+}
+
+export const handler = async (argv: Arguments<DiffOptions>) => {
+  const options: WithCredentialsOptions = {
+    config: argv.config,
+    env: argv.env,
+    provider: argv.provider,
+    projectId: argv.projectId,
+    teamId: argv.teamId,
+    token: argv.token,
+    apiToken: argv.apiToken,
+    zoneId: argv.zoneId,
+    accountId: argv.accountId,
+    debug: argv.debug,
+    ci: argv.ci,
+    quiet: argv.format === 'json',
+    errorContext: 'calculating diff',
+  }
+
+  const calculateDiff = async ({ config, provider, primary }: CommandContext) => {
+    logger.start('Calculating differences...')
 
-      if (hasIPRuleChanges) {
-        logger.log(chalk.bold('IP Blocking Rule Changes:\n'))
-        displayIPBlockingTable(
-          [
-            ...ipsToAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new, id: rule.id || undefined })),
-            ...ipsToUpdate.map((rule) => ({
-              ...rule,
-              changeStatus: RULE_STATUS_MAP.modified,
-              id: rule.id || undefined,
-            })),
-            ...ipsToDelete.map((rule) => ({
-              ...rule,
-              changeStatus: RULE_STATUS_MAP.deleted,
-              id: rule.id || undefined,
-            })),
-          ],
-          { showStatus: true },
+    const diff = buildDiff(config, await provider.getChanges(toUnifiedConfig(config, provider.name)), primary)
+    if (argv.format !== 'json') {
+      displayDiff(diff)
+    }
+    return diff
+  }
+
+  if (argv.allProviders) {
+    await withAllProviders(options, calculateDiff, (outcomes) => {
+      if (argv.format === 'json') {
+        const providers = outcomes.map(({ provider, result, error }) =>
+          error === undefined
+            ? { provider, ...result }
+            : { provider, error: error instanceof Error ? error.message : String(error) },
         )
-        logger.log('')
+        logger.log(JSON.stringify({ providers }, null, 2))
       }
+    })
+    return
+  }
 
-      const totalChanges =
-        toAdd.length + toUpdate.length + toDelete.length + ipsToAdd.length + ipsToUpdate.length + ipsToDelete.length
-      logger.log(chalk.bold(`Summary: ${totalChanges} total changes detected`))
-      logger.log(chalk.dim('Run `sync` to apply these changes to the remote configuration.'))
-    },
-  )
+  await withCredentials(options, async (ctx) => {
+    const diff = await calculateDiff(ctx)
+
+    if (argv.format === 'json') {
+      if (diff.summary.hasChanges) {
+        logger.log(JSON.stringify(diff, null, 2))
+      } else {
+        logger.success(chalk.green('No differences found. Local and remote configurations are in sync.'))
+      }
+    }
+  })
 }
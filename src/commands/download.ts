@@ -3,14 +3,23 @@ import { Arguments } from 'yargs'
 import { z } from 'zod'
 import { logger } from '../lib/logger'
 import { configVersionSchema } from '../lib/schemas/firewallSchemas'
-import { FirewallConfig, IPBlockingRule } from '../lib/types'
+import { FirewallConfig } from '../lib/types'
 import { prompt } from '../lib/ui/prompt'
-import { displayIPBlockingTable, displayRulesTable } from '../lib/ui/table'
-import { saveConfig } from '../lib/utils/config'
+import {
+  displayBypassTable,
+  displayIPBlockingTable,
+  displayRulesTable,
+  displaySecurityTable,
+  toSecuritySettings,
+} from '../lib/ui/table'
+import { getConfig, saveConfig } from '../lib/utils/config'
+import { storeEnvironmentRules, unstoredSections } from '../lib/utils/environments'
+import { fromUnifiedConfig } from '../lib/utils/unifiedConfig'
 import { withCredentials } from '../lib/utils/withCredentials'
 
 interface DownloadOptions {
   config?: string
+  env?: string
   provider?: 'vercel' | 'cloudflare'
   projectId?: string
   teamId?: string
@@ -26,7 +35,7 @@ interface DownloadOptions {
 
 export const command = 'download [configVersion]'
 export const desc =
-  'Download remote Vercel Firewall rules and update local config, optionally for a specific configuration version'
+  'Download remote firewall rules and update local config, optionally for a specific configuration version'
 
 export const builder = {
   configVersion: {
@@ -38,6 +47,11 @@ export const builder = {
     type: 'string',
     description: 'Path to firewall config file (defaults to .doorman.json)',
   },
+  env: {
+    alias: 'e',
+    type: 'string',
+    description: "Download this environment's project and store its rules in the environment",
+  },
   provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
   projectId: {
     alias: 'p',
@@ -74,6 +88,7 @@ export const handler = async (argv: Arguments<DownloadOptions>) => {
   await withCredentials(
     {
       config: argv.config,
+      env: argv.env,
       provider: argv.provider,
       projectId: argv.projectId,
       teamId: argv.teamId,
@@ -87,7 +102,7 @@ export const handler = async (argv: Arguments<DownloadOptions>) => {
       skipValidation: true,
       errorContext: 'downloading firewall rules',
     },
-    async ({ config: existingConfig, client, projectId, teamId }) => {
+    async ({ config: existingConfig, provider, projectId, teamId }) => {
       // Validate version if provided
       if (argv.configVersion !== undefined) {
         try {
@@ -104,10 +119,11 @@ export const handler = async (argv: Arguments<DownloadOptions>) => {
       logger.start(
         `Fetching remote firewall configuration${argv.configVersion ? ` version ${argv.configVersion}` : ''} ...`,
       )
-      const remoteConfig = await client.fetchFirewallConfig(argv.configVersion)
+      const remoteConfig = fromUnifiedConfig(await provider.fetchConfig(argv.configVersion))
 
       const configRules = remoteConfig.rules
-      const ipBlockingRules = remoteConfig.ips as IPBlockingRule[]
+      const ipBlockingRules = remoteConfig.ips || []
+      const securitySettings = toSecuritySettings(remoteConfig)
 
       if (configRules.length > 0) {
         logger.log(chalk.bold('\nRemote Custom Rules to Download:\n'))
@@ -123,6 +139,16 @@ export const handler = async (argv: Arguments<DownloadOptions>) => {
         logger.info('No IP blocking rules to download...')
       }
 
+      if (securitySettings.length > 0) {
+        logger.log(chalk.bold('\nRemote Managed Rules & Attack Mode to Download:\n'))
+        displaySecurityTable(securitySettings, { showStatus: false })
+      }
+
+      if (remoteConfig.bypass) {
+        logger.log(chalk.bold('\nRemote Bypass Rules to Download:\n'))
+        displayBypassTable(remoteConfig.bypass, { showStatus: false })
+      }
+
       if (argv.dryRun) {
         logger.info(chalk.cyan('Dry run completed. No changes made.'))
         return
@@ -137,14 +163,35 @@ export const handler = async (argv: Arguments<DownloadOptions>) => {
         return
       }
 
+      if (argv.env) {
+        // Overlays only hold custom rules, so the rest stays shared with the base config
+        const skipped = unstoredSections(existingConfig, remoteConfig)
+        if (skipped.length > 0) {
+          logger.warn(
+            chalk.yellow(
+              `Environments cannot override ${skipped.join(', ')}; keeping the base config's settings for ${argv.env}`,
+            ),
+          )
+        }
+        const stored = storeEnvironmentRules(await getConfig(argv.config, 'raw'), argv.env, configRules, remoteConfig)
+        logger.start(`Saving ${argv.env} environment with version: ${remoteConfig.version}`)
+        await saveConfig(stored, argv.config)
+        logger.success(chalk.green(`Successfully downloaded and updated the ${argv.env} environment`))
+        return
+      }
+
       const newConfig: FirewallConfig = {
         ...existingConfig,
-        projectId,
-        teamId,
+        ...(provider.name === 'vercel' ? { projectId, teamId } : {}),
         version: remoteConfig.version,
         updatedAt: remoteConfig.updatedAt,
-        rules: configRules.map(({ valid, validationErrors, ...rule }: any) => rule),
+        rules: configRules,
         ips: ipBlockingRules,
+        ...(remoteConfig.crs ? { crs: remoteConfig.crs } : {}),
+        ...(remoteConfig.managedRules ? { managedRules: remoteConfig.managedRules } : {}),
+        ...(remoteConfig.attackMode ? { attackMode: remoteConfig.attackMode } : {}),
+        // A config that already manages bypass rules keeps managing them, even if none are left
+        ...(remoteConfig.bypass || existingConfig?.bypass ? { bypass: remoteConfig.bypass || [] } : {}),
       }
 
       logger.start(`Saving configuration with version: ${newConfig.version}`)
@@ -1,14 +1,20 @@
 import chalk from 'chalk'
 import { writeFileSync } from 'fs'
 import { Arguments } from 'yargs'
+import { getExporterRegistry, initExporters } from '../lib/exporters'
 import { logger } from '../lib/logger'
-import { CustomRule, FirewallConfig, IPBlockingRule } from '../lib/types'
+import { ProviderDetector } from '../lib/providers/ProviderDetector'
+import type { ProviderType } from '../lib/providers/IFirewallProvider'
+import { TranslationWarningSystem } from '../lib/translators'
+import { FirewallConfig } from '../lib/types'
 import { getConfig } from '../lib/utils/config'
 import { handleCommandError } from '../lib/utils/handleCommandError'
+import { fromUnifiedConfig } from '../lib/utils/unifiedConfig'
 import { withCredentials } from '../lib/utils/withCredentials'
 
 interface ExportOptions {
   config?: string
+  env?: string
   provider?: 'vercel' | 'cloudflare'
   projectId?: string
   teamId?: string
@@ -16,13 +22,15 @@ interface ExportOptions {
   apiToken?: string
   zoneId?: string
   accountId?: string
-  format?: 'json' | 'yaml' | 'terraform' | 'markdown'
+  format?: string
   output?: string
   source?: 'local' | 'remote'
   debug?: boolean
   ci?: boolean
 }
 
+initExporters()
+
 export const command = 'export'
 export const desc = 'Export firewall configuration in various formats'
 
@@ -32,6 +40,7 @@ export const builder = {
     type: 'string',
     description: 'Path to firewall config file (defaults to .doorman.json)',
   },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
   provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
   projectId: {
     alias: 'p',
@@ -53,7 +62,7 @@ export const builder = {
   format: {
     alias: 'f',
     type: 'string',
-    choices: ['json', 'yaml', 'terraform', 'markdown'],
+    choices: getExporterRegistry().getFormats(),
     description: 'Export format',
     default: 'json',
   },
@@ -66,7 +75,7 @@ export const builder = {
     alias: 's',
     type: 'string',
     choices: ['local', 'remote'],
-    description: 'Export from local config or remote Vercel',
+    description: 'Export from local config or the remote provider',
     default: 'local',
   },
   debug: {
@@ -77,99 +86,17 @@ export const builder = {
   ci: { type: 'boolean', description: 'Run in CI mode (non-interactive)', default: false },
 }
 
-const generateMarkdownReport = (config: FirewallConfig): string => {
-  const { rules, ips = [], version, updatedAt } = config
-
-  let markdown = `# Vercel Firewall Configuration Report\n\n`
-  markdown += `**Version:** ${version}\n`
-  markdown += `**Last Updated:** ${updatedAt ? new Date(updatedAt).toLocaleString() : 'Unknown'}\n`
-  markdown += `**Generated:** ${new Date().toLocaleString()}\n\n`
-
-  markdown += `## Custom Rules (${rules.length})\n\n`
-  if (rules.length > 0) {
-    rules.forEach((rule: CustomRule, index: number) => {
-      markdown += `### ${index + 1}. ${rule.name}\n\n`
-      markdown += `- **ID:** \`${rule.id}\`\n`
-      markdown += `- **Description:** ${rule.description || 'No description'}\n`
-      markdown += `- **Action:** ${rule.action.mitigate.action}\n`
-      markdown += `- **Active:** ${rule.active ? '✅ Yes' : '❌ No'}\n`
-
-      if (rule.action.mitigate.rateLimit) {
-        markdown += `- **Rate Limit:** ${rule.action.mitigate.rateLimit.requests} requests per ${rule.action.mitigate.rateLimit.window}\n`
-      }
-
-      markdown += `- **Conditions:**\n`
-      rule.conditionGroup.forEach((group, groupIndex) => {
-        markdown += `  - Group ${groupIndex + 1}:\n`
-        group.conditions.forEach((condition) => {
-          markdown += `    - ${condition.type} ${condition.op} \`${condition.value}\`\n`
-        })
-      })
-      markdown += `\n`
-    })
-  } else {
-    markdown += `No custom rules configured.\n\n`
-  }
-
-  markdown += `## IP Blocking Rules (${ips.length})\n\n`
-  if (ips.length > 0) {
-    markdown += `| IP Address | Hostname | Action |\n`
-    markdown += `|------------|----------|--------|\n`
-    ips.forEach((ip: IPBlockingRule) => {
-      markdown += `| \`${ip.ip}\` | ${ip.hostname || 'N/A'} | ${ip.action} |\n`
-    })
-  } else {
-    markdown += `No IP blocking rules configured.\n`
-  }
-
-  return markdown
-}
-
-const generateTerraformConfig = (config: FirewallConfig): string => {
-  const { rules, ips = [] } = config
-
-  let terraform = `# Vercel Firewall Configuration\n`
-  terraform += `# Generated on ${new Date().toISOString()}\n\n`
-  terraform += `# Note: This is a conceptual Terraform configuration\n`
-  terraform += `# A Vercel Terraform provider would need to be implemented for actual use\n\n`
-
-  rules.forEach((rule: CustomRule, index: number) => {
-    terraform += `resource "vercel_firewall_rule" "rule_${index}" {\n`
-    terraform += `  name        = "${rule.name}"\n`
-    terraform += `  description = "${rule.description || ''}"\n`
-    terraform += `  active      = ${rule.active}\n`
-    terraform += `  action      = "${rule.action.mitigate.action}"\n`
-
-    if (rule.action.mitigate.rateLimit) {
-      terraform += `  rate_limit {\n`
-      terraform += `    requests = ${rule.action.mitigate.rateLimit.requests}\n`
-      terraform += `    window   = "${rule.action.mitigate.rateLimit.window}"\n`
-      terraform += `  }\n`
-    }
-
-    terraform += `}\n\n`
-  })
-
-  ips.forEach((ip: IPBlockingRule, index: number) => {
-    terraform += `resource "vercel_ip_blocking_rule" "ip_${index}" {\n`
-    terraform += `  ip       = "${ip.ip}"\n`
-    terraform += `  hostname = "${ip.hostname || ''}"\n`
-    terraform += `  action   = "${ip.action}"\n`
-    terraform += `}\n\n`
-  })
-
-  return terraform
-}
-
 export const handler = async (argv: Arguments<ExportOptions>) => {
   try {
     let config: FirewallConfig
+    let provider: ProviderType
 
     if (argv.source === 'remote') {
       // Remote export needs credentials
       await withCredentials(
         {
           config: argv.config,
+          env: argv.env,
           provider: argv.provider,
           projectId: argv.projectId,
           teamId: argv.teamId,
@@ -181,53 +108,24 @@ export const handler = async (argv: Arguments<ExportOptions>) => {
           ci: argv.ci,
           errorContext: 'exporting configuration',
         },
-        async ({ client }) => {
+        async (ctx) => {
           logger.start('Fetching remote configuration...')
-          config = await client.fetchFirewallConfig()
+          config = fromUnifiedConfig(await ctx.provider.fetchConfig())
+          provider = ctx.provider.name
         },
       )
     } else {
-      config = await getConfig(argv.config)
+      config = await getConfig(argv.config, 'required', argv.env)
+      provider =
+        argv.provider || ProviderDetector.detect(config as unknown as Record<string, unknown>).provider || 'vercel'
     }
 
     logger.start(`Exporting configuration in ${argv.format} format...`)
 
-    let output: string
-    let defaultExtension: string
-
-    switch (argv.format) {
-      case 'json':
-        output = JSON.stringify(config!, null, 2)
-        defaultExtension = 'json'
-        break
-
-      case 'yaml':
-        output = `# Vercel Firewall Configuration\n`
-        output += `version: ${config!.version}\n`
-        output += `updatedAt: "${config!.updatedAt}"\n`
-        output += `rules:\n`
-        config!.rules.forEach((rule: CustomRule) => {
-          output += `  - name: "${rule.name}"\n`
-          output += `    id: "${rule.id}"\n`
-          output += `    active: ${rule.active}\n`
-          output += `    action: "${rule.action.mitigate.action}"\n`
-        })
-        defaultExtension = 'yaml'
-        break
-
-      case 'terraform':
-        output = generateTerraformConfig(config!)
-        defaultExtension = 'tf'
-        break
-
-      case 'markdown':
-        output = generateMarkdownReport(config!)
-        defaultExtension = 'md'
-        break
-
-      default:
-        throw new Error(`Unsupported format: ${argv.format}`)
-    }
+    const registry = getExporterRegistry()
+    const { result: output, warnings } = registry.export(argv.format!, config!, { provider: provider! })
+    warnings.forEach((warning) => logger.warn(TranslationWarningSystem.formatWarning(warning)))
+    const defaultExtension = registry.get(argv.format!).extension
 
     const outputPath = argv.output || `firewall-export.${defaultExtension}`
 
@@ -0,0 +1,135 @@
+import chalk from 'chalk'
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs'
+import { basename, join } from 'path'
+import { Arguments } from 'yargs'
+import { configErrors, migrationErrors } from '../lib/errors'
+import { logger } from '../lib/logger'
+import type { ProviderType } from '../lib/providers/IFirewallProvider'
+import { TranslationWarningSystem } from '../lib/translators'
+import { prompt } from '../lib/ui/prompt'
+import { saveConfig } from '../lib/utils/config'
+import { handleCommandError } from '../lib/utils/handleCommandError'
+import { importTerraformConfig, readTerraformConfiguration, readTerraformState } from '../lib/utils/terraformImport'
+import type { TerraformImportResult, TerraformResource } from '../lib/utils/terraformImport'
+
+interface ImportOptions {
+  path: string
+  from: 'terraform'
+  provider?: ProviderType
+  output?: string
+  force?: boolean
+  /** Not supported, see the handler */
+  env?: string
+}
+
+export const command = 'import <path>'
+export const desc = 'Create a config from firewall rules managed by another tool'
+
+export const builder = {
+  path: {
+    type: 'string',
+    description: 'File or directory to import: .tf files or a terraform.tfstate',
+  },
+  from: {
+    type: 'string',
+    choices: ['terraform'],
+    description: 'Tool the rules are managed with',
+    demandOption: true,
+  },
+  provider: {
+    type: 'string',
+    choices: ['vercel', 'cloudflare'],
+    description: 'Provider to import the firewall of (auto-detected)',
+  },
+  output: {
+    alias: 'o',
+    type: 'string',
+    description: 'Path for the new config file',
+    default: '.doorman.json',
+  },
+  force: {
+    alias: 'f',
+    type: 'boolean',
+    description: 'Overwrite existing config file',
+    default: false,
+  },
+}
+
+const isStateFile = (path: string, content: string) =>
+  /\.(tfstate|json)$/.test(path) || content.trimStart().startsWith('{')
+
+/**
+ * Reads the resources of a Terraform file, or of every `.tf` file in a directory. A
+ * directory without `.tf` files is read from its `terraform.tfstate`.
+ */
+const readResources = (path: string): TerraformResource[] => {
+  if (!existsSync(path)) {
+    throw migrationErrors.importFailed(path, 'the path does not exist')
+  }
+
+  let files = [path]
+  if (statSync(path).isDirectory()) {
+    const configurations = readdirSync(path)
+      .filter((file) => file.endsWith('.tf'))
+      .sort()
+      .map((file) => join(path, file))
+    files = configurations.length > 0 ? configurations : [join(path, 'terraform.tfstate')].filter(existsSync)
+  }
+
+  if (files.length === 0) {
+    throw migrationErrors.importFailed(path, 'the directory has no .tf files or terraform.tfstate')
+  }
+
+  return files.flatMap((file) => {
+    const content = readFileSync(file, 'utf8')
+    try {
+      return isStateFile(file, content) ? readTerraformState(content) : readTerraformConfiguration(content)
+    } catch (error) {
+      throw migrationErrors.importFailed(basename(file), error instanceof Error ? error.message : String(error))
+    }
+  })
+}
+
+export const handler = async (argv: Arguments<ImportOptions>) => {
+  try {
+    const output = argv.output || '.doorman.json'
+
+    if (argv.env) {
+      throw configErrors.environmentNotSupported(argv.env, 'import creates a new config file without environments')
+    }
+
+    if (existsSync(output) && !argv.force) {
+      const overwrite = await prompt(`Config file ${output} already exists. Do you want to overwrite it?`, {
+        type: 'confirm',
+      })
+
+      if (!overwrite) {
+        logger.info(chalk.yellow('Import cancelled.'))
+        return
+      }
+    }
+
+    const resources = readResources(argv.path)
+    let result: TerraformImportResult
+    try {
+      result = importTerraformConfig(resources, argv.provider)
+    } catch (error) {
+      throw migrationErrors.importFailed(argv.path, error instanceof Error ? error.message : String(error))
+    }
+
+    await saveConfig(result.config, output)
+
+    logger.log(chalk.bold(`\n📥 Imported ${result.provider} firewall from ${argv.path}\n`))
+    result.resources.forEach((address) => logger.log(`  ${chalk.green('✓')} ${address}`))
+    logger.log(
+      chalk.dim(`\n  ${result.config.rules.length} rule(s), ${result.config.ips?.length ?? 0} IP rule(s)`) + '\n',
+    )
+
+    result.warnings.forEach((warning) => logger.warn(TranslationWarningSystem.formatWarning(warning)))
+
+    logger.success(chalk.green(`Config written to ${output}`))
+    logger.info(chalk.dim('Run `diff` to check the config matches the deployed firewall.'))
+  } catch (error) {
+    handleCommandError(error, 'importing firewall config')
+  }
+}
@@ -1,15 +1,22 @@
 import * as add from './add'
+import * as apply from './apply'
 import * as backup from './backup'
+import * as cache from './cache'
 import * as diff from './diff'
 import * as download from './download'
 import * as exportCmd from './export'
+import * as importCmd from './import'
 import * as init from './init'
+import * as lint from './lint'
 import * as list from './list'
+import * as migrate from './migrate'
+import * as plan from './plan'
 import * as remove from './remove'
 import * as setup from './setup'
 import * as status from './status'
 import * as sync from './sync'
 import * as template from './template'
+import * as testRequests from './testRequests'
 import * as validate from './validate'
 import * as watch from './watch'
 
@@ -20,12 +27,19 @@ export const commands = [
   list,
   status,
   diff,
+  plan,
+  apply,
   sync,
   validate,
+  lint,
+  testRequests,
   download,
+  migrate,
   template,
   remove,
   backup,
   exportCmd,
+  importCmd,
   watch,
+  cache,
 ]
@@ -1,6 +1,7 @@
 import chalk from 'chalk'
 import { existsSync } from 'fs'
 import { Arguments } from 'yargs'
+import { configErrors } from '../lib/errors'
 import { logger } from '../lib/logger'
 import { prompt } from '../lib/ui/prompt'
 import { createEmptyConfig } from '../lib/utils/createEmptyConfig'
@@ -14,6 +15,8 @@ interface InitOptions {
   interactive?: boolean
   projectId?: string
   teamId?: string
+  /** Not supported, see the handler */
+  env?: string
 }
 
 export const command = 'init [template]'
@@ -143,6 +146,10 @@ export const handler = async (argv: Arguments<InitOptions>) => {
   try {
     const configPath = argv.config || '.doorman.json'
 
+    if (argv.env) {
+      throw configErrors.environmentNotSupported(argv.env, 'init creates a new config file without environments')
+    }
+
     if (argv.interactive) {
       showWelcomeMessage()
     }
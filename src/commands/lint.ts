@@ -0,0 +1,84 @@
+import chalk from 'chalk'
+import { Arguments } from 'yargs'
+import { validationErrors } from '../lib/errors/helpers'
+import { logger } from '../lib/logger'
+import type { ProviderType } from '../lib/providers/IFirewallProvider'
+import { getConfig } from '../lib/utils/config'
+import { ConfigHealthChecker } from '../lib/utils/configHealth'
+import {
+  FINDINGS_FORMATS,
+  FindingsFormat,
+  healthFindings,
+  reportFindings,
+  translationFindings,
+} from '../lib/utils/findings'
+import { handleCommandError } from '../lib/utils/handleCommandError'
+import { detectRegexEngines } from '../lib/utils/regexSafety'
+
+interface LintOptions {
+  config?: string
+  env?: string
+  provider?: ProviderType
+  format?: 'text' | FindingsFormat
+  output?: string
+}
+
+export const command = 'lint'
+export const desc = 'Check the local config for shadowed, duplicate and contradictory rules and unsafe patterns'
+
+export const builder = {
+  config: {
+    alias: 'c',
+    type: 'string',
+    description: 'Path to firewall config file (defaults to .doorman.json)',
+  },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
+  provider: {
+    type: 'string',
+    choices: ['vercel', 'cloudflare'],
+    description: 'Provider whose regex engine patterns are checked against (auto-detected)',
+  },
+  format: {
+    alias: 'f',
+    type: 'string',
+    choices: ['text', ...FINDINGS_FORMATS],
+    description: 'Output format: text, or json, sarif or junit to report findings to CI',
+    default: 'text',
+  },
+  output: {
+    alias: 'o',
+    type: 'string',
+    description: 'File to write json, sarif or junit output to',
+  },
+}
+
+export const handler = async (argv: Arguments<LintOptions>) => {
+  try {
+    const config = await getConfig(argv.config, 'required', argv.env)
+    const engines = detectRegexEngines(config, argv.provider)
+    const result = ConfigHealthChecker.check(config, engines)
+
+    if (argv.format && argv.format !== 'text') {
+      // Rules deployed to Cloudflare are translated, which can change what they match
+      const translation = engines.includes('cloudflare') ? translationFindings(config.rules) : []
+      await reportFindings(
+        [...healthFindings(result.issues), ...translation],
+        argv.format,
+        argv.config,
+        argv.output,
+        argv.env,
+      )
+      return
+    }
+
+    logger.log(ConfigHealthChecker.formatHealthReport(result))
+
+    const errors = result.issues.filter((issue) => issue.severity === 'error')
+    if (errors.length > 0) {
+      throw validationErrors.failed(errors.length)
+    }
+    logger.success(chalk.green('No errors found'))
+  } catch (error) {
+    handleCommandError(error, 'linting configuration')
+  }
+}
@@ -3,11 +3,12 @@ import { Arguments } from 'yargs'
 import { z } from 'zod'
 import { logger } from '../lib/logger'
 import { configVersionSchema } from '../lib/schemas/firewallSchemas'
-import { IPBlockingRule } from '../lib/types'
 import { displayIPBlockingTable, displayRulesTable } from '../lib/ui/table'
+import { fromUnifiedConfig } from '../lib/utils/unifiedConfig'
 import { withCredentials } from '../lib/utils/withCredentials'
 
 interface ListOptions {
+  env?: string
   provider?: 'vercel' | 'cloudflare'
   projectId: string
   teamId: string
@@ -22,13 +23,14 @@ interface ListOptions {
 }
 
 export const command = 'list [configVersion]'
-export const desc = 'List Vercel Firewall rules, optionally for a specific configuration version'
+export const desc = 'List firewall rules, optionally for a specific configuration version'
 
 export const builder = {
   configVersion: {
     type: 'number',
     description: 'Specific configuration version to fetch (defaults to latest)',
   },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
   provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
   projectId: {
     alias: 'p',
@@ -65,6 +67,7 @@ export const builder = {
 export const handler = async (argv: Arguments<ListOptions>) => {
   await withCredentials(
     {
+      env: argv.env,
       provider: argv.provider,
       projectId: argv.projectId,
       teamId: argv.teamId,
@@ -78,7 +81,7 @@ export const handler = async (argv: Arguments<ListOptions>) => {
       skipValidation: true,
       errorContext: 'listing firewall rules',
     },
-    async ({ client, token, projectId, teamId }) => {
+    async ({ provider }) => {
       // Validate version if provided
       if (argv.configVersion !== undefined) {
         try {
@@ -93,18 +96,17 @@ export const handler = async (argv: Arguments<ListOptions>) => {
       }
 
       logger.start(`Fetching firewall configuration${argv.configVersion ? ` version ${argv.configVersion}` : ''} ...`)
-      logger.verbose(`Token: ${token}\t projectId: ${projectId}\t teamId: ${teamId}`)
-
-      const liveConfig = await client.fetchFirewallConfig(argv.configVersion)
+      const liveConfig = fromUnifiedConfig(await provider.fetchConfig(argv.configVersion))
 
       const configRules = liveConfig.rules
-      const ipBlockingRules = liveConfig.ips as IPBlockingRule[]
+      const ipBlockingRules = liveConfig.ips || []
 
-      const lastUpdated = new Date(liveConfig.updatedAt)
-      const formattedDate = new Intl.DateTimeFormat('en-US', {
-        dateStyle: 'medium',
-        timeStyle: 'medium',
-      }).format(lastUpdated)
+      const formattedDate = liveConfig.updatedAt
+        ? new Intl.DateTimeFormat('en-US', {
+            dateStyle: 'medium',
+            timeStyle: 'medium',
+          }).format(new Date(liveConfig.updatedAt))
+        : 'unknown'
 
       logger.info(
         `Found ${chalk.cyan(configRules.length)} custom rules and ${chalk.cyan(ipBlockingRules.length)} IP blocking rules\n` +
@@ -132,8 +134,9 @@ export const handler = async (argv: Arguments<ListOptions>) => {
         }
 
         if (configRules.length > 0) {
+          // Rules are listed in the order the provider evaluates them
           logger.log(chalk.bold.underline('\nCustom Rules:'), '\n')
-          displayRulesTable(configRules, { showStatus: false })
+          displayRulesTable(configRules, { showStatus: false, showOrder: true })
         } else {
           logger.info(chalk.cyan('No custom rules found'))
         }
@@ -0,0 +1,143 @@
+import chalk from 'chalk'
+import { writeFileSync } from 'fs'
+import { Arguments } from 'yargs'
+import { migrationErrors } from '../lib/errors'
+import { logger } from '../lib/logger'
+import type { ProviderType } from '../lib/providers/IFirewallProvider'
+import { ProviderDetector } from '../lib/providers/ProviderDetector'
+import type { TranslationWarning } from '../lib/translators'
+import { getConfig } from '../lib/utils/config'
+import { getConfigFormat, serializeConfig } from '../lib/utils/configFormat'
+import { handleCommandError } from '../lib/utils/handleCommandError'
+import { migrateConfig } from '../lib/utils/migrate'
+import type { RuleMigrationStatus } from '../lib/utils/migrate'
+
+interface MigrateOptions {
+  config?: string
+  env?: string
+  from?: ProviderType
+  to: ProviderType
+  output?: string
+  projectId?: string
+  teamId?: string
+  zoneId?: string
+  format?: 'table' | 'json'
+}
+
+export const command = 'migrate'
+export const desc = 'Convert the config to another provider and report how each rule translated'
+
+export const builder = {
+  config: {
+    alias: 'c',
+    type: 'string',
+    description: 'Path to firewall config file (defaults to .doorman.json)',
+  },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
+  from: {
+    type: 'string',
+    choices: ['vercel', 'cloudflare'],
+    description: 'Provider the config is written for (auto-detected)',
+  },
+  to: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Provider to migrate to', demandOption: true },
+  output: {
+    alias: 'o',
+    type: 'string',
+    description: 'Path to write the migrated config to, JSON or YAML (defaults to .doorman.<to>.json)',
+  },
+  projectId: { alias: 'p', type: 'string', description: 'Vercel Project ID for the migrated config' },
+  teamId: { alias: 't', type: 'string', description: 'Vercel Team ID for the migrated config' },
+  zoneId: { type: 'string', description: 'Cloudflare Zone ID for the migrated config' },
+  format: { alias: 'f', type: 'string', choices: ['table', 'json'], description: 'Report format', default: 'table' },
+}
+
+const statusLabels: Record<RuleMigrationStatus, string> = {
+  full: chalk.green('✓ full'),
+  lossy: chalk.yellow('~ lossy'),
+  failed: chalk.red('✗ failed'),
+}
+
+const severityIcons: Record<TranslationWarning['severity'], string> = {
+  critical: chalk.red('🚨'),
+  warning: chalk.yellow('⚠️'),
+  info: chalk.blue('ℹ️'),
+}
+
+export const handler = async (argv: Arguments<MigrateOptions>) => {
+  try {
+    const config = await getConfig(argv.config, 'required', argv.env)
+    const from = argv.from || ProviderDetector.detect(config as unknown as Record<string, unknown>).provider || 'vercel'
+    const output = argv.output || `.doorman.${argv.to}.json`
+
+    const result = migrateConfig(config, from, argv.to, {
+      projectId: argv.projectId,
+      teamId: argv.teamId,
+      zoneId: argv.zoneId,
+    })
+    writeFileSync(output, serializeConfig(result.config, getConfigFormat(output)))
+
+    const failed = result.rules.filter((rule) => rule.status === 'failed')
+    const counts = {
+      full: result.rules.filter((rule) => rule.status === 'full').length,
+      lossy: result.rules.filter((rule) => rule.status === 'lossy').length,
+      failed: failed.length,
+    }
+
+    if (argv.format === 'json') {
+      // Not through the logger, which prefixes lines in CI and would break parsing the report
+      process.stdout.write(
+        `${JSON.stringify(
+          {
+            from: result.from,
+            to: result.to,
+            output,
+            rules: result.rules.map(({ name, id, status, warnings }) => ({
+              name,
+              id,
+              status,
+              warnings: warnings.map(({ severity, category, message, field, suggestion }) => ({
+                severity,
+                category,
+                message,
+                field,
+                suggestion,
+              })),
+            })),
+            summary: { ...counts, warnings: result.summary },
+          },
+          null,
+          2,
+        )}\n`,
+      )
+    } else {
+      logger.log(chalk.bold(`\n🔀 Migration ${result.from} → ${result.to} ${chalk.dim(`(${output})`)}\n`))
+      result.rules.forEach(({ name, status, warnings }) => {
+        logger.log(`  ${statusLabels[status]}  ${name}`)
+        warnings.forEach((warning) => {
+          logger.log(`      ${severityIcons[warning.severity]} ${warning.message}`)
+          logger.log(chalk.dim(`         ${warning.explanation}`))
+        })
+      })
+
+      const { critical, warning, info } = result.summary.bySeverity
+      logger.log(
+        `\n  ${counts.full} full, ${counts.lossy} lossy, ${counts.failed} failed ` +
+          chalk.dim(`(${critical} critical, ${warning} warning(s), ${info} info)`),
+      )
+      logger.log('')
+    }
+
+    if (result.summary.hasBlockingIssues) {
+      throw migrationErrors.missingFeatures(
+        result.to,
+        failed.map((rule) => rule.name),
+      )
+    }
+
+    if (argv.format !== 'json') {
+      logger.success(chalk.green(`Migrated config written to ${output}`))
+    }
+  } catch (error) {
+    handleCommandError(error, 'migrating firewall config')
+  }
+}
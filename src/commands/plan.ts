@@ -0,0 +1,161 @@
+import chalk from 'chalk'
+import { Arguments } from 'yargs'
+import { logger } from '../lib/logger'
+import {
+  displayBypassTable,
+  displayIPBlockingTable,
+  displayRulesTable,
+  displaySecurityTable,
+  RULE_STATUS_MAP,
+} from '../lib/ui/table'
+import { createPlan, DEFAULT_PLAN_PATH, writePlan } from '../lib/utils/plan'
+import { enforcePolicies } from '../lib/utils/policies'
+import { toConfigIPRule, toConfigRule, toUnifiedConfig } from '../lib/utils/unifiedConfig'
+import { withCredentials } from '../lib/utils/withCredentials'
+
+interface PlanOptions {
+  config?: string
+  env?: string
+  provider?: 'vercel' | 'cloudflare'
+  projectId?: string
+  teamId?: string
+  token?: string
+  apiToken?: string
+  zoneId?: string
+  accountId?: string
+  out?: string
+  debug?: boolean
+  ci?: boolean
+  policies?: string
+  allowDelete?: boolean
+}
+
+export const command = 'plan'
+export const desc = 'Compute the changes a sync would make and save them to a plan file for `apply --plan`'
+
+export const builder = {
+  config: { alias: 'c', type: 'string', description: 'Path to firewall config file' },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
+  provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
+  projectId: { alias: 'p', type: 'string', description: 'Vercel Project ID' },
+  teamId: { alias: 't', type: 'string', description: 'Vercel Team ID' },
+  token: { type: 'string', description: 'Vercel API token (defaults to VERCEL_TOKEN env var)' },
+  apiToken: { type: 'string', description: 'Cloudflare API token (defaults to CLOUDFLARE_API_TOKEN env var)' },
+  zoneId: { type: 'string', description: 'Cloudflare Zone ID (defaults to CLOUDFLARE_ZONE_ID env var)' },
+  accountId: { type: 'string', description: 'Cloudflare Account ID (optional)' },
+  out: { alias: 'o', type: 'string', description: 'Path to write the plan file', default: DEFAULT_PLAN_PATH },
+  debug: { type: 'boolean', description: 'Enable debug logging', default: false },
+  ci: { type: 'boolean', description: 'Run in CI mode (non-interactive)', default: false },
+  policies: {
+    type: 'string',
+    description: 'Path to a policies file, used when DOORMAN_POLICIES is not set (defaults to doorman.policies.json)',
+  },
+  allowDelete: { type: 'boolean', description: 'Allow deleting rules when a policy requires it', default: false },
+}
+
+export const handler = async (argv: Arguments<PlanOptions>) => {
+  await withCredentials(
+    {
+      config: argv.config,
+      env: argv.env,
+      provider: argv.provider,
+      projectId: argv.projectId,
+      teamId: argv.teamId,
+      token: argv.token,
+      apiToken: argv.apiToken,
+      zoneId: argv.zoneId,
+      accountId: argv.accountId,
+      debug: argv.debug,
+      ci: argv.ci,
+      errorContext: 'creating plan',
+    },
+    async ({ config, provider }) => {
+      const unifiedConfig = toUnifiedConfig(config, provider.name)
+
+      logger.start(chalk.magenta('Calculating firewall configuration changes...'))
+      const changes = await provider.getChanges(unifiedConfig)
+      enforcePolicies(config, argv.policies, { changes, allowDelete: argv.allowDelete })
+
+      const toAdd = changes.rulesToAdd.map(toConfigRule)
+      const toUpdate = changes.rulesToUpdate.map(toConfigRule)
+      const toDelete = changes.rulesToDelete.map(toConfigRule)
+      const toMove = (changes.rulesToMove || []).map(toConfigRule)
+      const ipsToAdd = (changes.ipsToAdd || []).map(toConfigIPRule)
+      const ipsToUpdate = (changes.ipsToUpdate || []).map(toConfigIPRule)
+      const ipsToDelete = (changes.ipsToDelete || []).map(toConfigIPRule)
+
+      if (toAdd.length > 0 || toUpdate.length > 0 || toDelete.length > 0 || toMove.length > 0) {
+        logger.log(chalk.bold('\nPlanned Custom Rule Changes:\n'))
+        displayRulesTable(
+          [
+            ...toAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new })),
+            ...toUpdate.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.modified })),
+            ...toDelete.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.deleted })),
+            ...toMove.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.moved })),
+          ],
+          { showStatus: true },
+        )
+      }
+
+      if (ipsToAdd.length > 0 || ipsToUpdate.length > 0 || ipsToDelete.length > 0) {
+        logger.log(chalk.bold('\nPlanned IP Blocking Rule Changes:\n'))
+        displayIPBlockingTable(
+          [
+            ...ipsToAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new, id: rule.id || undefined })),
+            ...ipsToUpdate.map((rule) => ({
+              ...rule,
+              changeStatus: RULE_STATUS_MAP.modified,
+              id: rule.id || undefined,
+            })),
+            ...ipsToDelete.map((rule) => ({
+              ...rule,
+              changeStatus: RULE_STATUS_MAP.deleted,
+              id: rule.id || undefined,
+            })),
+          ],
+          { showStatus: true },
+        )
+      }
+
+      const securityChanges = changes.securityChanges || []
+      if (securityChanges.length > 0) {
+        logger.log(chalk.bold('\nPlanned Managed Rules & Attack Mode Changes:\n'))
+        displaySecurityTable(
+          securityChanges.map(({ section, id, from, to }) => ({
+            section,
+            id,
+            value: to,
+            changeStatus: from ? RULE_STATUS_MAP.modified : RULE_STATUS_MAP.new,
+          })),
+          { showStatus: true },
+        )
+      }
+
+      const bypassToAdd = changes.bypassToAdd || []
+      const bypassToDelete = changes.bypassToDelete || []
+      if (bypassToAdd.length > 0 || bypassToDelete.length > 0) {
+        logger.log(chalk.bold('\nPlanned Bypass Rule Changes:\n'))
+        displayBypassTable(
+          [
+            ...bypassToAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new })),
+            ...bypassToDelete.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.deleted })),
+          ],
+          { showStatus: true },
+        )
+      }
+
+      const plan = createPlan(provider.name, provider.getTarget(), unifiedConfig, changes, argv.env)
+      writePlan(plan, argv.out)
+
+      if (!changes.hasChanges) {
+        logger.success(chalk.green('No changes detected. Firewall rules are in sync.'))
+      }
+      logger.success(
+        chalk.green(
+          `Plan saved to ${argv.out || DEFAULT_PLAN_PATH} ${chalk.dim(`(remote v${changes.version ?? 'unknown'})`)}`,
+        ),
+      )
+      logger.log(chalk.dim(`Run \`apply --plan ${argv.out || DEFAULT_PLAN_PATH}\` to apply exactly these changes.`))
+    },
+  )
+}
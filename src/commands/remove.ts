@@ -1,10 +1,13 @@
 import chalk from 'chalk'
 import { LogLevels } from 'consola'
 import { Arguments } from 'yargs'
+import { configErrors } from '../lib/errors'
 import { logger } from '../lib/logger'
 import { CustomRule, FirewallConfig, IPBlockingRule } from '../lib/types'
+import type { VercelBypassRule } from '../lib/types/vercel'
 import { prompt } from '../lib/ui/prompt'
 import { getConfig, saveConfig } from '../lib/utils/config'
+import { removeEnvironmentRules } from '../lib/utils/environments'
 import { handleCommandError } from '../lib/utils/handleCommandError'
 
 interface RemoveOptions {
@@ -13,10 +16,12 @@ interface RemoveOptions {
   name?: string
   id?: string[]
   ip?: string
+  domain?: string
   disabled?: boolean
   all?: boolean
   force?: boolean
   config?: string
+  env?: string
   dryRun?: boolean
   debug?: boolean
 }
@@ -28,9 +33,9 @@ export const desc = 'Remove a firewall rule or IP entry from your configuration'
 export const builder = {
   type: {
     type: 'string',
-    description: 'What to remove: "rule" (default) or "ip"',
+    description: 'What to remove: "rule" (default), "ip" or "bypass"',
     default: 'rule',
-    choices: ['rule', 'ip'],
+    choices: ['rule', 'ip', 'bypass'],
   },
   interactive: {
     alias: 'i',
@@ -50,7 +55,11 @@ export const builder = {
   },
   ip: {
     type: 'string',
-    description: 'Remove IP rule by IP address',
+    description: 'Remove IP or bypass rule by IP address',
+  },
+  domain: {
+    type: 'string',
+    description: 'Only remove the bypass rule for this domain',
   },
   disabled: {
     type: 'boolean',
@@ -73,6 +82,11 @@ export const builder = {
     type: 'string',
     description: 'Config file path',
   },
+  env: {
+    alias: 'e',
+    type: 'string',
+    description: 'Remove rules from this environment only, through its removeRules and addRules',
+  },
   dryRun: {
     alias: 'd',
     type: 'boolean',
@@ -170,6 +184,23 @@ function displayIPRemovalSummary(ips: IPBlockingRule[]): void {
   }
 }
 
+/**
+ * Label a bypass rule by its source IP, domain and note.
+ */
+function formatBypassRule(rule: VercelBypassRule): string {
+  const note = rule.note ? ` — ${rule.note}` : ''
+  return `${rule.sourceIp} on ${rule.domain || 'all domains'}${note}`
+}
+
+/**
+ * Display a summary of bypass rules that will be / were removed.
+ */
+function displayBypassRemovalSummary(rules: VercelBypassRule[]): void {
+  for (const rule of rules) {
+    logger.log(chalk.dim(`  - ${formatBypassRule(rule)}`))
+  }
+}
+
 /**
  * Confirm removal with the user unless --force is set.
  */
@@ -177,7 +208,7 @@ async function confirmRemoval(
   count: number,
   force: boolean,
   isAll: boolean,
-  itemType: 'rule' | 'IP rule' = 'rule',
+  itemType: 'rule' | 'IP rule' | 'bypass rule' = 'rule',
 ): Promise<boolean> {
   if (force) return true
 
@@ -203,9 +234,16 @@ export const handler = async (argv: Arguments<RemoveOptions>) => {
 
     const ruleType = argv.type || 'rule'
 
+    if (argv.env && ruleType !== 'rule') {
+      throw configErrors.environmentNotSupported(
+        argv.env,
+        `environments only change custom rules, so ${ruleType} rules are removed from the base config`,
+      )
+    }
+
     // Load config
     logger.start('Loading configuration...')
-    const config = await getConfig(argv.config)
+    const config = await getConfig(argv.config, 'required', argv.env)
 
     if (ruleType === 'ip') {
       // --- IP Rule Removal ---
@@ -279,6 +317,72 @@ export const handler = async (argv: Arguments<RemoveOptions>) => {
 
       await saveConfig(updatedConfig, argv.config)
       logger.success(chalk.green(`✔ Removed ${toRemove.length} IP rule(s) from configuration`))
+    } else if (ruleType === 'bypass') {
+      // --- Bypass Rule Removal ---
+      const currentBypass = config.bypass || []
+
+      if (currentBypass.length === 0) {
+        logger.info('No bypass rules in configuration.')
+        return
+      }
+
+      let toRemove: VercelBypassRule[] = []
+
+      if (argv.interactive) {
+        const selected = (await prompt('Select bypass rules to remove:', {
+          type: 'multiselect',
+          options: currentBypass.map(formatBypassRule),
+        })) as string[]
+
+        toRemove = currentBypass.filter((rule) => selected.includes(formatBypassRule(rule)))
+      } else if (argv.ip) {
+        toRemove = currentBypass.filter(
+          (rule) => rule.sourceIp === argv.ip && (argv.domain === undefined || rule.domain === argv.domain),
+        )
+        if (toRemove.length === 0) {
+          logger.error(
+            chalk.red(`No bypass rule found matching "${argv.ip}"${argv.domain ? ` on "${argv.domain}"` : ''}`),
+          )
+          logger.log(chalk.dim('\nCurrent bypass rules:'))
+          displayBypassRemovalSummary(currentBypass)
+          process.exit(1)
+        }
+      } else if (argv.all) {
+        toRemove = [...currentBypass]
+      } else {
+        logger.error('Specify --ip, --interactive, or --all to select bypass rules to remove.')
+        process.exit(1)
+      }
+
+      if (toRemove.length === 0) {
+        logger.info('No bypass rules selected for removal.')
+        return
+      }
+
+      // Show what will be removed
+      logger.log(chalk.cyan(`\n${argv.dryRun ? 'Would remove' : 'Removing'} ${toRemove.length} bypass rule(s):`))
+      displayBypassRemovalSummary(toRemove)
+
+      if (argv.dryRun) {
+        logger.log(chalk.dim('\nDry run — no changes made.'))
+        return
+      }
+
+      // Confirm
+      if (!(await confirmRemoval(toRemove.length, argv.force || false, argv.all || false, 'bypass rule'))) {
+        logger.info('Cancelled.')
+        return
+      }
+
+      // Remove, keeping an empty list so the remote bypass rules are deleted on the next sync
+      const removeSet = new Set(toRemove)
+      const updatedConfig: FirewallConfig = {
+        ...config,
+        bypass: currentBypass.filter((rule) => !removeSet.has(rule)),
+      }
+
+      await saveConfig(updatedConfig, argv.config)
+      logger.success(chalk.green(`✔ Removed ${toRemove.length} bypass rule(s) from configuration`))
     } else {
       // --- Custom Rule Removal ---
       const currentRules = config.rules || []
@@ -386,23 +490,33 @@ export const handler = async (argv: Arguments<RemoveOptions>) => {
 
       // Remove rules
       const removeSet = new Set(toRemove)
-      const updatedConfig: FirewallConfig = {
-        ...config,
-        rules: currentRules.filter((r) => !removeSet.has(r)),
-      }
+      const remainingRules = currentRules.filter((r) => !removeSet.has(r))
 
       // Warn if config will have empty rules
-      if (updatedConfig.rules.length === 0) {
+      if (remainingRules.length === 0) {
         logger.warn(chalk.yellow('⚠️  Configuration will have no rules after removal.'))
       }
 
+      // The loaded config is resolved for the environment, so the overlay is edited in the stored one
+      const updatedConfig: FirewallConfig = argv.env
+        ? removeEnvironmentRules(await getConfig(argv.config, 'raw'), argv.env, toRemove)
+        : { ...config, rules: remainingRules }
+
       await saveConfig(updatedConfig, argv.config)
-      logger.success(chalk.green(`✔ Removed ${toRemove.length} rule(s) from configuration`))
+      logger.success(
+        chalk.green(
+          `✔ Removed ${toRemove.length} rule(s) from ${argv.env ? `the ${argv.env} environment` : 'configuration'}`,
+        ),
+      )
       displayRemovalSummary(toRemove)
     }
 
     logger.log('')
-    logger.log(chalk.dim(`Run ${chalk.cyan('vercel-doorman sync')} to deploy these changes.`))
+    logger.log(
+      chalk.dim(
+        `Run ${chalk.cyan(`vercel-doorman sync${argv.env ? ` --env ${argv.env}` : ''}`)} to deploy these changes.`,
+      ),
+    )
   } catch (error) {
     handleCommandError(error, 'removing rule')
   }
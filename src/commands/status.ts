@@ -2,10 +2,14 @@ import chalk from 'chalk'
 import { Arguments } from 'yargs'
 import { logger } from '../lib/logger'
 import { ConfigHealthChecker } from '../lib/utils/configHealth'
-import { withCredentials } from '../lib/utils/withCredentials'
+import { getProviderDisplayName } from '../lib/utils/providerHelper'
+import { toConfigIPRule, toConfigRule, toUnifiedConfig } from '../lib/utils/unifiedConfig'
+import { withAllProviders, withCredentials } from '../lib/utils/withCredentials'
+import type { CommandContext, WithCredentialsOptions } from '../lib/utils/withCredentials'
 
 interface StatusOptions {
   config?: string
+  env?: string
   provider?: 'vercel' | 'cloudflare'
   projectId?: string
   teamId?: string
@@ -15,6 +19,7 @@ interface StatusOptions {
   accountId?: string
   debug?: boolean
   ci?: boolean
+  allProviders?: boolean
 }
 
 export const command = 'status'
@@ -26,6 +31,7 @@ export const builder = {
     type: 'string',
     description: 'Path to firewall config file (defaults to .doorman.json)',
   },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
   provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
   projectId: {
     alias: 'p',
@@ -50,76 +56,125 @@ export const builder = {
     default: false,
   },
   ci: { type: 'boolean', description: 'Run in CI mode (non-interactive)', default: false },
+  allProviders: {
+    type: 'boolean',
+    description: 'Check every provider configured in the config file',
+    default: false,
+  },
 }
 
-export const handler = async (argv: Arguments<StatusOptions>) => {
-  await withCredentials(
-    {
-      config: argv.config,
-      provider: argv.provider,
-      projectId: argv.projectId,
-      teamId: argv.teamId,
-      token: argv.token,
-      apiToken: argv.apiToken,
-      zoneId: argv.zoneId,
-      accountId: argv.accountId,
-      debug: argv.debug,
-      ci: argv.ci,
-      errorContext: 'checking status',
-    },
-    async ({ config, service }) => {
-      logger.start('Checking sync status...')
-
-      const { toAdd, toUpdate, toDelete, ipsToAdd, ipsToUpdate, ipsToDelete, version } =
-        await service.getChanges(config)
-
-      const hasCustomRuleChanges = toAdd.length > 0 || toUpdate.length > 0 || toDelete.length > 0
-      const hasIPRuleChanges = ipsToAdd.length > 0 || ipsToUpdate.length > 0 || ipsToDelete.length > 0
-      const hasVersionChange = config.version !== version
-
-      logger.log(chalk.bold('\n📊 Sync Status Summary\n'))
-
-      logger.log(`${chalk.dim('Local Version:')} ${chalk.yellow(config.version || 'unknown')}`)
-      logger.log(`${chalk.dim('Remote Version:')} ${chalk.yellow(version)}`)
-
-      if (hasVersionChange) {
-        logger.log(`${chalk.dim('Version Status:')} ${chalk.red('Out of sync')}`)
-      } else {
-        logger.log(`${chalk.dim('Version Status:')} ${chalk.green('In sync')}`)
-      }
-
-      logger.log('')
-
-      logger.log(`${chalk.dim('Custom Rules:')}`)
-      logger.log(`  ${chalk.green('+')} ${toAdd.length} to add`)
-      logger.log(`  ${chalk.cyan('~')} ${toUpdate.length} to update`)
-      logger.log(`  ${chalk.red('-')} ${toDelete.length} to delete`)
-
-      logger.log(`${chalk.dim('IP Blocking Rules:')}`)
-      logger.log(`  ${chalk.green('+')} ${ipsToAdd.length} to add`)
-      logger.log(`  ${chalk.cyan('~')} ${ipsToUpdate.length} to update`)
-      logger.log(`  ${chalk.red('-')} ${ipsToDelete.length} to delete`)
-
-      logger.log('')
-
-      if (!hasCustomRuleChanges && !hasIPRuleChanges && !hasVersionChange) {
-        logger.success(chalk.green('✅ Everything is in sync!'))
-      } else {
-        logger.warn(chalk.yellow('⚠️  Changes detected. Run `sync` to apply changes.'))
-
-        if (hasVersionChange) {
-          logger.info(chalk.dim('💡 Version mismatch detected - this will be updated during sync'))
-        }
-      }
-
-      if (config.updatedAt) {
-        logger.log(`\n${chalk.dim('Last Updated:')} ${new Date(config.updatedAt).toLocaleString()}`)
-      }
-
-      logger.log('\n' + chalk.bold('🏥 Configuration Health Check'))
-      const healthResult = ConfigHealthChecker.check(config)
-      const healthReport = ConfigHealthChecker.formatHealthReport(healthResult)
-      logger.log(healthReport)
-    },
+const checkStatus = async ({ config, provider, primary }: CommandContext) => {
+  logger.start('Checking sync status...')
+
+  const unifiedConfig = toUnifiedConfig(config, provider.name)
+  const changes = await provider.getChanges(unifiedConfig)
+  const { version } = changes
+
+  const toAdd = changes.rulesToAdd.map(toConfigRule)
+  const toUpdate = changes.rulesToUpdate.map(toConfigRule)
+  const toDelete = changes.rulesToDelete.map(toConfigRule)
+  const toMove = changes.rulesToMove || []
+  const ipsToAdd = (changes.ipsToAdd || []).map(toConfigIPRule)
+  const ipsToUpdate = (changes.ipsToUpdate || []).map(toConfigIPRule)
+  const ipsToDelete = (changes.ipsToDelete || []).map(toConfigIPRule)
+
+  const hasCustomRuleChanges = toAdd.length > 0 || toUpdate.length > 0 || toDelete.length > 0 || toMove.length > 0
+  const hasIPRuleChanges = ipsToAdd.length > 0 || ipsToUpdate.length > 0 || ipsToDelete.length > 0
+  const securityChanges = changes.securityChanges || []
+  const bypassToAdd = changes.bypassToAdd || []
+  const bypassToDelete = changes.bypassToDelete || []
+  // The config file only records the version of its primary provider
+  const hasVersionChange = primary && version !== undefined && config.version !== version
+
+  logger.log(chalk.bold('\n📊 Sync Status Summary\n'))
+
+  if (primary) {
+    logger.log(`${chalk.dim('Local Version:')} ${chalk.yellow(config.version || 'unknown')}`)
+  }
+  logger.log(`${chalk.dim('Remote Version:')} ${chalk.yellow(version ?? 'unknown')}`)
+
+  if (!primary) {
+    logger.log(`${chalk.dim('Version Status:')} ${chalk.dim('Not tracked in the config file')}`)
+  } else if (hasVersionChange) {
+    logger.log(`${chalk.dim('Version Status:')} ${chalk.red('Out of sync')}`)
+  } else {
+    logger.log(`${chalk.dim('Version Status:')} ${chalk.green('In sync')}`)
+  }
+
+  logger.log('')
+
+  logger.log(`${chalk.dim('Custom Rules:')}`)
+  logger.log(`  ${chalk.green('+')} ${toAdd.length} to add`)
+  logger.log(`  ${chalk.cyan('~')} ${toUpdate.length} to update`)
+  logger.log(`  ${chalk.red('-')} ${toDelete.length} to delete`)
+  logger.log(`  ${chalk.blue('↕')} ${toMove.length} to move`)
+
+  logger.log(`${chalk.dim('IP Blocking Rules:')}`)
+  logger.log(`  ${chalk.green('+')} ${ipsToAdd.length} to add`)
+  logger.log(`  ${chalk.cyan('~')} ${ipsToUpdate.length} to update`)
+  logger.log(`  ${chalk.red('-')} ${ipsToDelete.length} to delete`)
+
+  if (unifiedConfig.security) {
+    logger.log(`${chalk.dim('Managed Rules & Attack Mode:')}`)
+    logger.log(`  ${chalk.cyan('~')} ${securityChanges.length} to update`)
+  }
+
+  if (unifiedConfig.bypass) {
+    logger.log(`${chalk.dim('Bypass Rules:')}`)
+    logger.log(`  ${chalk.green('+')} ${bypassToAdd.length} to add`)
+    logger.log(`  ${chalk.red('-')} ${bypassToDelete.length} to delete`)
+  }
+
+  logger.log('')
+
+  const hasOtherChanges = securityChanges.length > 0 || bypassToAdd.length > 0 || bypassToDelete.length > 0
+  if (!hasCustomRuleChanges && !hasIPRuleChanges && !hasOtherChanges && !hasVersionChange) {
+    logger.success(chalk.green('✅ Everything is in sync!'))
+  } else {
+    logger.warn(chalk.yellow('⚠️  Changes detected. Run `sync` to apply changes.'))
+
+    if (hasVersionChange) {
+      logger.info(chalk.dim('💡 Version mismatch detected - this will be updated during sync'))
+    }
+  }
+
+  if (config.updatedAt) {
+    logger.log(`\n${chalk.dim('Last Updated:')} ${new Date(config.updatedAt).toLocaleString()}`)
+  }
+
+  logger.log('\n' + chalk.bold('🏥 Configuration Health Check'))
+  const healthResult = ConfigHealthChecker.check(config, [provider.name])
+  const healthReport = ConfigHealthChecker.formatHealthReport(healthResult)
+  logger.log(healthReport)
+
+  const providerHealth = provider.getHealthScore(unifiedConfig)
+  logger.log(
+    `${chalk.dim(`${getProviderDisplayName(provider.name)} Score:`)} ${chalk.yellow(providerHealth.score)}/100 (${providerHealth.grade})`,
   )
+  providerHealth.issues.forEach((issue) => {
+    logger.log(`  ${chalk.dim('•')} ${issue.message}${issue.suggestion ? chalk.dim(` — ${issue.suggestion}`) : ''}`)
+  })
+}
+
+export const handler = async (argv: Arguments<StatusOptions>) => {
+  const options: WithCredentialsOptions = {
+    config: argv.config,
+    env: argv.env,
+    provider: argv.provider,
+    projectId: argv.projectId,
+    teamId: argv.teamId,
+    token: argv.token,
+    apiToken: argv.apiToken,
+    zoneId: argv.zoneId,
+    accountId: argv.accountId,
+    debug: argv.debug,
+    ci: argv.ci,
+    errorContext: 'checking status',
+  }
+
+  if (argv.allProviders) {
+    await withAllProviders(options, checkStatus)
+  } else {
+    await withCredentials(options, checkStatus)
+  }
 }
@@ -1,14 +1,48 @@
 import chalk from 'chalk'
+import { existsSync, rmSync } from 'fs'
 import { Arguments } from 'yargs'
+import { DoormanError } from '../lib/errors/DoormanError'
+import { SyncErrorCode } from '../lib/errors/ErrorCodes'
 import { logger } from '../lib/logger'
-import { CustomRule, FirewallConfig } from '../lib/types'
+import type {
+  IFirewallProvider,
+  SyncOptions as ProviderSyncOptions,
+  SyncResult,
+} from '../lib/providers/IFirewallProvider'
+import { ValidationService } from '../lib/services/ValidationService'
+import type { FirewallConfig } from '../lib/types'
+import type { UnifiedConfig } from '../lib/types/unified'
 import { prompt } from '../lib/ui/prompt'
-import { displayIPBlockingTable, displayRulesTable, RULE_STATUS_MAP } from '../lib/ui/table'
-import { saveConfig } from '../lib/utils/config'
-import { withCredentials } from '../lib/utils/withCredentials'
+import {
+  displayBypassTable,
+  displayIPBlockingTable,
+  displayRulesTable,
+  displaySecurityTable,
+  RULE_STATUS_MAP,
+} from '../lib/ui/table'
+import { combineSyncResults } from '../lib/utils/combineSyncResults'
+import { saveSyncedConfig } from '../lib/utils/config'
+import { isDeepEqual } from '../lib/utils/isDeepEqual'
+import { getNetworkResilienceManager } from '../lib/utils/networkResilience'
+import { enforcePolicies } from '../lib/utils/policies'
+import { getProviderDisplayName } from '../lib/utils/providerHelper'
+import { retry } from '../lib/utils/retry'
+import {
+  assertJournalMatches,
+  createJournal,
+  journalPath,
+  readJournal,
+  SyncJournalWriter,
+  withCreatedRuleIds,
+} from '../lib/utils/syncJournal'
+import type { SyncJournal } from '../lib/utils/syncJournal'
+import { applyRemoteState, toConfigIPRule, toConfigRule, toUnifiedConfig } from '../lib/utils/unifiedConfig'
+import { withAllProviders, withCredentials } from '../lib/utils/withCredentials'
+import type { CommandContext, ProviderOutcome, WithCredentialsOptions } from '../lib/utils/withCredentials'
 
 interface SyncOptions {
   config?: string
+  env?: string
   provider?: 'vercel' | 'cloudflare'
   projectId?: string
   teamId?: string
@@ -16,12 +50,17 @@ interface SyncOptions {
   apiToken?: string
   zoneId?: string
   accountId?: string
+  atomic?: boolean
   debug?: boolean
   ci?: boolean
+  allProviders?: boolean
+  resume?: boolean
+  policies?: string
+  allowDelete?: boolean
 }
 
 export const command = 'sync'
-export const desc = 'Sync Vercel Firewall rules with config file'
+export const desc = 'Sync firewall rules with config file'
 
 export const builder = {
   config: {
@@ -29,6 +68,7 @@ export const builder = {
     type: 'string',
     description: 'Path to firewall config file (defaults to .doorman.json)',
   },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
   provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
   projectId: {
     alias: 'p',
@@ -47,157 +87,348 @@ export const builder = {
   apiToken: { type: 'string', description: 'Cloudflare API token (defaults to CLOUDFLARE_API_TOKEN env var)' },
   zoneId: { type: 'string', description: 'Cloudflare Zone ID (defaults to CLOUDFLARE_ZONE_ID env var)' },
   accountId: { type: 'string', description: 'Cloudflare Account ID (optional)' },
+  atomic: {
+    type: 'boolean',
+    description: 'Replace the whole Vercel config in a single request instead of one request per rule',
+    default: false,
+  },
   debug: {
     type: 'boolean',
     description: 'Enable debug logging',
     default: false,
   },
   ci: { type: 'boolean', description: 'Run in CI mode (non-interactive)', default: false },
+  allProviders: {
+    type: 'boolean',
+    description: 'Sync the rules to every provider configured in the config file',
+    default: false,
+  },
+  resume: {
+    type: 'boolean',
+    description: 'Finish a sync that was interrupted, applying only the operations that had not landed',
+    default: false,
+  },
+  policies: {
+    type: 'string',
+    description: 'Path to a policies file, used when DOORMAN_POLICIES is not set (defaults to doorman.policies.json)',
+  },
+  allowDelete: { type: 'boolean', description: 'Allow deleting rules when a policy requires it', default: false },
 }
 
-export const handler = async (argv: Arguments<SyncOptions>) => {
-  await withCredentials(
-    {
-      config: argv.config,
-      provider: argv.provider,
-      projectId: argv.projectId,
-      teamId: argv.teamId,
-      token: argv.token,
-      apiToken: argv.apiToken,
-      zoneId: argv.zoneId,
-      accountId: argv.accountId,
-      debug: argv.debug,
-      ci: argv.ci,
-      errorContext: 'syncing firewall rules',
-    },
-    async (ctx) => {
-      let config = ctx.config
-      const service = ctx.service
-
-      logger.start(chalk.magenta('Calculating firewall configuration changes...'))
-      const { toAdd, toUpdate, toDelete, ipsToAdd, ipsToUpdate, ipsToDelete, version } =
-        await service.getChanges(config)
-
-      const hasCustomRuleChanges = toAdd.length > 0 || toUpdate.length > 0 || toDelete.length > 0
-      const hasIPRuleChanges = ipsToAdd.length > 0 || ipsToUpdate.length > 0 || ipsToDelete.length > 0
-      const hasVersionChange = config.version !== version
-
-      if (!hasCustomRuleChanges && !hasIPRuleChanges && !hasVersionChange) {
-        logger.success(chalk.green('No changes detected. Firewall rules are in sync.'))
-        return
-      }
-
-      if (hasCustomRuleChanges) {
-        logger.log(chalk.bold('\nProposed Custom Rule Changes:\n'))
-        displayRulesTable(
-          [
-            ...toAdd.map((rule: any) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new, id: rule.id as string })),
-            ...toUpdate.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.modified, id: rule.id as string })),
-            ...toDelete.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.deleted, id: rule.id as string })),
-          ],
-          { showStatus: true },
-        )
-      }
-
-      if (hasIPRuleChanges) {
-        logger.log(chalk.bold('\nProposed IP Blocking Rule Changes:\n'))
-        displayIPBlockingTable(
-          [
-            ...ipsToAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new, id: rule.id || undefined })),
-            ...ipsToUpdate.map((rule) => ({
-              ...rule,
-              changeStatus: RULE_STATUS_MAP.modified,
-              id: rule.id || undefined,
-            })),
-            ...ipsToDelete.map((rule) => ({
-              ...rule,
-              changeStatus: RULE_STATUS_MAP.deleted,
-              id: rule.id || undefined,
-            })),
-          ],
-          { showStatus: true },
-        )
-      }
-
-      if (hasVersionChange) {
-        logger.log(chalk.bold('\nProposed Metadata Changes:\n'))
-        logger.log(`  - Version: ${chalk.red(config.version)} ${chalk.dim('->')} ${chalk.green(version)}`)
-      }
-
-      const confirmed = await prompt('Do you want to apply these changes?', { type: 'confirm' })
-      if (!confirmed) {
-        logger.info(chalk.yellow('Sync cancelled.'))
-        return
-      }
-
-      logger.start('Starting firewall rules sync...')
-
-      const backupConfig = JSON.parse(JSON.stringify(config)) as FirewallConfig
-
-      const syncResult = await service.syncRules(config, {
-        debug: argv.debug,
-      })
-      const { rulesToUpdateLocally } = syncResult
-      logger.success(chalk.green('Firewall rules sync completed successfully'))
-
-      try {
-        const updatedConfig = await service.validateAndUpdateConfig(config, syncResult, { dryRun: false })
-        config = updatedConfig
-      } catch (error) {
-        logger.error('Failed to validate sync result or update config metadata')
-        logger.error(error instanceof Error ? error.message : String(error))
-
-        await saveConfig(backupConfig, argv.config)
-
-        logger.info(chalk.yellow('Restored original config due to validation failure'))
-        throw new Error('Sync validation failed - original config restored')
-      }
-
-      // Filter rulesToUpdateLocally to only include entries whose oldId still
-      // exists in the current config. validateAndUpdateConfig may have already
-      // updated some rule IDs to match remote-assigned IDs.
-      const pendingIdUpdates = rulesToUpdateLocally.filter((r) =>
-        config.rules.some((rule) => r.oldId === rule.id || (r.oldId === '' && r.name === rule.name)),
+/**
+ * Show what an interrupted sync had applied before it stopped
+ */
+const displayJournal = (journal: SyncJournal) => {
+  const done = journal.operations.filter((operation) => operation.status === 'done')
+  logger.info(
+    `Resuming the sync to ${getProviderDisplayName(journal.provider)} started at ${journal.startedAt}: ` +
+      `${done.length} of ${journal.operations.length} operation(s) had landed`,
+  )
+  done.forEach((operation) => logger.log(`  ${chalk.green('✓')} ${operation.description}`))
+  journal.operations
+    .filter((operation) => operation.status === 'pending')
+    .forEach((operation) => logger.log(`  ${chalk.dim('-')} ${operation.description}`))
+}
+
+/**
+ * Run the provider's sync with a journal of its operations. The journal is kept when the sync
+ * is interrupted or fails partway, so `sync --resume` can finish it.
+ */
+const syncWithJournal = async (
+  provider: IFirewallProvider,
+  unifiedConfig: UnifiedConfig,
+  options: ProviderSyncOptions,
+  journal: SyncJournalWriter,
+): Promise<SyncResult> => {
+  const resumeHint = async () => {
+    if (existsSync(journal.path)) {
+      logger.info(chalk.yellow(`Run "vercel-doorman sync --resume" to finish the sync (journal: ${journal.path})`))
+    }
+  }
+  const resilienceManager = getNetworkResilienceManager()
+  resilienceManager.registerCleanupHandler(resumeHint)
+
+  try {
+    const result = await provider.syncRules(unifiedConfig, { ...options, recorder: journal })
+    if (result.success) {
+      journal.finish()
+    } else {
+      await resumeHint()
+    }
+    return result
+  } catch (error) {
+    // A rolled back sync left the remote as it was, so there is nothing to resume
+    if (DoormanError.isDoormanError(error) && error.code === SyncErrorCode.ROLLED_BACK) {
+      journal.discard()
+    } else {
+      await resumeHint()
+    }
+    throw error
+  } finally {
+    resilienceManager.unregisterCleanupHandler(resumeHint)
+  }
+}
+
+const syncProvider = async (
+  argv: Arguments<SyncOptions>,
+  { config, provider, primary }: CommandContext,
+): Promise<SyncResult | undefined> => {
+  const unifiedConfig = toUnifiedConfig(config, provider.name)
+
+  const path = journalPath(provider.name)
+  let previous: SyncJournal | undefined
+  if (argv.resume) {
+    previous = readJournal(path)
+    assertJournalMatches(previous, path, provider.name, unifiedConfig, argv.env)
+    displayJournal(previous)
+  } else if (existsSync(path)) {
+    logger.warn(
+      chalk.yellow(
+        `A previous sync to ${getProviderDisplayName(provider.name)} did not finish (${path}). ` +
+          'This sync computes the changes again and replaces its journal; use --resume to review it first.',
+      ),
+    )
+  }
+
+  // Rules the interrupted sync created exist remotely under new IDs, which the changes must not create again
+  const syncConfig = previous ? withCreatedRuleIds(unifiedConfig, previous) : unifiedConfig
+
+  logger.start(chalk.magenta('Calculating firewall configuration changes...'))
+  const changes = await provider.getChanges(syncConfig)
+  const { version } = changes
+  enforcePolicies(config, argv.policies, { changes, allowDelete: argv.allowDelete })
+
+  const toAdd = changes.rulesToAdd.map(toConfigRule)
+  const toUpdate = changes.rulesToUpdate.map(toConfigRule)
+  const toDelete = changes.rulesToDelete.map(toConfigRule)
+  const toMove = (changes.rulesToMove || []).map(toConfigRule)
+  const ipsToAdd = (changes.ipsToAdd || []).map(toConfigIPRule)
+  const ipsToUpdate = (changes.ipsToUpdate || []).map(toConfigIPRule)
+  const ipsToDelete = (changes.ipsToDelete || []).map(toConfigIPRule)
+
+  const hasCustomRuleChanges = toAdd.length > 0 || toUpdate.length > 0 || toDelete.length > 0 || toMove.length > 0
+  const hasIPRuleChanges = ipsToAdd.length > 0 || ipsToUpdate.length > 0 || ipsToDelete.length > 0
+  const securityChanges = changes.securityChanges || []
+  const hasSecurityChanges = securityChanges.length > 0
+  const bypassToAdd = changes.bypassToAdd || []
+  const bypassToDelete = changes.bypassToDelete || []
+  const hasBypassChanges = bypassToAdd.length > 0 || bypassToDelete.length > 0
+  // The config file only records the version of its primary provider
+  const hasVersionChange = primary && version !== undefined && config.version !== version
+  const unchanged: SyncResult = { success: true, rulesAdded: 0, rulesUpdated: 0, rulesDeleted: 0, version }
+
+  if (!hasCustomRuleChanges && !hasIPRuleChanges && !hasSecurityChanges && !hasBypassChanges && !hasVersionChange) {
+    if (previous) {
+      rmSync(path, { force: true })
+      logger.success(chalk.green('Every operation of the interrupted sync has landed. Firewall rules are in sync.'))
+    } else {
+      logger.success(chalk.green('No changes detected. Firewall rules are in sync.'))
+    }
+    return unchanged
+  }
+
+  if (hasCustomRuleChanges) {
+    logger.log(chalk.bold('\nProposed Custom Rule Changes:\n'))
+    displayRulesTable(
+      [
+        ...toAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new })),
+        ...toUpdate.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.modified })),
+        ...toDelete.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.deleted })),
+        ...toMove.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.moved })),
+      ],
+      { showStatus: true },
+    )
+  }
+
+  if (hasIPRuleChanges) {
+    logger.log(chalk.bold('\nProposed IP Blocking Rule Changes:\n'))
+    displayIPBlockingTable(
+      [
+        ...ipsToAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new, id: rule.id || undefined })),
+        ...ipsToUpdate.map((rule) => ({
+          ...rule,
+          changeStatus: RULE_STATUS_MAP.modified,
+          id: rule.id || undefined,
+        })),
+        ...ipsToDelete.map((rule) => ({
+          ...rule,
+          changeStatus: RULE_STATUS_MAP.deleted,
+          id: rule.id || undefined,
+        })),
+      ],
+      { showStatus: true },
+    )
+  }
+
+  if (hasSecurityChanges) {
+    logger.log(chalk.bold('\nProposed Managed Rules & Attack Mode Changes:\n'))
+    displaySecurityTable(
+      securityChanges.map(({ section, id, from, to }) => ({
+        section,
+        id,
+        value: to,
+        changeStatus: from ? RULE_STATUS_MAP.modified : RULE_STATUS_MAP.new,
+      })),
+      { showStatus: true },
+    )
+  }
+
+  if (hasBypassChanges) {
+    logger.log(chalk.bold('\nProposed Bypass Rule Changes:\n'))
+    displayBypassTable(
+      [
+        ...bypassToAdd.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.new })),
+        ...bypassToDelete.map((rule) => ({ ...rule, changeStatus: RULE_STATUS_MAP.deleted })),
+      ],
+      { showStatus: true },
+    )
+  }
+
+  if (hasVersionChange) {
+    logger.log(chalk.bold('\nProposed Metadata Changes:\n'))
+    logger.log(`  - Version: ${chalk.red(config.version)} ${chalk.dim('->')} ${chalk.green(version)}`)
+  }
+
+  const confirmed = await prompt('Do you want to apply these changes?', { type: 'confirm' })
+  if (!confirmed) {
+    logger.info(chalk.yellow('Sync cancelled.'))
+    return undefined
+  }
+
+  let syncResult = unchanged
+  if (hasCustomRuleChanges || hasIPRuleChanges || hasSecurityChanges || hasBypassChanges) {
+    logger.start(`Starting firewall rules sync to ${getProviderDisplayName(provider.name)}...`)
+
+    const journal = new SyncJournalWriter(
+      path,
+      createJournal(provider.name, unifiedConfig, { version, updatedAt: changes.updatedAt }, argv.env, previous),
+    )
+    // The changes were confirmed above, so skip the provider's own confirmation
+    syncResult = await syncWithJournal(provider, syncConfig, { force: true, atomic: argv.atomic }, journal)
+    if (!syncResult.success) {
+      throw new Error(`Sync failed: ${(syncResult.errors || []).join(', ') || 'unknown error'}`)
+    }
+    syncResult.warnings?.forEach((warning) => logger.warn(warning))
+    logger.success(chalk.green('Firewall rules sync completed successfully'))
+  } else if (previous) {
+    // Only the version changed, so the interrupted sync has nothing left to apply
+    rmSync(path, { force: true })
+  }
+
+  // Other providers' versions and rule IDs are not recorded in the config file
+  if (!primary) {
+    return syncResult
+  }
+
+  const backupConfig = JSON.parse(JSON.stringify(config)) as FirewallConfig
+
+  let updatedConfig: FirewallConfig
+  try {
+    // Pull the post-sync state to pick up the new version and any remote-assigned IDs
+    const remoteConfig = await retry(() => provider.fetchConfig(), { maxAttempts: 3, delayMs: 1500 })
+    updatedConfig = applyRemoteState(config, remoteConfig)
+    const validator: ValidationService = ValidationService.getInstance()
+    validator.validateConfig(updatedConfig)
+  } catch (error) {
+    logger.error('Failed to validate sync result or update config metadata')
+    logger.error(error instanceof Error ? error.message : String(error))
+
+    await saveSyncedConfig(backupConfig, argv.config, argv.env)
+
+    logger.info(chalk.yellow('Restored original config due to validation failure'))
+    throw new Error('Sync validation failed - original config restored')
+  }
+
+  // Resolved environment rules are derived from the base config, so their IDs are not written back
+  const pendingIdUpdates = argv.env
+    ? []
+    : updatedConfig.rules
+        .map((rule, index) => ({ name: rule.name, oldId: config.rules[index]?.id, newId: rule.id }))
+        .filter(({ oldId, newId }) => oldId !== newId)
+
+  if (pendingIdUpdates.length > 0) {
+    logger.log('')
+    logger.info(chalk.yellow('The provider assigned new IDs to some rules:'))
+    pendingIdUpdates.forEach((rule) => {
+      logger.log(
+        `  - Rule "${rule.name}": ${chalk.red(rule.oldId || 'empty')} ${chalk.dim('->')} ${chalk.green(rule.newId)}`,
       )
+    })
 
-      if (pendingIdUpdates.length > 0) {
-        logger.log('')
-        logger.info(chalk.yellow('Some rules have IDs that do not match their expected snake_case name:'))
-        pendingIdUpdates.forEach((rule) => {
-          logger.log(
-            `  - Rule "${rule.name}": ${chalk.red(rule.oldId || 'empty')} ${chalk.dim('->')} ${chalk.green(rule.newId)}`,
-          )
-        })
-
-        const updateConfirmed = await prompt('Do you want to update the local config with the new IDs?', {
-          type: 'confirm',
-        })
-
-        if (updateConfirmed) {
-          config = {
-            ...config,
-            rules: config.rules.map((rule: CustomRule) => {
-              const ruleToUpdate = pendingIdUpdates.find(
-                (r) => r.oldId === rule.id || (r.oldId === '' && r.name === rule.name),
-              )
-              return ruleToUpdate ? { ...rule, id: ruleToUpdate.newId } : rule
-            }),
-            ips: config.ips || [],
-          }
-
-          await saveConfig(config, argv.config)
-          logger.success(chalk.green('Updated local config with new rule IDs'))
-        } else {
-          logger.warn(chalk.yellow('Local config not updated. Remember to update rule IDs manually if needed.'))
-        }
-      }
-
-      if (backupConfig.version !== config.version || backupConfig.updatedAt !== config.updatedAt) {
-        await saveConfig(config, argv.config)
-        logger.success(
-          chalk.green(`Updated version ${chalk.dim(`(v${config.version})`)} and metadata in local config file`),
-        )
-      }
-    },
+    const updateConfirmed = await prompt('Do you want to update the local config with the new IDs?', {
+      type: 'confirm',
+    })
+
+    if (!updateConfirmed) {
+      updatedConfig = { ...updatedConfig, rules: config.rules }
+      logger.warn(chalk.yellow('Local config not updated. Remember to update rule IDs manually if needed.'))
+    }
+  }
+
+  if (!isDeepEqual(updatedConfig, config)) {
+    await saveSyncedConfig(updatedConfig, argv.config, argv.env)
+    if (updatedConfig.rules !== config.rules && pendingIdUpdates.length > 0) {
+      logger.success(chalk.green('Updated local config with new rule IDs'))
+    }
+    logger.success(
+      chalk.green(`Updated version ${chalk.dim(`(v${updatedConfig.version})`)} and metadata in local config file`),
+    )
+  }
+
+  return syncResult
+}
+
+const formatCounts = (result: SyncResult) => {
+  const ips = (result.ipsAdded ?? 0) + (result.ipsUpdated ?? 0) + (result.ipsDeleted ?? 0)
+  const bypass = (result.bypassAdded ?? 0) + (result.bypassDeleted ?? 0)
+  return (
+    `${chalk.green(`+${result.rulesAdded}`)} ${chalk.cyan(`~${result.rulesUpdated}`)} ` +
+    `${chalk.red(`-${result.rulesDeleted}`)} rules, ${ips} IP rule change(s)` +
+    (result.rulesMoved ? `, ${result.rulesMoved} rule(s) moved` : '') +
+    (result.securityUpdated ? `, ${result.securityUpdated} managed rule setting(s)` : '') +
+    (bypass ? `, ${bypass} bypass rule change(s)` : '')
   )
 }
+
+const displaySummary = (outcomes: ProviderOutcome<SyncResult | undefined>[]) => {
+  logger.log(chalk.bold('\n📦 Sync Summary\n'))
+  outcomes.forEach(({ provider, result, error }) => {
+    const name = getProviderDisplayName(provider)
+    if (error !== undefined) {
+      logger.log(`  ${chalk.red('✗')} ${name}: ${chalk.red('failed')}`)
+    } else if (!result) {
+      logger.log(`  ${chalk.yellow('-')} ${name}: ${chalk.yellow('cancelled')}`)
+    } else {
+      logger.log(`  ${chalk.green('✓')} ${name}: ${formatCounts(result)}`)
+    }
+  })
+
+  const combined = combineSyncResults(outcomes)
+  logger.log(`\n  ${chalk.bold('Total')}: ${formatCounts(combined)}`)
+  logger.log('')
+}
+
+export const handler = async (argv: Arguments<SyncOptions>) => {
+  const options: WithCredentialsOptions = {
+    config: argv.config,
+    env: argv.env,
+    provider: argv.provider,
+    projectId: argv.projectId,
+    teamId: argv.teamId,
+    token: argv.token,
+    apiToken: argv.apiToken,
+    zoneId: argv.zoneId,
+    accountId: argv.accountId,
+    debug: argv.debug,
+    ci: argv.ci,
+    errorContext: 'syncing firewall rules',
+  }
+
+  if (argv.allProviders) {
+    await withAllProviders(options, (ctx) => syncProvider(argv, ctx), displaySummary)
+  } else {
+    await withCredentials(options, async (ctx) => {
+      await syncProvider(argv, ctx)
+    })
+  }
+}
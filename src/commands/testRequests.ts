@@ -0,0 +1,93 @@
+import chalk from 'chalk'
+import { existsSync, readFileSync } from 'fs'
+import { Arguments } from 'yargs'
+import { describeMatch, formatRequestTestDiff, runRequestTests } from '../lib/evaluator'
+import { logger } from '../lib/logger'
+import { requestTestFileSchema } from '../lib/schemas/requestTestSchemas'
+import { getConfig } from '../lib/utils/config'
+import { getConfigFormat, parseConfigContent } from '../lib/utils/configFormat'
+import { handleCommandError } from '../lib/utils/handleCommandError'
+
+interface TestOptions {
+  file?: string
+  config?: string
+  env?: string
+  format?: 'table' | 'json'
+}
+
+export const DEFAULT_TESTS_PATH = 'doorman.tests.json'
+
+export const command = 'test [file]'
+export const desc = 'Evaluate request fixtures against the local config and check the expected actions'
+
+export const builder = {
+  file: {
+    type: 'string',
+    description: `Path to the request fixtures file, JSON or YAML (defaults to ${DEFAULT_TESTS_PATH})`,
+    default: DEFAULT_TESTS_PATH,
+  },
+  config: {
+    alias: 'c',
+    type: 'string',
+    description: 'Path to firewall config file (defaults to .doorman.json)',
+  },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
+  format: { alias: 'f', type: 'string', choices: ['table', 'json'], description: 'Output format', default: 'table' },
+}
+
+export const handler = async (argv: Arguments<TestOptions>) => {
+  try {
+    const file = argv.file || DEFAULT_TESTS_PATH
+    if (!existsSync(file)) {
+      throw new Error(`Request fixtures file not found: ${file}`)
+    }
+
+    const config = await getConfig(argv.config, 'required', argv.env)
+    const tests = requestTestFileSchema.parse(parseConfigContent(readFileSync(file, 'utf8'), getConfigFormat(file)))
+    const results = runRequestTests(config, tests)
+    const failed = results.filter((result) => !result.passed)
+
+    if (argv.format === 'json') {
+      logger.log(
+        JSON.stringify(
+          {
+            results: results.map(({ test, passed, actual, mismatches }) => ({
+              name: test.name,
+              passed,
+              expected: test.expect,
+              actual,
+              mismatches,
+            })),
+            summary: { total: results.length, passed: results.length - failed.length, failed: failed.length },
+          },
+          null,
+          2,
+        ),
+      )
+    } else {
+      logger.log(chalk.bold(`\n🧪 Request Tests ${chalk.dim(`(${file})`)}\n`))
+      results.forEach((result) => {
+        const { test, passed, actual } = result
+        if (passed) {
+          logger.log(`  ${chalk.green('✓')} ${test.name} ${chalk.dim(`→ ${actual.action} (${describeMatch(actual)})`)}`)
+        } else {
+          const [expected, received] = formatRequestTestDiff(result)
+          logger.log(`  ${chalk.red('✗')} ${test.name}`)
+          logger.log(chalk.red(`      ${expected}`))
+          logger.log(chalk.green(`      ${received}`))
+        }
+      })
+      logger.log('')
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} of ${results.length} request test(s) failed`)
+    }
+
+    if (argv.format !== 'json') {
+      logger.success(chalk.green(`All ${results.length} request test(s) passed`))
+    }
+  } catch (error) {
+    handleCommandError(error, 'running request tests')
+  }
+}
@@ -1,15 +1,36 @@
 import type { ErrorObject } from 'ajv'
 import chalk from 'chalk'
 import { Arguments } from 'yargs'
+import { ValidationErrorCode } from '../lib/errors/ErrorCodes'
+import { validationErrors } from '../lib/errors/helpers'
+import { formatRequestTestDiff, runRequestTests } from '../lib/evaluator'
 import { logger } from '../lib/logger'
+import type { ProviderType } from '../lib/providers/IFirewallProvider'
 import { firewallConfigSchema } from '../lib/schemas/firewallSchemas'
 import { ValidationError, ValidationService } from '../lib/services/ValidationService'
 import { getConfig } from '../lib/utils/config'
 import { handleCommandError } from '../lib/utils/handleCommandError'
+import type { FirewallConfig } from '../lib/types'
+import {
+  Finding,
+  FINDINGS_FORMATS,
+  FindingsFormat,
+  regexFindings,
+  reportFindings,
+  schemaFindings,
+  toPointer,
+} from '../lib/utils/findings'
+import { enforcePolicies, findPolicyViolations, loadPolicies } from '../lib/utils/policies'
+import { checkRegexSafety, detectRegexEngines, formatRegexIssue } from '../lib/utils/regexSafety'
 
 interface ValidateOptions {
   config?: string
+  env?: string
+  provider?: ProviderType
   verbose?: boolean
+  policies?: string
+  format?: 'text' | FindingsFormat
+  output?: string
 }
 
 export const command = 'validate'
@@ -21,20 +42,48 @@ export const builder = {
     type: 'string',
     description: 'Path to firewall config file (defaults to .doorman.json)',
   },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
+  provider: {
+    type: 'string',
+    choices: ['vercel', 'cloudflare'],
+    description: 'Provider whose regex engine patterns are checked against (auto-detected)',
+  },
   verbose: {
     alias: 'v',
     type: 'boolean',
     description: 'Show detailed validation results',
     default: false,
   },
+  policies: {
+    type: 'string',
+    description: 'Path to a policies file, used when DOORMAN_POLICIES is not set (defaults to doorman.policies.json)',
+  },
+  format: {
+    alias: 'f',
+    type: 'string',
+    choices: ['text', ...FINDINGS_FORMATS],
+    description: 'Output format: text, or json, sarif or junit to report findings to CI',
+    default: 'text',
+  },
+  output: {
+    alias: 'o',
+    type: 'string',
+    description: 'File to write json, sarif or junit output to',
+  },
 }
 
 export const handler = async (argv: Arguments<ValidateOptions>) => {
   try {
     // Load config without validation since we'll do that ourselves
-    const configJson = await getConfig(argv.config, 'raw')
+    const configJson = await getConfig(argv.config, 'raw', argv.env)
     const validator: ValidationService = ValidationService.getInstance()
 
+    if (argv.format && argv.format !== 'text') {
+      const findings = collectFindings(validator, configJson, argv)
+      await reportFindings(findings, argv.format, argv.config, argv.output, argv.env)
+      return
+    }
+
     if (argv.verbose) {
       logger.start('Validating configuration file...\n')
     }
@@ -107,13 +156,113 @@ export const handler = async (argv: Arguments<ValidateOptions>) => {
       }
     }
 
-    // Final result
-    if (zodResult.success && ajvValid) {
-      logger.success(chalk.green('Configuration is valid'))
-    } else {
+    if (!zodResult.success || !ajvValid) {
       throw new Error('Configuration validation failed')
     }
+
+    // Check regex patterns against the engine of each provider the config deploys to
+    const engines = detectRegexEngines(zodResult.data, argv.provider)
+    const regexIssues = checkRegexSafety(zodResult.data, engines)
+    if (regexIssues.length > 0) {
+      logger.log(chalk.bold.underline('Regular Expressions:'))
+      regexIssues.forEach((issue) => {
+        if (issue.severity === 'error') {
+          logger.error(chalk.red(`✗ ${formatRegexIssue(issue)}`))
+        } else {
+          logger.warn(chalk.yellow(formatRegexIssue(issue)))
+        }
+        if (issue.suggestion) logger.log(chalk.dim(`    💡 ${issue.suggestion}`))
+      })
+      logger.log('')
+    } else if (argv.verbose) {
+      logger.log(chalk.green(`✓ Regular expressions are safe for ${engines.join(' and ')}`))
+    }
+
+    const regexErrors = regexIssues.filter((issue) => issue.severity === 'error')
+    if (regexErrors.length > 0) {
+      throw validationErrors.unsafeRegex(regexErrors)
+    }
+
+    // Unlike the checks above, policies are set for the whole organization
+    const policies = enforcePolicies(zodResult.data, argv.policies)
+    if (policies && argv.verbose) {
+      logger.log(chalk.green(`✓ ${policies.policies.length} policies in ${policies.path} satisfied\n`))
+    }
+
+    // Run request tests embedded in the config
+    const tests = zodResult.data.tests ?? []
+    const results = runRequestTests(zodResult.data, tests)
+    const failed = results.filter((result) => !result.passed)
+
+    if (tests.length > 0 && (argv.verbose || failed.length > 0)) {
+      logger.log(chalk.bold.underline('Request Tests:'))
+      results.forEach((result) => {
+        if (result.passed) {
+          if (argv.verbose) logger.log(chalk.green(`✓ ${result.test.name}`))
+          return
+        }
+        const [expected, actual] = formatRequestTestDiff(result)
+        logger.error(chalk.red(`✗ ${result.test.name}`))
+        logger.log(chalk.red(`    ${expected}`))
+        logger.log(chalk.green(`    ${actual}`))
+      })
+      logger.log('')
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} of ${tests.length} request test(s) failed`)
+    }
+
+    // Final result
+    logger.success(
+      chalk.green(
+        tests.length > 0 ? `Configuration is valid, ${tests.length} request test(s) passed` : 'Configuration is valid',
+      ),
+    )
   } catch (error) {
     handleCommandError(error, 'validating configuration')
   }
 }
+
+/**
+ * Run the same checks as the text output, but keep going after a failing check so every
+ * problem is reported. The health and translation checks are left to `lint`, which reports
+ * them in the same formats.
+ */
+function collectFindings(validator: ValidationService, configJson: unknown, argv: ValidateOptions): Finding[] {
+  try {
+    validator.validateConfig(configJson)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return schemaFindings(error)
+    }
+    throw error
+  }
+
+  const config = configJson as FirewallConfig
+  const findings = regexFindings(checkRegexSafety(config, detectRegexEngines(config, argv.provider)))
+
+  const policies = loadPolicies(argv.policies)
+  if (policies) {
+    for (const violation of findPolicyViolations(policies.policies, config)) {
+      findings.push({
+        code: ValidationErrorCode.POLICY_VIOLATION,
+        level: 'error',
+        message: violation.message,
+        pointer: violation.path === undefined ? undefined : toPointer(violation.path),
+        suggestion: `Change the config to satisfy the policies in ${policies.path}`,
+      })
+    }
+  }
+
+  runRequestTests(config, config.tests ?? []).forEach((result, index) => {
+    if (result.passed) return
+    findings.push({
+      code: ValidationErrorCode.REQUEST_TEST_FAILED,
+      level: 'error',
+      message: `Request test "${result.test.name}" failed: ${result.mismatches.join(', ')}`,
+      pointer: `/tests/${index}`,
+    })
+  })
+  return findings
+}
@@ -2,11 +2,15 @@ import chalk from 'chalk'
 import { Stats, watchFile, unwatchFile } from 'fs'
 import { Arguments } from 'yargs'
 import { logger } from '../lib/logger'
-import { getConfig, saveConfig } from '../lib/utils/config'
+import { getConfig, saveSyncedConfig } from '../lib/utils/config'
+import { enforcePolicies } from '../lib/utils/policies'
+import { retry } from '../lib/utils/retry'
+import { applyRemoteState, toUnifiedConfig } from '../lib/utils/unifiedConfig'
 import { withCredentials } from '../lib/utils/withCredentials'
 
 interface WatchOptions {
   config?: string
+  env?: string
   provider?: 'vercel' | 'cloudflare'
   projectId?: string
   teamId?: string
@@ -17,6 +21,8 @@ interface WatchOptions {
   interval?: number
   debug?: boolean
   ci?: boolean
+  policies?: string
+  allowDelete?: boolean
 }
 
 export const command = 'watch'
@@ -28,6 +34,7 @@ export const builder = {
     type: 'string',
     description: 'Path to firewall config file (defaults to .doorman.json)',
   },
+  env: { alias: 'e', type: 'string', description: 'Environment from the config to apply (see environments)' },
   provider: { type: 'string', choices: ['vercel', 'cloudflare'], description: 'Firewall provider (auto-detected)' },
   projectId: {
     alias: 'p',
@@ -58,6 +65,11 @@ export const builder = {
     default: false,
   },
   ci: { type: 'boolean', description: 'Run in CI mode (non-interactive)', default: false },
+  policies: {
+    type: 'string',
+    description: 'Path to a policies file, used when DOORMAN_POLICIES is not set (defaults to doorman.policies.json)',
+  },
+  allowDelete: { type: 'boolean', description: 'Allow deleting rules when a policy requires it', default: false },
 }
 
 export const handler = async (argv: Arguments<WatchOptions>) => {
@@ -66,6 +78,7 @@ export const handler = async (argv: Arguments<WatchOptions>) => {
   await withCredentials(
     {
       config: configPath,
+      env: argv.env,
       provider: argv.provider,
       projectId: argv.projectId,
       teamId: argv.teamId,
@@ -77,7 +90,7 @@ export const handler = async (argv: Arguments<WatchOptions>) => {
       ci: argv.ci,
       errorContext: 'setting up watch mode',
     },
-    async ({ service }) => {
+    async ({ provider }) => {
       let isProcessing = false
       let lastModified = 0
 
@@ -97,39 +110,47 @@ export const handler = async (argv: Arguments<WatchOptions>) => {
           logger.log(chalk.yellow(`📝 Config file changed at ${new Date().toLocaleTimeString()}`))
           logger.start('Validating and syncing changes...')
 
-          const updatedConfig = await getConfig(configPath)
-
-          const { toAdd, toUpdate, toDelete, ipsToAdd, ipsToUpdate, ipsToDelete, version } =
-            await service.getChanges(updatedConfig)
+          const updatedConfig = await getConfig(configPath, 'required', argv.env)
+          const unifiedConfig = toUnifiedConfig(updatedConfig, provider.name)
 
-          const hasChanges =
-            toAdd.length > 0 ||
-            toUpdate.length > 0 ||
-            toDelete.length > 0 ||
-            ipsToAdd.length > 0 ||
-            ipsToUpdate.length > 0 ||
-            ipsToDelete.length > 0 ||
-            updatedConfig.version !== version
+          const changes = await provider.getChanges(unifiedConfig)
+          enforcePolicies(updatedConfig, argv.policies, { changes, allowDelete: argv.allowDelete })
+          const hasVersionChange = changes.version !== undefined && updatedConfig.version !== changes.version
 
-          if (!hasChanges) {
+          if (!changes.hasChanges && !hasVersionChange) {
             logger.info(chalk.blue('No changes detected, skipping sync'))
             return
           }
 
-          const totalChanges =
-            toAdd.length + toUpdate.length + toDelete.length + ipsToAdd.length + ipsToUpdate.length + ipsToDelete.length
-          logger.log(chalk.cyan(`Syncing ${totalChanges} changes...`))
-
-          const syncResult = await service.syncRules(updatedConfig, { debug: argv.debug })
+          if (changes.hasChanges) {
+            const totalChanges =
+              changes.rulesToAdd.length +
+              changes.rulesToUpdate.length +
+              changes.rulesToDelete.length +
+              (changes.rulesToMove || []).length +
+              (changes.ipsToAdd || []).length +
+              (changes.ipsToUpdate || []).length +
+              (changes.ipsToDelete || []).length +
+              (changes.securityChanges || []).length +
+              (changes.bypassToAdd || []).length +
+              (changes.bypassToDelete || []).length
+            logger.log(chalk.cyan(`Syncing ${totalChanges} changes...`))
+
+            // Watch mode is an explicit opt-in to unattended syncs
+            const syncResult = await provider.syncRules(unifiedConfig, { force: true })
+            if (!syncResult.success) {
+              throw new Error((syncResult.errors || []).join(', ') || 'unknown error')
+            }
+          }
 
           try {
-            const validatedConfig = await service.validateAndUpdateConfig(updatedConfig, syncResult, { dryRun: false })
-            await saveConfig(validatedConfig, configPath)
+            const remoteConfig = await retry(() => provider.fetchConfig(), { maxAttempts: 3, delayMs: 1500 })
+            await saveSyncedConfig(applyRemoteState(updatedConfig, remoteConfig), configPath, argv.env)
             logger.success(chalk.green(`✅ Sync completed at ${new Date().toLocaleTimeString()}`))
           } catch (validationError) {
             logger.warn(
               chalk.yellow(
-                `⚠️ Sync applied but validation failed: ${validationError instanceof Error ? validationError.message : String(validationError)}`,
+                `⚠️ Sync applied but updating the local config failed: ${validationError instanceof Error ? validationError.message : String(validationError)}`,
               ),
             )
             logger.info(chalk.dim('Run `download` to reconcile local config with remote state'))
@@ -23,6 +23,10 @@ export const schema = {
         teamId: {
           type: 'string',
         },
+        zoneId: {
+          type: 'string',
+          description: 'Cloudflare zone ID',
+        },
         $schema: {
           type: 'string',
         },
@@ -47,6 +51,36 @@ export const schema = {
         updatedAt: {
           type: 'string',
         },
+        tests: {
+          type: 'array',
+          items: {
+            $ref: '#/definitions/RequestTest',
+          },
+        },
+        environments: {
+          type: 'object',
+          additionalProperties: {
+            $ref: '#/definitions/EnvironmentOverlay',
+          },
+        },
+        providers: {
+          $ref: '#/definitions/ProvidersConfig',
+        },
+        crs: {
+          $ref: '#/definitions/VercelCRSConfig',
+        },
+        managedRules: {
+          $ref: '#/definitions/VercelManagedRulesConfig',
+        },
+        attackMode: {
+          $ref: '#/definitions/VercelAttackMode',
+        },
+        bypass: {
+          type: 'array',
+          items: {
+            $ref: '#/definitions/VercelBypassRule',
+          },
+        },
       },
       required: ['rules'],
       additionalProperties: false,
@@ -264,5 +298,354 @@ export const schema = {
       required: ['ip', 'hostname', 'action'],
       additionalProperties: false,
     },
+    RequestTest: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+        },
+        request: {
+          $ref: '#/definitions/SimulatedRequest',
+        },
+        expect: {
+          type: 'object',
+          properties: {
+            action: {
+              $ref: '#/definitions/EvaluatedAction',
+            },
+            rule: {
+              type: 'string',
+              description: 'ID or name of the rule expected to decide the action',
+            },
+          },
+          required: ['action'],
+          additionalProperties: false,
+        },
+      },
+      required: ['name', 'request', 'expect'],
+      additionalProperties: false,
+      description: 'A request and the outcome it is expected to have',
+    },
+    SimulatedRequest: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Request path, optionally with a query string (`/search?q=1`)',
+        },
+        targetPath: {
+          type: 'string',
+          description: 'Path after rewrites (defaults to `path`)',
+        },
+        host: {
+          type: 'string',
+        },
+        method: {
+          type: 'string',
+        },
+        headers: {
+          type: 'object',
+          additionalProperties: {
+            type: 'string',
+          },
+          description: 'Header names are matched case-insensitively',
+        },
+        cookies: {
+          type: 'object',
+          additionalProperties: {
+            type: 'string',
+          },
+          description: 'Cookies (defaults to those parsed from the `cookie` header)',
+        },
+        query: {
+          type: 'object',
+          additionalProperties: {
+            type: 'string',
+          },
+          description: 'Query parameters (merged over those parsed from `path`)',
+        },
+        ip: {
+          type: 'string',
+        },
+        region: {
+          type: 'string',
+          description: 'Vercel edge region, e.g. `iad1`',
+        },
+        protocol: {
+          type: 'string',
+        },
+        scheme: {
+          type: 'string',
+        },
+        environment: {
+          type: 'string',
+        },
+        userAgent: {
+          type: 'string',
+          description: 'Shorthand for the `user-agent` header',
+        },
+        geo: {
+          type: 'object',
+          properties: {
+            continent: {
+              type: 'string',
+            },
+            country: {
+              type: 'string',
+            },
+            countryRegion: {
+              type: 'string',
+            },
+            city: {
+              type: 'string',
+            },
+            asNumber: {
+              type: 'number',
+            },
+          },
+          additionalProperties: false,
+        },
+        ja4Digest: {
+          type: 'string',
+        },
+        ja3Digest: {
+          type: 'string',
+        },
+        rateLimitApiId: {
+          type: 'string',
+        },
+      },
+      additionalProperties: false,
+      description:
+        'A synthetic request to evaluate against firewall rules. Every field is optional; missing fields simply do not exist for `ex`/`nex`.',
+    },
+    EvaluatedAction: {
+      anyOf: [
+        {
+          $ref: '#/definitions/ActionType',
+        },
+        {
+          type: 'string',
+          const: 'allow',
+        },
+      ],
+      description: 'Action taken for a request. Requests no rule applies to are allowed.',
+    },
+    EnvironmentOverlay: {
+      type: 'object',
+      properties: {
+        projectId: {
+          type: 'string',
+        },
+        teamId: {
+          type: 'string',
+        },
+        zoneId: {
+          type: 'string',
+          description: 'Cloudflare zone ID',
+        },
+        addRules: {
+          type: 'array',
+          items: {
+            $ref: '#/definitions/CustomRule',
+          },
+        },
+        overrideRules: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+              },
+              name: {
+                type: 'string',
+              },
+              description: {
+                type: 'string',
+              },
+              conditionGroup: {
+                type: 'array',
+                items: {
+                  $ref: '#/definitions/ConditionGroup',
+                },
+              },
+              action: {
+                $ref: '#/definitions/RuleAction',
+              },
+              active: {
+                type: 'boolean',
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+        removeRules: {
+          type: 'array',
+          items: {
+            type: 'string',
+          },
+        },
+        version: {
+          type: 'number',
+        },
+        updatedAt: {
+          type: 'string',
+        },
+      },
+      additionalProperties: false,
+      description: 'Per-environment changes applied on top of the base config with `--env <name>`',
+    },
+    ProvidersConfig: {
+      type: 'object',
+      properties: {
+        vercel: {
+          type: 'object',
+          properties: {
+            projectId: {
+              type: 'string',
+            },
+            teamId: {
+              type: 'string',
+            },
+          },
+          additionalProperties: false,
+        },
+        cloudflare: {
+          type: 'object',
+          properties: {
+            zoneId: {
+              type: 'string',
+            },
+            accountId: {
+              type: 'string',
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+      description: 'Multi-provider configuration section',
+    },
+    VercelCRSConfig: {
+      type: 'object',
+      properties: {
+        sd: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        ma: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        lfi: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        rfi: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        rce: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        php: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        gen: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        xss: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        sqli: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        sf: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+        java: {
+          $ref: '#/definitions/VercelCRSRule',
+        },
+      },
+      additionalProperties: false,
+      description: 'OWASP core ruleset groups, keyed by group. Groups left out are not managed by the config',
+    },
+    VercelCRSRule: {
+      type: 'object',
+      properties: {
+        active: {
+          type: 'boolean',
+        },
+        action: {
+          type: 'string',
+          enum: ['deny', 'log'],
+        },
+      },
+      required: ['active', 'action'],
+      additionalProperties: false,
+      description: 'Toggle for one OWASP core ruleset group',
+    },
+    VercelManagedRulesConfig: {
+      type: 'object',
+      properties: {
+        owasp: {
+          $ref: '#/definitions/VercelManagedRuleset',
+        },
+        bot_protection: {
+          $ref: '#/definitions/VercelManagedRuleset',
+        },
+        ai_bots: {
+          $ref: '#/definitions/VercelManagedRuleset',
+        },
+      },
+      additionalProperties: false,
+      description: 'Managed rulesets, keyed by ruleset. Rulesets left out are not managed by the config',
+    },
+    VercelManagedRuleset: {
+      type: 'object',
+      properties: {
+        active: {
+          type: 'boolean',
+        },
+        action: {
+          type: 'string',
+          enum: ['log', 'challenge', 'deny'],
+        },
+      },
+      required: ['active'],
+      additionalProperties: false,
+      description: 'Toggle for one managed ruleset',
+    },
+    VercelAttackMode: {
+      type: 'object',
+      properties: {
+        enabled: {
+          type: 'boolean',
+        },
+        activeUntil: {
+          type: ['number', 'null'],
+          description: 'When attack mode switches off again, in milliseconds since the epoch (indefinitely if unset)',
+        },
+      },
+      required: ['enabled'],
+      additionalProperties: false,
+      description: 'Attack Challenge Mode, which challenges every visitor of the project',
+    },
+    VercelBypassRule: {
+      type: 'object',
+      properties: {
+        sourceIp: {
+          type: 'string',
+        },
+        domain: {
+          type: 'string',
+          description: 'Domain the bypass applies to; every domain of the project if unset',
+        },
+        note: {
+          type: 'string',
+        },
+      },
+      required: ['sourceIp'],
+      additionalProperties: false,
+      description:
+        'Vercel system bypass rule, which lets an IP or CIDR range skip system mitigations such as DDoS challenges. Bypass rules are identified by their source IP and domain',
+    },
   },
 }
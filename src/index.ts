@@ -2,3 +2,12 @@ export * from './constants/blockedPaths'
 
 // Next middleware
 export { createDoorman } from './next/createDoorman'
+export { createDoormanMiddleware } from './next/createDoormanMiddleware'
+export type {
+  DoormanMiddlewareLogger,
+  DoormanMiddlewareOptions,
+  DoormanMiddlewareRequest,
+  DoormanResponseClass,
+} from './next/createDoormanMiddleware'
+export type { EvaluationResult } from './lib/evaluator/RuleEvaluator'
+export type { FirewallConfig } from './lib/types'
@@ -13,6 +13,11 @@ export enum ConfigErrorCode {
   INVALID_VERSION = 'CONFIG_1003',
   MIGRATION_FAILED = 'CONFIG_1004',
   INVALID_PROVIDER = 'CONFIG_1005',
+  UNKNOWN_ENVIRONMENT = 'CONFIG_1006',
+  INVALID_ENVIRONMENT = 'CONFIG_1007',
+  NO_PROVIDERS = 'CONFIG_1008',
+  INVALID_POLICIES = 'CONFIG_1009',
+  ENVIRONMENT_NOT_SUPPORTED = 'CONFIG_1010',
 }
 
 /**
@@ -25,6 +30,9 @@ export enum ValidationErrorCode {
   IP_FORMAT = 'VAL_2003',
   RATE_LIMIT = 'VAL_2004',
   REDIRECT = 'VAL_2005',
+  POLICY_VIOLATION = 'VAL_2006',
+  UNSAFE_REGEX = 'VAL_2007',
+  REQUEST_TEST_FAILED = 'VAL_2008',
 }
 
 /**
@@ -36,6 +44,12 @@ export enum SyncErrorCode {
   CONFLICT = 'SYNC_3002',
   NO_CHANGES = 'SYNC_3003',
   PARTIAL_FAILURE = 'SYNC_3004',
+  INVALID_PLAN = 'SYNC_3005',
+  STALE_PLAN = 'SYNC_3006',
+  ROLLED_BACK = 'SYNC_3007',
+  ROLLBACK_FAILED = 'SYNC_3008',
+  INVALID_JOURNAL = 'SYNC_3009',
+  JOURNAL_MISMATCH = 'SYNC_3010',
 }
 
 /**
@@ -46,6 +60,7 @@ export enum MigrationErrorCode {
   INCOMPATIBLE = 'MIG_4001',
   ROLLBACK_FAILED = 'MIG_4002',
   MISSING_FEATURES = 'MIG_4003',
+  IMPORT_FAILED = 'MIG_4004',
 }
 
 /**
@@ -59,6 +74,7 @@ export enum ProviderErrorCode {
   INVALID_CREDENTIALS = 'PROV_5004',
   NETWORK_ERROR = 'PROV_5005',
   TIMEOUT = 'PROV_5006',
+  PARTIAL_FAILURE = 'PROV_5007',
 }
 
 /**
@@ -134,6 +150,39 @@ export enum TranslationErrorCode {
   UNSUPPORTED_FEATURE = 'TRANS_9001',
   LOSSY_CONVERSION = 'TRANS_9002',
   EXPRESSION_PARSE_FAILED = 'TRANS_9003',
+  SYNTAX_LIMITATION = 'TRANS_9004',
+  PERFORMANCE_IMPACT = 'TRANS_9005',
+  SECURITY_CONSIDERATION = 'TRANS_9006',
+  COMPATIBILITY_ISSUE = 'TRANS_9007',
+}
+
+/**
+ * Health check and lint findings (10000-10999)
+ * Reported alongside errors, e.g. in SARIF output, but never thrown
+ */
+export enum HealthCheckCode {
+  RULE_ID_FORMAT = 'HEALTH_10000',
+  SHORT_RULE_NAME = 'HEALTH_10001',
+  MISSING_DESCRIPTION = 'HEALTH_10002',
+  MANY_CONDITIONS = 'HEALTH_10003',
+  MANY_CONDITION_GROUPS = 'HEALTH_10004',
+  ROOT_PATH_DENY = 'HEALTH_10005',
+  LARGE_IP_LIST = 'HEALTH_10006',
+  MANY_ACTIVE_RULES = 'HEALTH_10007',
+  DUPLICATE_RULE_NAME = 'HEALTH_10008',
+  MISSING_VERSION = 'HEALTH_10009',
+
+  // Regex safety
+  REGEX_BACKTRACKING = 'HEALTH_10010',
+  REGEX_UNSUPPORTED_SYNTAX = 'HEALTH_10011',
+  REGEX_INVALID_SYNTAX = 'HEALTH_10012',
+  REGEX_TOO_LARGE = 'HEALTH_10013',
+
+  // Rule analysis
+  SHADOWED_RULE = 'HEALTH_10014',
+  DUPLICATE_RULE = 'HEALTH_10015',
+  CONTRADICTORY_CONDITIONS = 'HEALTH_10016',
+  ALWAYS_TRUE_GROUP = 'HEALTH_10017',
 }
 
 /**
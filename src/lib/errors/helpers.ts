@@ -3,6 +3,7 @@ import {
   ConfigErrorCode,
   ValidationErrorCode,
   SyncErrorCode,
+  MigrationErrorCode,
   ProviderErrorCode,
   CloudflareErrorCode,
   NetworkErrorCode,
@@ -51,6 +52,54 @@ export const configErrors = {
       details: { provider, supported },
       docsUrl: `${DOCS_BASE_URL}/${ConfigErrorCode.INVALID_PROVIDER}`,
     }),
+
+  unknownEnvironment: (environment: string, available: string[]) =>
+    new DoormanError({
+      code: ConfigErrorCode.UNKNOWN_ENVIRONMENT,
+      message: `Unknown environment: ${environment}`,
+      suggestion: available.length
+        ? `Available environments: ${available.join(', ')}`
+        : 'Add an "environments" section to your configuration file',
+      details: { environment, available },
+      docsUrl: `${DOCS_BASE_URL}/${ConfigErrorCode.UNKNOWN_ENVIRONMENT}`,
+    }),
+
+  invalidEnvironment: (environment: string, reason: string) =>
+    new DoormanError({
+      code: ConfigErrorCode.INVALID_ENVIRONMENT,
+      message: `Invalid "${environment}" environment: ${reason}`,
+      suggestion: 'Overrides and removals must reference the ID of a rule in the base config',
+      details: { environment, reason },
+      docsUrl: `${DOCS_BASE_URL}/${ConfigErrorCode.INVALID_ENVIRONMENT}`,
+    }),
+
+  environmentNotSupported: (environment: string, reason: string) =>
+    new DoormanError({
+      code: ConfigErrorCode.ENVIRONMENT_NOT_SUPPORTED,
+      message: `Cannot use the "${environment}" environment: ${reason}`,
+      suggestion: 'Run the command without --env to work on the base config',
+      details: { environment, reason },
+      docsUrl: `${DOCS_BASE_URL}/${ConfigErrorCode.ENVIRONMENT_NOT_SUPPORTED}`,
+    }),
+
+  noProviders: () =>
+    new DoormanError({
+      code: ConfigErrorCode.NO_PROVIDERS,
+      message: 'No providers are configured',
+      suggestion:
+        'Set "projectId" for Vercel and "zoneId" for Cloudflare, or add a "providers" section with an entry for each',
+      docsUrl: `${DOCS_BASE_URL}/${ConfigErrorCode.NO_PROVIDERS}`,
+    }),
+
+  invalidPolicies: (path: string, reason: string) =>
+    new DoormanError({
+      code: ConfigErrorCode.INVALID_POLICIES,
+      message: `Invalid policies file ${path}: ${reason}`,
+      suggestion:
+        'Fix the policies file, or ask whoever maintains it. Commands that check policies stop until it is valid',
+      details: { path },
+      docsUrl: `${DOCS_BASE_URL}/${ConfigErrorCode.INVALID_POLICIES}`,
+    }),
 }
 
 /**
@@ -112,6 +161,17 @@ export const providerErrors = {
       details: { provider, missing },
       docsUrl: `${DOCS_BASE_URL}/${ProviderErrorCode.INVALID_CREDENTIALS}`,
     }),
+
+  partialFailure: (operation: string, failed: string[], succeeded: string[]) =>
+    new DoormanError({
+      code: ProviderErrorCode.PARTIAL_FAILURE,
+      message: `Failed ${operation} for ${failed.join(', ')}`,
+      suggestion: succeeded.length
+        ? `${succeeded.join(', ')} completed. Fix the errors above and run the command again`
+        : 'Fix the errors above and run the command again',
+      details: { failed, succeeded },
+      docsUrl: `${DOCS_BASE_URL}/${ProviderErrorCode.PARTIAL_FAILURE}`,
+    }),
 }
 
 /**
@@ -376,6 +436,99 @@ export const syncErrors = {
       details: { provider, successful, failed },
       docsUrl: `${DOCS_BASE_URL}/${SyncErrorCode.PARTIAL_FAILURE}`,
     }),
+
+  invalidPlan: (path: string, reason: string) =>
+    new DoormanError({
+      code: SyncErrorCode.INVALID_PLAN,
+      message: `Invalid plan file ${path}: ${reason}`,
+      suggestion: 'Run "vercel-doorman plan" to create a new plan file',
+      details: { path },
+      docsUrl: `${DOCS_BASE_URL}/${SyncErrorCode.INVALID_PLAN}`,
+    }),
+
+  stalePlan: (
+    provider: string,
+    planned: { version?: number; updatedAt?: string },
+    current: { version?: number; updatedAt?: string },
+  ) =>
+    new DoormanError({
+      code: SyncErrorCode.STALE_PLAN,
+      message: `The ${provider} configuration has changed since the plan was created`,
+      suggestion: 'Run "vercel-doorman plan" again and review the new changes before applying',
+      details: { planned, current },
+      docsUrl: `${DOCS_BASE_URL}/${SyncErrorCode.STALE_PLAN}`,
+    }),
+
+  rolledBack: (provider: string, version: number, applied: string[], cause?: Error) =>
+    new DoormanError({
+      code: SyncErrorCode.ROLLED_BACK,
+      message: `Sync to ${provider} failed after ${applied.length} operation(s); restored config version ${version}`,
+      suggestion: 'The remote configuration is unchanged. Fix the cause below and run sync again',
+      details: { restoredVersion: version, appliedBeforeFailure: applied },
+      cause,
+      docsUrl: `${DOCS_BASE_URL}/${SyncErrorCode.ROLLED_BACK}`,
+    }),
+
+  rollbackFailed: (provider: string, version: number, applied: string[], cause?: Error, rollbackError?: Error) =>
+    new DoormanError({
+      code: SyncErrorCode.ROLLBACK_FAILED,
+      message: `Sync to ${provider} failed and config version ${version} could not be restored`,
+      suggestion: `The remote configuration is partially applied. Restore version ${version} from the ${provider} dashboard or run "vercel-doorman download" to review the current state`,
+      details: { targetVersion: version, appliedBeforeFailure: applied, rollbackError: rollbackError?.message },
+      cause,
+      docsUrl: `${DOCS_BASE_URL}/${SyncErrorCode.ROLLBACK_FAILED}`,
+    }),
+
+  invalidJournal: (path: string, reason: string) =>
+    new DoormanError({
+      code: SyncErrorCode.INVALID_JOURNAL,
+      message: `Cannot resume from sync journal ${path}: ${reason}`,
+      suggestion: 'Run "vercel-doorman sync" without --resume to compute the changes again',
+      details: { path },
+      docsUrl: `${DOCS_BASE_URL}/${SyncErrorCode.INVALID_JOURNAL}`,
+    }),
+
+  journalMismatch: (path: string, reason: string) =>
+    new DoormanError({
+      code: SyncErrorCode.JOURNAL_MISMATCH,
+      message: `The interrupted sync in ${path} does not match this run: ${reason}`,
+      suggestion:
+        'Resume with the config and environment the sync started with, or run "vercel-doorman sync" without --resume to apply the current config',
+      details: { path },
+      docsUrl: `${DOCS_BASE_URL}/${SyncErrorCode.JOURNAL_MISMATCH}`,
+    }),
+}
+
+/**
+ * Migration error helpers
+ */
+export const migrationErrors = {
+  incompatible: (sourceProvider: string, targetProvider: string, reason: string) =>
+    new DoormanError({
+      code: MigrationErrorCode.INCOMPATIBLE,
+      message: `Cannot migrate from ${sourceProvider} to ${targetProvider}: ${reason}`,
+      suggestion: 'Pass the provider to migrate to with --to',
+      details: { sourceProvider, targetProvider },
+      docsUrl: `${DOCS_BASE_URL}/${MigrationErrorCode.INCOMPATIBLE}`,
+    }),
+
+  missingFeatures: (targetProvider: string, rules: string[]) =>
+    new DoormanError({
+      code: MigrationErrorCode.MISSING_FEATURES,
+      message: `${rules.length} rule(s) could not be migrated to ${targetProvider}: ${rules.join(', ')}`,
+      suggestion: 'Review the critical warnings above and rewrite those rules before switching providers',
+      details: { targetProvider, rules },
+      docsUrl: `${DOCS_BASE_URL}/${MigrationErrorCode.MISSING_FEATURES}`,
+    }),
+
+  importFailed: (source: string, reason: string) =>
+    new DoormanError({
+      code: MigrationErrorCode.IMPORT_FAILED,
+      message: `Cannot import firewall rules from ${source}: ${reason}`,
+      suggestion: 'Point the import at the .tf files or terraform.tfstate that manage the firewall',
+      details: { source },
+      docsUrl: `${DOCS_BASE_URL}/${MigrationErrorCode.IMPORT_FAILED}`,
+    }),
 }
 
 /**
@@ -399,6 +552,24 @@ export const validationErrors = {
       details: { path, expected, actual },
       docsUrl: `${DOCS_BASE_URL}/${ValidationErrorCode.SCHEMA_ERROR}`,
     }),
+
+  policyViolation: (path: string, violations: string[]) =>
+    new DoormanError({
+      code: ValidationErrorCode.POLICY_VIOLATION,
+      message: `Configuration violates ${violations.length} polic${violations.length === 1 ? 'y' : 'ies'} in ${path}`,
+      suggestion: 'Change the configuration to satisfy the policies. They apply to every project and cannot be skipped',
+      details: { path, violations },
+      docsUrl: `${DOCS_BASE_URL}/${ValidationErrorCode.POLICY_VIOLATION}`,
+    }),
+
+  unsafeRegex: (issues: { ruleId: string; path: string; message: string }[]) =>
+    new DoormanError({
+      code: ValidationErrorCode.UNSAFE_REGEX,
+      message: `Configuration has ${issues.length} unsafe or unsupported regular expression(s)`,
+      suggestion: 'Fix the patterns, or match with simpler operators such as pre, suf or sub',
+      details: { issues },
+      docsUrl: `${DOCS_BASE_URL}/${ValidationErrorCode.UNSAFE_REGEX}`,
+    }),
 }
 
 /**
@@ -26,12 +26,14 @@ export {
   VercelErrorCode,
   NetworkErrorCode,
   TranslationErrorCode,
+  HealthCheckCode,
 } from './ErrorCodes'
 export {
   configErrors,
   providerErrors,
   cloudflareErrors,
   syncErrors,
+  migrationErrors,
   validationErrors,
   translationErrors,
   networkErrors,
@@ -0,0 +1,273 @@
+import type {
+  CustomRule,
+  EvaluatedAction,
+  FirewallConfig,
+  IPBlockingRule,
+  RateLimit,
+  Redirect,
+  RuleCondition,
+  RuleType,
+  SimulatedRequest,
+} from '../types'
+import { ipMatches } from './ipMatch'
+
+/**
+ * A rule referenced by an evaluation result
+ */
+export interface MatchedRule {
+  id?: string
+  name: string
+}
+
+/**
+ * Outcome of evaluating one request
+ */
+export interface EvaluationResult {
+  action: EvaluatedAction
+  /** What decided the action: an IP blocking rule, a custom rule, or no match */
+  matchedBy: 'ip' | 'rule' | 'default'
+  /** The custom rule that decided the action */
+  rule?: MatchedRule
+  /** The IP blocking rule that decided the action */
+  ipRule?: Pick<IPBlockingRule, 'id' | 'ip' | 'hostname'>
+  redirect?: Redirect
+  rateLimit?: RateLimit
+  /** `log` rules that matched before the deciding rule; these do not stop evaluation */
+  logged: MatchedRule[]
+}
+
+/**
+ * Evaluates synthetic requests against a firewall config the way Vercel does:
+ * IP blocking rules first, then active custom rules in order. A rule matches
+ * when any of its condition groups has all conditions true. `log` rules are
+ * recorded and evaluation continues; the first other matching rule decides.
+ *
+ * Depends on nothing outside this directory so it can run on the Edge runtime.
+ */
+export class RuleEvaluator {
+  private readonly rules: CustomRule[]
+  private readonly ips: IPBlockingRule[]
+  private readonly enabled: boolean
+  private readonly regexCache = new Map<string, RegExp | null>()
+
+  constructor(config: FirewallConfig) {
+    this.rules = config.rules
+    // Vercel only supports deny for IP blocking rules
+    this.ips = (config.ips || []).filter((ip) => ip.action === 'deny')
+    this.enabled = config.firewallEnabled !== false
+  }
+
+  evaluate(request: SimulatedRequest): EvaluationResult {
+    const logged: MatchedRule[] = []
+
+    if (!this.enabled) {
+      return { action: 'allow', matchedBy: 'default', logged }
+    }
+
+    const ipRule = this.ips.find((rule) => this.matchesIPRule(rule, request))
+    if (ipRule) {
+      return {
+        action: ipRule.action,
+        matchedBy: 'ip',
+        ipRule: { id: ipRule.id, ip: ipRule.ip, hostname: ipRule.hostname },
+        logged,
+      }
+    }
+
+    for (const rule of this.rules) {
+      if (!rule.active || !this.matchesRule(rule, request)) continue
+
+      const { action, redirect, rateLimit } = rule.action.mitigate
+      const matched: MatchedRule = { id: rule.id, name: rule.name }
+
+      if (action === 'log') {
+        logged.push(matched)
+        continue
+      }
+
+      return {
+        action,
+        matchedBy: 'rule',
+        rule: matched,
+        ...(redirect ? { redirect } : {}),
+        ...(rateLimit ? { rateLimit } : {}),
+        logged,
+      }
+    }
+
+    return { action: 'allow', matchedBy: 'default', logged }
+  }
+
+  /**
+   * Whether any condition group of `rule` matches the request
+   */
+  matchesRule(rule: CustomRule, request: SimulatedRequest): boolean {
+    return rule.conditionGroup.some(
+      (group) =>
+        group.conditions.length > 0 && group.conditions.every((condition) => this.matchesCondition(condition, request)),
+    )
+  }
+
+  /**
+   * Evaluate a single condition, applying `neg`
+   */
+  matchesCondition(condition: RuleCondition, request: SimulatedRequest): boolean {
+    const actual = resolveField(request, condition.type, condition.key)
+    const expected = toValues(condition.value)
+
+    let result: boolean
+    switch (condition.op) {
+      case 'ex':
+        result = actual !== undefined
+        break
+      case 'nex':
+        result = actual === undefined
+        break
+      case 'eq':
+      case 'inc':
+        result = actual !== undefined && expected.some((value) => equals(condition.type, actual, value))
+        break
+      case 'pre':
+        result = actual !== undefined && expected.some((value) => actual.startsWith(value))
+        break
+      case 'suf':
+        result = actual !== undefined && expected.some((value) => actual.endsWith(value))
+        break
+      case 'sub':
+        result = actual !== undefined && expected.some((value) => actual.includes(value))
+        break
+      case 're':
+        result = actual !== undefined && expected.some((value) => this.regex(value)?.test(actual) ?? false)
+        break
+      default:
+        result = false
+    }
+
+    return condition.neg ? !result : result
+  }
+
+  private matchesIPRule(rule: IPBlockingRule, request: SimulatedRequest): boolean {
+    if (!request.ip || !ipMatches(request.ip, rule.ip)) return false
+
+    const hostname = rule.hostname.trim().toLowerCase()
+    return !hostname || hostname === '*' || hostname === resolveField(request, 'host')?.toLowerCase()
+  }
+
+  private regex(pattern: string): RegExp | null {
+    if (!this.regexCache.has(pattern)) {
+      try {
+        this.regexCache.set(pattern, new RegExp(pattern))
+      } catch {
+        // An invalid pattern never matches
+        this.regexCache.set(pattern, null)
+      }
+    }
+    return this.regexCache.get(pattern)!
+  }
+}
+
+function toValues(value: RuleCondition['value']): string[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value.map(String) : [String(value)]
+}
+
+function equals(type: RuleType, actual: string, expected: string): boolean {
+  if (type === 'ip_address') return ipMatches(actual, expected)
+  if (type === 'host' || type === 'method') return actual.toLowerCase() === expected.toLowerCase()
+  return actual === expected
+}
+
+function findKey(record: Record<string, string> | undefined, key: string, caseInsensitive = false): string | undefined {
+  if (!record) return undefined
+  if (!caseInsensitive) return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined
+
+  const match = Object.keys(record).find((name) => name.toLowerCase() === key.toLowerCase())
+  return match === undefined ? undefined : record[match]
+}
+
+function splitPath(path: string | undefined): { pathname?: string; search?: string } {
+  if (path === undefined) return {}
+  const index = path.indexOf('?')
+  return index === -1 ? { pathname: path } : { pathname: path.slice(0, index), search: path.slice(index + 1) }
+}
+
+function parsePairs(input: string, separator: string): Record<string, string> {
+  const pairs: Record<string, string> = {}
+  for (const part of input.split(separator)) {
+    const trimmed = part.trim()
+    if (!trimmed) continue
+    const index = trimmed.indexOf('=')
+    const name = index === -1 ? trimmed : trimmed.slice(0, index)
+    const value = index === -1 ? '' : trimmed.slice(index + 1)
+    pairs[safeDecode(name)] = safeDecode(value)
+  }
+  return pairs
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '))
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Resolve the request value a condition type refers to, or undefined if the request does not have it
+ */
+function resolveField(request: SimulatedRequest, type: RuleType, key?: string): string | undefined {
+  const { pathname, search } = splitPath(request.path)
+  const header = (name: string) => findKey(request.headers, name, true)
+  const str = (value: string | number | undefined) => (value === undefined ? undefined : String(value))
+
+  switch (type) {
+    case 'host':
+      return request.host ?? header('host')
+    case 'path':
+      return pathname
+    case 'target_path':
+      return request.targetPath ?? pathname
+    case 'method':
+      return request.method ?? 'GET'
+    case 'header':
+      return key === undefined ? undefined : header(key)
+    case 'query':
+      if (key === undefined) return search
+      return findKey({ ...parsePairs(search ?? '', '&'), ...request.query }, key)
+    case 'cookie': {
+      if (key === undefined) return undefined
+      const cookies = request.cookies ?? parsePairs(header('cookie') ?? '', ';')
+      return findKey(cookies, key)
+    }
+    case 'ip_address':
+      return request.ip
+    case 'region':
+      return request.region
+    case 'protocol':
+      return request.protocol
+    case 'scheme':
+      return request.scheme
+    case 'environment':
+      return request.environment
+    case 'user_agent':
+      return request.userAgent ?? header('user-agent')
+    case 'geo_continent':
+      return request.geo?.continent
+    case 'geo_country':
+      return request.geo?.country
+    case 'geo_country_region':
+      return request.geo?.countryRegion
+    case 'geo_city':
+      return request.geo?.city
+    case 'geo_as_number':
+      return str(request.geo?.asNumber)
+    case 'ja4_digest':
+      return request.ja4Digest
+    case 'ja3_digest':
+      return request.ja3Digest
+    case 'rate_limit_api_id':
+      return request.rateLimitApiId
+    default:
+      return undefined
+  }
+}
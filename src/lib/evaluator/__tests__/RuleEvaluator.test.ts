@@ -0,0 +1,237 @@
+import { describe, expect, it } from '@jest/globals'
+import type { CustomRule, FirewallConfig, RuleCondition, SimulatedRequest } from '../../types'
+import type { UnifiedConfig } from '../../types/unified'
+import { ipMatches, parseIP } from '../ipMatch'
+import { formatRequestTestDiff, runRequestTests, toEvaluatorConfig } from '../requestTests'
+import { RuleEvaluator } from '../RuleEvaluator'
+
+const rule = (id: string, conditions: RuleCondition[], action: CustomRule['action']['mitigate']['action'] = 'deny') =>
+  ({
+    id,
+    name: id,
+    active: true,
+    conditionGroup: [{ conditions }],
+    action: { mitigate: { action } },
+  }) satisfies CustomRule
+
+const request: SimulatedRequest = {
+  path: '/api/users?page=2&sort=name',
+  host: 'Example.com',
+  method: 'POST',
+  headers: { 'User-Agent': 'curl/8.0', 'X-Api-Key': 'secret', cookie: 'session=abc; theme=dark' },
+  ip: '203.0.113.7',
+  region: 'iad1',
+  protocol: 'HTTP/2',
+  scheme: 'https',
+  environment: 'production',
+  geo: { continent: 'NA', country: 'US', countryRegion: 'CA', city: 'San Francisco', asNumber: 13335 },
+  ja4Digest: 't13d1516h2_8daaf6152771_b186095e22b6',
+  ja3Digest: '771,4865-4866',
+  rateLimitApiId: 'api-1',
+}
+
+const matches = (condition: RuleCondition, req: SimulatedRequest = request) =>
+  new RuleEvaluator({ rules: [] }).matchesCondition(condition, req)
+
+describe('RuleEvaluator', () => {
+  describe('operators', () => {
+    it('implements eq, pre, suf, sub, inc and re', () => {
+      expect(matches({ type: 'path', op: 'eq', value: '/api/users' })).toBe(true)
+      expect(matches({ type: 'path', op: 'pre', value: '/api' })).toBe(true)
+      expect(matches({ type: 'path', op: 'suf', value: '/users' })).toBe(true)
+      expect(matches({ type: 'path', op: 'sub', value: 'pi/us' })).toBe(true)
+      expect(matches({ type: 'method', op: 'inc', value: ['GET', 'POST'] })).toBe(true)
+      expect(matches({ type: 'path', op: 're', value: '^/api/[a-z]+$' })).toBe(true)
+      expect(matches({ type: 'path', op: 're', value: '^/admin' })).toBe(false)
+    })
+
+    it('implements ex and nex against keyed and unkeyed fields', () => {
+      expect(matches({ type: 'header', op: 'ex', key: 'x-api-key' })).toBe(true)
+      expect(matches({ type: 'header', op: 'nex', key: 'x-debug' })).toBe(true)
+      expect(matches({ type: 'cookie', op: 'ex', key: 'session' })).toBe(true)
+      expect(matches({ type: 'query', op: 'nex', key: 'debug' })).toBe(true)
+      expect(matches({ type: 'ja3_digest', op: 'ex' }, { path: '/' })).toBe(false)
+    })
+
+    it('negates every operator with neg', () => {
+      expect(matches({ type: 'path', op: 'eq', value: '/api/users', neg: true })).toBe(false)
+      expect(matches({ type: 'path', op: 'pre', value: '/admin', neg: true })).toBe(true)
+      expect(matches({ type: 'method', op: 'inc', value: ['GET'], neg: true })).toBe(true)
+      expect(matches({ type: 'path', op: 're', value: 'users', neg: true })).toBe(false)
+      expect(matches({ type: 'header', op: 'eq', key: 'x-missing', value: 'a', neg: true })).toBe(true)
+    })
+
+    it('never matches an invalid regular expression', () => {
+      expect(matches({ type: 'path', op: 're', value: '(' })).toBe(false)
+    })
+  })
+
+  describe('fields', () => {
+    it.each([
+      [{ type: 'host', op: 'eq', value: 'example.com' }],
+      [{ type: 'target_path', op: 'eq', value: '/api/users' }],
+      [{ type: 'header', op: 'eq', key: 'x-api-key', value: 'secret' }],
+      [{ type: 'query', op: 'eq', key: 'page', value: '2' }],
+      [{ type: 'cookie', op: 'eq', key: 'theme', value: 'dark' }],
+      [{ type: 'ip_address', op: 'eq', value: '203.0.113.0/24' }],
+      [{ type: 'region', op: 'eq', value: 'iad1' }],
+      [{ type: 'protocol', op: 'eq', value: 'HTTP/2' }],
+      [{ type: 'scheme', op: 'eq', value: 'https' }],
+      [{ type: 'environment', op: 'eq', value: 'production' }],
+      [{ type: 'user_agent', op: 'sub', value: 'curl' }],
+      [{ type: 'geo_continent', op: 'eq', value: 'NA' }],
+      [{ type: 'geo_country', op: 'inc', value: ['US', 'CA'] }],
+      [{ type: 'geo_country_region', op: 'eq', value: 'CA' }],
+      [{ type: 'geo_city', op: 'eq', value: 'San Francisco' }],
+      [{ type: 'geo_as_number', op: 'inc', value: [13335] }],
+      [{ type: 'ja4_digest', op: 'pre', value: 't13d' }],
+      [{ type: 'ja3_digest', op: 'pre', value: '771,' }],
+      [{ type: 'rate_limit_api_id', op: 'eq', value: 'api-1' }],
+    ] as [RuleCondition][])('resolves %o', (condition) => {
+      expect(matches(condition)).toBe(true)
+    })
+
+    it('prefers explicit query parameters and cookies over parsed ones', () => {
+      const req = { ...request, query: { page: '3' }, cookies: { theme: 'light' } }
+      expect(matches({ type: 'query', op: 'eq', key: 'page', value: '3' }, req)).toBe(true)
+      expect(matches({ type: 'query', op: 'eq', key: 'sort', value: 'name' }, req)).toBe(true)
+      expect(matches({ type: 'cookie', op: 'eq', key: 'theme', value: 'light' }, req)).toBe(true)
+    })
+  })
+
+  describe('evaluate', () => {
+    const config: FirewallConfig = {
+      rules: [
+        rule('rule_log_api', [{ type: 'path', op: 'pre', value: '/api' }], 'log'),
+        { ...rule('rule_disabled', [{ type: 'path', op: 'pre', value: '/' }]), active: false },
+        {
+          ...rule('rule_block_bots', []),
+          conditionGroup: [
+            { conditions: [{ type: 'user_agent', op: 'sub', value: 'curl' }] },
+            { conditions: [{ type: 'user_agent', op: 'sub', value: 'Wget' }] },
+          ],
+        },
+        {
+          ...rule('rule_redirect_old', [{ type: 'path', op: 'eq', value: '/old' }], 'redirect'),
+          action: { mitigate: { action: 'redirect', redirect: { location: '/new', permanent: true } } },
+        },
+      ],
+      ips: [{ ip: '198.51.100.0/24', hostname: 'example.com', action: 'deny' }],
+    }
+    const evaluator = new RuleEvaluator(config)
+
+    it('returns the first deciding rule and the log rules matched before it', () => {
+      expect(evaluator.evaluate(request)).toEqual({
+        action: 'deny',
+        matchedBy: 'rule',
+        rule: { id: 'rule_block_bots', name: 'rule_block_bots' },
+        logged: [{ id: 'rule_log_api', name: 'rule_log_api' }],
+      })
+    })
+
+    it('matches when any condition group matches', () => {
+      expect(evaluator.evaluate({ path: '/', userAgent: 'Wget/1.21' }).rule?.id).toBe('rule_block_bots')
+    })
+
+    it('includes redirect details', () => {
+      expect(evaluator.evaluate({ path: '/old' })).toMatchObject({
+        action: 'redirect',
+        redirect: { location: '/new', permanent: true },
+      })
+    })
+
+    it('allows requests no rule applies to', () => {
+      expect(evaluator.evaluate({ path: '/home' })).toEqual({ action: 'allow', matchedBy: 'default', logged: [] })
+    })
+
+    it('applies IP blocking rules before custom rules, scoped by hostname', () => {
+      expect(evaluator.evaluate({ ...request, ip: '198.51.100.20' })).toMatchObject({
+        action: 'deny',
+        matchedBy: 'ip',
+        ipRule: { ip: '198.51.100.0/24' },
+      })
+      expect(evaluator.evaluate({ path: '/', ip: '198.51.100.20', host: 'other.com' }).action).toBe('allow')
+    })
+
+    it('allows everything when the firewall is disabled', () => {
+      expect(new RuleEvaluator({ ...config, firewallEnabled: false }).evaluate(request).action).toBe('allow')
+    })
+
+    it('accepts a unified config', () => {
+      const unified: UnifiedConfig = {
+        version: '2.0',
+        rules: [
+          {
+            id: 'rule_geo',
+            name: 'Block countries',
+            enabled: true,
+            conditions: [
+              { field: 'path', operator: 'starts_with', value: '/api' },
+              {
+                logic: 'OR',
+                conditions: [
+                  { field: 'country', operator: 'eq', value: 'US' },
+                  { field: 'country', operator: 'eq', value: 'CA' },
+                ],
+              },
+            ],
+            conditionLogic: 'AND',
+            action: { type: 'challenge' },
+          },
+        ],
+        ips: [{ ip: '203.0.113.7', action: 'allow' }],
+      }
+      expect(new RuleEvaluator(toEvaluatorConfig(unified)).evaluate(request)).toMatchObject({
+        action: 'challenge',
+        rule: { id: 'rule_geo' },
+      })
+    })
+  })
+
+  describe('runRequestTests', () => {
+    const config: FirewallConfig = { rules: [rule('rule_block_admin', [{ type: 'path', op: 'pre', value: '/admin' }])] }
+
+    it('reports passing and failing fixtures', () => {
+      const [pass, wrongAction, wrongRule] = runRequestTests(config, [
+        { name: 'blocks admin', request: { path: '/admin' }, expect: { action: 'deny', rule: 'rule_block_admin' } },
+        { name: 'allows home', request: { path: '/admin/x' }, expect: { action: 'allow' } },
+        { name: 'by name', request: { path: '/' }, expect: { action: 'allow', rule: 'rule_block_admin' } },
+      ])
+
+      expect(pass).toMatchObject({ passed: true, mismatches: [] })
+      expect(wrongAction!.passed).toBe(false)
+      expect(wrongAction!.mismatches).toEqual([
+        'expected action "allow", got "deny" from rule "rule_block_admin" (rule_block_admin)',
+      ])
+      expect(wrongRule!.mismatches).toEqual(['expected rule "rule_block_admin" to decide, got no rule'])
+    })
+
+    it('formats failures as an expected/actual diff', () => {
+      const [result] = runRequestTests(config, [
+        { name: 'GET /', request: { path: '/' }, expect: { action: 'deny', rule: 'rule_block_admin' } },
+      ])
+
+      expect(formatRequestTestDiff(result!)).toEqual(['- deny by rule "rule_block_admin"', '+ allow by no rule'])
+    })
+  })
+})
+
+describe('ipMatch', () => {
+  it('parses IPv4, IPv6 and IPv4-mapped addresses', () => {
+    expect(parseIP('10.0.0.1')).toEqual([10, 0, 0, 1])
+    expect(parseIP('::1')).toEqual([...Array(15).fill(0), 1])
+    expect(parseIP('::ffff:10.0.0.1')?.slice(10)).toEqual([0xff, 0xff, 10, 0, 0, 1])
+    expect(parseIP('256.0.0.1')).toBeUndefined()
+    expect(parseIP('1::2::3')).toBeUndefined()
+  })
+
+  it('matches exact addresses and CIDR ranges', () => {
+    expect(ipMatches('10.1.2.3', '10.0.0.0/8')).toBe(true)
+    expect(ipMatches('11.1.2.3', '10.0.0.0/8')).toBe(false)
+    expect(ipMatches('192.168.1.130', '192.168.1.128/25')).toBe(true)
+    expect(ipMatches('2001:db8::1', '2001:db8::/32')).toBe(true)
+    expect(ipMatches('2001:db9::1', '2001:db8::/32')).toBe(false)
+    expect(ipMatches('10.0.0.1', '10.0.0.1')).toBe(true)
+    expect(ipMatches('10.0.0.1', '2001:db8::/32')).toBe(false)
+  })
+})
@@ -0,0 +1,13 @@
+/**
+ * Local firewall rule evaluation
+ * Simulates how a firewall config treats a request without calling any provider API
+ */
+
+export { RuleEvaluator } from './RuleEvaluator'
+export type { EvaluationResult, MatchedRule } from './RuleEvaluator'
+export type { SimulatedRequest, EvaluatedAction, RequestTest } from '../types'
+
+export { runRequestTests, describeMatch, formatRequestTestDiff, toEvaluatorConfig } from './requestTests'
+export type { RequestTestResult } from './requestTests'
+
+export { ipMatches, parseIP } from './ipMatch'
@@ -0,0 +1,74 @@
+/**
+ * Pure IPv4/IPv6 address and CIDR matching.
+ *
+ * Kept free of Node built-ins so the evaluator can run in Edge runtimes.
+ */
+
+/**
+ * Parse an IPv4 or IPv6 address into its bytes, or undefined if it is not a valid address
+ */
+export function parseIP(address: string): number[] | undefined {
+  const ip = address.trim()
+  return ip.includes(':') ? parseIPv6(ip) : parseIPv4(ip)
+}
+
+function parseIPv4(ip: string): number[] | undefined {
+  const parts = ip.split('.')
+  if (parts.length !== 4) return undefined
+
+  const bytes = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN))
+  return bytes.every((byte) => byte >= 0 && byte <= 255) ? bytes : undefined
+}
+
+function parseIPv6(ip: string): number[] | undefined {
+  // IPv4-mapped tail, e.g. ::ffff:10.0.0.1
+  let tail: number[] = []
+  let head = ip
+  const lastColon = ip.lastIndexOf(':')
+  if (ip.slice(lastColon + 1).includes('.')) {
+    const v4 = parseIPv4(ip.slice(lastColon + 1))
+    if (!v4) return undefined
+    tail = v4
+    head = ip.slice(0, lastColon + 1) + '0:0'
+  }
+
+  const halves = head.split('::')
+  if (halves.length > 2) return undefined
+
+  const toGroups = (part: string) => (part === '' ? [] : part.split(':'))
+  const left = toGroups(halves[0]!)
+  const right = halves.length === 2 ? toGroups(halves[1]!) : []
+  const missing = 8 - left.length - right.length
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return undefined
+
+  const groups = [...left, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...right]
+  if (groups.length !== 8 || !groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return undefined
+
+  const bytes = groups.flatMap((group) => {
+    const value = parseInt(group, 16)
+    return [value >> 8, value & 0xff]
+  })
+  if (tail.length) bytes.splice(12, 4, ...tail)
+  return bytes
+}
+
+/**
+ * Check whether `address` equals `pattern`, or falls within it when `pattern` is a CIDR range
+ */
+export function ipMatches(address: string, pattern: string): boolean {
+  const [network, prefix] = pattern.trim().split('/')
+  const ip = parseIP(address)
+  const range = parseIP(network!)
+  if (!ip || !range || ip.length !== range.length) return false
+
+  const bits = prefix === undefined ? ip.length * 8 : Number(prefix)
+  if (!Number.isInteger(bits) || bits < 0 || bits > ip.length * 8) return false
+
+  for (let i = 0; i < ip.length; i++) {
+    const remaining = bits - i * 8
+    if (remaining <= 0) break
+    const mask = remaining >= 8 ? 0xff : (0xff << (8 - remaining)) & 0xff
+    if ((ip[i]! & mask) !== (range[i]! & mask)) return false
+  }
+  return true
+}
@@ -0,0 +1,75 @@
+import type { CustomRule, FirewallConfig, RequestTest } from '../types'
+import { isUnifiedRule } from '../types/unified'
+import type { UnifiedConfig } from '../types/unified'
+import { toConfigRule } from '../utils/unifiedConfig'
+import { EvaluationResult, RuleEvaluator } from './RuleEvaluator'
+
+/**
+ * Result of running one request fixture
+ */
+export interface RequestTestResult {
+  test: RequestTest
+  passed: boolean
+  actual: EvaluationResult
+  /** Human-readable differences between the expected and actual outcome */
+  mismatches: string[]
+}
+
+/**
+ * Describe which rule decided an evaluation, e.g. `rule "Block admin" (rule_block_admin)`
+ */
+export function describeMatch(result: EvaluationResult): string {
+  if (result.rule) {
+    return `rule "${result.rule.name}"${result.rule.id ? ` (${result.rule.id})` : ''}`
+  }
+  if (result.ipRule) {
+    return `IP rule ${result.ipRule.ip}${result.ipRule.hostname ? ` on ${result.ipRule.hostname}` : ''}`
+  }
+  return 'no rule'
+}
+
+/**
+ * Expected and actual outcome of a failed test as `-`/`+` lines, e.g.
+ * `- deny by rule "rule_block_wordpress"` / `+ allow by no rule`
+ */
+export function formatRequestTestDiff({ test, actual }: RequestTestResult): string[] {
+  const expectedRule = test.expect.rule ? ` by rule "${test.expect.rule}"` : ''
+  return [`- ${test.expect.action}${expectedRule}`, `+ ${actual.action} by ${describeMatch(actual)}`]
+}
+
+/**
+ * Convert any unified rules in `config` to the local rule format the evaluator works on
+ */
+export function toEvaluatorConfig(config: FirewallConfig | UnifiedConfig): FirewallConfig {
+  return {
+    firewallEnabled: (config as FirewallConfig).firewallEnabled,
+    rules: (config.rules as unknown[]).map((rule) => (isUnifiedRule(rule) ? toConfigRule(rule) : (rule as CustomRule))),
+    ips: (config.ips || [])
+      .filter((ip) => ip.action === 'deny')
+      .map((ip) => ({ id: ip.id, ip: ip.ip, hostname: ip.hostname || '', action: 'deny' as const })),
+  }
+}
+
+/**
+ * Evaluate each fixture against `config` and compare it with its expectation
+ */
+export function runRequestTests(config: FirewallConfig | UnifiedConfig, tests: RequestTest[]): RequestTestResult[] {
+  const evaluator = new RuleEvaluator(toEvaluatorConfig(config))
+
+  return tests.map((test) => {
+    const actual = evaluator.evaluate(test.request)
+    const mismatches: string[] = []
+
+    if (actual.action !== test.expect.action) {
+      mismatches.push(`expected action "${test.expect.action}", got "${actual.action}" from ${describeMatch(actual)}`)
+    }
+
+    const expectedRule = test.expect.rule
+    const matchedIds = [actual.rule?.id, actual.rule?.name, actual.ipRule?.id, actual.ipRule?.ip]
+    if (expectedRule !== undefined && !matchedIds.includes(expectedRule)) {
+      mismatches.push(`expected rule "${expectedRule}" to decide, got ${describeMatch(actual)}`)
+    }
+
+    return { test, passed: mismatches.length === 0, actual, mismatches }
+  })
+}
@@ -0,0 +1,96 @@
+import { logger } from '../logger'
+import type { TranslationResult } from '../translators'
+import type { FirewallConfig } from '../types'
+import type { ExportContext, IConfigExporter } from './IConfigExporter'
+
+/**
+ * Registry of the formats `export` can write
+ * Implements singleton pattern so exporters registered anywhere are available to the command
+ */
+export class ExporterRegistry {
+  private static instance: ExporterRegistry
+  private exporters: Map<string, IConfigExporter> = new Map()
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ExporterRegistry {
+    if (!ExporterRegistry.instance) {
+      ExporterRegistry.instance = new ExporterRegistry()
+    }
+    return ExporterRegistry.instance
+  }
+
+  /**
+   * Register an exporter, replacing any registered for the same format
+   * @param exporter - The exporter to register
+   */
+  public register(exporter: IConfigExporter): void {
+    logger.debug(`Registering exporter: ${exporter.format}`)
+    this.exporters.set(exporter.format, exporter)
+  }
+
+  /**
+   * Get the exporter for a format
+   * @param format - The format to get
+   * @returns The exporter
+   * @throws Error if no exporter is registered for the format
+   */
+  public get(format: string): IConfigExporter {
+    const exporter = this.exporters.get(format)
+    if (!exporter) {
+      throw new Error(`Export format '${format}' is not registered. Available formats: ${this.getFormats().join(', ')}`)
+    }
+    return exporter
+  }
+
+  /**
+   * Write a config with the exporter for a format
+   * @param format - The format to write
+   * @param config - The config to export
+   * @param context - What the exporter knows about the firewall besides its config
+   * @returns The output, and warnings about what the format cannot express
+   */
+  public export(format: string, config: FirewallConfig, context: ExportContext): TranslationResult<string> {
+    const output = this.get(format).generate(config, context)
+    return typeof output === 'string' ? { result: output, warnings: [] } : output
+  }
+
+  /**
+   * Check if an exporter is registered for a format
+   * @param format - The format to check
+   */
+  public has(format: string): boolean {
+    return this.exporters.has(format)
+  }
+
+  /**
+   * Get the registered formats, in registration order
+   */
+  public getFormats(): string[] {
+    return Array.from(this.exporters.keys())
+  }
+
+  /**
+   * Clear all registered exporters (mainly for testing)
+   */
+  public clear(): void {
+    this.exporters.clear()
+  }
+
+  /**
+   * Unregister the exporter for a format
+   * @param format - The format to unregister
+   */
+  public unregister(format: string): void {
+    this.exporters.delete(format)
+    logger.debug(`Unregistered exporter: ${format}`)
+  }
+}
+
+// Export singleton instance getter for convenience
+export const getExporterRegistry = (): ExporterRegistry => ExporterRegistry.getInstance()
@@ -0,0 +1,28 @@
+import type { ProviderType } from '../providers/IFirewallProvider'
+import type { TranslationResult } from '../translators'
+import type { FirewallConfig } from '../types'
+
+/**
+ * What an exporter knows about the firewall besides its config
+ */
+export interface ExportContext {
+  /** Provider the config is deployed to */
+  provider: ProviderType
+}
+
+/**
+ * A format `export` can write a config in
+ */
+export interface IConfigExporter {
+  /** Name passed to `--format` */
+  format: string
+
+  /** Extension of the default output file, without the dot */
+  extension: string
+
+  /**
+   * Writes the config in this format
+   * @returns The output, or the output with warnings about what the format cannot express
+   */
+  generate(config: FirewallConfig, context: ExportContext): string | TranslationResult<string>
+}
@@ -0,0 +1,44 @@
+jest.mock('../../logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}))
+
+import { ExporterRegistry } from '../ExporterRegistry'
+import { builtInExporters, initExporters } from '../initExporters'
+import type { FirewallConfig } from '../../types'
+
+const config: FirewallConfig = { projectId: 'prj_123', rules: [], ips: [] }
+
+describe('ExporterRegistry', () => {
+  let registry: ExporterRegistry
+
+  beforeEach(() => {
+    registry = ExporterRegistry.getInstance()
+    registry.clear()
+  })
+
+  it('registers the built-in formats', () => {
+    initExporters()
+
+    expect(registry.getFormats()).toEqual(builtInExporters.map((exporter) => exporter.format))
+    expect(registry.getFormats()).toEqual(expect.arrayContaining(['terraform', 'pulumi-ts', 'cdktf-ts']))
+  })
+
+  it('keeps exporters registered before the built-ins', () => {
+    registry.register({ format: 'json', extension: 'json', generate: () => 'custom' })
+    initExporters()
+
+    expect(registry.export('json', config, { provider: 'vercel' }).result).toBe('custom')
+  })
+
+  it('wraps plain string output without warnings', () => {
+    registry.register({ format: 'ids', extension: 'txt', generate: () => 'none' })
+
+    expect(registry.export('ids', config, { provider: 'vercel' })).toEqual({ result: 'none', warnings: [] })
+  })
+
+  it('throws for unknown formats, listing the available ones', () => {
+    initExporters()
+
+    expect(() => registry.get('xml')).toThrow(/Export format 'xml' is not registered. Available formats: json, yaml/)
+  })
+})
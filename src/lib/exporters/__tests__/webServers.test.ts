@@ -0,0 +1,116 @@
+import { describe, expect, test } from '@jest/globals'
+import type { FirewallConfig } from '../../types'
+import { generateCaddyConfig } from '../caddy'
+import { generateHaproxyConfig } from '../haproxy'
+import { generateNginxConfig } from '../nginx'
+import { toWebServerRules } from '../webServerRules'
+
+const config: FirewallConfig = {
+  rules: [
+    {
+      id: 'rule_office',
+      name: 'Office bypass',
+      conditionGroup: [{ conditions: [{ type: 'ip_address', op: 'eq', value: '10.0.0.0/8' }] }],
+      action: { mitigate: { action: 'bypass' } },
+      active: true,
+    },
+    {
+      id: 'rule_block_admin',
+      name: 'Block admin writes',
+      conditionGroup: [
+        {
+          conditions: [
+            { type: 'path', op: 'pre', value: '/admin' },
+            { type: 'method', op: 'inc', value: ['POST', 'PUT'] },
+          ],
+        },
+        { conditions: [{ type: 'header', key: 'X-Debug', op: 'ex' }] },
+      ],
+      action: { mitigate: { action: 'deny' } },
+      active: true,
+    },
+    {
+      id: 'rule_api_limit',
+      name: 'API rate limit',
+      conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: '/api' }] }],
+      action: { mitigate: { action: 'rate_limit', rateLimit: { requests: 100, window: '1m' } } },
+      active: true,
+    },
+    {
+      id: 'rule_geo',
+      name: 'Block country',
+      conditionGroup: [{ conditions: [{ type: 'geo_country', op: 'eq', value: 'XX' }] }],
+      action: { mitigate: { action: 'deny' } },
+      active: true,
+    },
+  ],
+  ips: [{ ip: '1.2.3.4', hostname: '*', action: 'deny' }],
+}
+
+describe('toWebServerRules', () => {
+  test('keeps deny and bypass rules in evaluation order, with IP rules first', () => {
+    const warnings: never[] = []
+    const rules = toWebServerRules(config, { server: 'test', supports: (c) => c.type !== 'geo_country' }, warnings)
+
+    expect(rules.map((rule) => [rule.id, rule.action])).toEqual([
+      ['doorman_ip_blocklist', 'deny'],
+      ['rule_office', 'bypass'],
+      ['rule_block_admin', 'deny'],
+    ])
+    expect(warnings).toEqual([
+      expect.objectContaining({ rule: 'API rate limit', field: 'action' }),
+      expect.objectContaining({ rule: 'Block country', field: 'conditionGroup' }),
+    ])
+  })
+
+  test('exports nothing when the firewall is disabled', () => {
+    expect(
+      toWebServerRules({ ...config, firewallEnabled: false }, { server: 'test', supports: () => true }, []),
+    ).toEqual([])
+  })
+})
+
+describe('web server exporters', () => {
+  test('nginx chains the rules into $doorman_action', () => {
+    const { result, warnings } = generateNginxConfig(config)
+
+    expect(result).toContain('geo $doorman_doorman_ip_blocklist_0_0 {\n  default 0;\n  1.2.3.4 1;\n}')
+    expect(result).toContain('map $uri $doorman_rule_block_admin_0_0 {\n  default 0;\n  "~^/admin" 1;\n}')
+    expect(result).toContain('"~*^(?:POST|PUT)$" 1;')
+    expect(result).toContain('map $http_x_debug $doorman_rule_block_admin_1_0 {\n  default 1;\n  "" 0;\n}')
+    expect(result).toContain(
+      'map "$doorman_rule_block_admin_0_0$doorman_rule_block_admin_0_1" $doorman_rule_block_admin_0 {',
+    )
+    expect(result).toContain(
+      'map $doorman_doorman_ip_blocklist_0_0 $doorman_action {\n  default $doorman_action_1;\n  1 deny;\n}',
+    )
+    expect(result).toContain(
+      'map $doorman_rule_office_0_0 $doorman_action_1 {\n  default $doorman_action_2;\n  1 allow;\n}',
+    )
+    expect(warnings).toHaveLength(2)
+  })
+
+  test('Caddy folds bypass rules into the deny matchers after them', () => {
+    const { result } = generateCaddyConfig(config)
+
+    expect(result).toContain('\t@doorman_doorman_ip_blocklist expression `remote_ip("1.2.3.4")`')
+    expect(result).toContain(
+      '\t@doorman_rule_block_admin expression `(({path}.startsWith("/admin") && {method} in ["POST", "PUT"]) || ' +
+        '({header.X-Debug} != "")) && !(remote_ip("10.0.0.0/8"))`',
+    )
+    expect(result).toContain('\trespond @doorman_rule_block_admin "Forbidden" 403')
+  })
+
+  test('HAProxy writes ACLs with allow and deny rules in order', () => {
+    const { result } = generateHaproxyConfig(config)
+
+    expect(result).toContain("acl doorman_rule_block_admin_0_0 path -m beg '/admin'")
+    expect(result).toContain("acl doorman_rule_block_admin_0_1 method -m str -i 'POST' 'PUT'")
+    expect(result).toContain('acl doorman_rule_block_admin_1_0 req.hdr(X-Debug) -m found')
+    expect(result.indexOf('http-request allow if doorman_rule_office_0_0')).toBeLessThan(
+      result.indexOf(
+        'http-request deny deny_status 403 if doorman_rule_block_admin_0_0 doorman_rule_block_admin_0_1 || doorman_rule_block_admin_1_0',
+      ),
+    )
+  })
+})
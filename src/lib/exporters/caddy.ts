@@ -0,0 +1,146 @@
+import type { TranslationResult, TranslationWarning } from '../translators'
+import type { FirewallConfig, RuleCondition } from '../types'
+import { conditionValues, ruleComment, toWebServerRules } from './webServerRules'
+import type { WebServerRule } from './webServerRules'
+
+const KEY = /^[A-Za-z0-9_.-]+$/
+
+/**
+ * Lookarounds and backreferences, which Caddy's RE2 regular expressions do not support
+ */
+const UNSUPPORTED_REGEX = /\(\?<?[=!]|\\[1-9]/
+
+/**
+ * Generates a Caddyfile snippet that enforces the deny and bypass rules of a config.
+ *
+ * Each deny rule becomes a named matcher with a CEL `expression` and a `respond` that
+ * rejects the request. Bypass rules are folded into the expressions of the deny rules after
+ * them, so the first matching rule decides as it does on Vercel. Site blocks use the rules
+ * with `import doorman`.
+ *
+ * @param config - The config to export
+ * @returns The snippet, and warnings about the rules and conditions left out
+ */
+export function generateCaddyConfig(config: FirewallConfig): TranslationResult<string> {
+  const warnings: TranslationWarning[] = []
+  const rules = toWebServerRules(
+    config,
+    { server: 'Caddy', supports: (condition) => !!expression(condition) },
+    warnings,
+  )
+
+  const bypasses: string[] = []
+  const denies: string[] = []
+  for (const rule of rules) {
+    const matches = ruleExpression(rule)
+    if (rule.action === 'bypass') {
+      bypasses.push(matches)
+      continue
+    }
+
+    const matcher = `@doorman_${rule.id}`
+    const conditions = [bypasses.length > 0 ? `(${matches})` : matches, ...bypasses.map((bypass) => `!(${bypass})`)]
+    denies.push(
+      [
+        `\t${ruleComment(rule)}`,
+        `\t${matcher} expression \`${conditions.join(' && ')}\``,
+        `\trespond ${matcher} "Forbidden" 403`,
+      ].join('\n'),
+    )
+  }
+
+  const lines = [
+    '# Firewall rules exported by vercel-doorman',
+    '# Import the snippet in each site block with: import doorman',
+    '(doorman) {',
+    denies.join('\n\n'),
+    '}',
+  ]
+  return { result: `${lines.filter(Boolean).join('\n')}\n`, warnings }
+}
+
+function ruleExpression(rule: WebServerRule): string {
+  const groups = rule.groups.map((conditions) => conditions.map((condition) => expression(condition)!).join(' && '))
+  return groups.length === 1 ? groups[0]! : groups.map((group) => `(${group})`).join(' || ')
+}
+
+/**
+ * A CEL expression matching a condition, or undefined if Caddy cannot match it
+ */
+function expression(condition: RuleCondition): string | undefined {
+  const values = conditionValues(condition)
+  const input = placeholder(condition)
+  // Expressions are written between backticks, which cannot be escaped
+  if (!input || values.some((value) => value.includes('`'))) {
+    return undefined
+  }
+
+  const any = (matches: string[]) => (matches.length === 1 ? matches[0]! : `(${matches.join(' || ')})`)
+  let matches: string | undefined
+  switch (condition.op) {
+    case 'eq':
+    case 'inc':
+      matches =
+        condition.type === 'ip_address'
+          ? `remote_ip(${values.map(celString).join(', ')})`
+          : values.length === 1
+            ? `${input} == ${celString(values[0]!)}`
+            : `${input} in [${values.map(celString).join(', ')}]`
+      break
+    case 'pre':
+      matches = any(values.map((value) => `${input}.startsWith(${celString(value)})`))
+      break
+    case 'suf':
+      matches = any(values.map((value) => `${input}.endsWith(${celString(value)})`))
+      break
+    case 'sub':
+      matches = any(values.map((value) => `${input}.contains(${celString(value)})`))
+      break
+    case 're':
+      matches = values.some((value) => UNSUPPORTED_REGEX.test(value))
+        ? undefined
+        : any(values.map((value) => `${input}.matches(${celString(value)})`))
+      break
+    case 'ex':
+      matches = `${input} != ""`
+      break
+    case 'nex':
+      matches = `${input} == ""`
+      break
+  }
+
+  return matches && condition.neg ? `!${matches.startsWith('(') ? matches : `(${matches})`}` : matches
+}
+
+/**
+ * The Caddy placeholder a condition reads, or undefined if Caddy cannot match it
+ */
+function placeholder({ type, op, key }: RuleCondition): string | undefined {
+  switch (type) {
+    case 'host':
+      return '{host}'
+    case 'path':
+      return '{path}'
+    case 'method':
+      return '{method}'
+    case 'user_agent':
+      return '{header.User-Agent}'
+    case 'scheme':
+      return '{scheme}'
+    case 'header':
+      return key && KEY.test(key) ? `{header.${key}}` : undefined
+    case 'query':
+      return key === undefined ? '{query}' : KEY.test(key) ? `{query.${key}}` : undefined
+    case 'cookie':
+      return key && KEY.test(key) ? `{cookie.${key}}` : undefined
+    case 'ip_address':
+      // remote_ip matches addresses and ranges exactly
+      return op === 'eq' || op === 'inc' ? '{remote_host}' : undefined
+    default:
+      return undefined
+  }
+}
+
+function celString(value: string): string {
+  return JSON.stringify(value)
+}
@@ -0,0 +1,102 @@
+import type { TranslationResult, TranslationWarning } from '../translators'
+import type { FirewallConfig, RuleCondition } from '../types'
+import { conditionValues, isCaseInsensitive, ruleComment, toWebServerRules } from './webServerRules'
+
+const KEY = /^[A-Za-z0-9_.-]+$/
+
+/**
+ * How each operator matches in an ACL
+ */
+const MATCH_METHODS: Record<RuleCondition['op'], string> = {
+  eq: 'str',
+  inc: 'str',
+  pre: 'beg',
+  suf: 'end',
+  sub: 'sub',
+  re: 'reg',
+  ex: 'found',
+  nex: 'found',
+}
+
+/**
+ * Generates HAProxy ACLs and `http-request` rules that enforce the deny and bypass rules of
+ * a config, for the frontend section that receives the traffic.
+ *
+ * Each condition becomes an ACL and each rule an `http-request deny` or `http-request allow`
+ * line. HAProxy stops at the first `allow` or `deny` that matches, so the first matching rule
+ * decides as it does on Vercel.
+ *
+ * @param config - The config to export
+ * @returns The frontend lines, and warnings about the rules and conditions left out
+ */
+export function generateHaproxyConfig(config: FirewallConfig): TranslationResult<string> {
+  const warnings: TranslationWarning[] = []
+  const rules = toWebServerRules(config, { server: 'HAProxy', supports: (condition) => !!fetch(condition) }, warnings)
+
+  const lines = [
+    '# Firewall rules exported by vercel-doorman',
+    '# Add these lines to the frontend section. `http-request allow` skips the http-request',
+    '# rules after it, so place them after any rules that must run for every request.',
+  ]
+
+  for (const rule of rules) {
+    lines.push('', ruleComment(rule))
+    const groups = rule.groups.map((conditions, groupIndex) =>
+      conditions
+        .map((condition, conditionIndex) => {
+          const name = `doorman_${rule.id}_${groupIndex}_${conditionIndex}`
+          lines.push(acl(name, condition))
+          return !!condition.neg !== (condition.op === 'nex') ? `!${name}` : name
+        })
+        .join(' '),
+    )
+    lines.push(`http-request ${rule.action === 'bypass' ? 'allow' : 'deny deny_status 403'} if ${groups.join(' || ')}`)
+  }
+
+  return { result: `${lines.join('\n')}\n`, warnings }
+}
+
+function acl(name: string, condition: RuleCondition): string {
+  if (condition.type === 'ip_address') {
+    return `acl ${name} src ${conditionValues(condition).join(' ')}`
+  }
+
+  const flags = [`-m ${MATCH_METHODS[condition.op]}`, ...(isCaseInsensitive(condition) ? ['-i'] : [])]
+  const values = condition.op === 'ex' || condition.op === 'nex' ? [] : conditionValues(condition).map(haproxyString)
+  return [`acl ${name}`, fetch(condition), ...flags, ...values].join(' ')
+}
+
+/**
+ * The sample fetch a condition reads, or undefined if HAProxy cannot match it
+ */
+function fetch({ type, op, key }: RuleCondition): string | undefined {
+  switch (type) {
+    case 'host':
+      return 'req.hdr(host),field(1,:)'
+    case 'path':
+      return 'path'
+    case 'method':
+      return 'method'
+    case 'user_agent':
+      return 'req.hdr(user-agent)'
+    case 'header':
+      return key && KEY.test(key) ? `req.hdr(${key})` : undefined
+    case 'query':
+      return key === undefined ? 'query' : KEY.test(key) ? `url_param(${key})` : undefined
+    case 'cookie':
+      return key && KEY.test(key) ? `req.cook(${key})` : undefined
+    case 'ip_address':
+      // src matches addresses and ranges exactly
+      return op === 'eq' || op === 'inc' ? 'src' : undefined
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Quotes a value. Single quotes keep the value as is; values with a single quote use double
+ * quotes, which expand escapes and environment variables
+ */
+function haproxyString(value: string): string {
+  return value.includes("'") ? `"${value.replace(/[\\"$]/g, '\\$&')}"` : `'${value}'`
+}
@@ -0,0 +1,14 @@
+/**
+ * Config exporters
+ * Formats the export command can write a config in
+ */
+
+export type { ExportContext, IConfigExporter } from './IConfigExporter'
+export { ExporterRegistry, getExporterRegistry } from './ExporterRegistry'
+export { builtInExporters, initExporters } from './initExporters'
+export { generateMarkdownReport } from './markdown'
+export { generateNginxConfig } from './nginx'
+export { generateCaddyConfig } from './caddy'
+export { generateHaproxyConfig } from './haproxy'
+export { toWebServerRules } from './webServerRules'
+export type { WebServerAction, WebServerFeatures, WebServerRule } from './webServerRules'
@@ -0,0 +1,71 @@
+import { serializeConfig } from '../utils/configFormat'
+import { generateTerraformConfig } from '../utils/terraform'
+import { generateTypeScriptProgram } from '../utils/typescriptProgram'
+import { generateCaddyConfig } from './caddy'
+import { getExporterRegistry } from './ExporterRegistry'
+import { generateHaproxyConfig } from './haproxy'
+import type { IConfigExporter } from './IConfigExporter'
+import { generateMarkdownReport } from './markdown'
+import { generateNginxConfig } from './nginx'
+
+/**
+ * Exporters for the formats that ship with doorman
+ */
+export const builtInExporters: IConfigExporter[] = [
+  {
+    format: 'json',
+    extension: 'json',
+    generate: (config) => JSON.stringify(config, null, 2),
+  },
+  {
+    format: 'yaml',
+    extension: 'yaml',
+    generate: (config) => serializeConfig(config, 'yaml'),
+  },
+  {
+    format: 'terraform',
+    extension: 'tf',
+    generate: (config, { provider }) => generateTerraformConfig(config, provider),
+  },
+  {
+    format: 'pulumi-ts',
+    extension: 'ts',
+    generate: (config, { provider }) => generateTypeScriptProgram(config, provider, 'pulumi'),
+  },
+  {
+    format: 'cdktf-ts',
+    extension: 'ts',
+    generate: (config, { provider }) => generateTypeScriptProgram(config, provider, 'cdktf'),
+  },
+  {
+    format: 'nginx',
+    extension: 'conf',
+    generate: generateNginxConfig,
+  },
+  {
+    format: 'caddy',
+    extension: 'caddy',
+    generate: generateCaddyConfig,
+  },
+  {
+    format: 'haproxy',
+    extension: 'cfg',
+    generate: generateHaproxyConfig,
+  },
+  {
+    format: 'markdown',
+    extension: 'md',
+    generate: generateMarkdownReport,
+  },
+]
+
+/**
+ * Register the built-in exporters
+ * Formats registered before this is called keep their exporter
+ */
+export function initExporters(): void {
+  const registry = getExporterRegistry()
+  builtInExporters
+    .filter((exporter) => !registry.has(exporter.format))
+    .forEach((exporter) => registry.register(exporter))
+}
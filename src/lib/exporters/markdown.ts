@@ -0,0 +1,52 @@
+import type { CustomRule, FirewallConfig, IPBlockingRule } from '../types'
+
+/**
+ * Writes a config as a Markdown report for documentation and reviews
+ */
+export const generateMarkdownReport = (config: FirewallConfig): string => {
+  const { rules, ips = [], version, updatedAt } = config
+
+  let markdown = `# Vercel Firewall Configuration Report\n\n`
+  markdown += `**Version:** ${version}\n`
+  markdown += `**Last Updated:** ${updatedAt ? new Date(updatedAt).toLocaleString() : 'Unknown'}\n`
+  markdown += `**Generated:** ${new Date().toLocaleString()}\n\n`
+
+  markdown += `## Custom Rules (${rules.length})\n\n`
+  if (rules.length > 0) {
+    rules.forEach((rule: CustomRule, index: number) => {
+      markdown += `### ${index + 1}. ${rule.name}\n\n`
+      markdown += `- **ID:** \`${rule.id}\`\n`
+      markdown += `- **Description:** ${rule.description || 'No description'}\n`
+      markdown += `- **Action:** ${rule.action.mitigate.action}\n`
+      markdown += `- **Active:** ${rule.active ? '✅ Yes' : '❌ No'}\n`
+
+      if (rule.action.mitigate.rateLimit) {
+        markdown += `- **Rate Limit:** ${rule.action.mitigate.rateLimit.requests} requests per ${rule.action.mitigate.rateLimit.window}\n`
+      }
+
+      markdown += `- **Conditions:**\n`
+      rule.conditionGroup.forEach((group, groupIndex) => {
+        markdown += `  - Group ${groupIndex + 1}:\n`
+        group.conditions.forEach((condition) => {
+          markdown += `    - ${condition.type} ${condition.op} \`${condition.value}\`\n`
+        })
+      })
+      markdown += `\n`
+    })
+  } else {
+    markdown += `No custom rules configured.\n\n`
+  }
+
+  markdown += `## IP Blocking Rules (${ips.length})\n\n`
+  if (ips.length > 0) {
+    markdown += `| IP Address | Hostname | Action |\n`
+    markdown += `|------------|----------|--------|\n`
+    ips.forEach((ip: IPBlockingRule) => {
+      markdown += `| \`${ip.ip}\` | ${ip.hostname || 'N/A'} | ${ip.action} |\n`
+    })
+  } else {
+    markdown += `No IP blocking rules configured.\n`
+  }
+
+  return markdown
+}
@@ -0,0 +1,149 @@
+import type { TranslationResult, TranslationWarning } from '../translators'
+import type { FirewallConfig, RuleCondition } from '../types'
+import { conditionPattern, conditionValues, isCaseInsensitive, ruleComment, toWebServerRules } from './webServerRules'
+import type { WebServerRule } from './webServerRules'
+
+/**
+ * Variable holding the outcome of the rules: `deny`, `allow`, or empty when no rule matched
+ */
+const ACTION_VARIABLE = '$doorman_action'
+
+const KEY = /^[A-Za-z0-9_]+$/
+const HEADER_KEY = /^[A-Za-z0-9_-]+$/
+
+/**
+ * Generates nginx configuration that enforces the deny and bypass rules of a config.
+ *
+ * Each condition becomes a `map` (or a `geo` block for client IPs) and the rules are
+ * chained in order into `$doorman_action`, so the first matching rule decides as it does on
+ * Vercel. The file goes in the `http` block; each `server` block then rejects requests with
+ * `if ($doorman_action = deny) { return 403; }`.
+ *
+ * @param config - The config to export
+ * @returns The configuration, and warnings about the rules and conditions left out
+ */
+export function generateNginxConfig(config: FirewallConfig): TranslationResult<string> {
+  const warnings: TranslationWarning[] = []
+  const rules = toWebServerRules(config, { server: 'nginx', supports: (condition) => !!source(condition) }, warnings)
+
+  const lines = [
+    '# Firewall rules exported by vercel-doorman',
+    '# Include this file in the http block, then add to each server block:',
+    `#   if (${ACTION_VARIABLE} = deny) { return 403; }`,
+  ]
+
+  const ruleVariables = rules.map((rule) => {
+    lines.push('', ruleComment(rule))
+    return ruleMaps(rule, lines)
+  })
+
+  // Each rule falls back to the outcome of the rules after it
+  lines.push('')
+  rules.forEach((rule, index) => {
+    const variable = index === 0 ? ACTION_VARIABLE : `${ACTION_VARIABLE}_${index}`
+    const fallback = index === rules.length - 1 ? '""' : `${ACTION_VARIABLE}_${index + 1}`
+    lines.push(
+      `map ${ruleVariables[index]} ${variable} {`,
+      `  default ${fallback};`,
+      `  1 ${rule.action === 'bypass' ? 'allow' : 'deny'};`,
+      '}',
+    )
+  })
+  if (rules.length === 0) {
+    lines.push(`map $host ${ACTION_VARIABLE} {`, '  default "";', '}')
+  }
+
+  return { result: `${lines.join('\n')}\n`, warnings }
+}
+
+/**
+ * Adds the maps that decide whether a rule matches
+ * @returns The variable that is 1 when the rule matches
+ */
+function ruleMaps(rule: WebServerRule, lines: string[]): string {
+  const groupVariables = rule.groups.map((conditions, groupIndex) => {
+    const conditionVariables = conditions.map((condition, conditionIndex) => {
+      const variable = `$doorman_${rule.id}_${groupIndex}_${conditionIndex}`
+      lines.push(...conditionMap(condition, variable))
+      return variable
+    })
+    return combine(lines, conditionVariables, `$doorman_${rule.id}_${groupIndex}`, 'all')
+  })
+  return combine(lines, groupVariables, `$doorman_${rule.id}`, 'any')
+}
+
+/**
+ * Adds a map setting `variable` to 1 when all or any of `variables` are 1
+ * @returns The variable holding the result, which is the only one of `variables` if there is one
+ */
+function combine(lines: string[], variables: string[], variable: string, mode: 'all' | 'any'): string {
+  if (variables.length === 1) {
+    return variables[0]!
+  }
+
+  const match = mode === 'all' ? '1'.repeat(variables.length) : '~1'
+  lines.push(`map "${variables.join('')}" ${variable} {`, '  default 0;', `  ${nginxString(match)} 1;`, '}')
+  return variable
+}
+
+function conditionMap(condition: RuleCondition, variable: string): string[] {
+  const [matched, unmatched] = condition.neg ? ['0', '1'] : ['1', '0']
+
+  if (condition.type === 'ip_address') {
+    return [
+      `geo ${variable} {`,
+      `  default ${unmatched};`,
+      ...conditionValues(condition).map((ip) => `  ${ip} ${matched};`),
+      '}',
+    ]
+  }
+
+  const input = source(condition)!
+  if (condition.op === 'ex' || condition.op === 'nex') {
+    // nginx sets missing values to the empty string
+    const missing = condition.op === 'nex' ? matched : unmatched
+    const present = condition.op === 'nex' ? unmatched : matched
+    return [`map ${input} ${variable} {`, `  default ${present};`, `  "" ${missing};`, '}']
+  }
+
+  const operator = isCaseInsensitive(condition) ? '~*' : '~'
+  return [
+    `map ${input} ${variable} {`,
+    `  default ${unmatched};`,
+    `  ${nginxString(`${operator}${conditionPattern(condition)}`)} ${matched};`,
+    '}',
+  ]
+}
+
+/**
+ * The nginx variable a condition reads, or undefined if nginx cannot match it
+ */
+function source({ type, op, key }: RuleCondition): string | undefined {
+  switch (type) {
+    case 'host':
+      return '$host'
+    case 'path':
+      return '$uri'
+    case 'method':
+      return '$request_method'
+    case 'user_agent':
+      return '$http_user_agent'
+    case 'scheme':
+      return '$scheme'
+    case 'header':
+      return key && HEADER_KEY.test(key) ? `$http_${key.toLowerCase().replace(/-/g, '_')}` : undefined
+    case 'query':
+      return key === undefined ? '$args' : KEY.test(key) ? `$arg_${key}` : undefined
+    case 'cookie':
+      return key && KEY.test(key) ? `$cookie_${key}` : undefined
+    case 'ip_address':
+      // geo blocks match addresses and ranges exactly
+      return op === 'eq' || op === 'inc' ? '$remote_addr' : undefined
+    default:
+      return undefined
+  }
+}
+
+function nginxString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
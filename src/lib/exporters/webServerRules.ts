@@ -0,0 +1,195 @@
+import { TranslationWarningSystem } from '../translators'
+import type { TranslationWarning } from '../translators'
+import type { FirewallConfig, RuleCondition } from '../types'
+import { toResourceName } from '../utils/hcl'
+
+/**
+ * What a web server does with a request a rule matches: `deny` answers 403, and `bypass`
+ * lets the request through without checking the rules after it
+ */
+export type WebServerAction = 'deny' | 'bypass'
+
+/**
+ * A rule in the subset of the config a web server can enforce
+ */
+export interface WebServerRule {
+  /** Identifier safe to use in any server's variable and matcher names */
+  id: string
+  name: string
+  action: WebServerAction
+  /** Condition groups; the rule matches when all conditions of any group match */
+  groups: RuleCondition[][]
+}
+
+/**
+ * What a web server's configuration language can match on
+ */
+export interface WebServerFeatures {
+  /** Server name used in warnings */
+  server: string
+  supports: (condition: RuleCondition) => boolean
+}
+
+/**
+ * Reduces a config to the rules a web server can enforce, in the order Vercel evaluates
+ * them: IP blocking rules first, as deny rules on the client IP, then active custom rules.
+ *
+ * Rules with other actions are left out, as are condition groups with a condition the
+ * server cannot match on, since enforcing the rest of the group would block more than the
+ * rule does. Everything left out is reported as a warning.
+ *
+ * @param config - The config to export
+ * @param features - What the server can match on
+ * @param warnings - Receives a warning for everything left out
+ * @returns The rules to write, or none if the firewall is disabled
+ */
+export function toWebServerRules(
+  config: FirewallConfig,
+  features: WebServerFeatures,
+  warnings: TranslationWarning[],
+): WebServerRule[] {
+  if (config.firewallEnabled === false) {
+    return []
+  }
+
+  const taken = new Set<string>()
+  const rules: WebServerRule[] = []
+  const ipsByHost = new Map<string, string[]>()
+
+  for (const ip of config.ips || []) {
+    const host = ip.hostname.trim().toLowerCase()
+    const key = host === '*' ? '' : host
+    ipsByHost.set(key, [...(ipsByHost.get(key) || []), ip.ip])
+  }
+
+  for (const [host, ips] of ipsByHost) {
+    const conditions: RuleCondition[] = [
+      { type: 'ip_address', op: 'inc', value: ips },
+      ...(host ? [{ type: 'host' as const, op: 'eq' as const, value: host }] : []),
+    ]
+    const name = host ? `Blocked IPs for ${host}` : 'Blocked IPs'
+    const groups = supportedGroups(name, [{ conditions }], features, warnings)
+    if (groups.length > 0) {
+      rules.push({
+        id: toResourceName(`doorman_ip_blocklist_${host}`.replace(/-/g, '_'), taken),
+        name,
+        action: 'deny',
+        groups,
+      })
+    }
+  }
+
+  for (const rule of config.rules) {
+    const { action } = rule.action.mitigate
+    if (!rule.active) {
+      continue
+    }
+    if (action !== 'deny' && action !== 'bypass') {
+      // Log rules do not change the outcome, so leaving them out is not worth a warning
+      if (action !== 'log') {
+        warnings.push(
+          TranslationWarningSystem.createUnsupportedFeatureWarning(
+            `The ${action} action`,
+            'Vercel',
+            features.server,
+            rule.name,
+            'action',
+          ),
+        )
+      }
+      continue
+    }
+
+    const groups = supportedGroups(rule.name, rule.conditionGroup, features, warnings)
+    if (groups.length > 0) {
+      rules.push({
+        id: toResourceName((rule.id || rule.name).replace(/-/g, '_'), taken),
+        name: rule.name,
+        action,
+        groups,
+      })
+    }
+  }
+
+  return rules
+}
+
+function supportedGroups(
+  ruleName: string,
+  groups: { conditions: RuleCondition[] }[],
+  features: WebServerFeatures,
+  warnings: TranslationWarning[],
+): RuleCondition[][] {
+  return groups
+    .filter((group) => group.conditions.length > 0)
+    .filter((group) => {
+      const unsupported = group.conditions.filter((condition) => !features.supports(condition))
+      unsupported.forEach((condition) =>
+        warnings.push(
+          TranslationWarningSystem.createUnsupportedFeatureWarning(
+            `Matching ${condition.type}${condition.key ? ` ${condition.key}` : ''} with the ${condition.op} operator`,
+            'Vercel',
+            features.server,
+            ruleName,
+            'conditionGroup',
+          ),
+        ),
+      )
+      return unsupported.length === 0
+    })
+    .map((group) => group.conditions)
+}
+
+/**
+ * The values a condition compares against, as strings
+ */
+export function conditionValues(condition: RuleCondition): string[] {
+  if (condition.value === undefined) {
+    return []
+  }
+  return Array.isArray(condition.value) ? condition.value.map(String) : [String(condition.value)]
+}
+
+/**
+ * A regular expression matching what a condition's operator matches, for servers that
+ * match with regular expressions. `ex` and `nex` have no pattern.
+ */
+export function conditionPattern(condition: RuleCondition): string | undefined {
+  const values = conditionValues(condition)
+  const alternatives = (patterns: string[]) => (patterns.length === 1 ? patterns[0]! : `(?:${patterns.join('|')})`)
+
+  switch (condition.op) {
+    case 'eq':
+    case 'inc':
+      return `^${alternatives(values.map(escapeRegex))}$`
+    case 'pre':
+      return `^${alternatives(values.map(escapeRegex))}`
+    case 'suf':
+      return `${alternatives(values.map(escapeRegex))}$`
+    case 'sub':
+      return alternatives(values.map(escapeRegex))
+    case 're':
+      return alternatives(values)
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Whether a condition compares a request value case-insensitively, as Vercel does for
+ * hosts and methods
+ */
+export function isCaseInsensitive(condition: RuleCondition): boolean {
+  return condition.type === 'host' || condition.type === 'method'
+}
+
+/**
+ * A comment line naming a rule
+ */
+export function ruleComment(rule: WebServerRule): string {
+  return `# ${rule.name.replace(/[\r\n]+/g, ' ')} (${rule.action})`
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
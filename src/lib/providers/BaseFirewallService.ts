@@ -1,6 +1,7 @@
 import { logger } from '../logger'
 import type {
   IFirewallProvider,
+  ProviderTarget,
   ProviderType,
   ValidationResult,
   ValidationError,
@@ -41,6 +42,7 @@ export abstract class BaseFirewallService implements IFirewallProvider {
   abstract getChanges(config: UnifiedConfig): Promise<import('./IFirewallProvider').ChangeSet>
   abstract getSupportedFeatures(): import('./IFirewallProvider').FeatureSet
   abstract verifyCredentials(): Promise<boolean>
+  abstract getTarget(): ProviderTarget
 
   /**
    * Validate configuration
@@ -15,6 +15,33 @@ export interface SyncOptions {
   dryRun?: boolean
   skipBackup?: boolean
   force?: boolean
+  /** Replace the whole remote config in a single request where the provider supports it */
+  atomic?: boolean
+  /** Receives the operations of the sync as they are planned and applied */
+  recorder?: SyncRecorder
+}
+
+/**
+ * Follows the API operations of a sync, so an interrupted sync can be resumed.
+ * Operations are identified by human readable descriptions, e.g. `delete rule rule_block_admin`.
+ */
+export interface SyncRecorder {
+  /** Called with the operations the sync is about to run, before the first of them */
+  plan(operations: string[]): void
+  /**
+   * Called after an operation has landed
+   * @param created - The rule the operation created, with the ID the provider assigned it
+   */
+  complete(operation: string, created?: CreatedRule): void
+}
+
+/**
+ * A rule created by a sync, which a resumed sync matches by content so it is not created again
+ */
+export interface CreatedRule {
+  /** {@link ruleContentHash} of the rule as it was sent */
+  hash: string
+  id: string
 }
 
 /**
@@ -25,9 +52,15 @@ export interface SyncResult {
   rulesAdded: number
   rulesUpdated: number
   rulesDeleted: number
+  /** Rules moved to a different position in the evaluation order */
+  rulesMoved?: number
   ipsAdded?: number
   ipsUpdated?: number
   ipsDeleted?: number
+  /** Managed rulesets, core ruleset groups and attack mode settings updated */
+  securityUpdated?: number
+  bypassAdded?: number
+  bypassDeleted?: number
   version?: number
   errors?: string[]
   warnings?: string[]
@@ -61,10 +94,21 @@ export interface ChangeSet {
   rulesToAdd: import('../types/unified').UnifiedRule[]
   rulesToUpdate: import('../types/unified').UnifiedRule[]
   rulesToDelete: import('../types/unified').UnifiedRule[]
+  /** Rules in a different position than in the config, with `priority` set to their target position */
+  rulesToMove?: import('../types/unified').UnifiedRule[]
   ipsToAdd?: import('../types/unified').UnifiedIPRule[]
   ipsToUpdate?: import('../types/unified').UnifiedIPRule[]
   ipsToDelete?: import('../types/unified').UnifiedIPRule[]
+  /** Managed ruleset and attack mode settings to update (Vercel only) */
+  securityChanges?: import('../types/vercel').VercelSecurityChange[]
+  /** System bypass rules to add and delete (Vercel only) */
+  bypassToAdd?: import('../types/vercel').VercelBypassRule[]
+  bypassToDelete?: import('../types/vercel').VercelBypassRule[]
   hasChanges: boolean
+  /** Remote configuration version the change set was computed against */
+  version?: number
+  /** Last-modified timestamp of the remote configuration the change set was computed against */
+  updatedAt?: string
 }
 
 /**
@@ -99,6 +143,11 @@ export interface HealthIssue {
   suggestion?: string
 }
 
+/**
+ * Identifiers of the project or zone a provider instance manages, e.g. `{ projectId, teamId }`
+ */
+export type ProviderTarget = Record<string, string>
+
 /**
  * Provider credentials interface
  */
@@ -163,4 +212,10 @@ export interface IFirewallProvider {
    * @returns Promise resolving to true if credentials are valid
    */
   verifyCredentials(): Promise<boolean>
+
+  /**
+   * Identify the project or zone this provider instance manages
+   * @returns The non-empty identifiers, e.g. `{ projectId, teamId }` for Vercel
+   */
+  getTarget(): ProviderTarget
 }
@@ -74,13 +74,23 @@ export class ProviderDetector {
       }
     }
 
-    // 4. Check environment variables
+    // 4. Check top-level Cloudflare zone (e.g. set by an environment overlay)
+    if (config && 'zoneId' in config && typeof config.zoneId === 'string') {
+      reasons.push('Cloudflare zone ID found in config')
+      return {
+        provider: 'cloudflare',
+        confidence: 'high',
+        reasons,
+      }
+    }
+
+    // 5. Check environment variables
     const envProvider = this.detectFromEnvironment()
     if (envProvider.provider) {
       return envProvider
     }
 
-    // 5. Unable to detect
+    // 6. Unable to detect
     logger.debug('Unable to auto-detect provider')
     return {
       provider: null,
@@ -211,6 +221,9 @@ export class ProviderDetector {
     if (config && 'projectId' in config && typeof config.projectId === 'string') {
       providers.add('vercel')
     }
+    if (config && 'zoneId' in config && typeof config.zoneId === 'string') {
+      providers.add('cloudflare')
+    }
 
     // Check environment
     if (process.env.CLOUDFLARE_ZONE_ID) {
@@ -190,5 +190,10 @@ describe('ProviderDetector', () => {
       expect(providers).toContain('cloudflare')
       expect(providers).toContain('vercel')
     })
+
+    it('detects from top-level project and zone identifiers', () => {
+      const providers = ProviderDetector.detectAll({ projectId: 'proj-123', zoneId: 'zone-123' })
+      expect(providers).toEqual(['vercel', 'cloudflare'])
+    })
   })
 })
@@ -2,7 +2,7 @@ import { BaseFirewallClient } from '../BaseFirewallClient'
 import { logger } from '../../logger'
 import { providerErrors, cloudflareErrors } from '../../errors'
 import { CloudflareErrorHandler } from './CloudflareErrorHandler'
-import { ApiCache, CacheKeys, CacheTTL } from '../../utils/cache'
+import { ApiCache, CacheKeys, CacheTTL, getPersistentCacheStore, hashToken } from '../../utils/cache'
 import { CloudflareOptimizer } from './CloudflareOptimizer'
 import type { CacheStats } from '../../utils/cache'
 import type {
@@ -29,7 +29,12 @@ export class CloudflareClient extends BaseFirewallClient {
   private readonly apiToken: string
   private readonly zoneId: string
   private readonly accountId?: string
+  /** Rulesets and lists, which other tools and runs change, so they are only cached for this run */
   private readonly cache: ApiCache
+  /** Zone info and credential checks, which are also kept on disk between runs */
+  private readonly referenceCache: ApiCache
+  /** Prefix of this client's keys in `referenceCache`, whose store other clients share */
+  private readonly referenceScope: string
   private readonly optimizer: CloudflareOptimizer
 
   constructor(apiToken: string, zoneId: string, accountId?: string) {
@@ -38,6 +43,8 @@ export class CloudflareClient extends BaseFirewallClient {
     this.zoneId = zoneId
     this.accountId = accountId
     this.cache = new ApiCache({ enableLogging: true })
+    this.referenceCache = new ApiCache({ enableLogging: true, store: getPersistentCacheStore() })
+    this.referenceScope = CacheKeys.clientScope(hashToken(apiToken), zoneId)
     this.optimizer = new CloudflareOptimizer()
   }
 
@@ -45,15 +52,27 @@ export class CloudflareClient extends BaseFirewallClient {
    * Get cache statistics for monitoring
    */
   public getCacheStats(): CacheStats {
-    return this.cache.getStats()
+    const remote = this.cache.getStats()
+    const reference = this.referenceCache.getStats()
+    const hits = remote.hits + reference.hits
+    const misses = remote.misses + reference.misses
+    return {
+      hits,
+      misses,
+      size: remote.size + reference.size,
+      evictions: remote.evictions + reference.evictions,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    }
   }
 
   /**
-   * Clear all cached data. Call after write operations that
-   * invalidate previously cached responses.
+   * Clear all data cached by this client. Call after write operations that
+   * invalidate previously cached responses. Entries other clients keep in the
+   * persistent cache are left alone.
    */
   public clearCache(): void {
     this.cache.clear()
+    this.referenceCache.invalidateByPrefix(this.referenceScope)
   }
 
   /**
@@ -423,9 +442,8 @@ export class CloudflareClient extends BaseFirewallClient {
    */
   public async verifyCredentials(): Promise<boolean> {
     // Check cache for recent successful validation
-    const tokenHash = this.apiToken.slice(-8) // Use last 8 chars as a safe hash
-    const cacheKey = CacheKeys.credentialValidation(tokenHash)
-    const cached = this.cache.get<boolean>(cacheKey)
+    const cacheKey = this.referenceScope + CacheKeys.credentialValidation(hashToken(this.apiToken))
+    const cached = this.referenceCache.get<boolean>(cacheKey)
     if (cached !== undefined) {
       logger.debug('Using cached credential validation result')
       return cached
@@ -438,7 +456,7 @@ export class CloudflareClient extends BaseFirewallClient {
       await this.listRulesets()
 
       logger.info('Cloudflare credentials verified successfully')
-      this.cache.set(cacheKey, true, CacheTTL.CREDENTIALS)
+      this.referenceCache.set(cacheKey, true, CacheTTL.CREDENTIALS)
       return true
     } catch (error) {
       logger.error(`Cloudflare credential verification failed: ${error}`)
@@ -466,8 +484,10 @@ export class CloudflareClient extends BaseFirewallClient {
    */
   public async getZoneInfo(): Promise<{ id: string; name: string; status: string; plan?: { name: string } }> {
     // Check cache first – zone info rarely changes
-    const cacheKey = CacheKeys.zoneInfo(this.zoneId)
-    const cached = this.cache.get<{ id: string; name: string; status: string; plan?: { name: string } }>(cacheKey)
+    const cacheKey = this.referenceScope + CacheKeys.zoneInfo(this.zoneId)
+    const cached = this.referenceCache.get<{ id: string; name: string; status: string; plan?: { name: string } }>(
+      cacheKey,
+    )
     if (cached) {
       return cached
     }
@@ -486,7 +506,7 @@ export class CloudflareClient extends BaseFirewallClient {
       throw providerErrors.apiError('cloudflare', `/zones/${this.zoneId}`, response.errors[0]?.code || 0, errorMessage)
     }
 
-    this.cache.set(cacheKey, response.result, CacheTTL.ZONE_INFO)
+    this.referenceCache.set(cacheKey, response.result, CacheTTL.ZONE_INFO)
     return response.result
   }
 
@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import type { UnifiedConfig } from '../../types/unified'
+import { flattenConditions } from '../../types/unified'
 import { CloudflareValidator } from './CloudflareValidator'
 import { logger } from '../../logger'
 
@@ -291,7 +292,7 @@ export class CloudflareConfigValidator {
     if (config.rules && config.rules.length > 0) {
       for (const rule of config.rules) {
         // Check for unsupported conditions
-        for (const condition of rule.conditions) {
+        for (const condition of flattenConditions(rule.conditions)) {
           if (!this.isConditionSupportedByCloudflare(condition.field)) {
             result.warnings.push({
               field: `rules.${rule.name}.conditions`,
@@ -5,8 +5,18 @@ import { RuleTranslator } from '../../translators/RuleTranslator'
 import { logger } from '../../logger'
 import { CloudflareErrorHandler } from './CloudflareErrorHandler'
 import { cloudflareErrors } from '../../errors'
-import type { ProviderType, SyncOptions, SyncResult, ChangeSet, FeatureSet, HealthScore } from '../IFirewallProvider'
+import { findMovedRules, orderRules } from '../../utils/ruleOrder'
+import type {
+  ProviderTarget,
+  ProviderType,
+  SyncOptions,
+  SyncResult,
+  ChangeSet,
+  FeatureSet,
+  HealthScore,
+} from '../IFirewallProvider'
 import type { UnifiedConfig, UnifiedRule, UnifiedIPRule } from '../../types/unified'
+import { flattenConditions } from '../../types/unified'
 import type { CloudflareRule } from '../../types/cloudflare'
 // CloudflareRuleset imported for future caching use
 // import type { CloudflareRuleset } from '../../types/cloudflare'
@@ -227,6 +237,7 @@ export class CloudflareFirewallService extends BaseFirewallService {
         rulesAdded: dryRunResult.changes.rulesToAdd.length,
         rulesUpdated: dryRunResult.changes.rulesToUpdate.length,
         rulesDeleted: dryRunResult.changes.rulesToDelete.length,
+        rulesMoved: dryRunResult.changes.rulesToMove?.length || 0,
         ipsAdded: dryRunResult.changes.ipsToAdd?.length || 0,
         ipsUpdated: dryRunResult.changes.ipsToUpdate?.length || 0,
         ipsDeleted: dryRunResult.changes.ipsToDelete?.length || 0,
@@ -258,8 +269,8 @@ export class CloudflareFirewallService extends BaseFirewallService {
     // Translate all rules to Cloudflare format
     const cloudflareRules: CloudflareRule[] = []
 
-    // Add regular rules
-    for (const rule of config.rules) {
+    // Add regular rules. The ruleset is replaced as a whole, so each rule takes its position from this order
+    for (const rule of orderRules(config.rules)) {
       const translation = RuleTranslator.unifiedToCloudflare(rule)
       cloudflareRules.push(translation.result)
 
@@ -272,6 +283,10 @@ export class CloudflareFirewallService extends BaseFirewallService {
       }
     }
 
+    const recorder = options?.recorder
+    const updateRulesetOperation = `update ruleset ${ruleset.id}`
+    let planned = false
+
     // Handle IP blocking
     let ipsAdded = 0
     const ipsUpdated = 0
@@ -289,8 +304,18 @@ export class CloudflareFirewallService extends BaseFirewallService {
         const currentIPs = new Set(currentItems.map((item) => item.ip))
         const desiredIPs = new Set(config.ips.map((ip) => ip.ip))
 
-        // Add new IPs
         const ipsToAdd = config.ips.filter((ip) => !currentIPs.has(ip.ip))
+        const ipsToRemove = currentItems.filter((item) => item.ip && !desiredIPs.has(item.ip))
+        const addOperation = `add ${ipsToAdd.length} IP(s) to list ${ipList.name}`
+        const removeOperation = `remove ${ipsToRemove.length} IP(s) from list ${ipList.name}`
+        recorder?.plan([
+          ...(ipsToAdd.length > 0 ? [addOperation] : []),
+          ...(ipsToRemove.length > 0 ? [removeOperation] : []),
+          updateRulesetOperation,
+        ])
+        planned = true
+
+        // Add new IPs
         if (ipsToAdd.length > 0) {
           await this.client.addListItems(ipList.id, {
             items: ipsToAdd.map((ip) => ({
@@ -298,16 +323,17 @@ export class CloudflareFirewallService extends BaseFirewallService {
               comment: ip.notes || ip.hostname || `Blocked by Doorman`,
             })),
           })
+          recorder?.complete(addOperation)
           ipsAdded = ipsToAdd.length
           logger.info(`Added ${ipsAdded} IPs to List`)
         }
 
         // Remove IPs no longer in config
-        const ipsToRemove = currentItems.filter((item) => item.ip && !desiredIPs.has(item.ip))
         if (ipsToRemove.length > 0) {
           await this.client.removeListItems(ipList.id, {
             items: ipsToRemove.map((item) => ({ id: item.id! })),
           })
+          recorder?.complete(removeOperation)
           ipsDeleted = ipsToRemove.length
           logger.info(`Removed ${ipsDeleted} IPs from List`)
         }
@@ -364,16 +390,22 @@ export class CloudflareFirewallService extends BaseFirewallService {
       ipsAdded = config.ips.length
     }
 
+    if (!planned) {
+      recorder?.plan([updateRulesetOperation])
+    }
+
     // Update entire ruleset with new rules
     const updatedRuleset = await this.client.updateRuleset(ruleset.id, {
       rules: cloudflareRules,
     })
+    recorder?.complete(updateRulesetOperation)
 
     const result: SyncResult = {
       success: true,
       rulesAdded: config.rules.length,
       rulesUpdated: 0,
       rulesDeleted: 0,
+      rulesMoved: dryRunResult.changes.rulesToMove?.length || 0,
       ipsAdded,
       ipsUpdated,
       ipsDeleted,
@@ -391,7 +423,10 @@ export class CloudflareFirewallService extends BaseFirewallService {
     const remoteConfig = await this.fetchConfig()
 
     // Use optimizer's hash-based diff for better performance with large rule sets
-    const ruleDiff = this.optimizer.diffRules(config.rules, remoteConfig.rules)
+    const orderedRules = orderRules(config.rules)
+    const ruleDiff = this.optimizer.diffRules(orderedRules, remoteConfig.rules)
+    const ruleKey = (rule: UnifiedRule) => rule.id || rule.name
+    const rulesToMove = findMovedRules(orderedRules, remoteConfig.rules.map(ruleKey), ruleKey)
 
     // Compare IPs using optimizer's diff
     let ipDiff: { toAdd: UnifiedIPRule[]; toUpdate: UnifiedIPRule[]; toDelete: UnifiedIPRule[] } = {
@@ -407,6 +442,7 @@ export class CloudflareFirewallService extends BaseFirewallService {
       rulesToAdd: ruleDiff.toAdd,
       rulesToUpdate: ruleDiff.toUpdate,
       rulesToDelete: ruleDiff.toDelete,
+      ...(rulesToMove.length > 0 ? { rulesToMove } : {}),
       ipsToAdd: ipDiff.toAdd,
       ipsToUpdate: ipDiff.toUpdate,
       ipsToDelete: ipDiff.toDelete,
@@ -414,9 +450,12 @@ export class CloudflareFirewallService extends BaseFirewallService {
         ruleDiff.toAdd.length > 0 ||
         ruleDiff.toUpdate.length > 0 ||
         ruleDiff.toDelete.length > 0 ||
+        rulesToMove.length > 0 ||
         ipDiff.toAdd.length > 0 ||
         ipDiff.toUpdate.length > 0 ||
         ipDiff.toDelete.length > 0,
+      version: remoteConfig.metadata?.version,
+      updatedAt: remoteConfig.metadata?.updatedAt,
     }
   }
 
@@ -632,6 +671,13 @@ export class CloudflareFirewallService extends BaseFirewallService {
     return this.client.verifyCredentials()
   }
 
+  /**
+   * The Cloudflare zone this service manages
+   */
+  public getTarget(): ProviderTarget {
+    return { zoneId: this.client['zoneId'] }
+  }
+
   /**
    * Get cache statistics for performance monitoring
    */
@@ -770,7 +816,7 @@ export class CloudflareFirewallService extends BaseFirewallService {
     const hasDangerousRules = config.rules.some(
       (rule) =>
         rule.action.type === 'deny' &&
-        rule.conditions.some(
+        flattenConditions(rule.conditions).some(
           (condition) => condition.field === 'path' && (condition.value === '/' || condition.value === '*'),
         ),
     )
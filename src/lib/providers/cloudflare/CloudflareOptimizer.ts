@@ -1,5 +1,6 @@
 import { logger } from '../../logger'
-import type { UnifiedRule, UnifiedIPRule } from '../../types/unified'
+import type { UnifiedRule, UnifiedIPRule, UnifiedConditionNode } from '../../types/unified'
+import { isUnifiedConditionGroup } from '../../types/unified'
 
 /**
  * Result of an optimized rule diff operation
@@ -533,31 +534,42 @@ export class CloudflareOptimizer {
 
   /**
    * Create a canonical string representation of a rule for hashing.
-   * Keys are sorted to ensure deterministic output.
+   * Keys are sorted to ensure deterministic output. The rule's position is left out,
+   * as reordering is reported as a move rather than an update.
    */
   private canonicalizeRule(rule: UnifiedRule): string {
     const canonical: Record<string, unknown> = {
       action: rule.action,
-      conditions: rule.conditions
-        .map((c) => ({
-          field: c.field,
-          key: c.key,
-          negated: c.negated,
-          operator: c.operator,
-          value: c.value,
-        }))
-        .sort((a, b) => `${a.field}:${a.operator}`.localeCompare(`${b.field}:${b.operator}`)),
+      conditions: this.canonicalizeConditions(rule.conditions),
       enabled: rule.enabled,
       name: rule.name,
     }
 
     if (rule.conditionLogic) canonical.conditionLogic = rule.conditionLogic
     if (rule.description) canonical.description = rule.description
-    if (rule.priority !== undefined) canonical.priority = rule.priority
 
     return JSON.stringify(canonical)
   }
 
+  /**
+   * Canonicalize a condition tree, sorting the members of each group.
+   */
+  private canonicalizeConditions(conditions: UnifiedConditionNode[]): Record<string, unknown>[] {
+    return conditions
+      .map((c) =>
+        isUnifiedConditionGroup(c)
+          ? { conditions: this.canonicalizeConditions(c.conditions), logic: c.logic, negated: c.negated }
+          : { field: c.field, key: c.key, negated: c.negated, operator: c.operator, value: c.value },
+      )
+      .sort((a, b) => this.conditionSortKey(a).localeCompare(this.conditionSortKey(b)))
+  }
+
+  private conditionSortKey(condition: Record<string, unknown>): string {
+    return 'logic' in condition
+      ? `${condition.logic}:${JSON.stringify(condition.conditions)}`
+      : `${condition.field}:${condition.operator}`
+  }
+
   /**
    * Simple string hash function (djb2 variant).
    * Fast and sufficient for equality comparison (not cryptographic).
@@ -1,4 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { disablePersistentCache, enablePersistentCache } from '../../../utils/cache'
 import { CloudflareClient } from '../CloudflareClient'
 import type {
   CloudflareRuleset,
@@ -723,6 +727,60 @@ describe('CloudflareClient', () => {
     })
   })
 
+  describe('Persistent cache', () => {
+    let cacheDir: string
+
+    beforeEach(() => {
+      cacheDir = mkdtempSync(join(tmpdir(), 'doorman-cache-'))
+      enablePersistentCache(cacheDir)
+    })
+
+    afterEach(() => {
+      disablePersistentCache()
+      rmSync(cacheDir, { recursive: true, force: true })
+    })
+
+    it('should reuse zone info from an earlier run but fetch rulesets again', async () => {
+      const ok = (result: unknown) =>
+        makeResponse({ ok: true, status: 200, jsonBody: { success: true, errors: [], messages: [], result } })
+      fetchMock.mockImplementation(async (url) =>
+        String(url).endsWith('/rulesets') ? ok([]) : ok({ id: ZONE_ID, name: 'example.com' }),
+      )
+
+      for (let run = 0; run < 2; run++) {
+        const runClient = new CloudflareClient(API_TOKEN, ZONE_ID, ACCOUNT_ID)
+        await runClient.getZoneInfo()
+        await runClient.listRulesets()
+      }
+
+      const urls = fetchMock.mock.calls.map(([url]) => String(url))
+      expect(urls.filter((url) => url.endsWith(`/zones/${ZONE_ID}`))).toHaveLength(1)
+      expect(urls.filter((url) => url.endsWith('/rulesets'))).toHaveLength(2)
+    })
+
+    it('should clear only its own entries from the persistent cache', async () => {
+      fetchMock.mockImplementation(async () =>
+        makeResponse({
+          ok: true,
+          status: 200,
+          jsonBody: { success: true, errors: [], messages: [], result: { id: ZONE_ID, name: 'example.com' } },
+        }),
+      )
+      const otherZone = new CloudflareClient(API_TOKEN, 'other-zone', ACCOUNT_ID)
+      await otherZone.getZoneInfo()
+      const zone = new CloudflareClient(API_TOKEN, ZONE_ID, ACCOUNT_ID)
+      await zone.getZoneInfo()
+
+      zone.clearCache()
+      await new CloudflareClient(API_TOKEN, ZONE_ID, ACCOUNT_ID).getZoneInfo()
+      await new CloudflareClient(API_TOKEN, 'other-zone', ACCOUNT_ID).getZoneInfo()
+
+      const urls = fetchMock.mock.calls.map(([url]) => String(url))
+      expect(urls.filter((url) => url.endsWith(`/zones/${ZONE_ID}`))).toHaveLength(2)
+      expect(urls.filter((url) => url.endsWith('/zones/other-zone'))).toHaveLength(1)
+    })
+  })
+
   describe('Error Handling', () => {
     it('should handle network errors with proper error mapping', async () => {
       const networkError = new Error('Network connection failed')
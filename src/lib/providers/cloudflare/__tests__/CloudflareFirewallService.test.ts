@@ -675,6 +675,67 @@ describe('CloudflareFirewallService', () => {
       expect(changes.hasChanges).toBe(true)
     })
 
+    it('should detect rules to move when the order differs', async () => {
+      const rule = (id: string, path: string): UnifiedConfig['rules'][number] => ({
+        id,
+        name: id,
+        enabled: true,
+        action: { type: 'deny' },
+        conditions: [{ field: 'path', operator: 'eq', value: path }],
+      })
+      const localConfig: UnifiedConfig = {
+        version: '2.0',
+        provider: 'cloudflare',
+        rules: [rule('rule-b', '/b'), rule('rule-a', '/a')],
+        ips: [],
+      }
+
+      const mockRuleset: CloudflareRuleset = {
+        id: 'ruleset-1',
+        name: 'Test Ruleset',
+        description: 'Test',
+        kind: 'custom',
+        phase: 'http_request_firewall_custom',
+        version: '1',
+        rules: [
+          {
+            id: 'rule-a',
+            action: 'block',
+            expression: 'http.request.uri.path eq "/a"',
+            description: 'rule-a',
+            enabled: true,
+          },
+          {
+            id: 'rule-b',
+            action: 'block',
+            expression: 'http.request.uri.path eq "/b"',
+            description: 'rule-b',
+            enabled: true,
+          },
+        ],
+      }
+
+      jest.spyOn(mockClient, 'getOrCreateFirewallRuleset').mockResolvedValue(mockRuleset)
+      jest.spyOn(mockClient, 'getOrCreateIPBlocklist').mockResolvedValue({
+        id: 'list-1',
+        name: 'Doorman IP Blocklist',
+        description: 'Test',
+        kind: 'ip',
+        num_items: 0,
+        num_referencing_filters: 0,
+        created_on: '2024-01-01T00:00:00Z',
+        modified_on: '2024-01-01T00:00:00Z',
+      })
+      jest.spyOn(mockClient, 'getListItems').mockResolvedValue([])
+
+      const changes = await service.getChanges(localConfig)
+
+      expect(changes.rulesToMove).toHaveLength(1)
+      expect(changes.rulesToAdd).toHaveLength(0)
+      expect(changes.rulesToDelete).toHaveLength(0)
+      expect(changes.hasChanges).toBe(true)
+    })
+
     it('should detect no changes when configs match', async () => {
       // Use empty configs to test no changes scenario
       const localConfig: UnifiedConfig = {
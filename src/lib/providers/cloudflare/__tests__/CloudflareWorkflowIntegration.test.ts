@@ -356,7 +356,7 @@ describe('Rule Translation Accuracy', () => {
       expect(rl?.mitigationTimeout).toBe(600)
     })
 
-    it('should produce warnings for complex expressions', () => {
+    it('should parse complex expressions and warn about regex patterns', () => {
       const cfRule: CloudflareRule = {
         id: 'cf-cx',
         action: 'block',
@@ -365,8 +365,11 @@ describe('Rule Translation Accuracy', () => {
         enabled: true,
       }
       const result = RuleTranslator.cloudflareToUnified(cfRule)
-      expect(result.warnings.length).toBeGreaterThan(0)
-      expect(result.warnings.some((w: { category: string }) => w.category === 'lossy_conversion')).toBe(true)
+      expect(result.result.conditions).toEqual([
+        { field: 'path', operator: 'matches', value: '^/api/.*' },
+        { field: 'country', operator: 'eq', value: 'US', negated: true },
+      ])
+      expect(result.warnings.some((w: { category: string }) => w.category === 'syntax_limitation')).toBe(true)
     })
   })
 
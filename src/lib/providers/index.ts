@@ -9,6 +9,8 @@ export type {
   ProviderType,
   SyncOptions,
   SyncResult,
+  SyncRecorder,
+  CreatedRule,
   ValidationResult,
   ValidationError,
   ValidationWarning,
@@ -17,6 +19,7 @@ export type {
   HealthScore,
   HealthIssue,
   ProviderCredentials,
+  ProviderTarget,
 } from './IFirewallProvider'
 
 // Base classes
@@ -1,6 +1,16 @@
 import chalk from 'chalk'
 import { logger } from '../../logger'
 import { CustomRule, IPBlockingRule } from '../../types/vercel'
+import type {
+  VercelAttackMode,
+  VercelBypassRule,
+  VercelCRSRule,
+  VercelCRSRuleId,
+  VercelCRSConfig,
+  VercelManagedRuleset,
+  VercelManagedRulesetId,
+  VercelManagedRulesConfig,
+} from '../../types/vercel'
 import type { FirewallConfig } from '../../types'
 import { prompt } from '../../ui/prompt'
 import { createEmptyConfig } from '../../utils/createEmptyConfig'
@@ -18,7 +28,8 @@ export interface VercelConfig {
   version: number
   id: string
   firewallEnabled: boolean
-  crs: unknown // TODO: Add type for CRS, this is an enterprise feature and less clear how to interact with :(
+  crs: VercelCRSConfig
+  managedRules?: VercelManagedRulesConfig
   rules: CustomRule[]
   ips: IPBlockingRule[]
   projectKey: string
@@ -27,6 +38,44 @@ export interface VercelConfig {
 }
 
 export const VERCEL_API_BASE_URL = 'https://api.vercel.com/v1/security/firewall/config'
+export const VERCEL_ATTACK_MODE_URL = 'https://api.vercel.com/v1/security/attack-mode'
+export const VERCEL_PROJECTS_URL = 'https://api.vercel.com/v9/projects'
+export const VERCEL_BYPASS_URL = 'https://api.vercel.com/v1/security/firewall/bypass'
+
+/**
+ * The most bypass rules the API returns in one page
+ */
+const BYPASS_PAGE_SIZE = 256
+
+/**
+ * The security settings of a project, as returned by the projects API
+ */
+interface ProjectSecurityResponse {
+  security?: {
+    attackModeEnabled?: boolean
+    attackModeActiveUntil?: number | null
+  } | null
+}
+
+/**
+ * A system bypass rule, as returned by the bypass API
+ */
+interface BypassRuleResponse {
+  Id: string
+  Ip?: string
+  Domain: string
+  IsProjectRule?: boolean
+  Note?: string
+}
+
+/**
+ * A page of system bypass rules. `pagination` points at the last rule of the page and is
+ * missing on the last page.
+ */
+interface BypassRulesPage {
+  result?: BypassRuleResponse[]
+  pagination?: { OwnerId: string; Id: string } | null
+}
 
 /**
  * A client for interacting with the Vercel API to manage firewall rules.
@@ -176,6 +225,15 @@ export class VercelClient extends BaseFirewallClient {
     await this.patch<void>(this.getUrl(), body)
   }
 
+  /**
+   * Moves a firewall rule to a position in the evaluation order.
+   * @param id - The ID of the rule to move.
+   * @param position - The zero-based position to move the rule to.
+   */
+  async moveFirewallRule(id: string, position: number): Promise<void> {
+    await this.patch<void>(this.getUrl(), { action: 'rules.priority', id, value: position })
+  }
+
   /**
    * Updates an existing IP blocking rule or creates a new one if the rule ID is not provided.
    */
@@ -215,6 +273,107 @@ export class VercelClient extends BaseFirewallClient {
     await this.patch<void>(this.getUrl(), body)
   }
 
+  /**
+   * Updates one group of the OWASP core ruleset.
+   * @param id - The core ruleset group.
+   * @param value - Whether the group is active and the action it takes.
+   */
+  async updateCRSRule(id: VercelCRSRuleId, value: VercelCRSRule): Promise<void> {
+    await this.patch<void>(this.getUrl(), { action: 'crs.update', id, value })
+  }
+
+  /**
+   * Updates one managed ruleset, such as bot protection.
+   * @param id - The managed ruleset.
+   * @param value - Whether the ruleset is active and the action it takes.
+   */
+  async updateManagedRuleset(id: VercelManagedRulesetId, value: VercelManagedRuleset): Promise<void> {
+    await this.patch<void>(this.getUrl(), { action: 'managedRules.update', id, value })
+  }
+
+  /**
+   * Fetches the Attack Challenge Mode setting of the project. Attack mode is a project
+   * setting rather than part of the versioned firewall config.
+   */
+  async fetchAttackMode(): Promise<VercelAttackMode> {
+    const project = await this.get<ProjectSecurityResponse>(
+      `${VERCEL_PROJECTS_URL}/${this.projectId}?teamId=${this.teamId}`,
+    )
+    return {
+      enabled: project.security?.attackModeEnabled ?? false,
+      activeUntil: project.security?.attackModeActiveUntil ?? null,
+    }
+  }
+
+  /**
+   * Turns Attack Challenge Mode on or off.
+   * @param attackMode - The setting to apply.
+   */
+  async updateAttackMode(attackMode: VercelAttackMode): Promise<void> {
+    await this.post<void>(`${VERCEL_ATTACK_MODE_URL}?teamId=${this.teamId}`, {
+      projectId: this.projectId,
+      attackModeEnabled: attackMode.enabled,
+      ...(attackMode.enabled && attackMode.activeUntil ? { attackModeActiveUntil: attackMode.activeUntil } : {}),
+    })
+  }
+
+  /**
+   * Fetches the system bypass rules of the project. Bypass rules are managed separately
+   * from the versioned firewall config.
+   * @returns The bypass rules of every page, with project-wide rules having no domain.
+   */
+  async fetchBypassRules(): Promise<VercelBypassRule[]> {
+    const rules: BypassRuleResponse[] = []
+    let offset: string | undefined
+    do {
+      const page: BypassRulesPage = await this.get<BypassRulesPage>(
+        `${VERCEL_BYPASS_URL}?projectId=${this.projectId}&teamId=${this.teamId}&limit=${BYPASS_PAGE_SIZE}` +
+          (offset ? `&offset=${encodeURIComponent(offset)}` : ''),
+      )
+      const result = page.result || []
+      rules.push(...result)
+      // Stop on a page that does not move the cursor, so a misbehaving API cannot loop forever
+      offset = result.length > 0 && page.pagination?.Id !== offset ? page.pagination?.Id : undefined
+    } while (offset)
+
+    return rules
+      .filter((rule) => rule.Ip)
+      .map((rule) => ({
+        sourceIp: rule.Ip!,
+        ...(!rule.IsProjectRule && rule.Domain ? { domain: rule.Domain } : {}),
+        ...(rule.Note ? { note: rule.Note } : {}),
+      }))
+  }
+
+  /**
+   * Creates a system bypass rule. Rules without a domain apply to every domain of the project.
+   * @param rule - The bypass rule to create.
+   */
+  async createBypassRule(rule: VercelBypassRule): Promise<void> {
+    await this.post<void>(this.getBypassUrl(), {
+      sourceIp: rule.sourceIp,
+      ...(rule.domain ? { domain: rule.domain } : { projectScope: true }),
+      ...(rule.note ? { note: rule.note } : {}),
+    })
+  }
+
+  /**
+   * Deletes a system bypass rule, matched by its source IP and domain.
+   * @param rule - The bypass rule to delete.
+   */
+  async deleteBypassRule(rule: VercelBypassRule): Promise<void> {
+    await this.delete<void>(this.getBypassUrl(), {
+      body: JSON.stringify({
+        sourceIp: rule.sourceIp,
+        ...(rule.domain ? { domain: rule.domain } : { projectScope: true }),
+      }),
+    })
+  }
+
+  private getBypassUrl(): string {
+    return `${VERCEL_BYPASS_URL}?projectId=${this.projectId}&teamId=${this.teamId}`
+  }
+
   /**
    * Verify credentials are valid by attempting to fetch config
    */
@@ -2,15 +2,21 @@ import chalk from 'chalk'
 import { logger } from '../../logger'
 import { BaseFirewallService } from '../BaseFirewallService'
 import { VercelClient } from './VercelClient'
+import type { VercelConfig } from './VercelClient'
+import { VercelSyncTransaction } from './VercelSyncTransaction'
 import { RuleTranslator } from '../../translators'
+import { compact } from '../../utils/compact'
 import { isDeepEqual } from '../../utils/isDeepEqual'
 import { omitId } from '../../utils/omitId'
-import { retry } from '../../utils/retry'
+import { findMovedRules, orderRules } from '../../utils/ruleOrder'
 import { firewallConfigSchema } from '../../schemas/firewallSchemas'
+import { DoormanError } from '../../errors/DoormanError'
 import type {
   IFirewallProvider,
+  ProviderTarget,
   ProviderType,
   SyncOptions,
+  SyncRecorder,
   SyncResult,
   ChangeSet,
   FeatureSet,
@@ -19,7 +25,22 @@ import type {
   ValidationResult,
 } from '../IFirewallProvider'
 import type { UnifiedConfig, UnifiedRule, UnifiedIPRule } from '../../types/unified'
-import type { CustomRule, IPBlockingRule } from '../../types/vercel'
+import type { FirewallConfig } from '../../types'
+import type {
+  CustomRule,
+  IPBlockingRule,
+  VercelAttackMode,
+  VercelBypassRule,
+  VercelCRSConfig,
+  VercelCRSRuleId,
+  VercelManagedRulesConfig,
+  VercelManagedRulesetId,
+  VercelSecurityChange,
+  VercelSecurityConfig,
+} from '../../types/vercel'
+
+const CRS_RULE_IDS: VercelCRSRuleId[] = ['sd', 'ma', 'lfi', 'rfi', 'rce', 'php', 'gen', 'xss', 'sqli', 'sf', 'java']
+const MANAGED_RULESET_IDS: VercelManagedRulesetId[] = ['owasp', 'bot_protection', 'ai_bots']
 
 /**
  * Vercel Firewall Service
@@ -55,11 +76,17 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
 
       const ips: UnifiedIPRule[] = vercelConfig.ips.map((ip) => RuleTranslator.vercelIPToUnified(ip))
 
+      // Attack mode is a current project setting, so it is not part of older versions
+      const security = this.readSecurity(vercelConfig, version === undefined ? await this.fetchAttackMode() : undefined)
+      const bypass = version === undefined ? await this.fetchBypassRules() : undefined
+
       return {
         version: '2.0',
         provider: 'vercel',
         rules,
         ips,
+        ...(security ? { security } : {}),
+        ...(bypass && bypass.length > 0 ? { bypass } : {}),
         metadata: {
           version: vercelConfig.version,
           updatedAt: vercelConfig.updatedAt,
@@ -73,62 +100,71 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
 
   /**
    * Sync rules to Vercel
+   *
+   * Rules are applied with one request per change, and then moved into the configured
+   * order. The remote config version is recorded first, and if any request fails the
+   * project is restored to that version. With `atomic`, the whole config is replaced in
+   * a single PUT instead.
    */
   async syncRules(config: UnifiedConfig, options: SyncOptions = {}): Promise<SyncResult> {
-    const { dryRun = false } = options
+    const { dryRun = false, atomic = false } = options
 
     try {
       const changes = await this.getChanges(config)
       const { rulesToAdd, rulesToUpdate, rulesToDelete, version } = changes
+      const rulesToMove = changes.rulesToMove || []
       const ipsToAdd = changes.ipsToAdd || []
       const ipsToUpdate = changes.ipsToUpdate || []
       const ipsToDelete = changes.ipsToDelete || []
+      const securityChanges = changes.securityChanges || []
+      const bypassToAdd = changes.bypassToAdd || []
+      const bypassToDelete = changes.bypassToDelete || []
 
       if (dryRun) {
         logger.info('Dry run mode. The following changes would be made:')
         logger.info(
-          `Custom Rules - Add: ${rulesToAdd.length}, Update: ${rulesToUpdate.length}, Delete: ${rulesToDelete.length}`,
+          `Custom Rules - Add: ${rulesToAdd.length}, Update: ${rulesToUpdate.length}, Delete: ${rulesToDelete.length}, Move: ${rulesToMove.length}`,
         )
         logger.info(`IP Rules - Add: ${ipsToAdd.length}, Update: ${ipsToUpdate.length}, Delete: ${ipsToDelete.length}`)
+        if (securityChanges.length > 0) {
+          logger.info(`Managed Rules & Attack Mode - Update: ${securityChanges.length}`)
+        }
+        if (bypassToAdd.length > 0 || bypassToDelete.length > 0) {
+          logger.info(`Bypass Rules - Add: ${bypassToAdd.length}, Delete: ${bypassToDelete.length}`)
+        }
         return {
           success: true,
           rulesAdded: 0,
           rulesUpdated: 0,
           rulesDeleted: 0,
+          rulesMoved: 0,
           ipsAdded: 0,
           ipsUpdated: 0,
           ipsDeleted: 0,
+          securityUpdated: 0,
+          bypassAdded: 0,
+          bypassDeleted: 0,
           version,
         }
       }
 
+      if (atomic) {
+        return await this.replaceConfig(config, changes, options.recorder)
+      }
+
+      if (version === undefined) {
+        throw new Error('Unable to determine the current remote config version')
+      }
+
       // Convert unified rules back to Vercel format for API calls
       const toAdd: CustomRule[] = rulesToAdd.map((rule) => RuleTranslator.unifiedToVercel(rule).result)
       const toUpdate: CustomRule[] = rulesToUpdate.map((rule) => RuleTranslator.unifiedToVercel(rule).result)
       const toDelete: CustomRule[] = rulesToDelete.map((rule) => RuleTranslator.unifiedToVercel(rule).result)
 
       // Convert unified IP rules back to Vercel format for API calls
-      const ipRulesToAdd: IPBlockingRule[] = ipsToAdd.map((ip) => ({
-        id: ip.id || '',
-        ip: ip.ip,
-        hostname: ip.hostname || '',
-        action: ip.action as 'deny',
-        notes: ip.notes,
-      }))
-      const ipRulesToUpdate: IPBlockingRule[] = ipsToUpdate.map((ip) => ({
-        id: ip.id || '',
-        ip: ip.ip,
-        hostname: ip.hostname || '',
-        action: ip.action as 'deny',
-        notes: ip.notes,
-      }))
-      const ipRulesToDelete: IPBlockingRule[] = ipsToDelete.map((ip) => ({
-        id: ip.id || '',
-        ip: ip.ip,
-        hostname: ip.hostname || '',
-        action: ip.action as 'deny',
-        notes: ip.notes,
-      }))
+      const ipRulesToAdd: IPBlockingRule[] = ipsToAdd.map((ip) => this.toVercelIPRule(ip))
+      const ipRulesToUpdate: IPBlockingRule[] = ipsToUpdate.map((ip) => this.toVercelIPRule(ip))
+      const ipRulesToDelete: IPBlockingRule[] = ipsToDelete.map((ip) => this.toVercelIPRule(ip))
 
       const addedRules: CustomRule[] = []
       const updatedRules: CustomRule[] = []
@@ -138,56 +174,93 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
       const updatedIPRules: IPBlockingRule[] = []
       const deletedIPRules: IPBlockingRule[] = []
 
-      // Delete custom rules
-      for (const rule of toDelete) {
-        logger.debug(`Deleting custom rule: ${rule.id}`)
-        await retry(() => this.client.deleteFirewallRule(rule), { maxAttempts: 3 })
-        deletedRules.push(rule)
-        logger.debug(`Custom rule deleted: ${rule.id}`)
-      }
+      // Moves of the rules about to be added are only known once they exist, so they are recorded as they land
+      options.recorder?.plan([
+        ...toDelete.map((rule) => `delete rule ${rule.id}`),
+        ...ipRulesToDelete.map((rule) => `delete IP rule ${rule.ip}`),
+        ...toAdd.map((rule) => `add rule ${rule.name}`),
+        ...ipRulesToAdd.map((rule) => `add IP rule ${rule.ip}`),
+        ...toUpdate.map((rule) => `update rule ${rule.id}`),
+        ...ipRulesToUpdate.map((rule) => `update IP rule ${rule.ip}`),
+        ...rulesToMove.map((rule) => `move rule ${rule.id}`),
+        ...securityChanges.map((change) => `update ${change.section} ${change.id}`),
+        ...bypassToDelete.map((rule) => `delete bypass rule ${rule.sourceIp}`),
+        ...bypassToAdd.map((rule) => `add bypass rule ${rule.sourceIp}`),
+      ])
+
+      const transaction = new VercelSyncTransaction(this.client, version, options.recorder)
+
+      try {
+        // Delete custom rules
+        for (const rule of toDelete) {
+          logger.debug(`Deleting custom rule: ${rule.id}`)
+          await transaction.run(`delete rule ${rule.id}`, () => this.client.deleteFirewallRule(rule))
+          deletedRules.push(rule)
+          logger.debug(`Custom rule deleted: ${rule.id}`)
+        }
 
-      // Delete IP blocking rules
-      for (const rule of ipRulesToDelete) {
-        logger.debug(`Deleting IP blocking rule: ${rule.id}`)
-        await retry(() => this.client.deleteIPBlockingRule(rule), { maxAttempts: 3 })
-        deletedIPRules.push(rule)
-        logger.debug(`IP blocking rule deleted: ${rule.id}`)
-      }
+        // Delete IP blocking rules
+        for (const rule of ipRulesToDelete) {
+          logger.debug(`Deleting IP blocking rule: ${rule.id}`)
+          await transaction.run(`delete IP rule ${rule.ip}`, () => this.client.deleteIPBlockingRule(rule))
+          deletedIPRules.push(rule)
+          logger.debug(`IP blocking rule deleted: ${rule.id}`)
+        }
 
-      // Add new custom rules
-      for (const rule of toAdd) {
-        logger.debug(`Adding new custom rule: ${rule.name}`)
-        const newRule = await retry(() => this.client.createFirewallRule(rule), {
-          maxAttempts: 3,
-        })
-        addedRules.push(newRule)
-        logger.debug(`New custom rule added: ${newRule.id}`)
-      }
+        // Add new custom rules
+        for (const rule of toAdd) {
+          logger.debug(`Adding new custom rule: ${rule.name}`)
+          const newRule = await transaction.create(`add rule ${rule.name}`, rule, () =>
+            this.client.createFirewallRule(rule),
+          )
+          addedRules.push(newRule)
+          logger.debug(`New custom rule added: ${newRule.id}`)
+        }
 
-      // Add new IP blocking rules
-      for (const rule of ipRulesToAdd) {
-        logger.debug(`Adding new IP blocking rule: ${rule.ip}`)
-        const newIPRule = await retry(() => this.client.createIPBlockingRule(rule), {
-          maxAttempts: 3,
-        })
-        addedIPRules.push(newIPRule)
-        logger.debug(`New IP blocking rule added: (hostname): ${newIPRule.hostname} (ip): ${newIPRule.ip}`)
-      }
+        // Add new IP blocking rules
+        for (const rule of ipRulesToAdd) {
+          logger.debug(`Adding new IP blocking rule: ${rule.ip}`)
+          const newIPRule = await transaction.run(`add IP rule ${rule.ip}`, () =>
+            this.client.createIPBlockingRule(rule),
+          )
+          addedIPRules.push(newIPRule)
+          logger.debug(`New IP blocking rule added: (hostname): ${newIPRule.hostname} (ip): ${newIPRule.ip}`)
+        }
 
-      // Update existing custom rules
-      for (const rule of toUpdate) {
-        logger.debug(`Updating custom rule: ${rule.id}`)
-        const updatedRule = await retry(() => this.client.updateFirewallRule(rule), { maxAttempts: 3 })
-        updatedRules.push(updatedRule)
-        logger.debug(`Custom rule updated: ${updatedRule.id}`)
-      }
+        // Update existing custom rules
+        for (const rule of toUpdate) {
+          logger.debug(`Updating custom rule: ${rule.id}`)
+          const updatedRule = await transaction.run(`update rule ${rule.id}`, () =>
+            this.client.updateFirewallRule(rule),
+          )
+          updatedRules.push(updatedRule)
+          logger.debug(`Custom rule updated: ${updatedRule.id}`)
+        }
+
+        // Update existing IP blocking rules
+        for (const rule of ipRulesToUpdate) {
+          logger.debug(`Updating IP blocking rule: ${rule.id}`)
+          const updatedRule = await transaction.run(`update IP rule ${rule.ip}`, () =>
+            this.client.updateIPBlockingRule(rule),
+          )
+          updatedIPRules.push(updatedRule)
+          logger.debug(`IP blocking rule updated: ${updatedRule.id}`)
+        }
+
+        // New rules are appended, so they may need moving too
+        if (rulesToMove.length > 0 || addedRules.length > 0) {
+          await this.applyRuleOrder(config, addedRules, transaction)
+        }
 
-      // Update existing IP blocking rules
-      for (const rule of ipRulesToUpdate) {
-        logger.debug(`Updating IP blocking rule: ${rule.id}`)
-        const updatedRule = await retry(() => this.client.updateIPBlockingRule(rule), { maxAttempts: 3 })
-        updatedIPRules.push(updatedRule)
-        logger.debug(`IP blocking rule updated: ${updatedRule.id}`)
+        // Update managed rulesets, core ruleset groups and attack mode
+        for (const change of securityChanges) {
+          await this.applySecurityChange(change, transaction)
+        }
+
+        // Apply system bypass rules
+        await this.applyBypassChanges(bypassToAdd, bypassToDelete, transaction)
+      } catch (error) {
+        await transaction.rollback(error)
       }
 
       logger.debug(
@@ -207,28 +280,283 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
         rulesAdded: addedRules.length,
         rulesUpdated: updatedRules.length,
         rulesDeleted: deletedRules.length,
+        rulesMoved: rulesToMove.length,
         ipsAdded: addedIPRules.length,
         ipsUpdated: updatedIPRules.length,
         ipsDeleted: deletedIPRules.length,
+        securityUpdated: securityChanges.length,
+        bypassAdded: bypassToAdd.length,
+        bypassDeleted: bypassToDelete.length,
         version: activeConfig.version,
       }
     } catch (error) {
       logger.error('Error during sync:', error)
+      if (DoormanError.isDoormanError(error)) {
+        throw error
+      }
       throw new Error('Failed to synchronize firewall rules')
     }
   }
 
+  /**
+   * Replace the whole remote config with `config` in a single PUT request. Attack mode and
+   * bypass rules are applied after it, and everything is reverted if one of them fails.
+   */
+  private async replaceConfig(config: UnifiedConfig, changes: ChangeSet, recorder?: SyncRecorder): Promise<SyncResult> {
+    const activeConfig = await this.client.fetchFirewallConfig()
+    const transaction = new VercelSyncTransaction(this.client, activeConfig.version, recorder)
+    const attackModeChange = (changes.securityChanges || []).find((change) => change.section === 'attackMode')
+    recorder?.plan([
+      'replace firewall config',
+      ...(attackModeChange ? [`update attackMode ${attackModeChange.id}`] : []),
+      ...(changes.bypassToDelete || []).map((rule) => `delete bypass rule ${rule.sourceIp}`),
+      ...(changes.bypassToAdd || []).map((rule) => `add bypass rule ${rule.sourceIp}`),
+    ])
+
+    logger.debug(`Replacing firewall config version ${activeConfig.version} in a single request`)
+    const replaced = await transaction.run('replace firewall config', () =>
+      this.client.putConfig({
+        firewallEnabled: activeConfig.firewallEnabled,
+        rules: orderRules(config.rules).map(
+          (rule) => RuleTranslator.unifiedToVercel(rule).result,
+        ) as FirewallConfig['rules'],
+        ips: (config.ips || []).map((ip) => this.toVercelIPRule(ip)),
+        ...(config.security?.crs ? { crs: { ...activeConfig.crs, ...config.security.crs } } : {}),
+        ...(config.security?.managedRules
+          ? { managedRules: { ...activeConfig.managedRules, ...config.security.managedRules } }
+          : {}),
+      }),
+    )
+
+    try {
+      // Attack mode is a project setting outside the firewall config
+      if (attackModeChange) {
+        await this.applySecurityChange(attackModeChange, transaction)
+      }
+
+      // So are bypass rules
+      await this.applyBypassChanges(changes.bypassToAdd || [], changes.bypassToDelete || [], transaction)
+    } catch (error) {
+      await transaction.rollback(error)
+    }
+
+    return {
+      success: true,
+      rulesAdded: changes.rulesToAdd.length,
+      rulesUpdated: changes.rulesToUpdate.length,
+      rulesDeleted: changes.rulesToDelete.length,
+      rulesMoved: (changes.rulesToMove || []).length,
+      ipsAdded: (changes.ipsToAdd || []).length,
+      ipsUpdated: (changes.ipsToUpdate || []).length,
+      ipsDeleted: (changes.ipsToDelete || []).length,
+      securityUpdated: (changes.securityChanges || []).length,
+      bypassAdded: (changes.bypassToAdd || []).length,
+      bypassDeleted: (changes.bypassToDelete || []).length,
+      version: replaced.version,
+    }
+  }
+
+  /**
+   * Move the remote rules into the configured order, one rule at a time from the top.
+   * Local rules the remote does not know by ID take the IDs of the rules just added, in order.
+   */
+  private async applyRuleOrder(
+    config: UnifiedConfig,
+    addedRules: CustomRule[],
+    transaction: VercelSyncTransaction,
+  ): Promise<void> {
+    const current = (await this.client.fetchFirewallConfig()).rules.map((rule) => rule.id!)
+    const addedIds = addedRules.map((rule) => rule.id!)
+    const desired = orderRules(config.rules)
+      .map((rule) => (rule.id && current.includes(rule.id) ? rule.id : addedIds.shift()))
+      .filter((id): id is string => !!id && current.includes(id))
+
+    for (const [position, id] of desired.entries()) {
+      if (current[position] === id) {
+        continue
+      }
+      logger.debug(`Moving custom rule ${id} to position ${position}`)
+      await transaction.run(`move rule ${id}`, () => this.client.moveFirewallRule(id, position))
+      current.splice(current.indexOf(id), 1)
+      current.splice(position, 0, id)
+    }
+  }
+
+  /**
+   * Apply one managed ruleset, core ruleset group or attack mode change. Attack mode is not
+   * part of the config version, so its previous setting is recorded to restore on rollback.
+   */
+  private async applySecurityChange(change: VercelSecurityChange, transaction: VercelSyncTransaction): Promise<void> {
+    logger.debug(`Updating ${change.section} setting: ${change.id}`)
+    const description = `update ${change.section} ${change.id}`
+    switch (change.section) {
+      case 'crs':
+        return transaction.run(description, () => this.client.updateCRSRule(change.id, change.to))
+      case 'managedRules':
+        return transaction.run(description, () => this.client.updateManagedRuleset(change.id, change.to))
+      case 'attackMode':
+        return transaction.runUnversioned(
+          description,
+          () => this.client.updateAttackMode(change.to),
+          // An unreadable setting is treated as off when diffing, so that is what gets restored
+          () => this.client.updateAttackMode(change.from ?? { enabled: false }),
+        )
+    }
+  }
+
+  /**
+   * Fetch the project's attack mode setting. Projects the token cannot read the settings
+   * of are treated as having no attack mode setting rather than failing the fetch.
+   */
+  private async fetchAttackMode(): Promise<VercelAttackMode | undefined> {
+    try {
+      return await this.client.fetchAttackMode()
+    } catch (error) {
+      logger.debug('Could not fetch attack mode setting:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * Fetch the project's bypass rules, treating projects the token cannot read the bypass
+   * rules of as having none rather than failing the fetch.
+   */
+  private async fetchBypassRules(): Promise<VercelBypassRule[] | undefined> {
+    try {
+      return await this.client.fetchBypassRules()
+    } catch (error) {
+      logger.debug('Could not fetch bypass rules:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * Delete and then add bypass rules. Bypass rules are not part of the config version, so
+   * each request is recorded with the one that reverts it.
+   */
+  private async applyBypassChanges(
+    toAdd: VercelBypassRule[],
+    toDelete: VercelBypassRule[],
+    transaction: VercelSyncTransaction,
+  ): Promise<void> {
+    for (const rule of toDelete) {
+      logger.debug(`Deleting bypass rule: ${rule.sourceIp}`)
+      await transaction.runUnversioned(
+        `delete bypass rule ${rule.sourceIp}`,
+        () => this.client.deleteBypassRule(rule),
+        () => this.client.createBypassRule(rule),
+      )
+    }
+    for (const rule of toAdd) {
+      logger.debug(`Adding bypass rule: ${rule.sourceIp}`)
+      await transaction.runUnversioned(
+        `add bypass rule ${rule.sourceIp}`,
+        () => this.client.createBypassRule(rule),
+        () => this.client.deleteBypassRule(rule),
+      )
+    }
+  }
+
+  /**
+   * Compare bypass rules by source IP and domain. Bypass rules cannot be edited, so a
+   * changed note alone is not a change.
+   */
+  private diffBypassRules(
+    local: VercelBypassRule[],
+    remote: VercelBypassRule[],
+  ): { bypassToAdd: VercelBypassRule[]; bypassToDelete: VercelBypassRule[] } {
+    const key = (rule: VercelBypassRule) => `${rule.sourceIp}@${rule.domain || '*'}`
+    const localKeys = new Set(local.map(key))
+    const remoteKeys = new Set(remote.map(key))
+
+    return {
+      bypassToAdd: local.filter((rule) => !remoteKeys.has(key(rule))),
+      bypassToDelete: remote.filter((rule) => !localKeys.has(key(rule))),
+    }
+  }
+
+  /**
+   * Read the known managed rulesets and core ruleset groups of a fetched config. Fields
+   * the API adds beyond `active` and `action` are dropped.
+   */
+  private readSecurity(vercelConfig: VercelConfig, attackMode?: VercelAttackMode): VercelSecurityConfig | undefined {
+    const crs: VercelCRSConfig = {}
+    CRS_RULE_IDS.filter((id) => vercelConfig.crs?.[id]).forEach((id) => {
+      const { active, action } = vercelConfig.crs[id]!
+      crs[id] = { active, action }
+    })
+
+    const managedRules: VercelManagedRulesConfig = {}
+    MANAGED_RULESET_IDS.filter((id) => vercelConfig.managedRules?.[id]).forEach((id) => {
+      const { active, action } = vercelConfig.managedRules![id]!
+      managedRules[id] = compact({ active, action })
+    })
+
+    const security = compact({
+      crs: Object.keys(crs).length > 0 ? crs : undefined,
+      managedRules: Object.keys(managedRules).length > 0 ? managedRules : undefined,
+      attackMode,
+    })
+    return Object.keys(security).length > 0 ? security : undefined
+  }
+
+  /**
+   * Compare the settings the local config manages with the remote ones. Rulesets, groups
+   * and attack mode left out of the local config are not managed and never change.
+   */
+  private diffSecurity(local: VercelSecurityConfig, remote: VercelSecurityConfig): VercelSecurityChange[] {
+    const changes: VercelSecurityChange[] = []
+
+    CRS_RULE_IDS.forEach((id) => {
+      const to = local.crs?.[id]
+      const from = remote.crs?.[id]
+      if (to && !isDeepEqual(compact(to), compact(from))) {
+        changes.push({ section: 'crs', id, from, to })
+      }
+    })
+
+    MANAGED_RULESET_IDS.forEach((id) => {
+      const to = local.managedRules?.[id]
+      const from = remote.managedRules?.[id]
+      if (to && !isDeepEqual(compact(to), compact(from))) {
+        changes.push({ section: 'managedRules', id, from, to })
+      }
+    })
+
+    const to = local.attackMode
+    const from = remote.attackMode
+    if (to && !isDeepEqual(compact(to), compact(from))) {
+      changes.push({ section: 'attackMode', id: 'attackMode', from, to })
+    }
+
+    return changes
+  }
+
+  /**
+   * Convert a unified IP rule to the Vercel API format
+   */
+  private toVercelIPRule(ip: UnifiedIPRule): IPBlockingRule {
+    return {
+      id: ip.id || '',
+      ip: ip.ip,
+      hostname: ip.hostname || '',
+      action: ip.action as 'deny',
+      notes: ip.notes,
+    }
+  }
+
   /**
    * Get changes between local and remote configuration
    */
-  async getChanges(config: UnifiedConfig): Promise<ChangeSet & { version: number }> {
+  async getChanges(config: UnifiedConfig): Promise<ChangeSet> {
     try {
       logger.debug('Fetching existing firewall configuration')
       const activeConfig = await this.client.fetchFirewallConfig()
       logger.debug(`Fetched ${activeConfig.rules.length} custom rules and ${activeConfig.ips.length} IP blocking rules`)
 
-      // Convert unified rules back to Vercel format for comparison
-      const configRules: CustomRule[] = config.rules.map((rule) => {
+      // Convert unified rules back to Vercel format for comparison, in evaluation order
+      const orderedRules = orderRules(config.rules)
+      const configRules: CustomRule[] = orderedRules.map((rule) => {
         const translation = RuleTranslator.unifiedToVercel(rule)
         if (translation.warnings.length > 0) {
           translation.warnings.forEach((w) => {
@@ -242,19 +570,34 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
 
       // Handle custom rules
       const { toAdd, toUpdate, toDelete } = this.diffRules(configRules, activeConfig.rules)
+      const rulesToMove = findMovedRules(
+        orderedRules,
+        activeConfig.rules.map((rule) => rule.id!),
+        (rule) => rule.id,
+      )
 
       // Convert unified IP rules back to Vercel format
-      const configIPs: IPBlockingRule[] = (config.ips || []).map((ip) => ({
-        id: ip.id || '',
-        ip: ip.ip,
-        hostname: ip.hostname || '',
-        action: ip.action as 'deny',
-        notes: ip.notes,
-      }))
+      const configIPs: IPBlockingRule[] = (config.ips || []).map((ip) => this.toVercelIPRule(ip))
 
       // Handle IP blocking rules
       const { ipsToAdd, ipsToUpdate, ipsToDelete } = this.diffIPRules(configIPs, activeConfig.ips)
 
+      // Handle managed rulesets and attack mode, fetching attack mode only when the config sets it
+      const securityChanges = config.security
+        ? this.diffSecurity(
+            config.security,
+            this.readSecurity(
+              activeConfig,
+              config.security.attackMode ? await this.client.fetchAttackMode() : undefined,
+            ) || {},
+          )
+        : []
+
+      // Handle bypass rules, which are only managed when the config lists them
+      const { bypassToAdd, bypassToDelete } = config.bypass
+        ? this.diffBypassRules(config.bypass, await this.client.fetchBypassRules())
+        : { bypassToAdd: [], bypassToDelete: [] }
+
       // Convert to unified format for ChangeSet compatibility
       const unifiedRulesToAdd = toAdd.map((r) => RuleTranslator.vercelToUnified(r).result)
       const unifiedRulesToUpdate = toUpdate.map((r) => RuleTranslator.vercelToUnified(r).result)
@@ -265,19 +608,28 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
 
       return {
         version: activeConfig.version,
+        updatedAt: activeConfig.updatedAt,
         rulesToAdd: unifiedRulesToAdd,
         rulesToUpdate: unifiedRulesToUpdate,
         rulesToDelete: unifiedRulesToDelete,
+        ...(rulesToMove.length > 0 ? { rulesToMove } : {}),
         ipsToAdd: unifiedIPsToAdd,
         ipsToUpdate: unifiedIPsToUpdate,
         ipsToDelete: unifiedIPsToDelete,
+        ...(securityChanges.length > 0 ? { securityChanges } : {}),
+        ...(bypassToAdd.length > 0 ? { bypassToAdd } : {}),
+        ...(bypassToDelete.length > 0 ? { bypassToDelete } : {}),
         hasChanges:
           toAdd.length > 0 ||
           toUpdate.length > 0 ||
           toDelete.length > 0 ||
+          rulesToMove.length > 0 ||
           ipsToAdd.length > 0 ||
           ipsToUpdate.length > 0 ||
-          ipsToDelete.length > 0,
+          ipsToDelete.length > 0 ||
+          securityChanges.length > 0 ||
+          bypassToAdd.length > 0 ||
+          bypassToDelete.length > 0,
       }
     } catch (error) {
       logger.error('Error fetching existing firewall configuration:', error)
@@ -294,7 +646,7 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
       supportsIPBlocking: true,
       supportsRateLimiting: true,
       supportsGeoBlocking: true,
-      supportsManagedRules: false, // Vercel CRS is enterprise only
+      supportsManagedRules: true,
       supportsRedirect: true,
       supportsChallenge: true,
     }
@@ -307,6 +659,15 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
     return this.client.verifyCredentials()
   }
 
+  /**
+   * The Vercel project (and team) this service manages
+   */
+  public getTarget(): ProviderTarget {
+    const projectId: string = this.client['projectId']
+    const teamId: string = this.client['teamId']
+    return { projectId, ...(teamId ? { teamId } : {}) }
+  }
+
   /**
    * Validate Vercel-specific configuration
    */
@@ -408,7 +769,7 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
       if (!existingRule) {
         toAdd.push(configRule)
       } else {
-        if (!isDeepEqual(omitId(configRule), omitId(existingRule))) {
+        if (!isDeepEqual(compact(omitId(configRule)), compact(omitId(existingRule)))) {
           toUpdate.push({ ...configRule, id: existingRule.id })
         }
         const deleteIndex = toDelete.findIndex((r) => r.id === existingRule.id)
@@ -437,12 +798,21 @@ export class VercelFirewallService extends BaseFirewallService implements IFirew
     const ipsToDelete = [...existingRules]
 
     for (const configRule of configRules) {
-      const existingRule = existingRules.find((r) => r.id === configRule.id)
+      // Try matching by ID first
+      let existingRule = existingRules.find((r) => r.id === configRule.id)
+
+      // Fall back to content matching when local rule has no ID
+      if (!existingRule && !configRule.id) {
+        existingRule = existingRules.find(
+          (r) => r.ip === configRule.ip && r.hostname === configRule.hostname && r.action === configRule.action,
+        )
+      }
+
       if (!existingRule) {
         logger.debug('Rule not found in existing rules:', { configRule })
         ipsToAdd.push(configRule)
       } else {
-        if (!isDeepEqual(omitId(configRule), omitId(existingRule))) {
+        if (!isDeepEqual(compact(omitId(configRule)), compact(omitId(existingRule)))) {
           ipsToUpdate.push({ ...existingRule, ...configRule })
         }
 
@@ -0,0 +1,134 @@
+import { syncErrors } from '../../errors/helpers'
+import { logger } from '../../logger'
+import type { SyncRecorder } from '../IFirewallProvider'
+import type { FirewallConfig } from '../../types'
+import type { VercelCustomRule } from '../../types/vercel'
+import { retry } from '../../utils/retry'
+import { ruleContentHash } from '../../utils/ruleContentHash'
+import { VercelClient } from './VercelClient'
+
+/**
+ * The client calls needed to restore a previous config version
+ */
+export type VersionedConfigClient = Pick<VercelClient, 'fetchFirewallConfig' | 'putConfig'>
+
+/**
+ * Tracks the per-rule API calls of a Vercel sync so a failure midway can be
+ * undone. Vercel keeps every config version, so rolling back means fetching
+ * the version recorded before the first call and PUTting it back. Settings
+ * outside the versioned config, like attack mode and bypass rules, are
+ * reverted with the undo call recorded for each of them.
+ */
+export class VercelSyncTransaction {
+  private readonly applied: string[] = []
+  private readonly undos: (() => Promise<unknown>)[] = []
+  private versionedChanges = false
+
+  /**
+   * @param client - Client used for the sync operations
+   * @param baseVersion - Remote config version the sync started from
+   * @param recorder - Told about each operation as it lands
+   */
+  constructor(
+    private client: VersionedConfigClient,
+    readonly baseVersion: number,
+    private recorder?: SyncRecorder,
+  ) {}
+
+  /**
+   * Operations that have landed so far, in the order they were applied
+   */
+  get appliedOperations(): string[] {
+    return [...this.applied]
+  }
+
+  /**
+   * Run one API operation and record it once it succeeds
+   * @param description - Human readable description, e.g. `delete rule rule_block_admin`
+   */
+  async run<T>(description: string, operation: () => Promise<T>, maxAttempts = 3): Promise<T> {
+    const result = await retry(operation, { maxAttempts })
+    this.applied.push(description)
+    this.versionedChanges = true
+    this.recorder?.complete(description)
+    return result
+  }
+
+  /**
+   * Run an operation that creates a rule and record the ID the API assigned it, so a resumed
+   * sync finds the rule instead of creating it again
+   * @param rule - The rule being created
+   */
+  async create<T extends { id?: string }>(
+    description: string,
+    rule: VercelCustomRule,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const result = await retry(operation, { maxAttempts: 3 })
+    this.applied.push(description)
+    this.versionedChanges = true
+    this.recorder?.complete(description, result.id ? { hash: ruleContentHash(rule), id: result.id } : undefined)
+    return result
+  }
+
+  /**
+   * Run one API operation on a setting outside the versioned config, which restoring
+   * `baseVersion` does not revert
+   * @param undo - Reverts the operation, run in reverse order on rollback
+   */
+  async runUnversioned<T>(description: string, operation: () => Promise<T>, undo: () => Promise<unknown>): Promise<T> {
+    const result = await retry(operation, { maxAttempts: 3 })
+    this.applied.push(description)
+    this.undos.push(undo)
+    this.recorder?.complete(description)
+    return result
+  }
+
+  /**
+   * Restore the remote config to `baseVersion` after `error` interrupted the sync.
+   * Always throws: the original error when nothing had landed yet, otherwise a
+   * DoormanError listing the operations that were applied before the failure.
+   */
+  async rollback(error: unknown): Promise<never> {
+    const cause = error instanceof Error ? error : new Error(String(error))
+
+    if (this.applied.length === 0) {
+      throw cause
+    }
+
+    logger.warn(`Sync failed after ${this.applied.length} operation(s), restoring config version ${this.baseVersion}`)
+    this.applied.forEach((operation) => logger.warn(`  - ${operation}`))
+
+    try {
+      if (this.versionedChanges) {
+        const snapshot = await retry(() => this.client.fetchFirewallConfig(this.baseVersion), { maxAttempts: 3 })
+        const restored = await retry(
+          () =>
+            this.client.putConfig({
+              firewallEnabled: snapshot.firewallEnabled,
+              rules: snapshot.rules as FirewallConfig['rules'],
+              ips: snapshot.ips,
+              // Restore the managed rulesets too, as the sync may have toggled them
+              ...(snapshot.crs && Object.keys(snapshot.crs).length > 0 ? { crs: snapshot.crs } : {}),
+              ...(snapshot.managedRules ? { managedRules: snapshot.managedRules } : {}),
+            }),
+          { maxAttempts: 3 },
+        )
+        logger.debug(`Restored config version ${this.baseVersion} as version ${restored.version}`)
+      }
+      for (const undo of [...this.undos].reverse()) {
+        await retry(undo, { maxAttempts: 3 })
+      }
+    } catch (rollbackError) {
+      throw syncErrors.rollbackFailed(
+        'Vercel',
+        this.baseVersion,
+        this.appliedOperations,
+        cause,
+        rollbackError instanceof Error ? rollbackError : new Error(String(rollbackError)),
+      )
+    }
+
+    throw syncErrors.rolledBack('Vercel', this.baseVersion, this.appliedOperations, cause)
+  }
+}
@@ -297,6 +297,26 @@ describe('VercelClient', () => {
     })
   })
 
+  describe('fetchBypassRules', () => {
+    it('should follow the pagination cursor until the last page', async () => {
+      const page = (ips: string[], lastId?: string) =>
+        createMockResponse({
+          result: ips.map((ip) => ({ Id: `bypass_${ip}`, Ip: ip, Domain: '', IsProjectRule: true })),
+          ...(lastId ? { pagination: { OwnerId: teamId, Id: lastId } } : {}),
+        })
+      fetchSpy
+        .mockResolvedValueOnce(page(['1.1.1.1', '2.2.2.2'], 'bypass_2.2.2.2'))
+        .mockResolvedValueOnce(page(['3.3.3.3']))
+
+      const rules = await client.fetchBypassRules()
+
+      expect(rules.map((rule) => rule.sourceIp)).toEqual(['1.1.1.1', '2.2.2.2', '3.3.3.3'])
+      expect(fetchSpy).toHaveBeenCalledTimes(2)
+      expect(fetchSpy.mock.calls[0][0]).not.toContain('offset=')
+      expect(fetchSpy.mock.calls[1][0]).toContain('&offset=bypass_2.2.2.2')
+    })
+  })
+
   describe('verifyCredentials', () => {
     it('should return true when fetch succeeds', async () => {
       fetchSpy.mockResolvedValue(createMockResponse(mockVercelConfig))
@@ -1,6 +1,8 @@
 import { VercelFirewallService } from '../VercelFirewallService'
 import { VercelClient } from '../VercelClient'
+import { RuleTranslator } from '../../../translators'
 import type { UnifiedConfig } from '../../../types/unified'
+import { ruleContentHash } from '../../../utils/ruleContentHash'
 
 // Mock the logger
 jest.mock('../../../logger', () => ({
@@ -65,6 +67,8 @@ describe('VercelFirewallService', () => {
     client = new VercelClient('proj_123', 'team_456', 'test-token')
     service = new VercelFirewallService(client)
     jest.clearAllMocks()
+    jest.spyOn(client, 'fetchAttackMode').mockResolvedValue({ enabled: false })
+    jest.spyOn(client, 'fetchBypassRules').mockResolvedValue([])
   })
 
   describe('name', () => {
@@ -180,11 +184,106 @@ describe('VercelFirewallService', () => {
       expect(result.ipsAdded).toBe(1)
     })
 
+    it('should report each planned operation to the recorder as it lands', async () => {
+      jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue({ ...mockVercelConfig, rules: [], ips: [] })
+      jest.spyOn(client, 'createFirewallRule').mockResolvedValue({
+        id: 'new_rule_1',
+        name: 'Block bots',
+        active: true,
+        conditionGroup: [],
+        action: { mitigate: { action: 'deny' } },
+      })
+      jest.spyOn(client, 'createIPBlockingRule').mockRejectedValue(new Error('Bad Request'))
+      jest.spyOn(client, 'putConfig').mockResolvedValue({ ...mockVercelConfig, version: 6 })
+      const recorder = { plan: jest.fn(), complete: jest.fn() }
+
+      await service.syncRules(unifiedConfig, { recorder }).catch(() => undefined)
+
+      expect(recorder.plan).toHaveBeenCalledWith(['add rule Block bots', 'add IP rule 1.2.3.4'])
+      expect(recorder.complete.mock.calls).toEqual([
+        [
+          'add rule Block bots',
+          { hash: ruleContentHash(RuleTranslator.unifiedToVercel(unifiedConfig.rules[0]!).result), id: 'new_rule_1' },
+        ],
+      ])
+    })
+
     it('should throw on error', async () => {
       jest.spyOn(client, 'fetchFirewallConfig').mockRejectedValue(new Error('API error'))
 
       await expect(service.syncRules(unifiedConfig)).rejects.toThrow('Failed to synchronize firewall rules')
     })
+
+    it('should restore the starting version when an operation fails midway', async () => {
+      const fetchSpy = jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue({
+        ...mockVercelConfig,
+        version: 4,
+        rules: [],
+        ips: [],
+      })
+      jest.spyOn(client, 'createFirewallRule').mockResolvedValue({
+        id: 'new_rule_1',
+        name: 'Block bots',
+        active: true,
+        conditionGroup: [],
+        action: { mitigate: { action: 'deny' } },
+      })
+      jest.spyOn(client, 'createIPBlockingRule').mockRejectedValue(new Error('Bad Request'))
+      const putSpy = jest.spyOn(client, 'putConfig').mockResolvedValue({ ...mockVercelConfig, version: 6 })
+
+      const error = await service.syncRules(unifiedConfig).catch((e) => e)
+
+      expect(error).toMatchObject({
+        code: 'SYNC_3007',
+        details: { restoredVersion: 4, appliedBeforeFailure: ['add rule Block bots'] },
+      })
+      expect(fetchSpy).toHaveBeenCalledWith(4)
+      expect(putSpy).toHaveBeenCalledWith({ firewallEnabled: true, rules: [], ips: [] })
+    })
+
+    it('should report applied operations when the rollback itself fails', async () => {
+      jest
+        .spyOn(client, 'fetchFirewallConfig')
+        .mockResolvedValueOnce({ ...mockVercelConfig, version: 4 })
+        .mockRejectedValue(new Error('Service Unavailable'))
+      jest.spyOn(client, 'deleteFirewallRule').mockResolvedValue(undefined)
+      jest.spyOn(client, 'deleteIPBlockingRule').mockRejectedValue(new Error('Bad Request'))
+      const putSpy = jest.spyOn(client, 'putConfig')
+
+      const error = await service.syncRules({ ...unifiedConfig, rules: [], ips: [] }).catch((e) => e)
+
+      expect(error).toMatchObject({
+        code: 'SYNC_3008',
+        details: { targetVersion: 4, appliedBeforeFailure: ['delete rule rule_1'] },
+      })
+      expect(putSpy).not.toHaveBeenCalled()
+    })
+
+    it('should not roll back when nothing was applied', async () => {
+      jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue({ ...mockVercelConfig, rules: [], ips: [] })
+      jest.spyOn(client, 'createFirewallRule').mockRejectedValue(new Error('Bad Request'))
+      const putSpy = jest.spyOn(client, 'putConfig')
+
+      await expect(service.syncRules(unifiedConfig)).rejects.toThrow('Failed to synchronize firewall rules')
+      expect(putSpy).not.toHaveBeenCalled()
+    })
+
+    it('should replace the whole config in a single request in atomic mode', async () => {
+      jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue({ ...mockVercelConfig, rules: [], ips: [] })
+      const createSpy = jest.spyOn(client, 'createFirewallRule')
+      const putSpy = jest.spyOn(client, 'putConfig').mockResolvedValue({ ...mockVercelConfig, version: 2 })
+
+      const result = await service.syncRules(unifiedConfig, { atomic: true })
+
+      expect(createSpy).not.toHaveBeenCalled()
+      expect(putSpy).toHaveBeenCalledTimes(1)
+      expect(putSpy.mock.calls[0]![0]).toMatchObject({
+        firewallEnabled: true,
+        rules: [expect.objectContaining({ id: 'rule_1', name: 'Block bots' })],
+        ips: [expect.objectContaining({ id: 'ip_1', ip: '1.2.3.4' })],
+      })
+      expect(result).toMatchObject({ success: true, rulesAdded: 1, ipsAdded: 1, version: 2 })
+    })
   })
 
   describe('getChanges', () => {
@@ -259,6 +358,37 @@ describe('VercelFirewallService', () => {
       expect(changes.hasChanges).toBe(false)
     })
 
+    it('should ignore null placeholders when comparing unchanged rules', async () => {
+      jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue(mockVercelConfig)
+
+      const matchingConfig: UnifiedConfig = {
+        version: '2.0',
+        provider: 'vercel',
+        rules: [unifiedConfig.rules[0]!],
+        ips: [{ id: 'ip_1', ip: '1.2.3.4', hostname: 'example.com', action: 'deny', notes: 'Blocked IP' }],
+      }
+
+      const changes = await service.getChanges(matchingConfig)
+
+      expect(changes.rulesToUpdate).toHaveLength(0)
+      expect(changes.ipsToUpdate).toHaveLength(0)
+      expect(changes.hasChanges).toBe(false)
+    })
+
+    it('should match IP rules without an ID by content', async () => {
+      jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue({ ...mockVercelConfig, rules: [] })
+
+      const changes = await service.getChanges({
+        version: '2.0',
+        provider: 'vercel',
+        rules: [],
+        ips: [{ ip: '1.2.3.4', hostname: 'example.com', action: 'deny', notes: 'Blocked IP' }],
+      })
+
+      expect(changes.ipsToAdd).toHaveLength(0)
+      expect(changes.ipsToDelete).toHaveLength(0)
+    })
+
     it('should include version from remote config', async () => {
       jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue(mockVercelConfig)
 
@@ -274,6 +404,245 @@ describe('VercelFirewallService', () => {
     })
   })
 
+  describe('rule order', () => {
+    const remoteRule = (id: string) => ({ ...mockVercelConfig.rules[0]!, id, name: id })
+    const localRule = (id: string) => ({
+      id,
+      name: id,
+      description: 'Block bad bots',
+      enabled: true,
+      conditions: [{ field: 'user_agent', operator: 'contains' as const, value: 'BadBot' }],
+      action: { type: 'deny' as const },
+    })
+    const reordered: UnifiedConfig = {
+      version: '2.0',
+      provider: 'vercel',
+      rules: [localRule('rule_c'), localRule('rule_a'), localRule('rule_b')],
+      ips: [],
+    }
+
+    beforeEach(() => {
+      jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue({
+        ...mockVercelConfig,
+        rules: [remoteRule('rule_a'), remoteRule('rule_b'), remoteRule('rule_c')],
+        ips: [],
+      })
+    })
+
+    it('should report rules in a different position as moved', async () => {
+      const changes = await service.getChanges(reordered)
+
+      expect(changes.rulesToMove).toEqual([expect.objectContaining({ id: 'rule_c', priority: 0 })])
+      expect(changes.rulesToUpdate).toHaveLength(0)
+      expect(changes.hasChanges).toBe(true)
+    })
+
+    it('should follow rule priorities over config order', async () => {
+      const changes = await service.getChanges({
+        ...reordered,
+        rules: [localRule('rule_a'), localRule('rule_b'), { ...localRule('rule_c'), priority: 0 }],
+      })
+
+      expect(changes.rulesToMove).toEqual([expect.objectContaining({ id: 'rule_c', priority: 0 })])
+    })
+
+    it('should move rules into the configured order when syncing', async () => {
+      const moveSpy = jest.spyOn(client, 'moveFirewallRule').mockResolvedValue(undefined)
+
+      const result = await service.syncRules(reordered)
+
+      expect(moveSpy).toHaveBeenCalledTimes(1)
+      expect(moveSpy).toHaveBeenCalledWith('rule_c', 0)
+      expect(result).toMatchObject({ success: true, rulesMoved: 1 })
+    })
+  })
+
+  describe('managed rules and attack mode', () => {
+    const securedConfig: UnifiedConfig = {
+      version: '2.0',
+      provider: 'vercel',
+      rules: [],
+      ips: [],
+      security: {
+        crs: { sqli: { active: true, action: 'deny' }, xss: { active: true, action: 'log' } },
+        managedRules: { bot_protection: { active: true, action: 'challenge' } },
+        attackMode: { enabled: true, activeUntil: 1767225600000 },
+      },
+    }
+
+    beforeEach(() => {
+      jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue({
+        ...mockVercelConfig,
+        rules: [],
+        ips: [],
+        crs: { sqli: { active: true, action: 'deny' }, xss: { active: false, action: 'log' } },
+        managedRules: { bot_protection: { active: false, action: 'log' } },
+      })
+    })
+
+    it('should include managed rulesets and attack mode when fetching the config', async () => {
+      const result = await service.fetchConfig()
+
+      expect(result.security).toEqual({
+        crs: { sqli: { active: true, action: 'deny' }, xss: { active: false, action: 'log' } },
+        managedRules: { bot_protection: { active: false, action: 'log' } },
+        attackMode: { enabled: false },
+      })
+    })
+
+    it('should only report the settings that differ', async () => {
+      const changes = await service.getChanges(securedConfig)
+
+      expect(changes.hasChanges).toBe(true)
+      expect(changes.securityChanges).toEqual([
+        {
+          section: 'crs',
+          id: 'xss',
+          from: { active: false, action: 'log' },
+          to: { active: true, action: 'log' },
+        },
+        {
+          section: 'managedRules',
+          id: 'bot_protection',
+          from: { active: false, action: 'log' },
+          to: { active: true, action: 'challenge' },
+        },
+        {
+          section: 'attackMode',
+          id: 'attackMode',
+          from: { enabled: false },
+          to: { enabled: true, activeUntil: 1767225600000 },
+        },
+      ])
+    })
+
+    it('should leave settings missing from the config alone', async () => {
+      const changes = await service.getChanges({
+        ...securedConfig,
+        security: { crs: { sqli: { active: true, action: 'deny' } } },
+      })
+
+      expect(changes.securityChanges).toBeUndefined()
+      expect(changes.hasChanges).toBe(false)
+      expect(client.fetchAttackMode).not.toHaveBeenCalled()
+    })
+
+    it('should apply each changed setting when syncing', async () => {
+      const crsSpy = jest.spyOn(client, 'updateCRSRule').mockResolvedValue(undefined)
+      const managedSpy = jest.spyOn(client, 'updateManagedRuleset').mockResolvedValue(undefined)
+      const attackModeSpy = jest.spyOn(client, 'updateAttackMode').mockResolvedValue(undefined)
+
+      const result = await service.syncRules(securedConfig)
+
+      expect(crsSpy).toHaveBeenCalledWith('xss', { active: true, action: 'log' })
+      expect(managedSpy).toHaveBeenCalledWith('bot_protection', { active: true, action: 'challenge' })
+      expect(attackModeSpy).toHaveBeenCalledWith({ enabled: true, activeUntil: 1767225600000 })
+      expect(result).toMatchObject({ success: true, securityUpdated: 3 })
+    })
+
+    it('should restore attack mode along with the config version when a later operation fails', async () => {
+      jest.spyOn(client, 'updateCRSRule').mockResolvedValue(undefined)
+      jest.spyOn(client, 'updateManagedRuleset').mockResolvedValue(undefined)
+      const attackModeSpy = jest.spyOn(client, 'updateAttackMode').mockResolvedValue(undefined)
+      jest.spyOn(client, 'fetchBypassRules').mockResolvedValue([])
+      jest.spyOn(client, 'createBypassRule').mockRejectedValue(new Error('Bad Request'))
+      const putSpy = jest.spyOn(client, 'putConfig').mockResolvedValue({ ...mockVercelConfig, version: 6 })
+
+      const error = await service
+        .syncRules({ ...securedConfig, bypass: [{ sourceIp: '203.0.113.10' }] })
+        .catch((e) => e)
+
+      expect(error).toMatchObject({ code: 'SYNC_3007' })
+      expect(putSpy).toHaveBeenCalledTimes(1)
+      expect(attackModeSpy.mock.calls).toEqual([[{ enabled: true, activeUntil: 1767225600000 }], [{ enabled: false }]])
+    })
+  })
+
+  describe('bypass rules', () => {
+    const monitor = { sourceIp: '203.0.113.10', domain: 'example.com', note: 'Uptime monitor' }
+    const crawler = { sourceIp: '198.51.100.0/24', note: 'Internal crawler' }
+    const bypassConfig: UnifiedConfig = { version: '2.0', provider: 'vercel', rules: [], ips: [], bypass: [monitor] }
+
+    beforeEach(() => {
+      jest.spyOn(client, 'fetchFirewallConfig').mockResolvedValue({ ...mockVercelConfig, rules: [], ips: [] })
+    })
+
+    it('should include bypass rules when fetching the latest config', async () => {
+      jest.spyOn(client, 'fetchBypassRules').mockResolvedValue([crawler])
+
+      expect((await service.fetchConfig()).bypass).toEqual([crawler])
+    })
+
+    it('should match bypass rules by source IP and domain', async () => {
+      jest.spyOn(client, 'fetchBypassRules').mockResolvedValue([{ ...monitor, note: 'Old note' }, crawler])
+
+      const changes = await service.getChanges(bypassConfig)
+
+      expect(changes.bypassToAdd).toBeUndefined()
+      expect(changes.bypassToDelete).toEqual([crawler])
+      expect(changes.hasChanges).toBe(true)
+    })
+
+    it('should leave remote bypass rules alone when the config has no bypass section', async () => {
+      jest.spyOn(client, 'fetchBypassRules').mockResolvedValue([crawler])
+
+      const changes = await service.getChanges({ ...bypassConfig, bypass: undefined })
+
+      expect(changes.hasChanges).toBe(false)
+      expect(client.fetchBypassRules).not.toHaveBeenCalled()
+    })
+
+    it('should delete and add bypass rules when syncing', async () => {
+      jest.spyOn(client, 'fetchBypassRules').mockResolvedValue([crawler])
+      const deleteSpy = jest.spyOn(client, 'deleteBypassRule').mockResolvedValue(undefined)
+      const createSpy = jest.spyOn(client, 'createBypassRule').mockResolvedValue(undefined)
+
+      const result = await service.syncRules(bypassConfig)
+
+      expect(deleteSpy).toHaveBeenCalledWith(crawler)
+      expect(createSpy).toHaveBeenCalledWith(monitor)
+      expect(result).toMatchObject({ success: true, bypassAdded: 1, bypassDeleted: 1 })
+    })
+
+    it('should put deleted bypass rules back when a later one fails', async () => {
+      jest.spyOn(client, 'fetchBypassRules').mockResolvedValue([crawler])
+      jest.spyOn(client, 'deleteBypassRule').mockResolvedValue(undefined)
+      const createSpy = jest
+        .spyOn(client, 'createBypassRule')
+        .mockRejectedValueOnce(new Error('Bad Request'))
+        .mockResolvedValue(undefined)
+      const putSpy = jest.spyOn(client, 'putConfig')
+
+      const error = await service.syncRules(bypassConfig).catch((e) => e)
+
+      expect(error).toMatchObject({
+        code: 'SYNC_3007',
+        details: { appliedBeforeFailure: ['delete bypass rule 198.51.100.0/24'] },
+      })
+      expect(createSpy).toHaveBeenLastCalledWith(crawler)
+      // Only bypass rules changed, so there is no config version to restore
+      expect(putSpy).not.toHaveBeenCalled()
+    })
+
+    it('should revert the replaced config when a bypass rule fails in atomic mode', async () => {
+      jest
+        .spyOn(client, 'fetchFirewallConfig')
+        .mockResolvedValue({ ...mockVercelConfig, version: 4, rules: [], ips: [] })
+      jest.spyOn(client, 'createBypassRule').mockRejectedValue(new Error('Bad Request'))
+      const putSpy = jest.spyOn(client, 'putConfig').mockResolvedValue({ ...mockVercelConfig, version: 5 })
+      const recorder = { plan: jest.fn(), complete: jest.fn() }
+
+      const error = await service.syncRules(bypassConfig, { atomic: true, recorder }).catch((e) => e)
+
+      expect(error).toMatchObject({
+        code: 'SYNC_3007',
+        details: { restoredVersion: 4, appliedBeforeFailure: ['replace firewall config'] },
+      })
+      expect(putSpy).toHaveBeenCalledTimes(2)
+      expect(recorder.complete.mock.calls).toEqual([['replace firewall config']])
+    })
+  })
+
   describe('validateConfig', () => {
     it('should return a validation result object', () => {
       const config: UnifiedConfig = {
@@ -430,7 +799,7 @@ describe('VercelFirewallService', () => {
       expect(features.supportsIPBlocking).toBe(true)
       expect(features.supportsRateLimiting).toBe(true)
       expect(features.supportsGeoBlocking).toBe(true)
-      expect(features.supportsManagedRules).toBe(false)
+      expect(features.supportsManagedRules).toBe(true)
       expect(features.supportsRedirect).toBe(true)
       expect(features.supportsChallenge).toBe(true)
     })
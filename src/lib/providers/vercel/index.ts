@@ -7,6 +7,8 @@ export { VercelClient } from './VercelClient'
 export type { VercelConfig, ApiResponse, LatestConfigResponse, TargetVersionConfig } from './VercelClient'
 
 export { VercelFirewallService } from './VercelFirewallService'
+export { VercelSyncTransaction } from './VercelSyncTransaction'
+export type { VersionedConfigClient } from './VercelSyncTransaction'
 
 export { VercelProvider } from './VercelProvider'
 export type { VercelProviderConfig } from './VercelProvider'
@@ -8,7 +8,7 @@ import {
   LEGACY_SCHEMA_VERSION,
 } from '../schemaVersion'
 import type { FirewallConfig } from '../../types/vercel'
-import type { UnifiedConfig } from '../../types/unified'
+import type { UnifiedCondition, UnifiedConfig } from '../../types/unified'
 
 // Mock the logger
 jest.mock('../../logger', () => ({
@@ -185,7 +185,7 @@ describe('schemaVersion', () => {
       const v1Config = createV1Config()
       const result = migrateV1ToV2(v1Config)
       const rule = result.rules[0]!
-      const condition = rule.conditions[0]!
+      const condition = rule.conditions[0] as UnifiedCondition
 
       expect(rule.conditions).toHaveLength(1)
       expect(condition.field).toBe('user_agent')
@@ -200,6 +200,32 @@ describe('schemaVersion', () => {
       expect(result.rules[0]!.conditionLogic).toBe('OR')
     })
 
+    it('should keep multi-condition groups as nested AND groups', () => {
+      const v1Config = createV1Config()
+      v1Config.rules[0]!.conditionGroup = [
+        {
+          conditions: [
+            { type: 'path', op: 'pre', value: '/api' },
+            { type: 'method', op: 'eq', value: 'POST' },
+          ],
+        },
+        { conditions: [{ type: 'user_agent', op: 'sub', value: 'BadBot' }] },
+      ]
+      const rule = migrateV1ToV2(v1Config).rules[0]!
+
+      expect(rule.conditionLogic).toBe('OR')
+      expect(rule.conditions).toEqual([
+        {
+          logic: 'AND',
+          conditions: [
+            expect.objectContaining({ field: 'path', operator: 'starts_with', value: '/api' }),
+            expect.objectContaining({ field: 'method', operator: 'eq', value: 'POST' }),
+          ],
+        },
+        expect.objectContaining({ field: 'user_agent', operator: 'contains', value: 'BadBot' }),
+      ])
+    })
+
     it('should migrate IP rules', () => {
       const v1Config = createV1Config()
       const result = migrateV1ToV2(v1Config)
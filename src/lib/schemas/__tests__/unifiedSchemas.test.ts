@@ -56,6 +56,14 @@ describe('unifiedSchemas', () => {
       expect(result.success).toBe(true)
     })
 
+    it('requires a value unless the operator is exists or not_exists', () => {
+      expect(unifiedConditionSchema.safeParse({ field: 'header', key: 'x-a', operator: 'exists' }).success).toBe(true)
+      expect(unifiedConditionSchema.safeParse({ field: 'cookie', key: 'id', operator: 'not_exists' }).success).toBe(
+        true,
+      )
+      expect(unifiedConditionSchema.safeParse({ field: 'header', key: 'x-a', operator: 'eq' }).success).toBe(false)
+    })
+
     it('rejects invalid operator', () => {
       const result = unifiedConditionSchema.safeParse({
         field: 'path',
@@ -144,6 +152,33 @@ describe('unifiedSchemas', () => {
       expect(result.success).toBe(false)
     })
 
+    it('accepts nested condition groups unchanged', () => {
+      const conditions = [
+        {
+          logic: 'AND',
+          conditions: [
+            { field: 'path', operator: 'starts_with', value: '/api' },
+            {
+              logic: 'OR',
+              negated: true,
+              conditions: [{ field: 'country', operator: 'eq', value: 'US' }],
+            },
+          ],
+        },
+        { field: 'user_agent', operator: 'contains', value: 'curl' },
+      ]
+      const result = unifiedRuleSchema.safeParse({ ...validRule, conditions, conditionLogic: 'OR' })
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.conditions).toEqual(conditions)
+      }
+    })
+
+    it('rejects empty condition groups', () => {
+      const result = unifiedRuleSchema.safeParse({ ...validRule, conditions: [{ logic: 'AND', conditions: [] }] })
+      expect(result.success).toBe(false)
+    })
+
     it('rejects rule without action', () => {
       const { action, ...ruleWithoutAction } = validRule
       const result = unifiedRuleSchema.safeParse(ruleWithoutAction)
@@ -3,6 +3,7 @@ import type {
   ActionType,
   ConditionGroup,
   CustomRule,
+  EnvironmentOverlay,
   FirewallConfig,
   IPBlockingRule,
   MitigationAction,
@@ -14,6 +15,16 @@ import type {
   RuleOperator,
   RuleType,
 } from '../types'
+import type {
+  VercelAttackMode,
+  VercelBypassRule,
+  VercelCRSConfig,
+  VercelCRSRule,
+  VercelManagedRuleset,
+  VercelManagedRulesConfig,
+} from '../types/vercel'
+import { providersConfigSchema } from './commonSchemas'
+import { requestTestSchema } from './requestTestSchemas'
 
 // Basic schemas
 export const configVersionSchema = z.number().int().positive().optional()
@@ -185,14 +196,78 @@ export const ipBlockingRuleSchema = z.object({
   action: z.literal('deny'),
 }) satisfies z.ZodType<IPBlockingRule>
 
+export const bypassRuleSchema = z.object({
+  sourceIp: ipAddressSchema,
+  domain: z.string().min(1).optional(),
+  note: z.string().optional(),
+}) satisfies z.ZodType<VercelBypassRule>
+
+// Managed rulesets and attack mode
+export const crsRuleSchema = z.object({
+  active: z.boolean(),
+  action: z.enum(['deny', 'log']),
+}) satisfies z.ZodType<VercelCRSRule>
+
+export const crsConfigSchema = z
+  .object({
+    sd: crsRuleSchema,
+    ma: crsRuleSchema,
+    lfi: crsRuleSchema,
+    rfi: crsRuleSchema,
+    rce: crsRuleSchema,
+    php: crsRuleSchema,
+    gen: crsRuleSchema,
+    xss: crsRuleSchema,
+    sqli: crsRuleSchema,
+    sf: crsRuleSchema,
+    java: crsRuleSchema,
+  })
+  .partial()
+  .strict() satisfies z.ZodType<VercelCRSConfig>
+
+export const managedRulesetSchema = z.object({
+  active: z.boolean(),
+  action: z.enum(['log', 'challenge', 'deny']).optional(),
+}) satisfies z.ZodType<VercelManagedRuleset>
+
+export const managedRulesConfigSchema = z
+  .object({
+    owasp: managedRulesetSchema,
+    bot_protection: managedRulesetSchema,
+    ai_bots: managedRulesetSchema,
+  })
+  .partial()
+  .strict() satisfies z.ZodType<VercelManagedRulesConfig>
+
+export const attackModeSchema = z.object({
+  enabled: z.boolean(),
+  activeUntil: z.number().int().positive().nullable().optional(),
+}) satisfies z.ZodType<VercelAttackMode>
+
 export const projectConfigSchema = z.object({
   projectId: z.string().optional(),
   teamId: z.string().optional(),
+  zoneId: z.string().optional(),
 }) satisfies z.ZodType<ProjectConfig>
 
+export const environmentOverlaySchema = projectConfigSchema.extend({
+  addRules: z.array(firewallRuleSchema).optional(),
+  overrideRules: z.record(firewallRuleSchema.partial()).optional(),
+  removeRules: z.array(z.string()).optional(),
+  version: z.number().optional(),
+  updatedAt: z.string().optional(),
+}) satisfies z.ZodType<EnvironmentOverlay>
+
 export const firewallConfigSchema = projectConfigSchema.extend({
   rules: z.array(firewallRuleSchema),
   ips: z.array(ipBlockingRuleSchema).optional(),
   version: z.number().optional(),
   updatedAt: z.string().optional(),
+  tests: z.array(requestTestSchema).optional(),
+  environments: z.record(environmentOverlaySchema).optional(),
+  providers: providersConfigSchema.optional(),
+  crs: crsConfigSchema.optional(),
+  managedRules: managedRulesConfigSchema.optional(),
+  attackMode: attackModeSchema.optional(),
+  bypass: z.array(bypassRuleSchema).optional(),
 }) satisfies z.ZodType<FirewallConfig>
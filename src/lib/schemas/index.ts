@@ -58,6 +58,8 @@ export {
 // Unified schemas
 export {
   unifiedConditionSchema,
+  unifiedConditionNodeSchema,
+  unifiedConditionGroupSchema,
   unifiedActionSchema,
   unifiedRuleSchema,
   unifiedIPRuleSchema,
@@ -65,6 +67,17 @@ export {
   validateUnifiedConfig,
 } from './unifiedSchemas'
 
+// Request test fixtures
+export {
+  simulatedRequestSchema,
+  evaluatedActionSchema,
+  requestTestSchema,
+  requestTestFileSchema,
+} from './requestTestSchemas'
+
+// Policies files
+export { policySchema, policyFileSchema } from './policySchemas'
+
 // Schema versioning
 export {
   CURRENT_SCHEMA_VERSION,
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import type { PolicyFile } from '../types'
+import { actionTypeSchema } from './firewallSchemas'
+
+const policyBaseSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+})
+
+export const policySchema = z.discriminatedUnion('type', [
+  policyBaseSchema
+    .extend({
+      type: z.literal('protected_paths'),
+      paths: z.array(z.string().startsWith('/')).min(1),
+      actions: z.array(actionTypeSchema).min(1).optional(),
+    })
+    .strict(),
+  policyBaseSchema.extend({ type: z.literal('rate_limit_duration') }).strict(),
+  policyBaseSchema.extend({ type: z.literal('ip_notes') }).strict(),
+  policyBaseSchema
+    .extend({ type: z.literal('max_rules'), action: actionTypeSchema, max: z.number().int().nonnegative() })
+    .strict(),
+  policyBaseSchema.extend({ type: z.literal('no_deletions') }).strict(),
+])
+
+export const policyFileSchema = z.object({
+  policies: z.array(policySchema),
+}) satisfies z.ZodType<PolicyFile>
@@ -0,0 +1,53 @@
+import { z } from 'zod'
+import type { RequestTest, SimulatedRequest } from '../types'
+
+const stringRecordSchema = z.record(z.string())
+
+export const simulatedRequestSchema = z
+  .object({
+    path: z.string().optional(),
+    targetPath: z.string().optional(),
+    host: z.string().optional(),
+    method: z.string().optional(),
+    headers: stringRecordSchema.optional(),
+    cookies: stringRecordSchema.optional(),
+    query: stringRecordSchema.optional(),
+    ip: z.string().optional(),
+    region: z.string().optional(),
+    protocol: z.string().optional(),
+    scheme: z.string().optional(),
+    environment: z.string().optional(),
+    userAgent: z.string().optional(),
+    geo: z
+      .object({
+        continent: z.string().optional(),
+        country: z.string().optional(),
+        countryRegion: z.string().optional(),
+        city: z.string().optional(),
+        asNumber: z.number().optional(),
+      })
+      .strict()
+      .optional(),
+    ja4Digest: z.string().optional(),
+    ja3Digest: z.string().optional(),
+    rateLimitApiId: z.string().optional(),
+  })
+  .strict() satisfies z.ZodType<SimulatedRequest>
+
+export const evaluatedActionSchema = z.enum(['allow', 'log', 'deny', 'challenge', 'bypass', 'rate_limit', 'redirect'])
+
+export const requestTestSchema = z.object({
+  name: z.string().min(1),
+  request: simulatedRequestSchema,
+  expect: z.object({
+    action: evaluatedActionSchema,
+    rule: z.string().optional(),
+  }),
+}) satisfies z.ZodType<RequestTest>
+
+/**
+ * A request fixture file: either an array of tests or `{ "tests": [...] }`
+ */
+export const requestTestFileSchema = z
+  .union([z.array(requestTestSchema), z.object({ tests: z.array(requestTestSchema) })])
+  .transform((file) => (Array.isArray(file) ? file : file.tests))
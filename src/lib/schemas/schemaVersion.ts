@@ -64,8 +64,7 @@ export function migrateV1ToV2(v1Config: FirewallConfig): UnifiedConfig {
       name: rule.name,
       description: rule.description,
       enabled: rule.active,
-      conditions: convertV1ConditionsToUnified(rule),
-      conditionLogic: 'OR', // Vercel uses OR between condition groups
+      ...convertV1ConditionsToUnified(rule),
       action: {
         type: rule.action.mitigate.action,
         rateLimit: rule.action.mitigate.rateLimit
@@ -104,29 +103,27 @@ export function migrateV1ToV2(v1Config: FirewallConfig): UnifiedConfig {
 /**
  * Convert v1 Vercel condition groups to unified conditions
  * In v1, condition groups are OR'd together, conditions within a group are AND'd
- * This needs to be flattened for unified format
+ * Groups with several conditions become nested AND groups in the unified format
  */
-import type { UnifiedCondition } from '../types/unified'
+import type { UnifiedCondition, UnifiedRule } from '../types/unified'
+import { fromConditionGroups } from '../types/unified'
 import type { Operator } from '../types/common'
 import type { VercelCustomRule } from '../types/vercel'
 
-function convertV1ConditionsToUnified(rule: VercelCustomRule): UnifiedCondition[] {
-  const conditions: UnifiedCondition[] = []
-
-  // Flatten condition groups
-  for (const group of rule.conditionGroup || []) {
-    for (const condition of group.conditions || []) {
-      conditions.push({
+function convertV1ConditionsToUnified(rule: VercelCustomRule): Pick<UnifiedRule, 'conditions' | 'conditionLogic'> {
+  const groups = (rule.conditionGroup || []).map((group) =>
+    (group.conditions || []).map(
+      (condition): UnifiedCondition => ({
         field: mapVercelTypeToField(condition.type),
         operator: mapVercelOperatorToUnified(condition.op),
         value: condition.value as string | number | string[] | number[],
         negated: condition.neg,
         key: condition.key,
-      })
-    }
-  }
+      }),
+    ),
+  )
 
-  return conditions
+  return fromConditionGroups(groups)
 }
 
 /**
@@ -1,5 +1,12 @@
 import { z } from 'zod'
-import type { UnifiedCondition, UnifiedAction, UnifiedRule, UnifiedIPRule, UnifiedConfig } from '../types/unified'
+import type {
+  UnifiedCondition,
+  UnifiedConditionNode,
+  UnifiedAction,
+  UnifiedRule,
+  UnifiedIPRule,
+  UnifiedConfig,
+} from '../types/unified'
 import {
   actionTypeSchema,
   operatorSchema,
@@ -18,13 +25,31 @@ import {
  */
 
 // Unified condition schema
-export const unifiedConditionSchema = z.object({
-  field: fieldTypeSchema.or(z.string()), // Allow custom fields
-  operator: operatorSchema,
-  value: z.union([z.string(), z.number(), z.array(z.string()), z.array(z.number())]),
+export const unifiedConditionSchema = z
+  .object({
+    field: fieldTypeSchema.or(z.string()), // Allow custom fields
+    operator: operatorSchema,
+    value: z.union([z.string(), z.number(), z.array(z.string()), z.array(z.number())]).optional(),
+    negated: z.boolean().optional(),
+    key: z.string().optional(), // For header, query, cookie
+  })
+  .refine(
+    // 'exists' and 'not_exists' only check the field, so they have no value
+    (condition) => condition.value !== undefined || ['exists', 'not_exists'].includes(condition.operator),
+    { message: 'Conditions require a value unless the operator is exists or not_exists', path: ['value'] },
+  ) satisfies z.ZodType<UnifiedCondition>
+
+// Unified condition tree node: a condition or a nested AND/OR group
+export const unifiedConditionNodeSchema: z.ZodType<UnifiedConditionNode> = z.lazy(() =>
+  z.union([unifiedConditionSchema, unifiedConditionGroupSchema]),
+)
+
+// Unified condition group schema
+export const unifiedConditionGroupSchema = z.object({
+  logic: z.enum(['AND', 'OR']),
+  conditions: z.array(unifiedConditionNodeSchema).min(1, 'Condition groups require at least one condition'),
   negated: z.boolean().optional(),
-  key: z.string().optional(), // For header, query, cookie
-}) satisfies z.ZodType<UnifiedCondition>
+})
 
 // Unified action schema
 export const unifiedActionSchema = z.object({
@@ -47,7 +72,7 @@ export const unifiedRuleSchema = z.object({
   name: z.string().min(1, 'Rule name is required'),
   description: z.string().optional(),
   enabled: z.boolean(),
-  conditions: z.array(unifiedConditionSchema).min(1, 'At least one condition is required'),
+  conditions: z.array(unifiedConditionNodeSchema).min(1, 'At least one condition is required'),
   conditionLogic: z.enum(['AND', 'OR']).optional().default('AND'),
   action: unifiedActionSchema,
   priority: z.number().int().optional(),
@@ -1,6 +1,8 @@
 import chalk from 'chalk'
 import { LogLevels } from 'consola'
+import { DoormanError } from '../errors/DoormanError'
 import { logger } from '../logger'
+import { VercelSyncTransaction } from '../providers/vercel/VercelSyncTransaction'
 import { firewallConfigSchema } from '../schemas/firewallSchemas'
 
 import { CustomRule, FirewallConfig, IPBlockingRule } from '../types'
@@ -14,6 +16,8 @@ interface SyncOptions {
   dryRun?: boolean
   retryAttempts?: number
   debug?: boolean
+  /** Replace the whole remote config in a single PUT instead of one request per rule */
+  atomic?: boolean
 }
 
 export class FirewallService {
@@ -84,14 +88,14 @@ export class FirewallService {
     deletedIPRules: IPBlockingRule[]
     rulesToUpdateLocally: { oldId: string; newId: string; name: string }[]
   }> {
-    const { dryRun = false, retryAttempts = 3, debug = false } = options
+    const { dryRun = false, retryAttempts = 3, debug = false, atomic = false } = options
 
     if (debug) {
       logger.level = LogLevels.debug
     }
 
     try {
-      const { toAdd, toUpdate, toDelete, ipsToAdd, ipsToUpdate, ipsToDelete } = await this.getChanges(config)
+      const { version, toAdd, toUpdate, toDelete, ipsToAdd, ipsToUpdate, ipsToDelete } = await this.getChanges(config)
 
       if (dryRun) {
         logger.info('Dry run mode. The following changes would be made:')
@@ -108,6 +112,21 @@ export class FirewallService {
         }
       }
 
+      if (atomic) {
+        logger.debug(`Replacing firewall config version ${version} in a single request`)
+        const desired = { firewallEnabled: config.firewallEnabled ?? true, rules: config.rules, ips: config.ips || [] }
+        await retry(() => this.client.putConfig(desired), { maxAttempts: retryAttempts })
+        return {
+          addedRules: toAdd,
+          updatedRules: toUpdate,
+          deletedRules: toDelete,
+          addedIPRules: ipsToAdd,
+          updatedIPRules: ipsToUpdate,
+          deletedIPRules: ipsToDelete,
+          rulesToUpdateLocally: [],
+        }
+      }
+
       const addedRules: CustomRule[] = []
       const updatedRules: CustomRule[] = []
       const deletedRules: CustomRule[] = []
@@ -118,62 +137,84 @@ export class FirewallService {
 
       const rulesToUpdateLocally: { oldId: string; newId: string; name: string }[] = []
 
-      // Delete custom rules
-      for (const rule of toDelete) {
-        logger.debug(`Deleting custom rule: ${rule.id}`)
-        await retry(() => this.client.deleteFirewallRule(rule), { maxAttempts: retryAttempts })
-        deletedRules.push(rule)
-        logger.debug(`Custom rule deleted: ${rule.id}`)
-      }
+      const transaction = new VercelSyncTransaction(this.client, version)
 
-      // Delete IP blocking rules
-      for (const rule of ipsToDelete) {
-        logger.debug(`Deleting IP blocking rule: ${rule.id}`)
-        await retry(() => this.client.deleteIPBlockingRule(rule), { maxAttempts: retryAttempts })
-        deletedIPRules.push(rule)
-        logger.debug(`IP blocking rule deleted: ${rule.id}`)
-      }
+      try {
+        // Delete custom rules
+        for (const rule of toDelete) {
+          logger.debug(`Deleting custom rule: ${rule.id}`)
+          await transaction.run(`delete rule ${rule.id}`, () => this.client.deleteFirewallRule(rule), retryAttempts)
+          deletedRules.push(rule)
+          logger.debug(`Custom rule deleted: ${rule.id}`)
+        }
 
-      // Add new custom rules
-      for (const rule of toAdd) {
-        const expectedId = `rule_${convertToSnakeCase(rule.name)}`
-        logger.debug(`Adding new custom rule: ${rule.name}`)
-        const newRule = await retry(() => this.client.createFirewallRule(rule), {
-          maxAttempts: retryAttempts,
-        })
-        addedRules.push(newRule)
-        logger.debug(`New custom rule added: ${newRule.id}`)
-
-        if (rule.id !== expectedId) {
-          rulesToUpdateLocally.push({ oldId: rule.id ?? '', newId: expectedId, name: rule.name })
-          logger.debug(`Rule ID needs update locally: ${rule.id} -> ${expectedId}`)
+        // Delete IP blocking rules
+        for (const rule of ipsToDelete) {
+          logger.debug(`Deleting IP blocking rule: ${rule.id}`)
+          await transaction.run(
+            `delete IP rule ${rule.ip}`,
+            () => this.client.deleteIPBlockingRule(rule),
+            retryAttempts,
+          )
+          deletedIPRules.push(rule)
+          logger.debug(`IP blocking rule deleted: ${rule.id}`)
         }
-      }
 
-      // Add new IP blocking rules
-      for (const rule of ipsToAdd) {
-        logger.debug(`Adding new IP blocking rule: ${rule.ip}`)
-        const newIPRule = await retry(() => this.client.createIPBlockingRule(rule), {
-          maxAttempts: retryAttempts,
-        })
-        addedIPRules.push(newIPRule)
-        logger.debug(`New IP blocking rule added:  (hostname): ${newIPRule.hostname} (ip): ${newIPRule.ip}`)
-      }
+        // Add new custom rules
+        for (const rule of toAdd) {
+          const expectedId = `rule_${convertToSnakeCase(rule.name)}`
+          logger.debug(`Adding new custom rule: ${rule.name}`)
+          const newRule = await transaction.run(
+            `add rule ${rule.name}`,
+            () => this.client.createFirewallRule(rule),
+            retryAttempts,
+          )
+          addedRules.push(newRule)
+          logger.debug(`New custom rule added: ${newRule.id}`)
+
+          if (rule.id !== expectedId) {
+            rulesToUpdateLocally.push({ oldId: rule.id ?? '', newId: expectedId, name: rule.name })
+            logger.debug(`Rule ID needs update locally: ${rule.id} -> ${expectedId}`)
+          }
+        }
 
-      // Update existing custom rules
-      for (const rule of toUpdate) {
-        logger.debug(`Updating custom rule: ${rule.id}`)
-        const updatedRule = await retry(() => this.client.updateFirewallRule(rule), { maxAttempts: retryAttempts })
-        updatedRules.push(updatedRule)
-        logger.debug(`Custom rule updated: ${updatedRule.id}`)
-      }
+        // Add new IP blocking rules
+        for (const rule of ipsToAdd) {
+          logger.debug(`Adding new IP blocking rule: ${rule.ip}`)
+          const newIPRule = await transaction.run(
+            `add IP rule ${rule.ip}`,
+            () => this.client.createIPBlockingRule(rule),
+            retryAttempts,
+          )
+          addedIPRules.push(newIPRule)
+          logger.debug(`New IP blocking rule added:  (hostname): ${newIPRule.hostname} (ip): ${newIPRule.ip}`)
+        }
 
-      // Update existing IP blocking rules
-      for (const rule of ipsToUpdate) {
-        logger.debug(`Updating IP blocking rule: ${rule.id}`)
-        const updatedRule = await retry(() => this.client.updateIPBlockingRule(rule), { maxAttempts: retryAttempts })
-        updatedIPRules.push(updatedRule)
-        logger.debug(`IP blocking rule updated: ${updatedRule.id}`)
+        // Update existing custom rules
+        for (const rule of toUpdate) {
+          logger.debug(`Updating custom rule: ${rule.id}`)
+          const updatedRule = await transaction.run(
+            `update rule ${rule.id}`,
+            () => this.client.updateFirewallRule(rule),
+            retryAttempts,
+          )
+          updatedRules.push(updatedRule)
+          logger.debug(`Custom rule updated: ${updatedRule.id}`)
+        }
+
+        // Update existing IP blocking rules
+        for (const rule of ipsToUpdate) {
+          logger.debug(`Updating IP blocking rule: ${rule.id}`)
+          const updatedRule = await transaction.run(
+            `update IP rule ${rule.ip}`,
+            () => this.client.updateIPBlockingRule(rule),
+            retryAttempts,
+          )
+          updatedIPRules.push(updatedRule)
+          logger.debug(`IP blocking rule updated: ${updatedRule.id}`)
+        }
+      } catch (error) {
+        await transaction.rollback(error)
       }
 
       logger.debug(
@@ -196,6 +237,9 @@ export class FirewallService {
       }
     } catch (error) {
       logger.error('Error during sync:', error)
+      if (DoormanError.isDoormanError(error)) {
+        throw error
+      }
       throw new Error('Failed to synchronize firewall rules. Please check the error logs and try again.')
     }
   }
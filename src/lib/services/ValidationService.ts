@@ -90,6 +90,7 @@ export class ValidationService {
     if (ajvValid && zodResult.success) {
       try {
         this.validateRuleNames(config as FirewallConfig)
+        this.validateBypassRules(config as FirewallConfig)
         this.validateRuleConditionGroup(config as FirewallConfig)
         this.validateRuleAction(config as FirewallConfig)
       } catch (error) {
@@ -145,6 +146,21 @@ export class ValidationService {
     }
   }
 
+  private validateBypassRules(config: FirewallConfig): void {
+    // Bypass rules are identified by source IP and domain, so each pair may only appear once
+    const keys = new Set<string>()
+    for (const rule of config.bypass || []) {
+      const key = `${rule.sourceIp}@${rule.domain || '*'}`
+      if (keys.has(key)) {
+        throw new ValidationError(
+          `Duplicate bypass rule found: "${rule.sourceIp}" for ${rule.domain ? `"${rule.domain}"` : 'all domains'}`,
+          null,
+        )
+      }
+      keys.add(key)
+    }
+  }
+
   private validateRuleConditionGroup(config: FirewallConfig): void {
     for (const rule of config.rules) {
       // Validate conditionGroup structure
@@ -1,6 +1,7 @@
 import chalk from 'chalk'
 import { logger } from '../logger'
 import { CustomRule, FirewallConfig, IPBlockingRule } from '../types'
+import type { VercelCRSConfig, VercelManagedRulesConfig } from '../types/vercel'
 import { prompt } from '../ui/prompt'
 import { createEmptyConfig } from '../utils/createEmptyConfig'
 
@@ -15,7 +16,8 @@ export interface VercelConfig {
   version: number
   id: string
   firewallEnabled: boolean
-  crs: unknown // TODO: Add type for CRS, this is an enterprise feature and less clear how to interact with :(
+  crs: VercelCRSConfig
+  managedRules?: VercelManagedRulesConfig
   rules: CustomRule[]
   ips: IPBlockingRule[]
   projectKey: string
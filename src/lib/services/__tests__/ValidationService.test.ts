@@ -236,4 +236,70 @@ describe('ValidationService', () => {
       expect(() => validator.validateConfig(config)).not.toThrow()
     })
   })
+
+  describe('request tests', () => {
+    const rule: FirewallConfig['rules'][number] = {
+      id: 'rule_block_wordpress',
+      name: 'Block WordPress probes',
+      conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: '/wp-admin' }] }],
+      action: { mitigate: { action: 'deny' } },
+      active: true,
+    }
+
+    it('should accept a tests section', () => {
+      const config: FirewallConfig = {
+        rules: [rule],
+        tests: [
+          {
+            name: 'GET /wp-admin from US',
+            request: { method: 'GET', path: '/wp-admin', geo: { country: 'US' } },
+            expect: { action: 'deny', rule: 'rule_block_wordpress' },
+          },
+        ],
+      }
+
+      expect(() => validator.validateConfig(config)).not.toThrow()
+    })
+
+    it('should reject malformed tests', () => {
+      const config = {
+        rules: [rule],
+        tests: [{ name: 'missing expectation', request: { path: '/', port: 80 } }],
+      }
+
+      expect(() => validator.validateConfig(config)).toThrow(ValidationError)
+    })
+  })
+
+  describe('bypass rules', () => {
+    it('should accept bypass rules for one domain or the whole project', () => {
+      const config: FirewallConfig = {
+        rules: [],
+        bypass: [
+          { sourceIp: '203.0.113.10', domain: 'example.com', note: 'Uptime monitor' },
+          { sourceIp: '198.51.100.0/24' },
+        ],
+      }
+
+      expect(() => validator.validateConfig(config)).not.toThrow()
+    })
+
+    it('should reject invalid source IPs', () => {
+      const config = { rules: [], bypass: [{ sourceIp: 'not-an-ip' }] }
+
+      expect(() => validator.validateConfig(config)).toThrow(ValidationError)
+    })
+
+    it('should reject the same source IP twice for a domain', () => {
+      const config: FirewallConfig = {
+        rules: [],
+        bypass: [
+          { sourceIp: '203.0.113.10', domain: 'example.com' },
+          { sourceIp: '203.0.113.10', domain: 'example.com', note: 'Again' },
+        ],
+      }
+
+      expect(() => validator.validateConfig(config)).toThrow('Duplicate bypass rule found')
+    })
+  })
 })
@@ -1,5 +1,6 @@
 import type { VercelRuleCondition, VercelConditionGroup } from '../types/vercel'
-import type { UnifiedCondition } from '../types/unified'
+import type { UnifiedCondition, UnifiedConditionNode } from '../types/unified'
+import { isUnifiedConditionGroup } from '../types/unified'
 import { FieldMapper } from './FieldMapper'
 
 /**
@@ -34,9 +35,8 @@ export class ExpressionBuilder {
   public static fromVercelCondition(condition: VercelRuleCondition): string {
     const field = FieldMapper.toCloudflare(condition.type, condition.key)
     const operator = this.mapVercelOperator(condition.op)
-    const value = this.formatValue(condition.value, condition.op)
 
-    let expression = `${field} ${operator} ${value}`
+    let expression = this.formatComparison(field, operator, condition.value)
 
     // Handle negation
     if (condition.neg) {
@@ -47,14 +47,24 @@ export class ExpressionBuilder {
   }
 
   /**
-   * Build expression from unified conditions
+   * Build expression from unified conditions, including nested condition groups
    */
-  public static fromUnifiedConditions(conditions: UnifiedCondition[], logic: 'AND' | 'OR' = 'AND'): string {
+  public static fromUnifiedConditions(conditions: UnifiedConditionNode[], logic: 'AND' | 'OR' = 'AND'): string {
     if (!conditions || conditions.length === 0) {
       throw new Error('At least one condition is required')
     }
 
-    const expressions = conditions.map((condition) => this.fromUnifiedCondition(condition))
+    const expressions = conditions.map((node) => {
+      if (!isUnifiedConditionGroup(node)) {
+        return this.fromUnifiedCondition(node)
+      }
+
+      const expression = this.fromUnifiedConditions(node.conditions, node.logic)
+      if (!node.negated) {
+        return expression
+      }
+      return node.conditions.length > 1 ? `not ${expression}` : `not (${expression})`
+    })
 
     const connector = logic === 'AND' ? ' and ' : ' or '
     return expressions.length > 1 ? `(${expressions.join(connector)})` : expressions[0]!
@@ -69,9 +79,8 @@ export class ExpressionBuilder {
       : this.mapUnifiedFieldToCloudflare(condition.field)
 
     const operator = this.mapUnifiedOperator(condition.operator)
-    const value = this.formatValue(condition.value, operator)
 
-    let expression = `${field} ${operator} ${value}`
+    let expression = this.formatComparison(field, operator, condition.value)
 
     if (condition.negated) {
       expression = `not (${expression})`
@@ -148,23 +157,40 @@ export class ExpressionBuilder {
     return mapping[field] || field
   }
 
+  /**
+   * Format a comparison. Wirefilter has no existence operator, so existence checks test
+   * whether the field has any value with `len()`.
+   */
+  private static formatComparison(field: string, operator: string, value: unknown): string {
+    if (operator === 'exists' || operator === 'not exists') {
+      return `len(${field}) ${operator === 'exists' ? 'gt' : 'eq'} 0`
+    }
+
+    return `${field} ${operator} ${this.formatValue(value, field)}`
+  }
+
   /**
    * Format value for wirefilter expression
    */
-  private static formatValue(value: unknown, _operator?: string): string {
+  private static formatValue(value: unknown, field?: string): string {
     // Handle arrays (for 'in' operator)
     if (Array.isArray(value)) {
-      const formattedValues = value.map((v) => this.formatSingleValue(v)).join(' ')
+      const formattedValues = value.map((v) => this.formatSingleValue(v, field)).join(' ')
       return `{${formattedValues}}`
     }
 
-    return this.formatSingleValue(value)
+    return this.formatSingleValue(value, field)
   }
 
   /**
-   * Format a single value
+   * Format a single value. IP fields take bare IP and CIDR literals, which wirefilter
+   * rejects when quoted.
    */
-  private static formatSingleValue(value: unknown): string {
+  private static formatSingleValue(value: unknown, field?: string): string {
+    if (typeof value === 'string' && field === 'ip.src') {
+      return value
+    }
+
     if (typeof value === 'string') {
       // Escape quotes in string values
       const escaped = value.replace(/"/g, '\\"')
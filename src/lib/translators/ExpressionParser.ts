@@ -0,0 +1,500 @@
+/**
+ * Literal value in a wirefilter expression
+ */
+export interface LiteralNode {
+  type: 'literal'
+  kind: 'string' | 'number' | 'ip' | 'boolean' | 'range'
+  value: string | number | boolean
+}
+
+/**
+ * Field reference, e.g. `http.request.uri.path` or `http.request.headers["x-api-key"][0]`
+ */
+export interface FieldNode {
+  type: 'field'
+  name: string
+  indexes: Array<string | number>
+}
+
+/**
+ * Function call, e.g. `lower(http.host)` or `any(http.request.headers["x"][*] eq "y")`
+ */
+export interface FunctionNode {
+  type: 'function'
+  name: string
+  args: ExpressionNode[]
+}
+
+/**
+ * Inline set of values, e.g. `{"GET" "HEAD"}`
+ */
+export interface SetNode {
+  type: 'set'
+  values: LiteralNode[]
+}
+
+/**
+ * Reference to a named list, e.g. `$blocked_ips`
+ */
+export interface ListNode {
+  type: 'list'
+  name: string
+}
+
+export type OperandNode = FieldNode | FunctionNode | LiteralNode
+export type ValueNode = LiteralNode | SetNode | ListNode
+
+export type ComparisonOperator =
+  | 'eq'
+  | 'ne'
+  | 'lt'
+  | 'le'
+  | 'gt'
+  | 'ge'
+  | 'contains'
+  | 'matches'
+  | 'in'
+  | 'wildcard'
+  | 'strict wildcard'
+  | 'starts_with'
+  | 'ends_with'
+  | 'exists'
+
+/**
+ * Comparison between an operand and a value. `right` is absent for `exists`.
+ */
+export interface ComparisonNode {
+  type: 'comparison'
+  operator: ComparisonOperator
+  left: OperandNode
+  right?: ValueNode
+}
+
+export interface NotNode {
+  type: 'not'
+  operand: ExpressionNode
+}
+
+export interface LogicalNode {
+  type: 'logical'
+  operator: 'and' | 'or' | 'xor'
+  operands: ExpressionNode[]
+}
+
+export type ExpressionNode = ComparisonNode | NotNode | LogicalNode | OperandNode
+
+/**
+ * Raised when an expression cannot be tokenized or parsed
+ */
+export class ExpressionParseError extends Error {
+  constructor(
+    message: string,
+    public position: number,
+  ) {
+    super(`${message} at position ${position}`)
+    this.name = 'ExpressionParseError'
+  }
+}
+
+type TokenType = 'identifier' | 'string' | 'number' | 'ip' | 'range' | 'list' | 'symbol' | 'eof'
+
+interface Token {
+  type: TokenType
+  value: string
+  position: number
+}
+
+const SYMBOLS = ['==', '!=', '>=', '<=', '&&', '||', '^^', '>', '<', '~', '!', '(', ')', '{', '}', '[', ']', ',', '*']
+
+const COMPARISON_OPERATORS: Record<string, ComparisonOperator> = {
+  eq: 'eq',
+  '==': 'eq',
+  ne: 'ne',
+  '!=': 'ne',
+  lt: 'lt',
+  '<': 'lt',
+  le: 'le',
+  '<=': 'le',
+  gt: 'gt',
+  '>': 'gt',
+  ge: 'ge',
+  '>=': 'ge',
+  contains: 'contains',
+  matches: 'matches',
+  '~': 'matches',
+  in: 'in',
+  wildcard: 'wildcard',
+  starts_with: 'starts_with',
+  ends_with: 'ends_with',
+  exists: 'exists',
+}
+
+function toComparisonOperator(value: string): ComparisonOperator | undefined {
+  return Object.prototype.hasOwnProperty.call(COMPARISON_OPERATORS, value) ? COMPARISON_OPERATORS[value] : undefined
+}
+
+/**
+ * Parses Cloudflare wirefilter expressions into an AST
+ */
+export class ExpressionParser {
+  private tokens: Token[]
+  private index = 0
+
+  private constructor(expression: string) {
+    this.tokens = ExpressionParser.tokenize(expression)
+  }
+
+  /**
+   * Parse a wirefilter expression
+   */
+  public static parse(expression: string): ExpressionNode {
+    const parser = new ExpressionParser(expression)
+    const node = parser.parseOr()
+    parser.expect('eof')
+    return node
+  }
+
+  /**
+   * Render a field reference back to wirefilter syntax
+   */
+  public static formatField(field: FieldNode): string {
+    const indexes = field.indexes.map((index) =>
+      typeof index === 'string' && index !== '*' ? `["${index}"]` : `[${index}]`,
+    )
+    return `${field.name}${indexes.join('')}`
+  }
+
+  /**
+   * Rewrite `a xor b` as `(a and not b) or (not a and b)`
+   */
+  public static expandXor(operands: ExpressionNode[]): ExpressionNode {
+    return operands.reduce((left, right) => ({
+      type: 'logical',
+      operator: 'or',
+      operands: [
+        { type: 'logical', operator: 'and', operands: [left, { type: 'not', operand: right }] },
+        { type: 'logical', operator: 'and', operands: [{ type: 'not', operand: left }, right] },
+      ],
+    }))
+  }
+
+  // Tokenizer
+
+  private static tokenize(expression: string): Token[] {
+    const tokens: Token[] = []
+    let position = 0
+
+    while (position < expression.length) {
+      const char = expression[position]!
+
+      if (/\s/.test(char)) {
+        position++
+        continue
+      }
+
+      const start = position
+
+      if (char === '"' || (char === 'r' && /^r#*"/.test(expression.slice(position)))) {
+        const { value, end } = this.readString(expression, position)
+        tokens.push({ type: 'string', value, position: start })
+        position = end
+        continue
+      }
+
+      if (char === '$') {
+        const match = expression.slice(position + 1).match(/^[A-Za-z_][\w.]*/)
+        if (!match) {
+          throw new ExpressionParseError('Expected list name after "$"', position)
+        }
+        tokens.push({ type: 'list', value: match[0], position: start })
+        position += match[0].length + 1
+        continue
+      }
+
+      const address = expression.slice(position).match(/^(?:[0-9A-Fa-f]*:[0-9A-Fa-f:.]*|\d[\d.]*)(?:\/\d+)?/)
+      if (address && (/^\d/.test(char) || address[0].includes(':'))) {
+        const value = address[0]
+        tokens.push({ type: this.classifyAddress(value), value, position: start })
+        position += value.length
+        continue
+      }
+
+      const identifier = expression.slice(position).match(/^[A-Za-z_][\w.]*/)
+      if (identifier) {
+        tokens.push({ type: 'identifier', value: identifier[0], position: start })
+        position += identifier[0].length
+        continue
+      }
+
+      const symbol = SYMBOLS.find((candidate) => expression.startsWith(candidate, position))
+      if (symbol) {
+        tokens.push({ type: 'symbol', value: symbol, position: start })
+        position += symbol.length
+        continue
+      }
+
+      throw new ExpressionParseError(`Unexpected character "${char}"`, position)
+    }
+
+    tokens.push({ type: 'eof', value: '', position: expression.length })
+    return tokens
+  }
+
+  private static classifyAddress(value: string): TokenType {
+    if (/^\d+$/.test(value)) return 'number'
+    if (/^\d+\.\.\d+$/.test(value)) return 'range'
+    return 'ip'
+  }
+
+  private static readString(expression: string, position: number): { value: string; end: number } {
+    // Raw strings: r"..." or r#"..."#, with no escape processing
+    if (expression[position] === 'r') {
+      const hashes = expression.slice(position + 1).match(/^#*/)![0]
+      const open = position + 2 + hashes.length
+      const close = expression.indexOf(`"${hashes}`, open)
+      if (close === -1) {
+        throw new ExpressionParseError('Unterminated raw string', position)
+      }
+      return { value: expression.slice(open, close), end: close + 1 + hashes.length }
+    }
+
+    let value = ''
+    let index = position + 1
+    while (index < expression.length) {
+      const char = expression[index]!
+      if (char === '\\') {
+        const next = expression[index + 1]
+        if (next === undefined) break
+        value += next
+        index += 2
+        continue
+      }
+      if (char === '"') {
+        return { value, end: index + 1 }
+      }
+      value += char
+      index++
+    }
+
+    throw new ExpressionParseError('Unterminated string', position)
+  }
+
+  // Parser
+
+  private parseOr(): ExpressionNode {
+    return this.parseLogical('or', ['or', '||'], () => this.parseXor())
+  }
+
+  private parseXor(): ExpressionNode {
+    return this.parseLogical('xor', ['xor', '^^'], () => this.parseAnd())
+  }
+
+  private parseAnd(): ExpressionNode {
+    return this.parseLogical('and', ['and', '&&'], () => this.parseUnary())
+  }
+
+  private parseLogical(
+    operator: LogicalNode['operator'],
+    keywords: string[],
+    parseOperand: () => ExpressionNode,
+  ): ExpressionNode {
+    const operands = [parseOperand()]
+    while (keywords.includes(this.peek().value)) {
+      this.next()
+      operands.push(parseOperand())
+    }
+
+    // Flatten nested groups of the same operator, e.g. `(a and b) and c`
+    const flattened = operands.flatMap((operand) =>
+      operand.type === 'logical' && operand.operator === operator ? operand.operands : [operand],
+    )
+
+    return flattened.length === 1 ? flattened[0]! : { type: 'logical', operator, operands: flattened }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.peek().value === 'not' || this.peek().value === '!') {
+      this.next()
+      return { type: 'not', operand: this.parseUnary() }
+    }
+
+    if (this.peek().value === '(') {
+      this.next()
+      const node = this.parseOr()
+      this.expect('symbol', ')')
+      return node
+    }
+
+    return this.parseComparison()
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseOperand()
+
+    // `field not in {...}`, `field not contains "..."` and `field not exists`
+    const negated = this.peek().value === 'not' && !!toComparisonOperator(this.peek(1).value)
+    if (negated) {
+      this.next()
+    }
+
+    const operator = this.parseComparisonOperator()
+    if (!operator) {
+      return left
+    }
+
+    const comparison: ComparisonNode =
+      operator === 'exists'
+        ? { type: 'comparison', operator, left }
+        : { type: 'comparison', operator, left, right: this.parseValue() }
+
+    return negated ? { type: 'not', operand: comparison } : comparison
+  }
+
+  private parseComparisonOperator(): ComparisonOperator | undefined {
+    const token = this.peek()
+
+    if (token.value === 'strict' && this.peek(1).value === 'wildcard') {
+      this.next()
+      this.next()
+      return 'strict wildcard'
+    }
+
+    const operator =
+      token.type === 'identifier' || token.type === 'symbol' ? toComparisonOperator(token.value) : undefined
+    if (!operator) {
+      return undefined
+    }
+
+    this.next()
+    return operator
+  }
+
+  private parseOperand(): OperandNode {
+    const token = this.peek()
+
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        this.next()
+        return { type: 'literal', kind: 'boolean', value: token.value === 'true' }
+      }
+
+      if (this.peek(1).value === '(') {
+        return this.parseFunction()
+      }
+
+      return this.parseField()
+    }
+
+    return this.parseLiteral()
+  }
+
+  private parseFunction(): FunctionNode {
+    const name = this.next().value
+    this.expect('symbol', '(')
+
+    const args: ExpressionNode[] = []
+    if (this.peek().value !== ')') {
+      args.push(this.parseOr())
+      while (this.peek().value === ',') {
+        this.next()
+        args.push(this.parseOr())
+      }
+    }
+
+    this.expect('symbol', ')')
+    return { type: 'function', name, args }
+  }
+
+  private parseField(): FieldNode {
+    const name = this.next().value
+    const indexes: Array<string | number> = []
+
+    while (this.peek().value === '[') {
+      this.next()
+      const index = this.next()
+      if (index.type === 'string') {
+        indexes.push(index.value)
+      } else if (index.type === 'number') {
+        indexes.push(Number(index.value))
+      } else if (index.value === '*') {
+        indexes.push('*')
+      } else {
+        throw new ExpressionParseError(`Unexpected index "${index.value}"`, index.position)
+      }
+      this.expect('symbol', ']')
+    }
+
+    return { type: 'field', name, indexes }
+  }
+
+  private parseValue(): ValueNode {
+    const token = this.peek()
+
+    if (token.type === 'list') {
+      this.next()
+      return { type: 'list', name: token.value }
+    }
+
+    if (token.value === '{') {
+      this.next()
+      const values: LiteralNode[] = []
+      while (this.peek().value !== '}') {
+        if (this.peek().type === 'eof') {
+          throw new ExpressionParseError('Unterminated set', token.position)
+        }
+        values.push(this.parseLiteral())
+      }
+      this.next()
+      return { type: 'set', values }
+    }
+
+    if (token.value === 'true' || token.value === 'false') {
+      this.next()
+      return { type: 'literal', kind: 'boolean', value: token.value === 'true' }
+    }
+
+    return this.parseLiteral()
+  }
+
+  private parseLiteral(): LiteralNode {
+    const token = this.next()
+
+    switch (token.type) {
+      case 'string':
+        return { type: 'literal', kind: 'string', value: token.value }
+      case 'number':
+        return { type: 'literal', kind: 'number', value: Number(token.value) }
+      case 'ip':
+        return { type: 'literal', kind: 'ip', value: token.value }
+      case 'range':
+        return { type: 'literal', kind: 'range', value: token.value }
+      default:
+        throw new ExpressionParseError(
+          token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`,
+          token.position,
+        )
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]!
+  }
+
+  private next(): Token {
+    const token = this.peek()
+    if (token.type !== 'eof') {
+      this.index++
+    }
+    return token
+  }
+
+  private expect(type: TokenType, value?: string): Token {
+    const token = this.peek()
+    if (token.type !== type || (value !== undefined && token.value !== value)) {
+      const expected = value ? `"${value}"` : type === 'eof' ? 'end of expression' : type
+      const found = token.type === 'eof' ? 'end of expression' : `"${token.value}"`
+      throw new ExpressionParseError(`Expected ${expected} but found ${found}`, token.position)
+    }
+    return this.next()
+  }
+}
@@ -1,8 +1,21 @@
-import type { VercelCustomRule, VercelIPBlockingRule, VercelConditionGroup } from '../types/vercel'
+import type { VercelCustomRule, VercelIPBlockingRule, VercelConditionGroup, VercelRuleCondition } from '../types/vercel'
 import type { CloudflareRule } from '../types/cloudflare'
-import type { UnifiedRule, UnifiedIPRule, UnifiedCondition, UnifiedAction } from '../types/unified'
+import type {
+  UnifiedRule,
+  UnifiedIPRule,
+  UnifiedCondition,
+  UnifiedConditionNode,
+  UnifiedAction,
+} from '../types/unified'
+import { fromConditionGroups, isUnifiedConditionGroup } from '../types/unified'
 import { ExpressionBuilder } from './ExpressionBuilder'
+import { ExpressionParser } from './ExpressionParser'
+import type { ComparisonNode, ExpressionNode, OperandNode } from './ExpressionParser'
+import { FieldMapper } from './FieldMapper'
+import { ruleTypeSchema } from '../schemas/firewallSchemas'
 import { logger } from '../logger'
+import { analyzeRegex } from '../utils/regexSafety'
+import type { RegexEngine } from '../utils/regexSafety'
 
 /**
  * Translation warning severity levels
@@ -49,6 +62,16 @@ export interface TranslationResult<T> {
  * Handles bidirectional translation: Vercel ↔ Cloudflare ↔ Unified
  */
 export class RuleTranslator {
+  /**
+   * Functions whose result is the transformed value of their first (field) argument
+   */
+  private static readonly TRANSFORM_FUNCTIONS = ['lower', 'upper', 'url_decode', 'remove_bytes', 'to_string']
+
+  /**
+   * Upper bound on the number of Vercel condition groups a condition tree may expand to
+   */
+  public static readonly MAX_CONDITION_GROUPS = 64
+
   /**
    * Translate Vercel rule to Cloudflare rule
    */
@@ -118,6 +141,19 @@ export class RuleTranslator {
         }
       }
 
+      // Cloudflare custom rules act on each request on its own, so there is nothing to hold the action for
+      if (rule.action.mitigate.actionDuration) {
+        const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+        warnings.push(
+          TranslationWarningSystem.createLossyConversionWarning(
+            'action duration',
+            `Cloudflare cannot keep applying the action for ${rule.action.mitigate.actionDuration} after a match, so it is dropped`,
+            rule.id,
+            'action.mitigate.actionDuration',
+          ),
+        )
+      }
+
       return { result: cloudflareRule, warnings }
     } catch (error) {
       logger.error(`Failed to translate Vercel rule to Cloudflare: ${error}`)
@@ -129,37 +165,44 @@ export class RuleTranslator {
    * Translate Cloudflare rule to Vercel rule
    */
   public static cloudflareToVercel(rule: CloudflareRule): TranslationResult<VercelCustomRule> {
-    const warnings: TranslationWarning[] = []
+    const { result: unifiedRule, warnings } = this.cloudflareToUnified(rule)
 
-    // Import the warning system
-    const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+    let conditionGroup: VercelConditionGroup[] = []
+    try {
+      conditionGroup = this.toConditionGroups(unifiedRule.conditions, unifiedRule.conditionLogic)
+        .map((group) => ({
+          conditions: group.flatMap((condition) => this.unifiedConditionToVercel(condition, rule.id, warnings)),
+        }))
+        .filter((group) => group.conditions.length > 0)
+    } catch (error) {
+      const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+      warnings.push({
+        ...TranslationWarningSystem.createWarning(
+          'complex_expressions',
+          rule.id,
+          'expression',
+          error instanceof Error ? error.message : String(error),
+          'Split the rule into several simpler rules.',
+        ),
+        severity: 'critical',
+      })
+    }
 
-    warnings.push(
-      TranslationWarningSystem.createLossyConversionWarning(
-        'Cloudflare expression',
-        'Cloudflare expressions cannot be perfectly converted to Vercel structured conditions',
-        rule.id,
-        'expression',
-      ),
-    )
+    if (conditionGroup.length === 0 && unifiedRule.conditions.length > 0) {
+      warnings.push(this.createUntranslatableRuleWarning(rule.id))
+    }
 
-    // For now, create a basic Vercel rule
-    // Full expression parsing would require a wirefilter parser
     const vercelRule: VercelCustomRule = {
       id: rule.id,
-      name: rule.description || `Rule ${rule.id}`,
+      name: unifiedRule.name,
       description: rule.description,
-      conditionGroup: [
-        {
-          conditions: [],
-        },
-      ],
+      conditionGroup: conditionGroup.length > 0 ? conditionGroup : [{ conditions: [] }],
       action: {
         mitigate: {
           action: this.translateCloudflareActionToVercel(rule.action),
         },
       },
-      active: rule.enabled ?? true,
+      active: unifiedRule.enabled && conditionGroup.length > 0,
     }
 
     return { result: vercelRule, warnings }
@@ -170,14 +213,16 @@ export class RuleTranslator {
    */
   public static vercelToUnified(rule: VercelCustomRule): TranslationResult<UnifiedRule> {
     const warnings: TranslationWarning[] = []
-    const conditions: UnifiedCondition[] = []
+    const groups: UnifiedCondition[][] = []
 
-    // Flatten condition groups into unified conditions
     for (const group of rule.conditionGroup) {
+      const conditions: UnifiedCondition[] = []
+      groups.push(conditions)
+
       for (const condition of group.conditions) {
         const operator = this.mapVercelOperatorToUnified(condition.op)
 
-        // Check for regex patterns and warn about potential compatibility issues
+        // Check regex patterns against Cloudflare's engine, the only other target
         if (condition.op === 're' && typeof condition.value === 'string') {
           const { TranslationWarningSystem } = require('./TranslationWarningSystem')
           warnings.push(
@@ -185,7 +230,7 @@ export class RuleTranslator {
               'regex_patterns',
               rule.id,
               condition.type,
-              `Regular expression pattern may need adjustment for target provider: ${condition.value}`,
+              regexWarningMessage(condition.value, 'cloudflare'),
               'Test the regex pattern in the target provider and adjust syntax if needed',
             ),
           )
@@ -202,14 +247,15 @@ export class RuleTranslator {
     }
 
     // Warn about complex rules with many conditions
-    if (conditions.length > 10) {
+    const conditionCount = groups.flat().length
+    if (conditionCount > 10) {
       const { TranslationWarningSystem } = require('./TranslationWarningSystem')
       warnings.push(
         TranslationWarningSystem.createWarning(
           'many_conditions',
           rule.id,
           undefined,
-          `Rule has ${conditions.length} conditions which may impact performance`,
+          `Rule has ${conditionCount} conditions which may impact performance`,
           'Consider splitting complex rules into multiple simpler rules for better performance',
         ),
       )
@@ -235,13 +281,16 @@ export class RuleTranslator {
       duration: rule.action.mitigate.actionDuration || undefined,
     }
 
+    // Vercel ORs condition groups and ANDs the conditions within each group
+    const { conditions, conditionLogic } = fromConditionGroups(groups)
+
     const unifiedRule: UnifiedRule = {
       id: rule.id,
       name: rule.name,
       description: rule.description,
       enabled: rule.active,
       conditions,
-      conditionLogic: 'OR', // Vercel uses OR between groups
+      conditionLogic,
       action,
     }
 
@@ -253,19 +302,17 @@ export class RuleTranslator {
    */
   public static cloudflareToUnified(rule: CloudflareRule): TranslationResult<UnifiedRule> {
     const warnings: TranslationWarning[] = []
+    const root = this.parseCloudflareExpression(rule, warnings)
 
-    // Import the warning system
-    const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+    // A top-level group becomes the rule's own condition list
+    const { conditions, conditionLogic } =
+      root && isUnifiedConditionGroup(root) && !root.negated
+        ? { conditions: root.conditions, conditionLogic: root.logic }
+        : { conditions: root ? [root] : [], conditionLogic: 'AND' as const }
 
-    warnings.push(
-      TranslationWarningSystem.createWarning(
-        'complex_expressions',
-        rule.id,
-        'expression',
-        'Expression parsing not fully implemented. Using simplified translation.',
-        'Review the translated rule and add missing conditions manually if needed.',
-      ),
-    )
+    if (!root) {
+      warnings.push(this.createUntranslatableRuleWarning(rule.id))
+    }
 
     const action: UnifiedAction = {
       type: this.mapCloudflareActionToUnified(rule.action),
@@ -284,8 +331,9 @@ export class RuleTranslator {
       id: rule.id,
       name: rule.description || `Rule ${rule.id}`,
       description: rule.description,
-      enabled: rule.enabled ?? true,
-      conditions: [], // Would need expression parser
+      enabled: (rule.enabled ?? true) && !!root,
+      conditions,
+      conditionLogic,
       action,
     }
 
@@ -337,18 +385,23 @@ export class RuleTranslator {
    */
   public static unifiedToVercel(rule: UnifiedRule): TranslationResult<VercelCustomRule> {
     const warnings: TranslationWarning[] = []
-    const conditionGroups: VercelConditionGroup[] = []
 
-    // Convert unified conditions to Vercel condition groups
-    const conditions = rule.conditions.map((condition) => ({
-      op: this.mapUnifiedOperatorToVercel(condition.operator),
-      neg: condition.negated,
-      type: this.mapUnifiedTypeToVercel(condition.field),
-      key: condition.key,
-      value: condition.value,
-    }))
+    // Vercel ORs condition groups and ANDs the conditions within each group
+    const conditionGroups: VercelConditionGroup[] = this.toConditionGroups(rule.conditions, rule.conditionLogic).map(
+      (group) => ({
+        conditions: group.map((condition) => ({
+          op: this.mapUnifiedOperatorToVercel(condition.operator),
+          neg: condition.negated,
+          type: this.mapUnifiedTypeToVercel(condition.field),
+          key: condition.key,
+          value: condition.value,
+        })),
+      }),
+    )
 
-    conditionGroups.push({ conditions })
+    if (conditionGroups.length === 0) {
+      conditionGroups.push({ conditions: [] })
+    }
 
     const vercelRule: VercelCustomRule = {
       id: rule.id,
@@ -410,6 +463,392 @@ export class RuleTranslator {
 
   // Helper methods
 
+  /**
+   * Rewrite a condition tree as OR-ed groups of AND-ed conditions (the shape of Vercel condition
+   * groups), pushing negations down to the conditions.
+   */
+  private static toConditionGroups(
+    conditions: UnifiedConditionNode[],
+    logic: 'AND' | 'OR' = 'AND',
+    negated = false,
+  ): UnifiedCondition[][] {
+    const operandGroups = conditions.map((node) =>
+      isUnifiedConditionGroup(node)
+        ? this.toConditionGroups(node.conditions, node.logic, negated !== !!node.negated)
+        : [[negated ? this.negateCondition(node) : node]],
+    )
+
+    // De Morgan: a negated AND is an OR of negated operands, and vice versa
+    if ((logic === 'AND') === negated) {
+      return this.limitConditionGroups(operandGroups.flat())
+    }
+
+    return operandGroups.reduce<UnifiedCondition[][]>(
+      (product, groups) =>
+        this.limitConditionGroups(product.flatMap((left) => groups.map((right) => [...left, ...right]))),
+      [[]],
+    )
+  }
+
+  private static limitConditionGroups(groups: UnifiedCondition[][]): UnifiedCondition[][] {
+    if (groups.length > this.MAX_CONDITION_GROUPS) {
+      throw new Error(`Conditions expand to more than ${this.MAX_CONDITION_GROUPS} condition groups`)
+    }
+    return groups
+  }
+
+  private static negateConditionNode(node: UnifiedConditionNode): UnifiedConditionNode {
+    if (!isUnifiedConditionGroup(node)) {
+      return this.negateCondition(node)
+    }
+
+    const { negated, ...group } = node
+    return negated ? group : { ...group, negated: true }
+  }
+
+  private static negateCondition(condition: UnifiedCondition): UnifiedCondition {
+    if (condition.operator === 'exists' || condition.operator === 'not_exists') {
+      return { ...condition, operator: condition.operator === 'exists' ? 'not_exists' : 'exists' }
+    }
+
+    const { negated, ...rest } = condition
+    return negated ? rest : { ...rest, negated: true }
+  }
+
+  /**
+   * Parse a Cloudflare rule expression into a condition tree.
+   * Terms that cannot be represented are dropped with a warning.
+   */
+  private static parseCloudflareExpression(
+    rule: CloudflareRule,
+    warnings: TranslationWarning[],
+  ): UnifiedConditionNode | undefined {
+    let expression: ExpressionNode
+    try {
+      expression = ExpressionParser.parse(rule.expression)
+    } catch (error) {
+      const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+      warnings.push({
+        ...TranslationWarningSystem.createWarning(
+          'complex_expressions',
+          rule.id,
+          'expression',
+          `Expression could not be parsed: ${error instanceof Error ? error.message : String(error)}`,
+          'Simplify the expression or recreate the rule conditions manually.',
+        ),
+        severity: 'critical',
+      })
+      return undefined
+    }
+
+    return this.expressionToConditionNode(expression, rule.id, warnings)
+  }
+
+  /**
+   * Terms that cannot be translated are dropped where that only narrows what the rule matches:
+   * from an OR, or from an AND under a negation. A term an AND requires takes the whole AND with
+   * it, since keeping the other terms would match (and block) more requests than the original.
+   *
+   * @param negated - Whether the node is under an odd number of negations
+   */
+  private static expressionToConditionNode(
+    node: ExpressionNode,
+    ruleId: string,
+    warnings: TranslationWarning[],
+    negated = false,
+  ): UnifiedConditionNode | undefined {
+    switch (node.type) {
+      case 'not': {
+        const operand = this.expressionToConditionNode(node.operand, ruleId, warnings, !negated)
+        return operand && this.negateConditionNode(operand)
+      }
+
+      case 'logical': {
+        if (node.operator === 'xor') {
+          return this.expressionToConditionNode(ExpressionParser.expandXor(node.operands), ruleId, warnings, negated)
+        }
+
+        const operands = node.operands.map((operand) =>
+          this.expressionToConditionNode(operand, ruleId, warnings, negated),
+        )
+        const conditions = operands.filter((operand): operand is UnifiedConditionNode => operand !== undefined)
+
+        // By De Morgan, a negated OR requires every operand just like an AND
+        const requiresAll = (node.operator === 'and') !== negated
+        if (requiresAll && conditions.length < operands.length) {
+          const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+          warnings.push({
+            ...TranslationWarningSystem.createWarning(
+              'complex_expressions',
+              ruleId,
+              'expression',
+              `Conditions combined with "${node.operator}" were dropped because one of them cannot be translated, ` +
+                'and the others alone would match more requests',
+              'Recreate the dropped conditions manually, e.g. with a Vercel condition close to the untranslatable term.',
+            ),
+            severity: 'critical',
+          })
+          return undefined
+        }
+
+        if (conditions.length <= 1) {
+          return conditions[0]
+        }
+        return { logic: node.operator === 'and' ? 'AND' : 'OR', conditions }
+      }
+
+      default: {
+        const existenceCheck = this.toExistenceCheck(node)
+        if (existenceCheck) {
+          return this.expressionToConditionNode(existenceCheck, ruleId, warnings, negated)
+        }
+        return this.expressionToCondition(node, ruleId, warnings)
+      }
+    }
+  }
+
+  /**
+   * Read the existence checks ExpressionBuilder writes, `len(field) gt 0` and `len(field) eq 0`,
+   * as `field exists` and `not field exists`
+   */
+  private static toExistenceCheck(node: ExpressionNode): ExpressionNode | undefined {
+    if (node.type !== 'comparison' || node.left.type !== 'function' || node.left.name !== 'len') return undefined
+    const [field] = node.left.args
+    const { right } = node
+    if (node.left.args.length !== 1 || field?.type !== 'field' || right?.type !== 'literal' || right.value !== 0) {
+      return undefined
+    }
+
+    const exists: ComparisonNode = { type: 'comparison', operator: 'exists', left: field }
+    switch (node.operator) {
+      case 'gt':
+      case 'ne':
+        return exists
+      case 'eq':
+      case 'le':
+        return { type: 'not', operand: exists }
+      default:
+        return undefined
+    }
+  }
+
+  /**
+   * Map a single comparison onto a unified condition, via the Vercel field mapping
+   */
+  private static expressionToCondition(
+    node: ComparisonNode | OperandNode,
+    ruleId: string,
+    warnings: TranslationWarning[],
+  ): UnifiedCondition | undefined {
+    const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+    const unsupported = (feature: string) => {
+      warnings.push(
+        TranslationWarningSystem.createUnsupportedFeatureWarning(feature, 'Cloudflare', 'Vercel', ruleId, 'expression'),
+      )
+      return undefined
+    }
+
+    const comparison = this.toComparison(node, ruleId, warnings)
+    if (!comparison) {
+      return unsupported(`Expression term "${this.describeOperand(node)}"`)
+    }
+
+    // Transformation functions such as lower() have no Vercel equivalent; match the raw field instead
+    let left: OperandNode = comparison.left
+    while (left.type === 'function' && this.TRANSFORM_FUNCTIONS.includes(left.name) && left.args[0]?.type === 'field') {
+      warnings.push(
+        TranslationWarningSystem.createLossyConversionWarning(
+          `Function ${left.name}()`,
+          'the transformation is dropped and the condition matches the untransformed field',
+          ruleId,
+          'expression',
+        ),
+      )
+      left = left.args[0]
+    }
+
+    if (left.type !== 'field') {
+      return unsupported(`Expression operand "${this.describeOperand(left)}"`)
+    }
+
+    // Only the first (header or cookie name) index maps onto a Vercel condition key
+    const [key, ...extraIndexes] = left.indexes
+    const field = ExpressionParser.formatField({
+      ...left,
+      indexes: typeof key === 'string' && key !== '*' ? [key] : [],
+    })
+    if (extraIndexes.some((index) => index !== '*')) {
+      warnings.push(
+        TranslationWarningSystem.createLossyConversionWarning(
+          `Field ${ExpressionParser.formatField(left)}`,
+          'only the header or cookie name is kept, so the condition matches any of its values',
+          ruleId,
+          'expression',
+        ),
+      )
+    }
+
+    if (!FieldMapper.isVercelSupported(field)) {
+      return unsupported(`Cloudflare field ${field}`)
+    }
+
+    const vercelField = FieldMapper.toVercel(field)
+    const conditionKey = vercelField.key ?? (field === 'http.referer' ? 'referer' : undefined)
+
+    let negated = false
+    let operator: UnifiedCondition['operator']
+    switch (comparison.operator) {
+      case 'ne':
+        operator = 'eq'
+        negated = true
+        break
+      case 'wildcard':
+      case 'strict wildcard':
+        return unsupported(`Operator "${comparison.operator}"`)
+      default:
+        operator = comparison.operator
+    }
+
+    let value: VercelRuleCondition['value']
+    const right = comparison.right
+    if (right?.type === 'list') {
+      return unsupported(`List reference $${right.name}`)
+    }
+    if (right?.type === 'set') {
+      if (right.values.some((literal) => literal.kind === 'range' || literal.kind === 'boolean')) {
+        return unsupported('Value ranges in sets')
+      }
+      value = right.values.map((literal) => literal.value) as string[] | number[]
+    } else if (right) {
+      if (right.kind === 'range' || right.kind === 'boolean') {
+        return unsupported(`Value ${right.value}`)
+      }
+      value = right.value as string | number
+    }
+
+    if (operator === 'matches') {
+      warnings.push(
+        TranslationWarningSystem.createWarning(
+          'regex_patterns',
+          ruleId,
+          field,
+          regexWarningMessage(String(value), 'vercel'),
+          'Test the regex pattern in the target provider and adjust syntax if needed',
+        ),
+      )
+    }
+
+    return {
+      field: this.mapVercelTypeToUnified(vercelField.type),
+      operator,
+      value: value as UnifiedCondition['value'],
+      ...(negated ? { negated } : {}),
+      ...(conditionKey ? { key: conditionKey } : {}),
+    }
+  }
+
+  /**
+   * Normalize the function forms of comparisons, e.g. `starts_with(field, "x")` or `any(field[*] eq "x")`
+   */
+  private static toComparison(
+    node: ComparisonNode | OperandNode,
+    ruleId: string,
+    warnings: TranslationWarning[],
+  ): ComparisonNode | undefined {
+    if (node.type === 'comparison') {
+      return node
+    }
+
+    if (node.type !== 'function') {
+      return undefined
+    }
+
+    const [subject, argument] = node.args
+    if ((node.name === 'starts_with' || node.name === 'ends_with') && node.args.length === 2) {
+      if (subject?.type !== 'field' && subject?.type !== 'function') return undefined
+      if (argument?.type !== 'literal') return undefined
+      return { type: 'comparison', operator: node.name, left: subject, right: argument }
+    }
+
+    // Vercel matches header conditions against any of the header's values
+    if ((node.name === 'any' || node.name === 'all') && node.args.length === 1 && subject?.type === 'comparison') {
+      if (node.name === 'all') {
+        const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+        warnings.push(
+          TranslationWarningSystem.createLossyConversionWarning(
+            'Function all()',
+            'the condition matches when any value matches, not only when all values match',
+            ruleId,
+            'expression',
+          ),
+        )
+      }
+      return subject
+    }
+
+    return undefined
+  }
+
+  private static describeOperand(node: ComparisonNode | OperandNode): string {
+    switch (node.type) {
+      case 'field':
+        return ExpressionParser.formatField(node)
+      case 'function':
+        return `${node.name}(...)`
+      case 'literal':
+        return String(node.value)
+      default:
+        return node.operator
+    }
+  }
+
+  /**
+   * Map a unified condition onto a Vercel condition, dropping operators Vercel cannot express
+   */
+  private static unifiedConditionToVercel(
+    condition: UnifiedCondition,
+    ruleId: string,
+    warnings: TranslationWarning[],
+  ): VercelRuleCondition[] {
+    if (['gt', 'ge', 'lt', 'le'].includes(condition.operator)) {
+      const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+      warnings.push(
+        TranslationWarningSystem.createUnsupportedFeatureWarning(
+          `Operator "${condition.operator}"`,
+          'Cloudflare',
+          'Vercel',
+          ruleId,
+          'expression',
+        ),
+      )
+      return []
+    }
+
+    return [
+      {
+        type: this.mapUnifiedTypeToVercel(condition.field),
+        op: this.mapUnifiedOperatorToVercel(condition.operator),
+        ...(condition.negated ? { neg: true } : {}),
+        ...(condition.key ? { key: condition.key } : {}),
+        ...(condition.value !== undefined ? { value: condition.value } : {}),
+      },
+    ]
+  }
+
+  private static createUntranslatableRuleWarning(ruleId: string): TranslationWarning {
+    const { TranslationWarningSystem } = require('./TranslationWarningSystem')
+    return {
+      ...TranslationWarningSystem.createWarning(
+        'complex_expressions',
+        ruleId,
+        'expression',
+        'None of the rule conditions could be translated, so the rule has been disabled',
+        'Recreate the rule conditions manually before enabling it.',
+      ),
+      severity: 'critical',
+    }
+  }
+
   private static translateVercelActionToCloudflare(action: string): CloudflareRule['action'] {
     const mapping: Record<string, CloudflareRule['action']> = {
       log: 'log',
@@ -506,7 +945,18 @@ export class RuleTranslator {
       scheme: 'scheme',
     }
 
-    return mapping[type] || 'path'
+    const mapped = mapping[type]
+    if (mapped) {
+      return mapped
+    }
+
+    // Vercel-native types without a unified alias pass through unchanged
+    const nativeType = ruleTypeSchema.safeParse(type)
+    if (nativeType.success) {
+      return nativeType.data
+    }
+
+    return 'path'
   }
 
   private static mapCloudflareActionToUnified(action: CloudflareRule['action']): import('../types/common').ActionType {
@@ -564,3 +1014,14 @@ export class RuleTranslator {
     return value * multiplier
   }
 }
+
+/**
+ * Describes what has to change for a regex pattern to work in the target engine, or gives the
+ * general caution when the analysis found nothing
+ */
+function regexWarningMessage(pattern: string, target: RegexEngine): string {
+  const findings = analyzeRegex(pattern, target)
+  return findings.length > 0
+    ? `Regular expression pattern ${pattern} needs adjustment for the target provider: ${findings.map((finding) => finding.message).join('; ')}`
+    : `Regular expression pattern may need adjustment for target provider: ${pattern}`
+}
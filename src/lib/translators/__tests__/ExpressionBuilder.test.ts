@@ -107,7 +107,12 @@ describe('ExpressionBuilder', () => {
 
     it('handles ip_address field', () => {
       const condition: VercelRuleCondition = { type: 'ip_address', op: 'eq', value: '192.168.1.1' }
-      expect(ExpressionBuilder.fromVercelCondition(condition)).toBe('ip.src eq "192.168.1.1"')
+      expect(ExpressionBuilder.fromVercelCondition(condition)).toBe('ip.src eq 192.168.1.1')
+    })
+
+    it('leaves IP and CIDR literals unquoted', () => {
+      const condition: VercelRuleCondition = { type: 'ip_address', op: 'inc', value: ['10.0.0.0/24', '192.168.1.1'] }
+      expect(ExpressionBuilder.fromVercelCondition(condition)).toBe('ip.src in {10.0.0.0/24 192.168.1.1}')
     })
 
     it('handles header with key', () => {
@@ -160,7 +165,7 @@ describe('ExpressionBuilder', () => {
   describe('fromUnifiedCondition', () => {
     it('maps unified field types to Cloudflare fields', () => {
       expect(ExpressionBuilder.fromUnifiedCondition({ field: 'ip', operator: 'eq', value: '1.2.3.4' })).toBe(
-        'ip.src eq "1.2.3.4"',
+        'ip.src eq 1.2.3.4',
       )
 
       expect(ExpressionBuilder.fromUnifiedCondition({ field: 'country', operator: 'eq', value: 'US' })).toBe(
@@ -218,6 +223,19 @@ describe('ExpressionBuilder', () => {
       })
       expect(result).toBe('http.request.headers["Authorization"] eq "Bearer token"')
     })
+
+    it('checks existence with len(), as wirefilter has no exists operator', () => {
+      const result = ExpressionBuilder.fromUnifiedCondition({
+        field: 'header',
+        operator: 'not_exists',
+        value: '',
+        key: 'x-debug',
+      })
+      expect(result).toBe('len(http.request.headers["x-debug"]) eq 0')
+      expect(ExpressionBuilder.fromVercelCondition({ type: 'header', key: 'X-Debug', op: 'ex' })).toBe(
+        'len(http.request.headers["x-debug"]) gt 0',
+      )
+    })
   })
 
   describe('validate', () => {
@@ -0,0 +1,142 @@
+import { ExpressionParseError, ExpressionParser } from '../ExpressionParser'
+import type { ExpressionNode } from '../ExpressionParser'
+
+const path = { type: 'field', name: 'http.request.uri.path', indexes: [] }
+
+describe('ExpressionParser', () => {
+  describe('parse', () => {
+    it('parses a simple comparison', () => {
+      expect(ExpressionParser.parse('http.request.uri.path eq "/api"')).toEqual({
+        type: 'comparison',
+        operator: 'eq',
+        left: path,
+        right: { type: 'literal', kind: 'string', value: '/api' },
+      })
+    })
+
+    it('accepts symbolic operators', () => {
+      const node = ExpressionParser.parse(
+        'http.request.uri.path == "/a" && ip.geoip.asnum != 13335',
+      ) as ExpressionNode & {
+        type: 'logical'
+      }
+      expect(node.operator).toBe('and')
+      expect(node.operands).toEqual([
+        expect.objectContaining({ operator: 'eq' }),
+        expect.objectContaining({ operator: 'ne', right: { type: 'literal', kind: 'number', value: 13335 } }),
+      ])
+    })
+
+    it('gives "and" precedence over "or" and flattens chains', () => {
+      const node = ExpressionParser.parse(
+        'http.host eq "a" or http.host eq "b" and http.host eq "c" or http.host eq "d"',
+      )
+      expect(node).toMatchObject({
+        type: 'logical',
+        operator: 'or',
+        operands: [
+          { type: 'comparison' },
+          { type: 'logical', operator: 'and', operands: [{ type: 'comparison' }, { type: 'comparison' }] },
+          { type: 'comparison' },
+        ],
+      })
+    })
+
+    it('respects parentheses and not', () => {
+      const node = ExpressionParser.parse('not (http.host eq "a" or http.host eq "b")')
+      expect(node).toMatchObject({ type: 'not', operand: { type: 'logical', operator: 'or' } })
+    })
+
+    it('parses header fields, sets, IP ranges and lists', () => {
+      expect(ExpressionParser.parse('http.request.headers["x-api-key"][0] eq "secret"')).toMatchObject({
+        left: { type: 'field', name: 'http.request.headers', indexes: ['x-api-key', 0] },
+      })
+      expect(ExpressionParser.parse('http.request.method in {"GET" "HEAD"}')).toMatchObject({
+        right: {
+          type: 'set',
+          values: [
+            { kind: 'string', value: 'GET' },
+            { kind: 'string', value: 'HEAD' },
+          ],
+        },
+      })
+      expect(ExpressionParser.parse('ip.src in {10.0.0.0/8 2001:db8::/32}')).toMatchObject({
+        right: {
+          values: [
+            { kind: 'ip', value: '10.0.0.0/8' },
+            { kind: 'ip', value: '2001:db8::/32' },
+          ],
+        },
+      })
+      expect(ExpressionParser.parse('ip.src in $blocked_ips')).toMatchObject({
+        right: { type: 'list', name: 'blocked_ips' },
+      })
+    })
+
+    it('parses function calls', () => {
+      expect(ExpressionParser.parse('lower(http.host) eq "example.com"')).toMatchObject({
+        type: 'comparison',
+        left: { type: 'function', name: 'lower', args: [{ type: 'field', name: 'http.host' }] },
+      })
+      expect(ExpressionParser.parse('starts_with(http.request.uri.path, "/admin")')).toMatchObject({
+        type: 'function',
+        name: 'starts_with',
+        args: [path, { type: 'literal', value: '/admin' }],
+      })
+      expect(ExpressionParser.parse('any(http.request.headers["accept"][*] contains "json")')).toMatchObject({
+        type: 'function',
+        name: 'any',
+        args: [{ type: 'comparison', left: { indexes: ['accept', '*'] } }],
+      })
+    })
+
+    it('parses the negated operator forms emitted by ExpressionBuilder', () => {
+      expect(ExpressionParser.parse('http.request.method not in {"POST"}')).toMatchObject({
+        type: 'not',
+        operand: { type: 'comparison', operator: 'in' },
+      })
+      expect(ExpressionParser.parse('http.request.headers["x-debug"] not exists')).toEqual({
+        type: 'not',
+        operand: {
+          type: 'comparison',
+          operator: 'exists',
+          left: { type: 'field', name: 'http.request.headers', indexes: ['x-debug'] },
+        },
+      })
+    })
+
+    it('handles escaped and raw strings', () => {
+      expect(ExpressionParser.parse('http.user_agent contains "say \\"hi\\""')).toMatchObject({
+        right: { value: 'say "hi"' },
+      })
+      expect(ExpressionParser.parse('http.request.uri.path matches r"^/api/\\d+$"')).toMatchObject({
+        right: { value: '^/api/\\d+$' },
+      })
+    })
+
+    it('throws a parse error with the position of malformed input', () => {
+      expect(() => ExpressionParser.parse('http.host eq')).toThrow(ExpressionParseError)
+      expect(() => ExpressionParser.parse('(http.host eq "a"')).toThrow(/Expected "\)"/)
+      expect(() => ExpressionParser.parse('http.host eq "a" @')).toThrow(/position 17/)
+    })
+  })
+
+  describe('expandXor', () => {
+    it('rewrites xor as an OR of AND-ed negations', () => {
+      const [a, b] = [ExpressionParser.parse('http.host eq "a"'), ExpressionParser.parse('http.host eq "b"')]
+      expect(ExpressionParser.parse('http.host eq "a" xor http.host eq "b"')).toEqual({
+        type: 'logical',
+        operator: 'xor',
+        operands: [a, b],
+      })
+      expect(ExpressionParser.expandXor([a!, b!])).toEqual({
+        type: 'logical',
+        operator: 'or',
+        operands: [
+          { type: 'logical', operator: 'and', operands: [a, { type: 'not', operand: b }] },
+          { type: 'logical', operator: 'and', operands: [{ type: 'not', operand: a }, b] },
+        ],
+      })
+    })
+  })
+})
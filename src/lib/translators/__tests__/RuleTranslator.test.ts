@@ -5,7 +5,8 @@ jest.mock('../../logger', () => ({
 import { RuleTranslator } from '../RuleTranslator'
 import type { VercelCustomRule, VercelIPBlockingRule } from '../../types/vercel'
 import type { CloudflareRule } from '../../types/cloudflare'
-import type { UnifiedRule, UnifiedIPRule } from '../../types/unified'
+import type { UnifiedRule, UnifiedIPRule, UnifiedCondition } from '../../types/unified'
+import { unifiedRuleSchema } from '../../schemas/unifiedSchemas'
 
 // Helper to create a minimal Vercel rule
 function makeVercelRule(overrides: Partial<VercelCustomRule> = {}): VercelCustomRule {
@@ -86,7 +87,7 @@ describe('RuleTranslator', () => {
           conditionGroup: [{ conditions: [{ type: 'path', op: vercel, value: 'test' }] }],
         })
         const { result } = RuleTranslator.vercelToUnified(rule)
-        expect(result.conditions[0]!.operator).toBe(unified)
+        expect((result.conditions[0] as UnifiedCondition).operator).toBe(unified)
       }
     })
 
@@ -111,7 +112,7 @@ describe('RuleTranslator', () => {
           conditionGroup: [{ conditions: [{ type: vercel, op: 'eq', value: 'test' }] }],
         })
         const { result } = RuleTranslator.vercelToUnified(rule)
-        expect(result.conditions[0]!.field).toBe(unified)
+        expect((result.conditions[0] as UnifiedCondition).field).toBe(unified)
       }
     })
 
@@ -120,7 +121,7 @@ describe('RuleTranslator', () => {
         conditionGroup: [{ conditions: [{ type: 'path', op: 'eq', value: '/api', neg: true }] }],
       })
       const { result } = RuleTranslator.vercelToUnified(rule)
-      expect(result.conditions[0]!.negated).toBe(true)
+      expect((result.conditions[0] as UnifiedCondition).negated).toBe(true)
     })
 
     it('preserves key for header conditions', () => {
@@ -128,7 +129,7 @@ describe('RuleTranslator', () => {
         conditionGroup: [{ conditions: [{ type: 'header', op: 'eq', value: 'test', key: 'X-Custom' }] }],
       })
       const { result } = RuleTranslator.vercelToUnified(rule)
-      expect(result.conditions[0]!.key).toBe('X-Custom')
+      expect((result.conditions[0] as UnifiedCondition).key).toBe('X-Custom')
     })
 
     it('translates rate_limit action with config', () => {
@@ -185,6 +186,51 @@ describe('RuleTranslator', () => {
       })
       const { result } = RuleTranslator.vercelToUnified(rule)
       expect(result.conditions).toHaveLength(2)
+      expect(result.conditionLogic).toBe('OR')
+    })
+
+    it('uses AND logic for a single group with several conditions', () => {
+      const rule = makeVercelRule({
+        conditionGroup: [
+          {
+            conditions: [
+              { type: 'path', op: 'eq', value: '/api' },
+              { type: 'method', op: 'eq', value: 'POST' },
+            ],
+          },
+        ],
+      })
+      const { result, warnings } = RuleTranslator.vercelToUnified(rule)
+      expect(result.conditionLogic).toBe('AND')
+      expect(warnings.some((w) => w.category === 'lossy_conversion')).toBe(false)
+    })
+
+    it('keeps multi-condition groups as nested AND groups', () => {
+      const rule = makeVercelRule({
+        conditionGroup: [
+          {
+            conditions: [
+              { type: 'path', op: 'eq', value: '/api' },
+              { type: 'method', op: 'eq', value: 'POST' },
+            ],
+          },
+          { conditions: [{ type: 'host', op: 'eq', value: 'example.com' }] },
+        ],
+      })
+      const { result, warnings } = RuleTranslator.vercelToUnified(rule)
+
+      expect(result.conditionLogic).toBe('OR')
+      expect(result.conditions).toEqual([
+        {
+          logic: 'AND',
+          conditions: [
+            expect.objectContaining({ field: 'path', value: '/api' }),
+            expect.objectContaining({ field: 'method', value: 'POST' }),
+          ],
+        },
+        expect.objectContaining({ field: 'host', value: 'example.com' }),
+      ])
+      expect(warnings.some((w) => w.category === 'lossy_conversion')).toBe(false)
     })
   })
 
@@ -244,6 +290,154 @@ describe('RuleTranslator', () => {
       }
     })
 
+    it('passes through Vercel-native field types', () => {
+      for (const type of ['region', 'geo_continent', 'ja4_digest', 'environment'] as const) {
+        const rule = makeUnifiedRule({
+          conditions: [{ field: type, operator: 'eq', value: 'test' }],
+        })
+        const { result } = RuleTranslator.unifiedToVercel(rule)
+        expect(result.conditionGroup[0]!.conditions[0]!.type).toBe(type)
+      }
+    })
+
+    it('splits OR conditions into separate condition groups', () => {
+      const rule = makeUnifiedRule({
+        conditionLogic: 'OR',
+        conditions: [
+          { field: 'path', operator: 'eq', value: '/a' },
+          { field: 'path', operator: 'eq', value: '/b' },
+        ],
+      })
+      const { result } = RuleTranslator.unifiedToVercel(rule)
+      expect(result.conditionGroup).toHaveLength(2)
+    })
+
+    it('round-trips single-group and one-condition-per-group rules', () => {
+      const rules = [
+        makeVercelRule({
+          conditionGroup: [
+            {
+              conditions: [
+                { type: 'path', op: 'pre', value: '/api' },
+                { type: 'method', op: 'eq', value: 'POST' },
+              ],
+            },
+          ],
+        }),
+        makeVercelRule({
+          conditionGroup: [
+            { conditions: [{ type: 'path', op: 'eq', value: '/a' }] },
+            { conditions: [{ type: 'geo_continent', op: 'eq', value: 'EU' }] },
+          ],
+        }),
+      ]
+
+      for (const rule of rules) {
+        const { result } = RuleTranslator.unifiedToVercel(RuleTranslator.vercelToUnified(rule).result)
+        expect(result.conditionGroup).toEqual(rule.conditionGroup)
+      }
+    })
+
+    it('round-trips multiple multi-condition groups through the unified schema', () => {
+      const rule = makeVercelRule({
+        conditionGroup: [
+          {
+            conditions: [
+              { type: 'path', op: 'pre', value: '/api' },
+              { type: 'method', op: 'eq', value: 'POST' },
+            ],
+          },
+          {
+            conditions: [
+              { type: 'path', op: 'pre', value: '/admin' },
+              { type: 'geo_country', op: 'eq', value: 'US', neg: true },
+            ],
+          },
+          { conditions: [{ type: 'host', op: 'eq', value: 'internal.example.com' }] },
+        ],
+      })
+
+      const parsed = unifiedRuleSchema.parse(RuleTranslator.vercelToUnified(rule).result)
+      const { result } = RuleTranslator.unifiedToVercel(parsed)
+
+      expect(result.conditionGroup).toEqual(rule.conditionGroup)
+    })
+
+    it('round-trips existence checks, which have no value, through the unified schema', () => {
+      const rule = makeVercelRule({
+        conditionGroup: [
+          {
+            conditions: [
+              { type: 'header', key: 'x-a', op: 'ex' },
+              { type: 'cookie', key: 'session', op: 'nex' },
+            ],
+          },
+        ],
+      })
+
+      const parsed = unifiedRuleSchema.safeParse(RuleTranslator.vercelToUnified(rule).result)
+      expect(parsed.success).toBe(true)
+      const { result } = RuleTranslator.unifiedToVercel(parsed.data!)
+
+      expect(result.conditionGroup).toEqual(rule.conditionGroup)
+    })
+
+    it('expands nested groups into OR-ed condition groups', () => {
+      const rule = makeUnifiedRule({
+        conditionLogic: 'AND',
+        conditions: [
+          { field: 'path', operator: 'starts_with', value: '/api' },
+          {
+            logic: 'OR',
+            conditions: [
+              { field: 'method', operator: 'eq', value: 'PUT' },
+              { field: 'method', operator: 'eq', value: 'DELETE' },
+            ],
+          },
+        ],
+      })
+      const { result } = RuleTranslator.unifiedToVercel(rule)
+
+      expect(result.conditionGroup.map((group) => group.conditions.map((c) => c.value))).toEqual([
+        ['/api', 'PUT'],
+        ['/api', 'DELETE'],
+      ])
+    })
+
+    it('pushes group negation down to the conditions', () => {
+      const rule = makeUnifiedRule({
+        conditions: [
+          {
+            logic: 'AND',
+            negated: true,
+            conditions: [
+              { field: 'country', operator: 'eq', value: 'US' },
+              { field: 'header', operator: 'exists', value: '', key: 'x-internal' },
+            ],
+          },
+        ],
+      })
+      const { result } = RuleTranslator.unifiedToVercel(rule)
+
+      expect(result.conditionGroup).toEqual([
+        { conditions: [expect.objectContaining({ type: 'geo_country', op: 'eq', neg: true })] },
+        { conditions: [expect.objectContaining({ type: 'header', op: 'nex', key: 'x-internal' })] },
+      ])
+    })
+
+    it('throws when nested groups expand beyond the condition group limit', () => {
+      const pair = (index: number) => ({
+        logic: 'OR' as const,
+        conditions: [
+          { field: 'path', operator: 'eq' as const, value: `/a${index}` },
+          { field: 'path', operator: 'eq' as const, value: `/b${index}` },
+        ],
+      })
+      const rule = makeUnifiedRule({ conditions: Array.from({ length: 7 }, (_, index) => pair(index)) })
+
+      expect(() => RuleTranslator.unifiedToVercel(rule)).toThrow(/more than 64 condition groups/)
+    })
+
     it('translates rate_limit action', () => {
       const rule = makeUnifiedRule({
         action: {
@@ -285,10 +479,194 @@ describe('RuleTranslator', () => {
       expect(result.name).toBe('A test rule')
       expect(result.enabled).toBe(true)
       expect(result.action.type).toBe('deny')
-      // Conditions are empty because expression parsing is not fully implemented
+      expect(result.conditions).toEqual([{ field: 'path', operator: 'eq', value: '/api' }])
+      expect(warnings).toEqual([])
+    })
+
+    it('parses AND expressions into a single AND condition list', () => {
+      const rule = makeCloudflareRule({
+        expression: '(http.request.uri.path starts_with "/admin" and ip.geoip.country ne "US")',
+      })
+      const { result, warnings } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.conditionLogic).toBe('AND')
+      expect(result.conditions).toEqual([
+        { field: 'path', operator: 'starts_with', value: '/admin' },
+        { field: 'country', operator: 'eq', value: 'US', negated: true },
+      ])
+      expect(warnings).toEqual([])
+    })
+
+    it('parses OR expressions, sets and header keys', () => {
+      const rule = makeCloudflareRule({
+        expression: 'http.request.method in {"PUT" "DELETE"} or http.request.headers["x-debug"] exists',
+      })
+      const { result } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.conditionLogic).toBe('OR')
+      expect(result.conditions).toEqual([
+        { field: 'method', operator: 'in', value: ['PUT', 'DELETE'] },
+        { field: 'header', operator: 'exists', key: 'x-debug' },
+      ])
+    })
+
+    it('reads len() checks as existence checks', () => {
+      const rule = makeCloudflareRule({
+        expression: 'len(http.request.headers["x-debug"]) > 0 and not len(http.request.headers["x-trace"]) eq 0',
+      })
+      const { result } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.conditions).toEqual([
+        { field: 'header', operator: 'exists', key: 'x-debug' },
+        { field: 'header', operator: 'exists', key: 'x-trace' },
+      ])
+    })
+
+    it('round-trips expressions built by ExpressionBuilder', () => {
+      const original = makeUnifiedRule({
+        conditions: [
+          { field: 'path', operator: 'contains', value: '/wp-' },
+          { field: 'user_agent', operator: 'matches', value: 'curl|wget', negated: true },
+          { field: 'header', operator: 'not_exists', value: '', key: 'authorization' },
+        ],
+        conditionLogic: 'AND',
+      })
+      const { result: cloudflare } = RuleTranslator.unifiedToCloudflare(original)
+      const { result } = RuleTranslator.cloudflareToUnified(cloudflare)
+
+      expect(cloudflare.expression).toContain('len(http.request.headers["authorization"]) eq 0')
+      expect(result.conditions).toEqual([
+        { field: 'path', operator: 'contains', value: '/wp-' },
+        { field: 'user_agent', operator: 'matches', value: 'curl|wget', negated: true },
+        { field: 'header', operator: 'not_exists', key: 'authorization' },
+      ])
+    })
+
+    it('keeps mixed and/or logic as a nested condition tree', () => {
+      const rule = makeCloudflareRule({
+        expression:
+          '(http.host eq "a.com" and http.request.uri.path eq "/x") or not (http.host eq "b.com" or http.request.method eq "GET")',
+      })
+      const { result } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.conditionLogic).toBe('OR')
+      expect(result.conditions).toEqual([
+        {
+          logic: 'AND',
+          conditions: [
+            { field: 'host', operator: 'eq', value: 'a.com' },
+            { field: 'path', operator: 'eq', value: '/x' },
+          ],
+        },
+        {
+          logic: 'OR',
+          negated: true,
+          conditions: [
+            { field: 'host', operator: 'eq', value: 'b.com' },
+            { field: 'method', operator: 'eq', value: 'GET' },
+          ],
+        },
+      ])
+    })
+
+    it('round-trips nested condition trees through ExpressionBuilder', () => {
+      const original = makeUnifiedRule({
+        conditionLogic: 'OR',
+        conditions: [
+          {
+            logic: 'AND',
+            conditions: [
+              { field: 'path', operator: 'starts_with', value: '/api' },
+              {
+                logic: 'OR',
+                negated: true,
+                conditions: [
+                  { field: 'country', operator: 'eq', value: 'US' },
+                  { field: 'country', operator: 'eq', value: 'CA' },
+                ],
+              },
+            ],
+          },
+          { field: 'user_agent', operator: 'contains', value: 'sqlmap' },
+        ],
+      })
+      const { result: cloudflare } = RuleTranslator.unifiedToCloudflare(original)
+      const { result } = RuleTranslator.cloudflareToUnified(cloudflare)
+
+      expect(result.conditions).toEqual(original.conditions)
+      expect(result.conditionLogic).toBe('OR')
+    })
+
+    it('warns about lower() and keeps the condition on the raw field', () => {
+      const rule = makeCloudflareRule({ expression: 'lower(http.host) eq "example.com"' })
+      const { result, warnings } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.conditions).toEqual([{ field: 'host', operator: 'eq', value: 'example.com' }])
+      expect(warnings).toEqual([
+        expect.objectContaining({ category: 'lossy_conversion', message: 'Function lower() translation may be lossy' }),
+      ])
+    })
+
+    it('drops unrepresentable terms with a structured warning', () => {
+      const rule = makeCloudflareRule({
+        expression: 'ip.src in $blocked_ips or cf.threat_score gt 10 or http.request.uri.path eq "/login"',
+      })
+      const { result, warnings } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.conditions).toEqual([{ field: 'path', operator: 'eq', value: '/login' }])
+      expect(warnings.map((w) => [w.category, w.severity, w.message])).toEqual([
+        ['feature_unsupported', 'critical', 'List reference $blocked_ips is not supported in Vercel'],
+        ['feature_unsupported', 'critical', 'Cloudflare field cf.threat_score is not supported in Vercel'],
+      ])
+      expect(warnings.every((w) => w.rule === 'cf-rule-1')).toBe(true)
+    })
+
+    it('drops a whole AND when one of its terms cannot be translated, instead of widening it', () => {
+      const rule = makeCloudflareRule({
+        expression: '(http.request.uri.path contains "/admin" and cf.threat_score gt 10) or http.host eq "y"',
+      })
+      const { result, warnings } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.enabled).toBe(true)
+      expect(result.conditions).toEqual([{ field: 'host', operator: 'eq', value: 'y' }])
+      expect(warnings).toContainEqual(
+        expect.objectContaining({ severity: 'critical', message: expect.stringContaining('"and" were dropped') }),
+      )
+    })
+
+    it('disables rules when an untranslatable term is required for every match', () => {
+      for (const expression of [
+        'http.request.uri.path contains "/admin" and cf.threat_score gt 10',
+        'not (http.host eq "a.com" or cf.threat_score gt 10)',
+      ]) {
+        const { result, warnings } = RuleTranslator.cloudflareToUnified(makeCloudflareRule({ expression }))
+
+        expect(result.enabled).toBe(false)
+        expect(result.conditions).toEqual([])
+        expect(warnings.filter((w) => w.severity === 'critical').length).toBeGreaterThan(1)
+      }
+    })
+
+    it('warns when a header value index is dropped', () => {
+      const rule = makeCloudflareRule({ expression: 'http.request.headers["x-env"][0] eq "staging"' })
+      const { result, warnings } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.conditions).toEqual([{ field: 'header', key: 'x-env', operator: 'eq', value: 'staging' }])
+      expect(warnings).toContainEqual(
+        expect.objectContaining({ category: 'lossy_conversion', message: expect.stringContaining('[0]') }),
+      )
+    })
+
+    it('disables rules whose expression cannot be parsed', () => {
+      const rule = makeCloudflareRule({ expression: 'http.host eq' })
+      const { result, warnings } = RuleTranslator.cloudflareToUnified(rule)
+
+      expect(result.enabled).toBe(false)
       expect(result.conditions).toEqual([])
-      // Should have a warning about expression parsing
-      expect(warnings.length).toBeGreaterThan(0)
+      expect(warnings[0]).toMatchObject({
+        severity: 'critical',
+        message: expect.stringContaining('could not be parsed'),
+      })
     })
 
     it('maps Cloudflare actions to unified actions', () => {
@@ -536,9 +914,48 @@ describe('RuleTranslator', () => {
       expect(result.name).toBe('A test rule')
       expect(result.active).toBe(true)
       expect(result.action.mitigate.action).toBe('deny')
-      // Should have lossy conversion warning
-      expect(warnings.length).toBeGreaterThan(0)
-      expect(warnings.some((w) => w.category === 'lossy_conversion')).toBe(true)
+      expect(result.conditionGroup).toEqual([{ conditions: [{ type: 'path', op: 'eq', value: '/api' }] }])
+      expect(warnings).toEqual([])
+    })
+
+    it('maps mixed and/or expressions onto condition groups without loss', () => {
+      const rule = makeCloudflareRule({
+        expression:
+          'http.request.uri.path starts_with "/api" and (ip.geoip.country eq "CN" or ip.geoip.country eq "RU")',
+      })
+      const { result, warnings } = RuleTranslator.cloudflareToVercel(rule)
+
+      expect(result.conditionGroup).toEqual([
+        {
+          conditions: [
+            { type: 'path', op: 'pre', value: '/api' },
+            { type: 'geo_country', op: 'eq', value: 'CN' },
+          ],
+        },
+        {
+          conditions: [
+            { type: 'path', op: 'pre', value: '/api' },
+            { type: 'geo_country', op: 'eq', value: 'RU' },
+          ],
+        },
+      ])
+      expect(warnings).toEqual([])
+    })
+
+    it('drops comparisons Vercel cannot express with a warning', () => {
+      const rule = makeCloudflareRule({ expression: 'ip.geoip.asnum ge 64512 and http.host eq "example.com"' })
+      const { result, warnings } = RuleTranslator.cloudflareToVercel(rule)
+
+      expect(result.conditionGroup).toEqual([{ conditions: [{ type: 'host', op: 'eq', value: 'example.com' }] }])
+      expect(warnings).toEqual([expect.objectContaining({ category: 'feature_unsupported', severity: 'critical' })])
+    })
+
+    it('disables rules with no translatable conditions', () => {
+      const rule = makeCloudflareRule({ expression: 'cf.bot_management.verified_bot' })
+      const { result, warnings } = RuleTranslator.cloudflareToVercel(rule)
+
+      expect(result.active).toBe(false)
+      expect(warnings.map((w) => w.severity)).toEqual(['critical', 'critical'])
     })
 
     it('maps Cloudflare actions to Vercel actions', () => {
@@ -13,4 +13,6 @@ export type {
 export { TranslationWarningSystem } from './TranslationWarningSystem'
 
 export { ExpressionBuilder } from './ExpressionBuilder'
+export { ExpressionParser, ExpressionParseError } from './ExpressionParser'
+export type { ExpressionNode } from './ExpressionParser'
 export { FieldMapper } from './FieldMapper'
@@ -1,3 +1,6 @@
+import type { ProvidersConfig } from './types/common'
+import type { VercelAttackMode, VercelBypassRule, VercelCRSConfig, VercelManagedRulesConfig } from './types/vercel'
+
 /**
  * Core Types
  */
@@ -95,12 +98,156 @@ export interface IPBlockingRule {
   action: 'deny' // Currently only 'deny' is supported for IP blocking
 }
 
+/**
+ * Request Test Types
+ */
+
+/**
+ * A synthetic request to evaluate against firewall rules.
+ * Every field is optional; missing fields simply do not exist for `ex`/`nex`.
+ */
+export interface SimulatedRequest {
+  /** Request path, optionally with a query string (`/search?q=1`) */
+  path?: string
+  /** Path after rewrites (defaults to `path`) */
+  targetPath?: string
+  host?: string
+  method?: string
+  /** Header names are matched case-insensitively */
+  headers?: Record<string, string>
+  /** Cookies (defaults to those parsed from the `cookie` header) */
+  cookies?: Record<string, string>
+  /** Query parameters (merged over those parsed from `path`) */
+  query?: Record<string, string>
+  ip?: string
+  /** Vercel edge region, e.g. `iad1` */
+  region?: string
+  protocol?: string
+  scheme?: string
+  environment?: string
+  /** Shorthand for the `user-agent` header */
+  userAgent?: string
+  geo?: {
+    continent?: string
+    country?: string
+    countryRegion?: string
+    city?: string
+    asNumber?: number
+  }
+  ja4Digest?: string
+  ja3Digest?: string
+  rateLimitApiId?: string
+}
+
+/**
+ * Action taken for a request. Requests no rule applies to are allowed.
+ */
+export type EvaluatedAction = ActionType | 'allow'
+
+/**
+ * A request and the outcome it is expected to have
+ */
+export interface RequestTest {
+  name: string
+  request: SimulatedRequest
+  expect: {
+    action: EvaluatedAction
+    /** ID or name of the rule expected to decide the action */
+    rule?: string
+  }
+}
+
+/**
+ * Policy Types
+ */
+
+/**
+ * Fields every policy can set
+ * @property name - Shown in violations instead of the policy type
+ * @property description - Why the policy exists, shown with its violations
+ */
+interface PolicyBase {
+  name?: string
+  description?: string
+}
+
+/**
+ * Active rules with one of `actions` (default `deny`) must not have a condition group whose
+ * path conditions match any of `paths`
+ */
+export interface ProtectedPathsPolicy extends PolicyBase {
+  type: 'protected_paths'
+  paths: string[]
+  actions?: ActionType[]
+}
+
+/**
+ * Every rate_limit rule must set `actionDuration`, how long a client stays limited
+ */
+export interface RateLimitDurationPolicy extends PolicyBase {
+  type: 'rate_limit_duration'
+}
+
+/**
+ * Every IP blocking rule must have notes
+ */
+export interface IPNotesPolicy extends PolicyBase {
+  type: 'ip_notes'
+}
+
+/**
+ * At most `max` active rules may have `action`
+ */
+export interface MaxRulesPolicy extends PolicyBase {
+  type: 'max_rules'
+  action: ActionType
+  max: number
+}
+
+/**
+ * Rules may only be deleted from the remote with `--allow-delete`
+ */
+export interface NoDeletionsPolicy extends PolicyBase {
+  type: 'no_deletions'
+}
+
+/**
+ * An org-wide constraint on firewall configs, enforced by `validate`, `plan`, `sync`,
+ * `apply` and `watch`
+ */
+export type Policy = ProtectedPathsPolicy | RateLimitDurationPolicy | IPNotesPolicy | MaxRulesPolicy | NoDeletionsPolicy
+
+/**
+ * A policies file
+ */
+export interface PolicyFile {
+  policies: Policy[]
+}
+
 /**
  * Configuration Types
  */
 export interface ProjectConfig {
   projectId?: string
   teamId?: string
+  /** Cloudflare zone ID */
+  zoneId?: string
+}
+
+/**
+ * Per-environment changes applied on top of the base config with `--env <name>`
+ * @property addRules - Rules appended after the base rules
+ * @property overrideRules - Fields replaced on base rules, keyed by rule ID
+ * @property removeRules - IDs of base rules left out of this environment
+ * @property version - Remote config version this environment was last synced at
+ * @property updatedAt - Last update timestamp of this environment
+ */
+export interface EnvironmentOverlay extends ProjectConfig {
+  addRules?: CustomRule[]
+  overrideRules?: Record<string, Partial<CustomRule>>
+  removeRules?: string[]
+  version?: number
+  updatedAt?: string
 }
 
 /**
@@ -110,6 +257,13 @@ export interface ProjectConfig {
  * @property rules - List of firewall rules
  * @property ips - Optional list of IP blocking rules
  * @property updatedAt - Last update timestamp
+ * @property tests - Optional request tests run by `validate`
+ * @property environments - Optional per-environment overlays, selected with `--env`
+ * @property providers - Optional identifiers for each provider, used by `--all-providers`
+ * @property crs - Optional Vercel OWASP core ruleset groups to manage
+ * @property managedRules - Optional Vercel managed rulesets to manage, e.g. bot protection
+ * @property attackMode - Optional Vercel Attack Challenge Mode setting
+ * @property bypass - Optional Vercel system bypass rules, e.g. for uptime monitors
  */
 export interface FirewallConfig extends ProjectConfig {
   $schema?: string
@@ -118,6 +272,13 @@ export interface FirewallConfig extends ProjectConfig {
   rules: CustomRule[]
   ips?: IPBlockingRule[]
   updatedAt?: string
+  tests?: RequestTest[]
+  environments?: Record<string, EnvironmentOverlay>
+  providers?: ProvidersConfig
+  crs?: VercelCRSConfig
+  managedRules?: VercelManagedRulesConfig
+  attackMode?: VercelAttackMode
+  bypass?: VercelBypassRule[]
 }
 
 // Re-export unified types for multi-provider support
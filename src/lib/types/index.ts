@@ -29,9 +29,19 @@ export type {
   VercelRuleAction,
   VercelCustomRule,
   VercelIPBlockingRule,
+  VercelBypassRule,
   VercelProjectConfig,
   VercelFirewallConfig,
   VercelFirewallAPIResponse,
+  VercelCRSRuleId,
+  VercelCRSRule,
+  VercelCRSConfig,
+  VercelManagedRulesetId,
+  VercelManagedRuleset,
+  VercelManagedRulesConfig,
+  VercelAttackMode,
+  VercelSecurityConfig,
+  VercelSecurityChange,
   // Legacy re-exports
   RuleOperator,
   RuleType,
@@ -71,13 +81,25 @@ export type {
 } from './cloudflare'
 
 // Unified types
-export type { UnifiedCondition, UnifiedAction, UnifiedRule, UnifiedIPRule, UnifiedConfig } from './unified'
+export type {
+  UnifiedCondition,
+  UnifiedConditionGroup,
+  UnifiedConditionNode,
+  UnifiedAction,
+  UnifiedRule,
+  UnifiedIPRule,
+  UnifiedConfig,
+} from './unified'
 
 export {
   isUnifiedConfig,
+  isUnifiedConditionGroup,
   isUnifiedRule,
   isUnifiedIPRule,
   createUnifiedCondition,
+  createUnifiedConditionGroup,
   createUnifiedAction,
   createUnifiedRule,
+  flattenConditions,
+  fromConditionGroups,
 } from './unified'
@@ -5,6 +5,7 @@
 
 import type { ActionType, Operator, FieldType, ConfigMetadata, ProvidersConfig } from './common'
 import type { ProviderType } from '../providers/IFirewallProvider'
+import type { VercelBypassRule, VercelSecurityConfig } from './vercel'
 
 /**
  * Unified rule condition
@@ -13,11 +14,26 @@ import type { ProviderType } from '../providers/IFirewallProvider'
 export interface UnifiedCondition {
   field: FieldType | string
   operator: Operator
-  value: string | number | string[] | number[]
+  value?: string | number | string[] | number[] // Omitted for exists and not_exists
   negated?: boolean
   key?: string // For header, query, cookie conditions
 }
 
+/**
+ * Group of conditions combined with AND or OR, optionally negated.
+ * Groups can be nested to express arbitrary boolean conditions.
+ */
+export interface UnifiedConditionGroup {
+  logic: 'AND' | 'OR'
+  conditions: UnifiedConditionNode[]
+  negated?: boolean
+}
+
+/**
+ * A single condition or a nested group of conditions
+ */
+export type UnifiedConditionNode = UnifiedCondition | UnifiedConditionGroup
+
 /**
  * Unified rule action
  * Provider-agnostic representation of a firewall rule action
@@ -54,7 +70,7 @@ export interface UnifiedRule {
   name: string
   description?: string
   enabled: boolean
-  conditions: UnifiedCondition[]
+  conditions: UnifiedConditionNode[] // A flat list of conditions is shorthand for a single group
   conditionLogic?: 'AND' | 'OR' // How to combine conditions (default: AND)
   action: UnifiedAction
   priority?: number // Rule execution order
@@ -84,6 +100,10 @@ export interface UnifiedConfig {
   providers?: ProvidersConfig // Provider-specific settings
   rules: UnifiedRule[]
   ips?: UnifiedIPRule[]
+  /** Vercel managed rulesets and Attack Challenge Mode. Other providers ignore it */
+  security?: VercelSecurityConfig
+  /** Vercel system bypass rules. Other providers ignore them */
+  bypass?: VercelBypassRule[]
   metadata?: ConfigMetadata
 }
 
@@ -100,6 +120,10 @@ export function isUnifiedConfig(obj: unknown): obj is UnifiedConfig {
   )
 }
 
+export function isUnifiedConditionGroup(node: UnifiedConditionNode): node is UnifiedConditionGroup {
+  return 'logic' in node && Array.isArray((node as UnifiedConditionGroup).conditions)
+}
+
 export function isUnifiedRule(obj: unknown): obj is UnifiedRule {
   const rec = obj as Record<string, unknown>
   return !!obj && typeof obj === 'object' && 'name' in rec && 'enabled' in rec && 'conditions' in rec && 'action' in rec
@@ -131,6 +155,50 @@ export function createUnifiedCondition(
   }
 }
 
+/**
+ * Helper to create a unified condition group
+ */
+export function createUnifiedConditionGroup(
+  logic: 'AND' | 'OR',
+  conditions: UnifiedConditionNode[],
+  options?: {
+    negated?: boolean
+  },
+): UnifiedConditionGroup {
+  return {
+    logic,
+    conditions,
+    negated: options?.negated,
+  }
+}
+
+/**
+ * Collect every condition in a condition tree, ignoring how they are combined
+ */
+export function flattenConditions(conditions: UnifiedConditionNode[]): UnifiedCondition[] {
+  return conditions.flatMap((node) => (isUnifiedConditionGroup(node) ? flattenConditions(node.conditions) : [node]))
+}
+
+/**
+ * Build rule conditions from OR-ed groups of AND-ed conditions (the shape of Vercel condition groups).
+ * Uses the flat shorthand where possible and nested groups otherwise.
+ */
+export function fromConditionGroups(groups: UnifiedCondition[][]): {
+  conditions: UnifiedConditionNode[]
+  conditionLogic: 'AND' | 'OR'
+} {
+  if (groups.length === 1 && groups[0]!.length > 1) {
+    return { conditions: groups[0]!, conditionLogic: 'AND' }
+  }
+
+  return {
+    conditions: groups.flatMap((group): UnifiedConditionNode[] =>
+      group.length > 1 ? [{ logic: 'AND', conditions: group }] : group,
+    ),
+    conditionLogic: 'OR',
+  }
+}
+
 /**
  * Helper to create a unified action
  */
@@ -154,7 +222,7 @@ export function createUnifiedAction(
  */
 export function createUnifiedRule(
   name: string,
-  conditions: UnifiedCondition[],
+  conditions: UnifiedConditionNode[],
   action: UnifiedAction,
   options?: {
     id?: string
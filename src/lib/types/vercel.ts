@@ -121,6 +121,81 @@ export interface VercelIPBlockingRule {
   action: 'deny' // Currently only 'deny' is supported for IP blocking
 }
 
+/**
+ * Vercel system bypass rule, which lets an IP or CIDR range skip system mitigations such
+ * as DDoS challenges. Bypass rules are identified by their source IP and domain
+ */
+export interface VercelBypassRule {
+  sourceIp: string
+  /** Domain the bypass applies to; every domain of the project if unset */
+  domain?: string
+  note?: string
+}
+
+/**
+ * Rule groups of the OWASP core ruleset (CRS): scanner detection, multipart attacks,
+ * local and remote file inclusion, remote code execution, PHP, generic attacks, XSS,
+ * SQL injection, session fixation and Java attacks
+ */
+export type VercelCRSRuleId = 'sd' | 'ma' | 'lfi' | 'rfi' | 'rce' | 'php' | 'gen' | 'xss' | 'sqli' | 'sf' | 'java'
+
+/**
+ * Toggle for one OWASP core ruleset group
+ */
+export interface VercelCRSRule {
+  active: boolean
+  action: 'deny' | 'log'
+}
+
+/**
+ * OWASP core ruleset groups, keyed by group. Groups left out are not managed by the config
+ */
+export type VercelCRSConfig = Partial<Record<VercelCRSRuleId, VercelCRSRule>>
+
+/**
+ * Vercel managed rulesets
+ */
+export type VercelManagedRulesetId = 'owasp' | 'bot_protection' | 'ai_bots'
+
+/**
+ * Toggle for one managed ruleset
+ */
+export interface VercelManagedRuleset {
+  active: boolean
+  action?: 'log' | 'challenge' | 'deny'
+}
+
+/**
+ * Managed rulesets, keyed by ruleset. Rulesets left out are not managed by the config
+ */
+export type VercelManagedRulesConfig = Partial<Record<VercelManagedRulesetId, VercelManagedRuleset>>
+
+/**
+ * Attack Challenge Mode, which challenges every visitor of the project
+ */
+export interface VercelAttackMode {
+  enabled: boolean
+  /** When attack mode switches off again, in milliseconds since the epoch (indefinitely if unset) */
+  activeUntil?: number | null
+}
+
+/**
+ * The parts of the Vercel security posture besides custom rules and IP blocking
+ */
+export interface VercelSecurityConfig {
+  crs?: VercelCRSConfig
+  managedRules?: VercelManagedRulesConfig
+  attackMode?: VercelAttackMode
+}
+
+/**
+ * A managed ruleset, core ruleset group or attack mode setting that differs from the remote
+ */
+export type VercelSecurityChange =
+  | { section: 'crs'; id: VercelCRSRuleId; from?: VercelCRSRule; to: VercelCRSRule }
+  | { section: 'managedRules'; id: VercelManagedRulesetId; from?: VercelManagedRuleset; to: VercelManagedRuleset }
+  | { section: 'attackMode'; id: 'attackMode'; from?: VercelAttackMode; to: VercelAttackMode }
+
 /**
  * Vercel project configuration
  */
@@ -132,12 +207,13 @@ export interface VercelProjectConfig {
 /**
  * Vercel firewall configuration
  */
-export interface VercelFirewallConfig extends VercelProjectConfig {
+export interface VercelFirewallConfig extends VercelProjectConfig, VercelSecurityConfig {
   $schema?: string
   version?: number
   firewallEnabled?: boolean
   rules: VercelCustomRule[]
   ips?: VercelIPBlockingRule[]
+  bypass?: VercelBypassRule[]
   updatedAt?: string
 }
 
@@ -146,15 +222,12 @@ export interface VercelFirewallConfig extends VercelProjectConfig {
  */
 export interface VercelFirewallAPIResponse {
   firewallEnabled: boolean
-  crs: {
-    sd: unknown[]
-    fw: {
-      r: VercelCustomRule[]
-      ips: VercelIPBlockingRule[]
-    }
-  }
+  crs: VercelCRSConfig
+  managedRules?: VercelManagedRulesConfig
+  rules: VercelCustomRule[]
+  ips: VercelIPBlockingRule[]
   version: number
-  updatedAt: number
+  updatedAt: string
 }
 
 // Re-export legacy type names for backward compatibility
@@ -9,6 +9,7 @@ import { RuleChangeStatus } from '.'
  *   - 'modified': The rule has been modified.
  *   - 'new': A new rule has been added.
  *   - 'deleted': The rule has been deleted.
+ *   - 'moved': The rule has moved to a different position.
  * @returns A string representing the formatted status with appropriate color and symbol.
  */
 export function formatChangeStatus(status: RuleChangeStatus): string {
@@ -21,5 +22,7 @@ export function formatChangeStatus(status: RuleChangeStatus): string {
       return chalk.bold.green('+')
     case 'deleted':
       return chalk.bold.red('-')
+    case 'moved':
+      return chalk.bold.blue('↕')
   }
 }
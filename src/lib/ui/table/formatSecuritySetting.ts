@@ -0,0 +1,79 @@
+import type {
+  VercelAttackMode,
+  VercelCRSRule,
+  VercelManagedRuleset,
+  VercelSecurityChange,
+  VercelSecurityConfig,
+} from '../../types/vercel'
+
+/**
+ * One managed ruleset, core ruleset group or attack mode setting
+ */
+export type SecuritySetting = Pick<VercelSecurityChange, 'section' | 'id'> & {
+  value: VercelCRSRule | VercelManagedRuleset | VercelAttackMode
+}
+
+const SECTION_LABELS: Record<SecuritySetting['section'], string> = {
+  crs: 'OWASP Core Ruleset',
+  managedRules: 'Managed Ruleset',
+  attackMode: 'Attack Challenge Mode',
+}
+
+const SETTING_LABELS: Record<string, string> = {
+  sd: 'Scanner detection',
+  ma: 'Multipart attack',
+  lfi: 'Local file inclusion',
+  rfi: 'Remote file inclusion',
+  rce: 'Remote code execution',
+  php: 'PHP attack',
+  gen: 'Generic attack',
+  xss: 'Cross-site scripting',
+  sqli: 'SQL injection',
+  sf: 'Session fixation',
+  java: 'Java attack',
+  owasp: 'OWASP',
+  bot_protection: 'Bot protection',
+  ai_bots: 'AI bots',
+  attackMode: 'All visitors',
+}
+
+/**
+ * Lists the settings of a config's security sections in display order
+ */
+export function toSecuritySettings(security: VercelSecurityConfig): SecuritySetting[] {
+  return [
+    ...Object.entries(security.crs || {}).map(([id, value]) => ({ section: 'crs', id, value }) as SecuritySetting),
+    ...Object.entries(security.managedRules || {}).map(
+      ([id, value]) => ({ section: 'managedRules', id, value }) as SecuritySetting,
+    ),
+    ...(security.attackMode ? [{ section: 'attackMode', id: 'attackMode', value: security.attackMode } as const] : []),
+  ]
+}
+
+/**
+ * Formats a security setting for display in a table.
+ *
+ * @param setting - The setting to format
+ * @returns The section, setting name (with its ID), whether it is on, and its action. For
+ * attack mode the action column shows when it switches off.
+ */
+export function formatSecuritySetting({ section, id, value }: SecuritySetting) {
+  const active = 'enabled' in value ? value.enabled : value.active
+  let action = '-'
+  if ('enabled' in value) {
+    action = value.enabled
+      ? value.activeUntil
+        ? `until ${new Date(value.activeUntil).toLocaleString()}`
+        : 'indefinitely'
+      : '-'
+  } else if (value.action) {
+    action = value.action
+  }
+
+  return {
+    section: SECTION_LABELS[section],
+    setting: section === 'attackMode' ? SETTING_LABELS[id]! : `${SETTING_LABELS[id] || id} (${id})`,
+    active,
+    action,
+  }
+}
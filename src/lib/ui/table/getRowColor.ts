@@ -17,6 +17,7 @@ import { RuleChangeStatus } from '.'
  * - 'modified': yellow
  * - 'new': green
  * - 'deleted': red
+ * - 'moved': blue
  */
 export function getRowColor(status?: RuleChangeStatus): (text: string) => string {
   switch (status) {
@@ -29,5 +30,7 @@ export function getRowColor(status?: RuleChangeStatus): (text: string) => string
       return chalk.green
     case 'deleted':
       return chalk.red
+    case 'moved':
+      return chalk.blue
   }
 }
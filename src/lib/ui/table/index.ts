@@ -7,15 +7,21 @@ import { formatAction } from './formatAction'
 import { formatChangeStatus } from './formatChangeStatus'
 import { formatConditionGroups } from './formatConditionGroups'
 import { formatIPBlockingRule } from './formatIPBlockingRule'
+import { formatSecuritySetting } from './formatSecuritySetting'
+import type { SecuritySetting } from './formatSecuritySetting'
 import { getRowColor } from './getRowColor'
 
-export type RuleChangeStatus = 'unchanged' | 'modified' | 'new' | 'deleted'
+export { toSecuritySettings } from './formatSecuritySetting'
+export type { SecuritySetting } from './formatSecuritySetting'
+
+export type RuleChangeStatus = 'unchanged' | 'modified' | 'new' | 'deleted' | 'moved'
 
 export const RULE_STATUS_MAP = {
   unchanged: 'unchanged' as RuleChangeStatus,
   modified: 'modified' as RuleChangeStatus,
   new: 'new' as RuleChangeStatus,
   deleted: 'deleted' as RuleChangeStatus,
+  moved: 'moved' as RuleChangeStatus,
 }
 
 interface ColumnConfig {
@@ -74,7 +80,7 @@ interface RuleWithChangeStatus extends Rule {
 
 export function displayRulesTable(
   rules: RuleWithChangeStatus[] | Rule[],
-  { showStatus }: { showStatus: boolean },
+  { showStatus, showOrder = false }: { showStatus: boolean; showOrder?: boolean },
 ): void {
   const tableHead = [
     chalk.bold.gray('ID'),
@@ -89,6 +95,12 @@ export function displayRulesTable(
   const currentTerminalWidth = process.stdout.columns || 400
   const colWidths = getTableColWidths('rules', currentTerminalWidth)
 
+  if (showOrder) {
+    tableHead.unshift(chalk.bold.gray('#'))
+    tableColAligns.unshift('right')
+    colWidths.unshift(5)
+  }
+
   if (showStatus) {
     tableHead.unshift(chalk.bold.gray('Status'))
     tableColAligns.unshift('center')
@@ -103,7 +115,7 @@ export function displayRulesTable(
     colWidths: colWidths,
   })
 
-  rules.forEach((rule) => {
+  rules.forEach((rule, index) => {
     const hasStatus = 'changeStatus' in rule && showStatus
     const rowColor = hasStatus ? getRowColor((rule as RuleWithChangeStatus).changeStatus) : chalk.white
 
@@ -116,6 +128,10 @@ export function displayRulesTable(
       rowColor(rule.description || ''),
     ]
 
+    if (showOrder) {
+      rowColumns.unshift(chalk.dim(String(index + 1)))
+    }
+
     if (hasStatus) {
       rowColumns.unshift(rowColor(formatChangeStatus((rule as RuleWithChangeStatus).changeStatus)))
     }
@@ -179,3 +195,76 @@ export function displayIPBlockingTable(
 
   logger.log(table.toString())
 }
+
+export type SecuritySettingWithStatus = SecuritySetting & { changeStatus?: RuleChangeStatus }
+
+export function displaySecurityTable(settings: SecuritySettingWithStatus[], { showStatus }: { showStatus: boolean }) {
+  const tableHead = [
+    chalk.bold.gray('Section'),
+    chalk.bold.gray('Setting'),
+    chalk.bold.gray(' '), // Active
+    chalk.bold.gray('Action'),
+  ]
+  const tableColAligns = ['left', 'left', 'center', 'left'] as HorizontalAlignment[]
+
+  if (showStatus) {
+    tableHead.unshift(chalk.bold.gray('Status'))
+    tableColAligns.unshift('center')
+  }
+
+  const table = new Table({ head: tableHead, colAligns: tableColAligns })
+
+  settings.forEach((setting) => {
+    const hasStatus = setting.changeStatus !== undefined && showStatus
+    const rowColor = hasStatus ? getRowColor(setting.changeStatus) : chalk.white
+    const formatted = formatSecuritySetting(setting)
+
+    const rowColumns = [
+      rowColor(formatted.section),
+      rowColor(formatted.setting),
+      formatted.active ? chalk.bold.green('✓') : chalk.bold.red('✗'),
+      rowColor(formatted.action),
+    ]
+
+    if (hasStatus) {
+      rowColumns.unshift(rowColor(formatChangeStatus(setting.changeStatus!)))
+    }
+
+    table.push(rowColumns)
+  })
+
+  logger.log(table.toString())
+}
+
+export type BypassRuleWithStatus = NonNullable<FirewallConfig['bypass']>[number] & { changeStatus?: RuleChangeStatus }
+
+export function displayBypassTable(rules: BypassRuleWithStatus[], { showStatus }: { showStatus: boolean }): void {
+  const tableHead = [chalk.bold.gray('Source IP'), chalk.bold.gray('Domain'), chalk.bold.gray('Note')]
+  const tableColAligns = ['left', 'left', 'left'] as HorizontalAlignment[]
+
+  if (showStatus) {
+    tableHead.unshift(chalk.bold.gray('Status'))
+    tableColAligns.unshift('center')
+  }
+
+  const table = new Table({ head: tableHead, colAligns: tableColAligns, wrapOnWordBoundary: true, wordWrap: true })
+
+  rules.forEach((rule) => {
+    const hasStatus = rule.changeStatus !== undefined && showStatus
+    const rowColor = hasStatus ? getRowColor(rule.changeStatus) : chalk.white
+
+    const rowColumns = [
+      rowColor(rule.sourceIp),
+      rowColor(rule.domain || chalk.dim('All domains')),
+      rowColor(rule.note || ''),
+    ]
+
+    if (hasStatus) {
+      rowColumns.unshift(rowColor(formatChangeStatus(rule.changeStatus!)))
+    }
+
+    table.push(rowColumns)
+  })
+
+  logger.log(table.toString())
+}
@@ -1,5 +1,9 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals'
-import { ApiCache, CacheKeys, CacheTTL } from '../cache'
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ApiCache, CacheKeys, CacheTTL, hashToken } from '../cache'
+import { FileCacheStore } from '../fileCacheStore'
 
 describe('ApiCache', () => {
   let cache: ApiCache
@@ -219,6 +223,82 @@ describe('ApiCache', () => {
   })
 })
 
+describe('ApiCache with a FileCacheStore', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'doorman-cache-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const createCache = () => new ApiCache({ enableLogging: false, store: new FileCacheStore(dir) })
+
+  it('should reuse entries written by another cache', () => {
+    createCache().set(CacheKeys.rulesets('z1'), [{ id: 'rs1' }])
+
+    expect(createCache().get(CacheKeys.rulesets('z1'))).toEqual([{ id: 'rs1' }])
+  })
+
+  it('should not reuse expired entries', () => {
+    createCache().set('key', 'value', 1000)
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000)
+
+    try {
+      expect(createCache().get('key')).toBeUndefined()
+      expect(readdirSync(dir)).toEqual([])
+    } finally {
+      jest.restoreAllMocks()
+    }
+  })
+
+  it('should apply invalidations to the store', () => {
+    const cache = createCache()
+    cache.set(CacheKeys.rulesets('z1'), [])
+    cache.set(CacheKeys.ruleset('z1', 'rs1'), {})
+    cache.set(CacheKeys.zoneInfo('z2'), {})
+
+    expect(createCache().invalidateByPrefix('zone:z1')).toBe(2)
+    expect(createCache().get(CacheKeys.rulesets('z1'))).toBeUndefined()
+    expect(createCache().get(CacheKeys.zoneInfo('z2'))).toEqual({})
+  })
+
+  it('should store hashed file names without temporary files', () => {
+    createCache().set(CacheKeys.credentialValidation(hashToken('secret-token')), true)
+
+    const files = readdirSync(dir)
+    expect(files).toEqual([expect.stringMatching(/^[0-9a-f]{64}\.json$/)])
+    expect(readFileSync(join(dir, files[0]!), 'utf8')).not.toContain('secret-token')
+  })
+
+  it('should clear every stored entry', () => {
+    const cache = createCache()
+    cache.set('a', 1)
+    cache.set('b', 2)
+
+    cache.clear()
+
+    expect(readdirSync(dir)).toEqual([])
+  })
+
+  it('should treat unreadable entries as misses', () => {
+    const store = new FileCacheStore(join(dir, 'missing'))
+
+    expect(store.get('key')).toBeUndefined()
+    expect(store.clear()).toBe(0)
+  })
+})
+
+describe('hashToken', () => {
+  it('should hash tokens consistently without revealing them', () => {
+    expect(hashToken('secret-token')).toBe(hashToken('secret-token'))
+    expect(hashToken('secret-token')).not.toBe(hashToken('other-token'))
+    expect(hashToken('secret-token')).not.toContain('token')
+  })
+})
+
 describe('CacheKeys', () => {
   it('should generate consistent zone-scoped keys', () => {
     expect(CacheKeys.zoneInfo('z1')).toBe('zone:z1:info')
@@ -235,6 +315,10 @@ describe('CacheKeys', () => {
     expect(CacheKeys.credentialValidation('abc123')).toBe('cred:abc123')
     expect(CacheKeys.configValidation('hash456')).toBe('config:hash456')
   })
+
+  it('should generate client scope prefixes', () => {
+    expect(CacheKeys.clientScope('abc123', 'z1')).toBe('client:abc123:z1:')
+  })
 })
 
 describe('CacheTTL', () => {
@@ -0,0 +1,52 @@
+import { describe, expect, test } from '@jest/globals'
+import { providerErrors } from '../../errors'
+import { combineSyncResults } from '../combineSyncResults'
+
+describe('combineSyncResults', () => {
+  test('sums the counts of every provider', () => {
+    const result = combineSyncResults([
+      {
+        provider: 'vercel',
+        result: { success: true, rulesAdded: 1, rulesUpdated: 2, rulesDeleted: 0, version: 4, warnings: ['slow'] },
+      },
+      {
+        provider: 'cloudflare',
+        result: { success: true, rulesAdded: 1, rulesUpdated: 0, rulesDeleted: 3, rulesMoved: 1, ipsAdded: 2 },
+      },
+    ])
+
+    expect(result).toEqual({
+      success: true,
+      rulesAdded: 2,
+      rulesUpdated: 2,
+      rulesDeleted: 3,
+      rulesMoved: 1,
+      ipsAdded: 2,
+      ipsUpdated: 0,
+      ipsDeleted: 0,
+      securityUpdated: 0,
+      bypassAdded: 0,
+      bypassDeleted: 0,
+      errors: [],
+      warnings: ['Vercel Firewall: slow'],
+    })
+  })
+
+  test('fails when any provider fails, keeping the others counted', () => {
+    const result = combineSyncResults([
+      { provider: 'vercel', result: { success: true, rulesAdded: 1, rulesUpdated: 0, rulesDeleted: 0 } },
+      { provider: 'cloudflare', error: providerErrors.rateLimit('cloudflare') },
+    ])
+
+    expect(result.success).toBe(false)
+    expect(result.rulesAdded).toBe(1)
+    expect(result.errors).toEqual([expect.stringMatching(/^Cloudflare WAF: /)])
+  })
+
+  test('ignores providers without a result', () => {
+    const result = combineSyncResults([{ provider: 'vercel', result: undefined }])
+
+    expect(result.success).toBe(true)
+    expect(result.rulesAdded).toBe(0)
+  })
+})
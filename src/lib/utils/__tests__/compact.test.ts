@@ -0,0 +1,30 @@
+import { describe, expect, test } from '@jest/globals'
+import { compact } from '../compact'
+
+describe('compact', () => {
+  test('removes null and undefined properties', () => {
+    expect(compact({ a: 1, b: null, c: undefined })).toEqual({ a: 1 })
+    expect(Object.keys(compact({ a: 1, b: null, c: undefined }))).toEqual(['a'])
+  })
+
+  test('compacts nested objects and arrays', () => {
+    const rule = {
+      conditionGroup: [{ conditions: [{ type: 'path', op: 'eq', value: '/api', neg: undefined, key: undefined }] }],
+      action: { mitigate: { action: 'deny', rateLimit: null, redirect: null, actionDuration: null } },
+    }
+
+    expect(compact(rule)).toEqual({
+      conditionGroup: [{ conditions: [{ type: 'path', op: 'eq', value: '/api' }] }],
+      action: { mitigate: { action: 'deny' } },
+    })
+  })
+
+  test('keeps falsy values that are not empty', () => {
+    expect(compact({ a: 0, b: false, c: '' })).toEqual({ a: 0, b: false, c: '' })
+  })
+
+  test('returns primitives unchanged', () => {
+    expect(compact('value')).toBe('value')
+    expect(compact(null)).toBeNull()
+  })
+})
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { FirewallConfig } from '../../types'
+import { getConfig, saveConfig } from '../config'
+import { ConfigFinder } from '../configFinder'
+import { createPointerLocator, getConfigFormat, parseConfigContent, serializeConfig } from '../configFormat'
+
+const config: FirewallConfig = {
+  projectId: 'prj_123',
+  version: 3,
+  rules: [
+    {
+      id: 'rule_block_admin',
+      name: 'Block admin',
+      description: 'Keep: "quotes" and #hashes',
+      active: true,
+      conditionGroup: [
+        { conditions: [{ type: 'path', op: 'pre', value: '/admin' }] },
+        { conditions: [{ type: 'header', op: 'eq', key: 'x-env', value: 'staging', neg: true }] },
+      ],
+      action: { mitigate: { action: 'rate_limit', rateLimit: { requests: 10, window: '60s' }, actionDuration: null } },
+    },
+    {
+      id: 'rule_geo',
+      name: 'Geo',
+      active: false,
+      conditionGroup: [{ conditions: [{ type: 'geo_country', op: 'inc', value: ['CN', 'RU'] }] }],
+      action: { mitigate: { action: 'deny' } },
+    },
+  ],
+  ips: [{ ip: '10.0.0.0/8', hostname: '*', action: 'deny' }],
+}
+
+const commentedYaml = `# Production firewall
+projectId: prj_123
+version: 3
+rules:
+  # Keep admins out
+  - id: rule_block_admin
+    name: Block admin
+    active: true
+    conditionGroup:
+      - conditions:
+          - type: path
+            op: pre
+            value: /admin # the admin panel
+    action:
+      mitigate:
+        action: deny
+  # Temporary
+  - id: rule_geo
+    name: Geo
+    active: false
+    conditionGroup:
+      - conditions:
+          - type: geo_country
+            op: inc
+            value: [CN, RU]
+    action:
+      mitigate:
+        action: deny
+`
+
+describe('configFormat', () => {
+  test('detects the format from the file extension', () => {
+    expect(getConfigFormat('.doorman.yaml')).toBe('yaml')
+    expect(getConfigFormat('/a/b/.doorman.YML')).toBe('yaml')
+    expect(getConfigFormat('.doorman.json')).toBe('json')
+  })
+
+  test('round-trips a config through YAML without losing fields', () => {
+    const yaml = serializeConfig(config, 'yaml')
+
+    expect(parseConfigContent(yaml, 'yaml')).toEqual(config)
+  })
+
+  test('reports malformed YAML as a SyntaxError', () => {
+    expect(() => parseConfigContent('rules: [unclosed', 'yaml')).toThrow(SyntaxError)
+  })
+
+  test('keeps comments when updating an existing YAML document', () => {
+    const parsed = parseConfigContent(commentedYaml, 'yaml') as FirewallConfig
+    const [admin, geo] = parsed.rules
+    const updated: FirewallConfig = { ...parsed, version: 4, rules: [geo!, { ...admin!, active: false }] }
+
+    const yaml = serializeConfig(updated, 'yaml', commentedYaml)
+
+    expect(parseConfigContent(yaml, 'yaml')).toEqual(updated)
+    expect(yaml).toContain('# Production firewall')
+    expect(yaml).toContain('value: /admin # the admin panel')
+    expect(yaml).toContain('version: 4')
+    // Comments follow their rule when rules are reordered
+    expect(yaml.indexOf('# Temporary')).toBeLessThan(yaml.indexOf('rule_geo'))
+    expect(yaml.indexOf('# Keep admins out')).toBeGreaterThan(yaml.indexOf('rule_geo'))
+  })
+
+  test('resolves JSON pointers to lines and columns in JSON and YAML', () => {
+    const json = createPointerLocator(JSON.stringify(config, null, 2))
+    expect(json('/rules/1/name')).toEqual({ line: 45, column: 15 })
+    expect(json('/ips/0/ip')).toEqual({ line: 70, column: 13 })
+
+    const yaml = createPointerLocator(commentedYaml)
+    expect(yaml('/version')).toEqual({ line: 3, column: 10 })
+    // Missing properties resolve to the nearest parent
+    expect(yaml('/rules/0/missing')).toEqual(yaml('/rules/0'))
+    expect(yaml('/rules/9')).toEqual(yaml('/rules'))
+  })
+
+  describe('config files', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'doorman-yaml-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    test('loads, validates and saves .doorman.yaml', async () => {
+      const path = join(dir, '.doorman.yaml')
+      writeFileSync(path, commentedYaml)
+
+      expect(ConfigFinder.getSupportedFileNames()).toContain('.doorman.yaml')
+
+      const loaded = await getConfig(path)
+      await saveConfig({ ...loaded, version: 5 }, path)
+
+      const saved = readFileSync(path, 'utf8')
+      expect(saved).toContain('# Keep admins out')
+      expect(saved).toContain('version: 5')
+    })
+
+    test('rejects YAML configs that fail validation', async () => {
+      const path = join(dir, '.doorman.yml')
+      writeFileSync(path, 'rules:\n  - name: Missing fields\n')
+
+      await expect(getConfig(path)).rejects.toThrow('Invalid firewall configuration')
+    })
+
+    test('names the format in parse errors', async () => {
+      const path = join(dir, '.doorman.yml')
+      writeFileSync(path, 'rules: [unclosed')
+
+      await expect(getConfig(path)).rejects.toThrow(/Invalid YAML in config file/)
+    })
+  })
+})
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ConfigErrorCode } from '../../errors'
+import type { CustomRule, FirewallConfig } from '../../types'
+import { getConfig, saveSyncedConfig } from '../config'
+import {
+  addEnvironmentRule,
+  applyEnvironmentState,
+  removeEnvironmentRules,
+  resolveEnvironment,
+  sourcePath,
+  storeEnvironmentRules,
+  unstoredSections,
+} from '../environments'
+
+const rule = (id: string, path: string): CustomRule => ({
+  id,
+  name: id,
+  active: true,
+  conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: path }] }],
+  action: { mitigate: { action: 'deny' } },
+})
+
+const config: FirewallConfig = {
+  projectId: 'prj_prod',
+  teamId: 'team_1',
+  version: 12,
+  rules: [rule('rule_admin', '/admin'), rule('rule_wp', '/wp-admin'), rule('rule_debug', '/debug')],
+  environments: {
+    preview: {
+      projectId: 'prj_preview',
+      version: 3,
+      removeRules: ['rule_wp'],
+      overrideRules: { rule_admin: { active: false, description: 'Open for previews' } },
+      addRules: [rule('rule_preview_bots', '/bots')],
+    },
+    cloudflare: { zoneId: 'zone_staging' },
+  },
+}
+
+describe('resolveEnvironment', () => {
+  test('applies removals, overrides and additions in base order', () => {
+    const resolved = resolveEnvironment(config, 'preview')
+
+    expect(resolved.rules.map((r) => r.id)).toEqual(['rule_admin', 'rule_debug', 'rule_preview_bots'])
+    expect(resolved.rules[0]).toMatchObject({ id: 'rule_admin', active: false, description: 'Open for previews' })
+    expect(resolved.rules[0]!.conditionGroup).toEqual(config.rules[0]!.conditionGroup)
+  })
+
+  test('uses the environment identifiers and version, and drops the environments section', () => {
+    const resolved = resolveEnvironment(config, 'preview')
+
+    expect(resolved).toMatchObject({ projectId: 'prj_preview', teamId: 'team_1', version: 3 })
+    expect(resolved.environments).toBeUndefined()
+  })
+
+  test('does not carry the base version into an environment that has none', () => {
+    const resolved = resolveEnvironment(config, 'cloudflare')
+
+    expect(resolved.zoneId).toBe('zone_staging')
+    expect(resolved.version).toBeUndefined()
+    expect(resolved.rules).toEqual(config.rules)
+  })
+
+  test('rejects unknown environments', () => {
+    expect(() => resolveEnvironment(config, 'qa')).toThrow(
+      expect.objectContaining({ code: ConfigErrorCode.UNKNOWN_ENVIRONMENT }),
+    )
+  })
+
+  test('rejects overrides and removals of rules missing from the base config', () => {
+    const broken: FirewallConfig = { ...config, environments: { preview: { removeRules: ['rule_typo'] } } }
+
+    expect(() => resolveEnvironment(broken, 'preview')).toThrow(/no base rule with ID rule_typo/)
+  })
+})
+
+describe('sourcePath', () => {
+  test('maps paths in the resolved config to the base rules and the overlay', () => {
+    // Resolved preview rules: rule_admin (overridden), rule_debug, rule_preview_bots (added)
+    expect(sourcePath(config, 'preview', ['rules', '0', 'active'])).toEqual([
+      'environments',
+      'preview',
+      'overrideRules',
+      'rule_admin',
+      'active',
+    ])
+    expect(sourcePath(config, 'preview', ['rules', '0', 'conditionGroup'])).toEqual(['rules', 0, 'conditionGroup'])
+    expect(sourcePath(config, 'preview', ['rules', '1'])).toEqual(['rules', 2])
+    expect(sourcePath(config, 'preview', ['rules', '2', 'name'])).toEqual([
+      'environments',
+      'preview',
+      'addRules',
+      0,
+      'name',
+    ])
+    expect(sourcePath(config, 'preview', ['projectId'])).toEqual(['environments', 'preview', 'projectId'])
+    expect(sourcePath(config, 'preview', ['teamId'])).toEqual(['teamId'])
+    expect(sourcePath(config, 'preview', ['tests', 0])).toEqual(['tests', 0])
+  })
+})
+
+describe('applyEnvironmentState', () => {
+  test('records the synced version in the overlay only', () => {
+    const updated = applyEnvironmentState(config, 'preview', { version: 4, updatedAt: '2024-06-01T00:00:00Z' })
+
+    expect(updated.version).toBe(12)
+    expect(updated.rules).toEqual(config.rules)
+    expect(updated.environments?.preview).toMatchObject({ version: 4, updatedAt: '2024-06-01T00:00:00Z' })
+    expect(updated.environments?.cloudflare).toEqual(config.environments?.cloudflare)
+  })
+})
+
+describe('editing environments', () => {
+  test('adds rules to the overlay only', () => {
+    const updated = addEnvironmentRule(config, 'cloudflare', rule('rule_staging', '/staging'))
+
+    expect(updated.rules).toEqual(config.rules)
+    expect(updated.environments?.cloudflare?.addRules?.map((r) => r.id)).toEqual(['rule_staging'])
+    expect(updated.environments?.preview).toEqual(config.environments?.preview)
+  })
+
+  test('removes base rules through removeRules and added rules from addRules', () => {
+    const resolved = resolveEnvironment(config, 'preview')
+    const updated = removeEnvironmentRules(config, 'preview', [resolved.rules[0]!, resolved.rules[2]!])
+
+    expect(updated.rules).toEqual(config.rules)
+    expect(updated.environments?.preview).toMatchObject({
+      removeRules: ['rule_wp', 'rule_admin'],
+      overrideRules: {},
+      addRules: [],
+    })
+    expect(resolveEnvironment(updated, 'preview').rules.map((r) => r.id)).toEqual(['rule_debug'])
+  })
+
+  test('stores downloaded rules as the changes to the base rules', () => {
+    const downloaded = [
+      // Another project assigns its own IDs, so rules are also matched by name
+      { ...rule('rule_admin', '/admin'), id: 'rule_remote_1', active: false },
+      rule('rule_debug', '/debug'),
+      rule('rule_preview_only', '/preview'),
+    ]
+
+    const updated = storeEnvironmentRules(config, 'preview', downloaded, { version: 9 })
+
+    expect(updated.rules).toEqual(config.rules)
+    expect(updated.environments?.preview).toEqual({
+      projectId: 'prj_preview',
+      version: 9,
+      removeRules: ['rule_wp'],
+      overrideRules: { rule_admin: { active: false } },
+      addRules: [rule('rule_preview_only', '/preview')],
+    })
+    expect(resolveEnvironment(updated, 'preview').rules.map((r) => r.name)).toEqual(downloaded.map((r) => r.name))
+  })
+
+  test('replaces base rules that lack one of their fields remotely', () => {
+    const described = { ...config, rules: [{ ...rule('rule_admin', '/admin'), description: 'Admin' }] }
+
+    const updated = storeEnvironmentRules(described, 'cloudflare', [rule('rule_admin', '/admin')], {})
+
+    expect(updated.environments?.cloudflare).toEqual({
+      zoneId: 'zone_staging',
+      removeRules: ['rule_admin'],
+      addRules: [rule('rule_admin', '/admin')],
+    })
+  })
+
+  test('lists the remote sections an overlay cannot hold', () => {
+    const resolved = resolveEnvironment(config, 'preview')
+
+    expect(
+      unstoredSections(resolved, {
+        ...resolved,
+        ips: [{ ip: '198.51.100.1', hostname: '', action: 'deny' }],
+        bypass: [],
+        attackMode: { enabled: false },
+      }),
+    ).toEqual(['ips'])
+  })
+})
+
+describe('environment configs on disk', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'doorman-env-'))
+    path = join(dir, '.doorman.json')
+    writeFileSync(path, JSON.stringify(config, null, 2))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('resolves the environment before validation', async () => {
+    const invalid = { ...config, environments: { preview: { addRules: [rule('rule_admin_copy', '/x')] } } }
+    invalid.environments.preview.addRules[0]!.name = 'rule_admin'
+    writeFileSync(path, JSON.stringify(invalid))
+
+    await expect(getConfig(path)).resolves.toBeDefined()
+    await expect(getConfig(path, 'required', 'preview')).rejects.toThrow(/Duplicate rule name/)
+  })
+
+  test('writes synced state back to the overlay without flattening it', async () => {
+    const resolved = await getConfig(path, 'required', 'preview')
+    await saveSyncedConfig({ ...resolved, version: 5 }, path, 'preview')
+
+    const saved = JSON.parse(readFileSync(path, 'utf8')) as FirewallConfig
+    expect(saved.rules).toHaveLength(3)
+    expect(saved.version).toBe(12)
+    expect(saved.environments?.preview?.version).toBe(5)
+    expect(saved.environments?.preview?.removeRules).toEqual(['rule_wp'])
+  })
+})
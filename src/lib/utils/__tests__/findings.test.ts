@@ -0,0 +1,193 @@
+import { describe, expect, jest, test } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { HealthCheckCode, TranslationErrorCode, ValidationErrorCode } from '../../errors/ErrorCodes'
+import { ValidationError, ValidationService } from '../../services/ValidationService'
+import type { CustomRule, FirewallConfig } from '../../types'
+import { ConfigHealthChecker } from '../configHealth'
+import {
+  Finding,
+  formatFindings,
+  healthFindings,
+  locateFindings,
+  reportFindings,
+  schemaFindings,
+  sourceFindings,
+  toPointer,
+  translationFindings,
+} from '../findings'
+
+const rule = (id: string, overrides: Partial<CustomRule> = {}): CustomRule => ({
+  id,
+  name: id.replace('rule_', 'Rule '),
+  description: `Handles ${id}`,
+  active: true,
+  conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: `/${id}` }] }],
+  action: { mitigate: { action: 'deny' } },
+  ...overrides,
+})
+
+const validationError = (config: unknown): ValidationError => {
+  const validator: ValidationService = ValidationService.getInstance()
+  try {
+    validator.validateConfig(config)
+  } catch (error) {
+    if (error instanceof ValidationError) return error
+    throw error
+  }
+  throw new Error('Expected the config to be invalid')
+}
+
+const findings: Finding[] = [
+  {
+    code: HealthCheckCode.SHADOWED_RULE,
+    level: 'warning',
+    message: 'Rule can never fire: "<admin> & co" comes first',
+    pointer: '/rules/1',
+    suggestion: 'Move it up',
+    line: 12,
+    column: 5,
+  },
+  { code: ValidationErrorCode.RULE_ERROR, level: 'error', message: 'Duplicate rule name' },
+]
+
+describe('findings', () => {
+  test('converts dot paths and path arrays to JSON pointers', () => {
+    expect(toPointer('rules.3.conditionGroup.0')).toBe('/rules/3/conditionGroup/0')
+    expect(toPointer(['rules', 0, 'a/b~c'])).toBe('/rules/0/a~1b~0c')
+    expect(toPointer('')).toBe('')
+  })
+
+  test('maps schema errors to pointers without reporting them twice', () => {
+    const config = { projectId: 'prj_1', rules: [{ ...rule('rule_a'), action: { mitigate: { action: 'explode' } } }] }
+
+    const result = schemaFindings(validationError(config))
+
+    expect(result.length).toBeGreaterThan(0)
+    expect(result.every((finding) => finding.code === ValidationErrorCode.SCHEMA_ERROR)).toBe(true)
+    expect(result.map((finding) => finding.pointer)).toContain('/rules/0/action/mitigate/action')
+    expect(new Set(result.map((finding) => finding.pointer)).size).toBe(result.length)
+  })
+
+  test('gives health issues stable codes and locations in the config file', () => {
+    const config: FirewallConfig = {
+      projectId: 'prj_1',
+      version: 1,
+      rules: [rule('rule_api'), rule('rule_api_users', { conditionGroup: rule('rule_api').conditionGroup })],
+    }
+    const content = JSON.stringify(config, null, 2)
+
+    const result = locateFindings(healthFindings(ConfigHealthChecker.check(config).issues), content)
+
+    const duplicate = result.find((finding) => finding.code === HealthCheckCode.DUPLICATE_RULE)
+    expect(duplicate).toMatchObject({ level: 'warning', pointer: '/rules/1' })
+    expect(content.split('\n')[duplicate!.line! - 1]).toMatch(/^ {4}\{$/)
+    expect(duplicate!.column).toBe(5)
+  })
+
+  test('reports what translating rules to Cloudflare changes or cannot do', () => {
+    const rules = [
+      rule('rule_limit', { action: { mitigate: { action: 'rate_limit', rateLimit: { requests: 5, window: '60s' } } } }),
+      rule('rule_env', { conditionGroup: [{ conditions: [{ type: 'environment', op: 'eq', value: 'preview' }] }] }),
+    ]
+
+    const result = translationFindings(rules)
+
+    expect(result).toContainEqual(
+      expect.objectContaining({ code: TranslationErrorCode.LOSSY_CONVERSION, level: 'note', pointer: '/rules/0' }),
+    )
+    expect(result).toContainEqual(
+      expect.objectContaining({ code: TranslationErrorCode.FAILED, level: 'error', pointer: '/rules/1' }),
+    )
+  })
+
+  test('points findings about a resolved environment at the overlay they come from', () => {
+    const config: FirewallConfig = {
+      projectId: 'prj_1',
+      rules: [rule('rule_a'), rule('rule_b')],
+      environments: { preview: { removeRules: ['rule_a'], addRules: [rule('rule_preview')] } },
+    }
+    const content = JSON.stringify(config, null, 2)
+
+    const result = locateFindings(
+      sourceFindings(
+        [
+          { code: HealthCheckCode.SHADOWED_RULE, level: 'warning', message: 'Shadowed', pointer: '/rules/1/name' },
+          { code: ValidationErrorCode.RULE_ERROR, level: 'error', message: 'No pointer' },
+        ],
+        config,
+        'preview',
+      ),
+      content,
+    )
+
+    expect(result[0]).toMatchObject({ pointer: '/environments/preview/addRules/0/name' })
+    expect(content.split('\n')[result[0]!.line! - 1]).toContain('"name": "Rule preview"')
+    expect(result[1]!.pointer).toBeUndefined()
+  })
+
+  test('formats findings as SARIF with a rule per code', () => {
+    const sarif = JSON.parse(formatFindings(findings, 'sarif', '.doorman.json'))
+    const [run] = sarif.runs
+
+    expect(sarif.version).toBe('2.1.0')
+    expect(run.tool.driver.rules.map((rule: { id: string; name: string }) => [rule.id, rule.name])).toEqual([
+      ['HEALTH_10014', 'ShadowedRule'],
+      ['VAL_2002', 'RuleError'],
+    ])
+    expect(run.results[0]).toEqual({
+      ruleId: 'HEALTH_10014',
+      ruleIndex: 0,
+      level: 'warning',
+      message: { text: 'Rule can never fire: "<admin> & co" comes first\nMove it up' },
+      locations: [
+        { physicalLocation: { artifactLocation: { uri: '.doorman.json' }, region: { startLine: 12, startColumn: 5 } } },
+      ],
+    })
+    expect(run.results[1].locations[0].physicalLocation.region).toBeUndefined()
+  })
+
+  test('formats findings as JUnit with errors failing and other findings skipped', () => {
+    const junit = formatFindings(findings, 'junit', '.doorman.json')
+
+    expect(junit).toContain('<testsuites name="vercel-doorman" tests="2" failures="1" errors="0" skipped="1">')
+    expect(junit).toContain(
+      'name=".doorman.json:12:5 Rule can never fire: &quot;&lt;admin&gt; &amp; co&quot; comes first"',
+    )
+    expect(junit).toContain('<failure type="VAL_2002" message="Duplicate rule name">Duplicate rule name</failure>')
+    expect(junit).toContain('<skipped message="warning: Rule can never fire:')
+
+    expect(formatFindings([], 'junit', '.doorman.json')).toContain(
+      '<testcase classname="vercel-doorman" name=".doorman.json" file=".doorman.json"/>',
+    )
+  })
+
+  test('summarizes findings in JSON output', () => {
+    const report = JSON.parse(formatFindings(findings, 'json', '.doorman.json'))
+
+    expect(report.file).toBe('.doorman.json')
+    expect(report.findings).toEqual(findings)
+    expect(report.summary).toEqual({ errors: 1, warnings: 1, notes: 0 })
+  })
+
+  test('prints reports to stdout as is, as the logger prefixes its lines in CI', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'doorman-findings-'))
+    const file = join(dir, '.doorman.json')
+    writeFileSync(file, JSON.stringify({ projectId: 'prj_1', rules: [] }, null, 2))
+    const chunks: string[] = []
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      chunks.push(String(chunk))
+      return true
+    })
+
+    try {
+      await reportFindings([findings[0]!], 'sarif', file)
+    } finally {
+      write.mockRestore()
+      rmSync(dir, { recursive: true, force: true })
+    }
+
+    expect(JSON.parse(chunks.join('')).runs[0].results).toHaveLength(1)
+  })
+})
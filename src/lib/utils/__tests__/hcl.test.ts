@@ -0,0 +1,107 @@
+import { describe, expect, test } from '@jest/globals'
+import { HclParseError, HclReference, hclString, parseHcl, renderHcl, toResourceName } from '../hcl'
+
+describe('hcl', () => {
+  test('hclString escapes quotes, backslashes and template sequences', () => {
+    expect(hclString('say "hi"\\n')).toBe('"say \\"hi\\"\\\\n"')
+    expect(hclString('${var.x} %{if}')).toBe('"$${var.x} %%{if}"')
+    expect(hclString('line\nbreak')).toBe('"line\\nbreak"')
+  })
+
+  test('toResourceName derives valid, unique names from IDs', () => {
+    const taken = new Set<string>()
+
+    expect(toResourceName('rule_Block Admin', taken)).toBe('rule_block_admin')
+    expect(toResourceName('rule_block admin', taken)).toBe('rule_block_admin_2')
+    expect(toResourceName('1.2.3.4', taken)).toBe('rule_1_2_3_4')
+  })
+
+  test('renderHcl aligns attributes and nests blocks', () => {
+    const hcl = renderHcl([
+      {
+        type: 'resource',
+        labels: ['example', 'main'],
+        body: [
+          { name: 'id', value: new HclReference('var.id') },
+          { name: 'enabled', value: true },
+          { name: 'unset', value: undefined },
+          { name: 'tags', value: ['a', 'b'] },
+          { type: 'rule', body: [{ name: 'limit', value: 10 }] },
+        ],
+      },
+    ])
+
+    expect(hcl).toBe(
+      [
+        'resource "example" "main" {',
+        '  id      = var.id',
+        '  enabled = true',
+        '  tags    = ["a", "b"]',
+        '',
+        '  rule {',
+        '    limit = 10',
+        '  }',
+        '}',
+        '',
+      ].join('\n'),
+    )
+  })
+})
+
+describe('parseHcl', () => {
+  test('parses blocks, attributes and collections', () => {
+    const entries = parseHcl(`
+      # Firewall
+      resource "example" "main" {
+        name    = "say \\"hi\\"" // trailing comment
+        limit   = 10
+        enabled = true
+        tags    = ["a", "b",]
+        action  = { type = "deny", "duration": null }
+        rule {
+          value = -1.5
+        }
+      }
+    `)
+
+    expect(entries).toEqual([
+      {
+        type: 'resource',
+        labels: ['example', 'main'],
+        body: [
+          { name: 'name', value: 'say "hi"' },
+          { name: 'limit', value: 10 },
+          { name: 'enabled', value: true },
+          { name: 'tags', value: ['a', 'b'] },
+          { name: 'action', value: { type: 'deny', duration: null } },
+          { type: 'rule', labels: [], body: [{ name: 'value', value: -1.5 }] },
+        ],
+      },
+    ])
+  })
+
+  test('returns references, function calls and interpolations as their source', () => {
+    const entries = parseHcl(`
+      id   = var.project_id
+      ref  = "\${local.prefix}"
+      text = "\${var.name}-rule"
+      call = lower(var.name)
+      doc  = <<-EOT
+        line
+      EOT
+    `)
+
+    expect(entries).toEqual([
+      { name: 'id', value: new HclReference('var.project_id') },
+      { name: 'ref', value: new HclReference('local.prefix') },
+      { name: 'text', value: new HclReference('"${var.name}-rule"') },
+      { name: 'call', value: new HclReference('lower(var.name)') },
+      { name: 'doc', value: 'line\n' },
+    ])
+  })
+
+  test('reports the line of unsupported expressions', () => {
+    expect(() => parseHcl('a = 1\nb = var.x ? 1 : 0\n')).toThrow(HclParseError)
+    expect(() => parseHcl('a = 1\nb = var.x ? 1 : 0\n')).toThrow(/line 2/)
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, expect, test } from '@jest/globals'
+import { MigrationErrorCode } from '../../errors'
+import type { CustomRule, FirewallConfig } from '../../types'
+import { migrateConfig } from '../migrate'
+
+const rule = (
+  id: string,
+  conditions: CustomRule['conditionGroup'][number]['conditions'],
+  mitigate: CustomRule['action']['mitigate'] = { action: 'deny' },
+): CustomRule => ({ id, name: id, active: true, conditionGroup: [{ conditions }], action: { mitigate } })
+
+const config: FirewallConfig = {
+  projectId: 'prj_123',
+  teamId: 'team_123',
+  version: 7,
+  rules: [
+    rule('rule_admin', [{ type: 'path', op: 'pre', value: '/admin' }]),
+    rule('rule_geo', [
+      { type: 'geo_country', op: 'inc', value: ['CN', 'RU'] },
+      { type: 'header', op: 'eq', key: 'x-env', value: 'staging', neg: true },
+    ]),
+    rule('rule_scheme', [{ type: 'scheme', op: 'eq', value: 'http' }]),
+    rule('rule_ja4', [{ type: 'ja4_digest', op: 'eq', value: 't13d1516h2' }]),
+  ],
+  ips: [{ id: 'ip_1', ip: '203.0.113.7', hostname: 'shop.example.com', action: 'deny' }],
+}
+
+describe('migrateConfig', () => {
+  test('reports each rule as fully migrated, lossy or failed', () => {
+    const { rules } = migrateConfig(config, 'vercel', 'cloudflare')
+
+    expect(rules.map(({ name, status }) => [name, status])).toEqual([
+      ['rule_admin', 'full'],
+      ['rule_geo', 'full'],
+      ['rule_scheme', 'lossy'],
+      ['rule_ja4', 'failed'],
+      ['203.0.113.7', 'lossy'],
+    ])
+    expect(rules[3]!.warnings).toEqual([
+      expect.objectContaining({ severity: 'critical', message: 'ja4_digest condition is not supported in cloudflare' }),
+    ])
+  })
+
+  test('flags fields the target provider changes', () => {
+    const limited = rule('rule_api', [{ type: 'path', op: 'pre', value: '/api' }], {
+      action: 'rate_limit',
+      rateLimit: { requests: 10, window: '60s' },
+    })
+
+    const [result] = migrateConfig({ rules: [limited] }, 'vercel', 'cloudflare').rules
+
+    expect(result!.status).toBe('lossy')
+    expect(result!.warnings).toContainEqual(
+      expect.objectContaining({ category: 'lossy_conversion', field: 'action, rateLimit' }),
+    )
+  })
+
+  test('writes a config for the target without failed rules or source identifiers', () => {
+    const { config: migrated } = migrateConfig(config, 'vercel', 'cloudflare', { zoneId: 'zone_123' })
+
+    expect(migrated).toEqual({
+      zoneId: 'zone_123',
+      rules: config.rules.slice(0, 3).map(({ id: _id, ...migratedRule }) => ({
+        ...migratedRule,
+        ...(migratedRule.name === 'rule_scheme'
+          ? { description: expect.stringMatching(/^Changes on cloudflare: /) }
+          : {}),
+      })),
+      ips: [{ ip: '203.0.113.7', hostname: 'shop.example.com', action: 'deny' }],
+    })
+  })
+
+  test('notes what changes in the description of lossy rules', () => {
+    const limited = {
+      ...rule('rule_api', [{ type: 'path', op: 'pre', value: '/api' }], {
+        action: 'rate_limit',
+        rateLimit: { requests: 10, window: '60s' },
+      }),
+      description: 'Throttle the API',
+    }
+
+    const [migrated] = migrateConfig({ rules: [limited] }, 'vercel', 'cloudflare').config.rules
+
+    expect(migrated!.description).toMatch(/^Throttle the API \| Changes on cloudflare: .*translation may be lossy/)
+    expect(migrated!.action).toEqual(limited.action)
+  })
+
+  test('summarizes warnings and marks critical ones as blocking', () => {
+    const { summary } = migrateConfig(config, 'vercel', 'cloudflare')
+
+    expect(summary.bySeverity.critical).toBe(1)
+    expect(summary.hasBlockingIssues).toBe(true)
+    expect(migrateConfig({ rules: config.rules.slice(0, 2) }, 'vercel', 'cloudflare').summary.total).toBe(0)
+  })
+
+  test('migrates Cloudflare configs to Vercel without losses', () => {
+    const { rules } = migrateConfig({ zoneId: 'zone_123', rules: config.rules }, 'cloudflare', 'vercel')
+
+    expect(rules.every((result) => result.status === 'full')).toBe(true)
+  })
+
+  test('refuses to migrate a config to its own provider', () => {
+    expect(() => migrateConfig(config, 'vercel', 'vercel')).toThrow(
+      expect.objectContaining({ code: MigrationErrorCode.INCOMPATIBLE }),
+    )
+  })
+})
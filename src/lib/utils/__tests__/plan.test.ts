@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { ChangeSet } from '../../providers/IFirewallProvider'
+import type { UnifiedConfig } from '../../types/unified'
+import { assertPlanCurrent, assertPlanTarget, createPlan, readPlan, writePlan } from '../plan'
+
+const rule = {
+  id: 'rule_block_admin',
+  name: 'Block admin',
+  enabled: true,
+  conditions: [{ field: 'path' as const, operator: 'starts_with' as const, value: '/admin' }],
+  conditionLogic: 'AND' as const,
+  action: { type: 'deny' as const },
+}
+
+const config: UnifiedConfig = { version: '2.0', provider: 'vercel', rules: [rule], ips: [] }
+
+const target = { projectId: 'prj_1', teamId: 'team_1' }
+
+const changes: ChangeSet = {
+  rulesToAdd: [rule],
+  rulesToUpdate: [],
+  rulesToDelete: [],
+  ipsToAdd: [],
+  ipsToUpdate: [],
+  ipsToDelete: [],
+  hasChanges: true,
+  version: 7,
+  updatedAt: '2024-05-01T12:00:00Z',
+}
+
+describe('plan', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'doorman-plan-'))
+    path = join(dir, 'doorman.plan.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('records the remote state and round-trips through a file', () => {
+    const plan = createPlan('vercel', target, config, changes)
+    expect(plan.remote).toEqual({ version: 7, updatedAt: '2024-05-01T12:00:00Z' })
+    expect(plan.hash).toMatch(/^[0-9a-f]{64}$/)
+
+    writePlan(plan, path)
+    expect(readPlan(path)).toEqual(plan)
+  })
+
+  test('rejects a plan edited after it was created', () => {
+    writePlan(createPlan('vercel', target, config, changes), path)
+    const edited = JSON.parse(readFileSync(path, 'utf8'))
+    edited.changes.rulesToAdd[0].action.type = 'log'
+    writeFileSync(path, JSON.stringify(edited))
+
+    expect(() => readPlan(path)).toThrow(/Invalid plan file/)
+  })
+
+  test('rejects missing and malformed plan files', () => {
+    expect(() => readPlan(path)).toThrow(/Invalid plan file/)
+    writeFileSync(path, '{ not json')
+    expect(() => readPlan(path)).toThrow(/Invalid plan file/)
+  })
+
+  test('rejects plans from an older format without a target', () => {
+    const { target: _target, ...legacy } = createPlan('vercel', target, config, changes)
+    writeFileSync(path, JSON.stringify({ ...legacy, formatVersion: 1 }))
+
+    expect(() => readPlan(path)).toThrow(/Invalid plan file/)
+  })
+
+  test('refuses a plan made for another project or team', () => {
+    const plan = createPlan('vercel', target, config, changes)
+
+    expect(() => assertPlanTarget(plan, { ...target })).not.toThrow()
+    expect(() => assertPlanTarget(plan, { projectId: 'prj_2', teamId: 'team_1' }, path)).toThrow(
+      /made for projectId prj_1, not projectId prj_2/,
+    )
+    expect(() => assertPlanTarget(plan, { projectId: 'prj_1' })).toThrow(/teamId team_1, not teamId \(none\)/)
+  })
+
+  test('hash does not depend on key order', () => {
+    const plan = createPlan('vercel', target, config, changes)
+    const reordered = Object.fromEntries(Object.entries(plan).reverse())
+    writeFileSync(path, JSON.stringify(reordered))
+
+    expect(readPlan(path).hash).toBe(plan.hash)
+  })
+
+  test('accepts a plan when the remote is unchanged', () => {
+    const plan = createPlan('vercel', target, config, changes)
+    expect(() => assertPlanCurrent(plan, { ...changes })).not.toThrow()
+  })
+
+  test('refuses a plan when the remote version or timestamp moved', () => {
+    const plan = createPlan('vercel', target, config, changes)
+
+    expect(() => assertPlanCurrent(plan, { ...changes, version: 8 })).toThrow(/has changed since the plan was created/)
+    expect(() => assertPlanCurrent(plan, { ...changes, updatedAt: '2024-05-02T00:00:00Z' })).toThrow(
+      /has changed since the plan was created/,
+    )
+  })
+
+  test('refuses a plan when the recomputed changes differ', () => {
+    const plan = createPlan('vercel', target, config, changes)
+    expect(() => assertPlanCurrent(plan, { ...changes, rulesToAdd: [], rulesToUpdate: [rule] })).toThrow(
+      /has changed since the plan was created/,
+    )
+  })
+})
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { ChangeSet } from '../../providers/IFirewallProvider'
+import type { CustomRule, FirewallConfig, Policy } from '../../types'
+import { enforcePolicies, evaluatePolicies, findPolicyViolations, loadPolicies, POLICIES_ENV_VAR } from '../policies'
+
+const rule = (name: string, action: CustomRule['action']['mitigate'], path?: string): CustomRule => ({
+  id: `rule_${name.toLowerCase().replace(/\s+/g, '_')}`,
+  name,
+  active: true,
+  conditionGroup: [
+    {
+      conditions: path
+        ? [{ type: 'path', op: 'pre', value: path }]
+        : [{ type: 'user_agent', op: 'sub', value: 'BadBot' }],
+    },
+  ],
+  action: { mitigate: action },
+})
+
+const config: FirewallConfig = {
+  rules: [
+    rule('Block bots', { action: 'deny' }),
+    rule('Block everything', { action: 'deny' }, '/'),
+    rule('Limit API', { action: 'rate_limit', rateLimit: { requests: 100, window: '60s' } }, '/api'),
+    rule('Office', { action: 'bypass' }, '/admin'),
+    rule('Monitors', { action: 'bypass' }, '/health'),
+  ],
+  ips: [
+    { ip: '1.2.3.4', hostname: '*', action: 'deny', notes: 'Scraper' },
+    { ip: '5.6.7.8', hostname: '*', action: 'deny' },
+  ],
+}
+
+describe('evaluatePolicies', () => {
+  test('reports each violation with the policy that caught it', () => {
+    const policies: Policy[] = [
+      { type: 'protected_paths', name: 'Home page stays up', paths: ['/', '/about'] },
+      { type: 'rate_limit_duration' },
+      { type: 'ip_notes', description: 'so blocks can be reviewed' },
+      { type: 'max_rules', action: 'bypass', max: 1 },
+    ]
+
+    expect(evaluatePolicies(policies, config)).toEqual([
+      'Home page stays up: rule "Block bots" would deny requests to /, /about',
+      'Home page stays up: rule "Block everything" would deny requests to /, /about',
+      'rate_limit_duration: rate limit rule "Limit API" does not set actionDuration',
+      'ip_notes: IP blocking rule for 5.6.7.8 has no notes (so blocks can be reviewed)',
+      'max_rules: 2 active bypass rules, at most 1 allowed',
+    ])
+  })
+
+  test('keeps where in the config each violation is', () => {
+    const policies: Policy[] = [
+      { type: 'protected_paths', paths: ['/'] },
+      { type: 'rate_limit_duration' },
+      { type: 'ip_notes' },
+      { type: 'max_rules', action: 'bypass', max: 1 },
+    ]
+
+    expect(findPolicyViolations(policies, config).map((violation) => violation.path)).toEqual([
+      ['rules', 0],
+      ['rules', 1],
+      ['rules', 2, 'action', 'mitigate'],
+      ['ips', 1],
+      ['rules'],
+    ])
+  })
+
+  test('passes configs that satisfy every policy', () => {
+    const satisfying: FirewallConfig = {
+      rules: [
+        rule('Challenge bots', { action: 'challenge' }),
+        rule('Block admin', { action: 'deny' }, '/admin'),
+        rule('Limit API', { action: 'rate_limit', rateLimit: { requests: 100, window: '60s' }, actionDuration: '1h' }),
+      ],
+      ips: [{ ip: '1.2.3.4', hostname: '*', action: 'deny', notes: 'Scraper' }],
+    }
+
+    expect(
+      evaluatePolicies(
+        [
+          { type: 'protected_paths', paths: ['/'] },
+          { type: 'rate_limit_duration' },
+          { type: 'ip_notes' },
+          { type: 'max_rules', action: 'bypass', max: 0 },
+        ],
+        satisfying,
+      ),
+    ).toEqual([])
+  })
+
+  test('protects paths from rules without a path condition', () => {
+    const policies: Policy[] = [{ type: 'protected_paths', paths: ['/pricing'] }]
+    const byCountry: CustomRule = {
+      ...rule('Block country', { action: 'deny' }),
+      conditionGroup: [{ conditions: [{ type: 'geo_country', op: 'eq', value: 'XX' }] }],
+    }
+
+    expect(evaluatePolicies(policies, { rules: [byCountry] })).toEqual([
+      'protected_paths: rule "Block country" would deny requests to /pricing',
+    ])
+  })
+
+  test('only allows deletions with --allow-delete', () => {
+    const changes = {
+      rulesToAdd: [],
+      rulesToUpdate: [],
+      rulesToDelete: [{ id: 'rule_old', name: 'Old rule', enabled: true, conditions: [], action: { type: 'deny' } }],
+      ipsToDelete: [{ ip: '9.9.9.9', action: 'deny' }],
+      hasChanges: true,
+    } as ChangeSet
+    const policies: Policy[] = [{ type: 'no_deletions' }]
+
+    expect(evaluatePolicies(policies, config, { changes })).toEqual([
+      'no_deletions: deleting rule "Old rule" requires --allow-delete',
+      'no_deletions: deleting IP blocking rule for 9.9.9.9 requires --allow-delete',
+    ])
+    expect(evaluatePolicies(policies, config, { changes, allowDelete: true })).toEqual([])
+    expect(evaluatePolicies(policies, config)).toEqual([])
+  })
+})
+
+describe('loadPolicies', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'doorman-policies-'))
+  })
+
+  afterEach(() => {
+    delete process.env[POLICIES_ENV_VAR]
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('reads the file named by DOORMAN_POLICIES', () => {
+    const path = join(dir, 'policies.yaml')
+    writeFileSync(path, 'policies:\n  - type: ip_notes\n')
+    process.env[POLICIES_ENV_VAR] = path
+
+    expect(loadPolicies()).toEqual({ path, policies: [{ type: 'ip_notes' }] })
+  })
+
+  test('prefers DOORMAN_POLICIES over --policies and the working directory', () => {
+    const enforced = join(dir, 'org.json')
+    writeFileSync(enforced, JSON.stringify({ policies: [{ type: 'no_deletions' }] }))
+    const project = join(dir, 'project.json')
+    writeFileSync(project, JSON.stringify({ policies: [] }))
+    process.env[POLICIES_ENV_VAR] = enforced
+
+    expect(loadPolicies(project)).toEqual({ path: enforced, policies: [{ type: 'no_deletions' }] })
+
+    const cwd = process.cwd()
+    try {
+      process.chdir(dir)
+      writeFileSync('doorman.policies.json', JSON.stringify({ policies: [] }))
+      expect(loadPolicies()).toEqual({ path: enforced, policies: [{ type: 'no_deletions' }] })
+    } finally {
+      process.chdir(cwd)
+    }
+  })
+
+  test('fails when a requested file is missing or invalid', () => {
+    expect(() => loadPolicies(join(dir, 'missing.json'))).toThrow(expect.objectContaining({ code: 'CONFIG_1009' }))
+
+    const path = join(dir, 'policies.json')
+    writeFileSync(path, JSON.stringify({ policies: [{ type: 'max_rules', action: 'bypass' }] }))
+    expect(() => loadPolicies(path)).toThrow('policies.0.max')
+  })
+
+  test('throws a policy violation with every violation in its details', () => {
+    const path = join(dir, 'policies.json')
+    writeFileSync(path, JSON.stringify({ policies: [{ type: 'ip_notes' }] }))
+
+    expect(() => enforcePolicies(config, path)).toThrow(
+      expect.objectContaining({
+        code: 'VAL_2006',
+        details: { path, violations: ['ip_notes: IP blocking rule for 5.6.7.8 has no notes'] },
+      }),
+    )
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, expect, test } from '@jest/globals'
+import type { CustomRule, FirewallConfig } from '../../types'
+import { analyzeRegex, checkRegexSafety, MAX_REGEX_LENGTH } from '../regexSafety'
+
+const codes = (pattern: string, engine: 'vercel' | 'cloudflare') =>
+  analyzeRegex(pattern, engine).map((finding) => finding.code)
+
+describe('analyzeRegex', () => {
+  test.each(['^/api/v[0-9]+', '.*bot.*', '(foo|bar)+', '(?:[a-z]+\\.)+com$', '^(/[^/]+)+/?$', '(\\s*,\\s*)*'])(
+    'accepts %s',
+    (pattern) => {
+      expect(analyzeRegex(pattern, 'vercel')).toEqual([])
+      expect(analyzeRegex(pattern, 'cloudflare')).toEqual([])
+    },
+  )
+
+  test.each(['(a+)+$', '^(\\d+)*$', '(\\w+\\s?)*$', '(a|ab)*c', '(\\w|\\d)+x', '(.|a)*'])(
+    'detects catastrophic backtracking in %s for Vercel only',
+    (pattern) => {
+      expect(codes(pattern, 'vercel')).toEqual(['catastrophic_backtracking'])
+      expect(codes(pattern, 'cloudflare')).toEqual([])
+    },
+  )
+
+  test('rejects lookarounds and backreferences on Cloudflare', () => {
+    expect(analyzeRegex('^/(?!admin)(?<=x)\\w+', 'cloudflare').map((finding) => finding.message)).toEqual([
+      `Lookaround "(?!" is not supported by Cloudflare's regex engine`,
+      `Lookaround "(?<=" is not supported by Cloudflare's regex engine`,
+    ])
+    expect(codes('(a)\\1|(?<b>c)\\k<b>', 'cloudflare')).toEqual(['unsupported_syntax', 'unsupported_syntax'])
+    expect(codes('(a)\\1', 'vercel')).toEqual([])
+  })
+
+  test('rejects Rust-only syntax on Vercel', () => {
+    expect(codes('(?i)bot', 'vercel')).toEqual(['unsupported_syntax'])
+    expect(codes('\\Afoo\\z', 'vercel')).toEqual(['unsupported_syntax', 'unsupported_syntax'])
+    expect(codes('[[:alpha:]]+(?P<x>a)', 'vercel')).toEqual(['unsupported_syntax', 'unsupported_syntax'])
+    expect(codes('(?i)\\Abot[[:digit:]]', 'cloudflare')).toEqual([])
+  })
+
+  test('reports patterns that do not compile', () => {
+    expect(analyzeRegex('(unclosed', 'vercel')).toEqual([
+      expect.objectContaining({ code: 'invalid_syntax', severity: 'error' }),
+    ])
+    expect(codes('[z-a]', 'cloudflare')).toEqual(['invalid_syntax'])
+  })
+
+  test('checks size limits', () => {
+    expect(codes('a'.repeat(MAX_REGEX_LENGTH + 1), 'vercel')).toEqual(['too_large'])
+    expect(analyzeRegex('\\w{2000}', 'cloudflare')).toEqual([
+      expect.objectContaining({ code: 'too_large', severity: 'warning' }),
+    ])
+    expect(codes('\\w{2000}', 'vercel')).toEqual([])
+  })
+})
+
+describe('checkRegexSafety', () => {
+  const rule = (id: string, conditions: CustomRule['conditionGroup'][number]['conditions']): CustomRule => ({
+    id,
+    name: id.replace('rule_', ''),
+    active: true,
+    conditionGroup: [{ conditions }],
+    action: { mitigate: { action: 'deny' } },
+  })
+
+  test('reports issues with the rule id and condition path', () => {
+    const config: FirewallConfig = {
+      rules: [
+        rule('rule_safe', [{ type: 'path', op: 're', value: '^/api' }]),
+        rule('rule_unsafe', [
+          { type: 'path', op: 'pre', value: '/admin' },
+          { type: 'user_agent', op: 're', value: ['bot', '(a+)+$', 'x{1,5000}'] },
+        ]),
+      ],
+    }
+
+    const issues = checkRegexSafety(config, ['vercel', 'cloudflare'])
+
+    expect(issues.map(({ ruleId, path, code, engines }) => ({ ruleId, path, code, engines }))).toEqual([
+      {
+        ruleId: 'rule_unsafe',
+        path: 'rules.1.conditionGroup.0.conditions.1.value.1',
+        code: 'catastrophic_backtracking',
+        engines: ['vercel'],
+      },
+      {
+        ruleId: 'rule_unsafe',
+        path: 'rules.1.conditionGroup.0.conditions.1.value.2',
+        code: 'too_large',
+        engines: ['cloudflare'],
+      },
+    ])
+  })
+
+  test('reports a problem shared by several engines once', () => {
+    const config: FirewallConfig = { rules: [rule('rule_broken', [{ type: 'path', op: 're', value: '(' }])] }
+
+    expect(checkRegexSafety(config, ['vercel', 'cloudflare'])).toEqual([
+      expect.objectContaining({
+        path: 'rules.0.conditionGroup.0.conditions.0.value',
+        code: 'invalid_syntax',
+        engines: ['vercel', 'cloudflare'],
+      }),
+    ])
+  })
+})
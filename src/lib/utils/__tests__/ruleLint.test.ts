@@ -0,0 +1,131 @@
+import { describe, expect, test } from '@jest/globals'
+import type { CustomRule, RuleAction, RuleCondition } from '../../types'
+import { lintRules } from '../ruleLint'
+
+const rule = (id: string, action: RuleAction['mitigate']['action'], ...groups: RuleCondition[][]): CustomRule => ({
+  id,
+  name: id.replace('rule_', ''),
+  active: true,
+  conditionGroup: groups.map((conditions) => ({ conditions })),
+  action: { mitigate: { action } },
+})
+
+const summary = (rules: CustomRule[]) => lintRules(rules).map(({ code, path }) => `${code} ${path}`)
+
+describe('lintRules', () => {
+  test('finds rules shadowed by an earlier, broader rule', () => {
+    const rules = [
+      rule('rule_block_api', 'deny', [{ type: 'path', op: 'pre', value: '/api' }]),
+      rule('rule_limit_login', 'rate_limit', [
+        { type: 'path', op: 'pre', value: '/api/login' },
+        { type: 'method', op: 'eq', value: 'POST' },
+      ]),
+      rule('rule_block_admin', 'deny', [{ type: 'path', op: 'eq', value: '/api/admin' }]),
+      rule('rule_block_app', 'deny', [{ type: 'path', op: 'pre', value: '/app' }]),
+    ]
+
+    const issues = lintRules(rules)
+
+    expect(issues.map(({ code, path }) => `${code} ${path}`)).toEqual([
+      'shadowed_rule rules.1',
+      'shadowed_rule rules.2',
+    ])
+    expect(issues[0]).toMatchObject({
+      ruleId: 'rule_limit_login',
+      message: 'Rule can never fire: "block_api" comes first and matches every request it does',
+      suggestion: 'Move "limit_login" above "block_api", or narrow the conditions of "block_api"',
+    })
+    expect(issues[1]?.suggestion).toBe('Remove "block_admin", as "block_api" covers it')
+  })
+
+  test('ignores earlier log rules and inactive rules', () => {
+    const broad = rule('rule_log_api', 'log', [{ type: 'path', op: 'pre', value: '/api' }])
+    const inactive = { ...rule('rule_old', 'deny', [{ type: 'path', op: 'pre', value: '/api' }]), active: false }
+
+    expect(
+      summary([broad, inactive, rule('rule_deny_login', 'deny', [{ type: 'path', op: 'eq', value: '/api/login' }])]),
+    ).toEqual([])
+  })
+
+  test('finds exact and semantic duplicates', () => {
+    const rules = [
+      rule(
+        'rule_methods',
+        'deny',
+        [{ type: 'method', op: 'inc', value: ['PUT', 'DELETE'] }],
+        [{ type: 'host', op: 'eq', value: 'example.com' }],
+      ),
+      rule(
+        'rule_methods_copy',
+        'deny',
+        [{ type: 'host', op: 'eq', value: 'example.com' }],
+        [{ type: 'method', op: 'inc', value: ['PUT', 'DELETE'] }],
+      ),
+      rule('rule_host', 'challenge', [{ type: 'host', op: 'inc', value: ['Example.com'] }]),
+      rule('rule_host_again', 'challenge', [{ type: 'host', op: 'eq', value: 'example.com' }]),
+    ]
+
+    const issues = lintRules(rules)
+
+    expect(issues.map(({ code, path }) => `${code} ${path}`)).toEqual([
+      'duplicate_rule rules.1',
+      'shadowed_rule rules.2',
+      'shadowed_rule rules.3',
+    ])
+    expect(issues[0]?.message).toBe('Rule duplicates "methods": same conditions and action')
+    expect(lintRules([rules[2]!, rules[3]!]).map(({ code, message }) => `${code}: ${message}`)).toEqual([
+      'duplicate_rule: Rule is equivalent to "host": its conditions match the same requests with the same action',
+    ])
+  })
+
+  test('finds contradictory conditions within a group', () => {
+    const issues = lintRules([
+      rule(
+        'rule_methods',
+        'deny',
+        [
+          { type: 'method', op: 'eq', value: 'GET' },
+          { type: 'method', op: 'eq', value: 'POST' },
+        ],
+        [
+          { type: 'path', op: 'pre', value: '/api' },
+          { type: 'path', op: 'pre', value: '/app' },
+        ],
+        [
+          { type: 'header', key: 'X-Debug', op: 'ex' },
+          { type: 'header', key: 'x-debug', op: 'nex' },
+        ],
+        [
+          { type: 'path', op: 'pre', value: '/api/internal' },
+          { type: 'path', op: 'pre', value: '/api', neg: true },
+        ],
+        [
+          { type: 'method', op: 'eq', value: 'GET' },
+          { type: 'path', op: 'pre', value: '/api' },
+        ],
+      ),
+    ])
+
+    expect(issues.map(({ code, path, severity }) => `${severity} ${code} ${path}`)).toEqual([
+      'error contradictory_conditions rules.0.conditionGroup.0',
+      'error contradictory_conditions rules.0.conditionGroup.1',
+      'error contradictory_conditions rules.0.conditionGroup.2',
+      'error contradictory_conditions rules.0.conditionGroup.3',
+    ])
+    expect(issues[0]?.message).toBe('Condition group 1 can never match: method eq "GET" contradicts method eq "POST"')
+  })
+
+  test('finds groups that match every request', () => {
+    expect(
+      summary([
+        rule(
+          'rule_everything',
+          'challenge',
+          [{ type: 'path', op: 'pre', value: '/' }],
+          [{ type: 'user_agent', op: 're', value: '.*' }],
+          [{ type: 'user_agent', op: 're', value: '.*bot.*' }],
+        ),
+      ]),
+    ).toEqual(['always_true_group rules.0.conditionGroup.0', 'always_true_group rules.0.conditionGroup.1'])
+  })
+})
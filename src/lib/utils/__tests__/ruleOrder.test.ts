@@ -0,0 +1,41 @@
+import { describe, expect, test } from '@jest/globals'
+import type { UnifiedRule } from '../../types/unified'
+import { findMovedRules, orderRules } from '../ruleOrder'
+
+const rule = (id: string, priority?: number): UnifiedRule => ({
+  id,
+  name: id,
+  enabled: true,
+  conditions: [{ field: 'path', operator: 'eq', value: `/${id}` }],
+  action: { type: 'deny' },
+  ...(priority !== undefined ? { priority } : {}),
+})
+
+const ids = (rules: UnifiedRule[]) => rules.map((r) => r.id)
+const byId = (r: UnifiedRule) => r.id
+
+describe('orderRules', () => {
+  test('keeps config order when no rule has a priority', () => {
+    expect(ids(orderRules([rule('a'), rule('b'), rule('c')]))).toEqual(['a', 'b', 'c'])
+  })
+
+  test('places rules with a priority at that position', () => {
+    expect(ids(orderRules([rule('a'), rule('b'), rule('c', 0)]))).toEqual(['c', 'a', 'b'])
+  })
+})
+
+describe('findMovedRules', () => {
+  test('reports nothing when the shared rules are in order', () => {
+    expect(findMovedRules([rule('a'), rule('new'), rule('b')], ['a', 'gone', 'b'], byId)).toEqual([])
+  })
+
+  test('reports the fewest rules needed to restore the order', () => {
+    const moved = findMovedRules([rule('bypass'), rule('a'), rule('b'), rule('c')], ['a', 'b', 'c', 'bypass'], byId)
+
+    expect(moved).toEqual([expect.objectContaining({ id: 'bypass', priority: 0 })])
+  })
+
+  test('reports swapped rules', () => {
+    expect(ids(findMovedRules([rule('b'), rule('a')], ['a', 'b'], byId))).toHaveLength(1)
+  })
+})
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals'
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { RuleTranslator } from '../../translators'
+import type { UnifiedConfig, UnifiedRule } from '../../types/unified'
+import { ruleContentHash } from '../ruleContentHash'
+import { assertJournalMatches, createJournal, readJournal, SyncJournalWriter, withCreatedRuleIds } from '../syncJournal'
+
+jest.mock('../../logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}))
+
+const config: UnifiedConfig = {
+  version: '2.0',
+  provider: 'vercel',
+  rules: [
+    {
+      id: 'rule_block_admin',
+      name: 'Block admin',
+      enabled: true,
+      conditions: [{ field: 'path', operator: 'starts_with', value: '/admin' }],
+      conditionLogic: 'AND',
+      action: { type: 'deny' },
+    },
+  ],
+  ips: [],
+}
+
+describe('syncJournal', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'doorman-journal-'))
+    path = join(dir, 'doorman.vercel.journal.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('records planned operations and marks them done as they land', () => {
+    const writer = new SyncJournalWriter(path, createJournal('vercel', config, { version: 4 }))
+
+    writer.plan(['delete rule rule_old', 'add rule Block admin'])
+    writer.complete('delete rule rule_old')
+    writer.complete('move rule rule_new')
+
+    const journal = readJournal(path)
+    expect(journal).toMatchObject({ provider: 'vercel', remote: { version: 4 } })
+    expect(journal.operations.map(({ description, status }) => [description, status])).toEqual([
+      ['delete rule rule_old', 'done'],
+      ['add rule Block admin', 'pending'],
+      ['move rule rule_new', 'done'],
+    ])
+  })
+
+  test('carries the completed operations of an interrupted sync into the resumed one', () => {
+    const interrupted = new SyncJournalWriter(path, createJournal('vercel', config, { version: 4 }))
+    interrupted.plan(['delete rule rule_old', 'add rule Block admin'])
+    interrupted.complete('delete rule rule_old')
+
+    const previous = readJournal(path)
+    const resumed = new SyncJournalWriter(path, createJournal('vercel', config, { version: 5 }, undefined, previous))
+    resumed.plan(['add rule Block admin'])
+
+    expect(readJournal(path)).toMatchObject({
+      startedAt: previous.startedAt,
+      remote: { version: 4 },
+      operations: [
+        { description: 'delete rule rule_old', status: 'done' },
+        { description: 'add rule Block admin', status: 'pending' },
+      ],
+    })
+
+    resumed.complete('add rule Block admin')
+    resumed.finish()
+    expect(existsSync(path)).toBe(false)
+  })
+
+  test('gives rules the interrupted sync created the IDs the provider assigned them', () => {
+    const localConfig = { ...config, rules: [{ ...config.rules[0]!, id: undefined }] }
+    const hash = ruleContentHash(RuleTranslator.unifiedToVercel(localConfig.rules[0]!).result)
+    const interrupted = new SyncJournalWriter(path, createJournal('vercel', localConfig, { version: 4 }))
+    interrupted.plan(['add rule Block admin'])
+    interrupted.complete('add rule Block admin', { hash, id: 'rule_vercel_1' })
+
+    const previous = readJournal(path)
+    expect(previous.operations[0]).toMatchObject({ status: 'done', created: { hash, id: 'rule_vercel_1' } })
+    expect(withCreatedRuleIds(localConfig, previous).rules[0]?.id).toBe('rule_vercel_1')
+    expect(withCreatedRuleIds(localConfig, createJournal('vercel', localConfig, {}))).toBe(localConfig)
+  })
+
+  test('tells apart created rules that share a name by their content', () => {
+    const blockPath = (value: string): UnifiedRule => ({
+      name: 'Block path',
+      enabled: true,
+      conditions: [{ field: 'path', operator: 'eq', value }],
+      conditionLogic: 'AND',
+      action: { type: 'deny' },
+    })
+    const localConfig = { ...config, rules: [blockPath('/admin'), blockPath('/api'), blockPath('/api')] }
+    const hash = (rule: UnifiedRule) => ruleContentHash(RuleTranslator.unifiedToVercel(rule).result)
+    const interrupted = new SyncJournalWriter(path, createJournal('vercel', localConfig, { version: 4 }))
+    interrupted.plan(['add rule Block path', 'add rule Block path', 'add rule Block path'])
+    interrupted.complete('add rule Block path', { hash: hash(blockPath('/api')), id: 'rule_vercel_1' })
+    interrupted.complete('add rule Block path', { hash: hash(blockPath('/api')), id: 'rule_vercel_2' })
+
+    expect(withCreatedRuleIds(localConfig, readJournal(path)).rules.map((rule) => rule.id)).toEqual([
+      undefined,
+      'rule_vercel_1',
+      'rule_vercel_2',
+    ])
+  })
+
+  test('refuses to resume with a different config or environment', () => {
+    const journal = createJournal('vercel', config, {}, 'staging')
+
+    expect(() => assertJournalMatches(journal, path, 'vercel', config, 'staging')).not.toThrow()
+    expect(() => assertJournalMatches(journal, path, 'vercel', config)).toThrow(
+      expect.objectContaining({ code: 'SYNC_3010' }),
+    )
+    expect(() => assertJournalMatches(journal, path, 'vercel', { ...config, rules: [] }, 'staging')).toThrow(
+      'the config has changed since it was started',
+    )
+    expect(() => assertJournalMatches(journal, path, 'cloudflare', config, 'staging')).toThrow('it is a sync to Vercel')
+  })
+
+  test('rejects missing and malformed journals', () => {
+    expect(() => readJournal(path)).toThrow('no interrupted sync was found')
+
+    writeFileSync(path, '{')
+    expect(() => readJournal(path)).toThrow('not valid JSON')
+
+    writeFileSync(path, JSON.stringify({ ...createJournal('vercel', config, {}), formatVersion: 99 }))
+    expect(() => readJournal(path)).toThrow('unsupported format version 99')
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, expect, test } from '@jest/globals'
+import type { FirewallConfig } from '../../types'
+import { generateTerraformConfig } from '../terraform'
+
+const config: FirewallConfig = {
+  projectId: 'prj_123',
+  rules: [
+    {
+      id: 'rule_block_admin',
+      name: 'Block "admin"',
+      conditionGroup: [
+        {
+          conditions: [
+            { type: 'path', op: 'pre', value: '/admin' },
+            { type: 'method', op: 'inc', value: ['POST', 'PUT'] },
+          ],
+        },
+      ],
+      action: { mitigate: { action: 'deny' } },
+      active: true,
+    },
+    {
+      id: 'rule_api_limit',
+      name: 'API rate limit',
+      conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: '/api' }] }],
+      action: { mitigate: { action: 'rate_limit', rateLimit: { requests: 100, window: '1m' } } },
+      active: true,
+    },
+  ],
+  ips: [{ ip: '1.2.3.4', hostname: '*', action: 'deny', notes: 'Scraper' }],
+}
+
+describe('generateTerraformConfig', () => {
+  test('writes a vercel_firewall_config with conditions, rate limits and IP rules', () => {
+    const { result, warnings } = generateTerraformConfig(config, 'vercel')
+
+    expect(result).toContain('resource "vercel_firewall_config" "doorman" {')
+    expect(result).toMatch(/default\s+= "prj_123"/)
+    expect(result).toContain('name            = "Block \\"admin\\""')
+    expect(result).toMatch(/values = \["POST", "PUT"\]/)
+    expect(result).toMatch(/limit\s+= 100\n\s+window\s+= 60/)
+    expect(result).toMatch(/ip_rules {\n\s+rule {\n\s+action\s+= "deny"\n\s+ip\s+= "1.2.3.4"/)
+    expect(warnings).toEqual([])
+  })
+
+  test('writes managed rulesets, attack mode and bypass rules for Vercel', () => {
+    const { result } = generateTerraformConfig(
+      {
+        ...config,
+        crs: { sqli: { active: true, action: 'deny' } },
+        managedRules: { bot_protection: { active: true, action: 'challenge' } },
+        attackMode: { enabled: true },
+        bypass: [{ sourceIp: '203.0.113.10', domain: 'example.com' }],
+      },
+      'vercel',
+    )
+
+    expect(result).toMatch(/managed_rulesets {\n\s+owasp = {\n\s+sqli = {/)
+    expect(result).toContain('bot_protection = {')
+    expect(result).toContain('resource "vercel_attack_challenge_mode" "doorman" {')
+    expect(result).toContain('resource "vercel_firewall_bypass" "bypass_203_0_113_10_example_com" {')
+  })
+
+  test('writes Cloudflare rulesets per phase with rule IDs as refs and a list of blocked IPs', () => {
+    const { result } = generateTerraformConfig(config, 'cloudflare')
+
+    expect(result).toContain('resource "cloudflare_list" "doorman_ip_blocklist" {')
+    expect(result).toMatch(/item {\n\s+value {\n\s+ip = "1.2.3.4"\n\s+}\n\s+comment = "Scraper"/)
+    expect(result).toContain('phase       = "http_request_firewall_custom"')
+    expect(result).toContain('ref         = "rule_block_admin"')
+    expect(result).toContain(
+      'expression  = "(http.request.uri.path starts_with \\"/admin\\" and http.request.method in {\\"POST\\" \\"PUT\\"})"',
+    )
+    expect(result).toContain('expression  = "ip.src in $doorman_ip_blocklist"')
+    expect(result).toContain('phase       = "http_ratelimit"')
+    expect(result).toMatch(/ratelimit {\n\s+characteristics\s+= \["cf.colo.id", "ip.src"\]/)
+  })
+
+  test('writes exact Cloudflare expressions, leaving IPs and CIDRs unquoted', () => {
+    const { result } = generateTerraformConfig(
+      {
+        projectId: 'prj_123',
+        rules: [
+          {
+            id: 'rule_block_office',
+            name: 'Block office',
+            conditionGroup: [
+              { conditions: [{ type: 'ip_address', op: 'eq', value: '192.168.1.1' }] },
+              { conditions: [{ type: 'ip_address', op: 'inc', value: ['10.0.0.0/24', '10.0.1.0/24'] }] },
+            ],
+            action: { mitigate: { action: 'deny' } },
+            active: true,
+          },
+        ],
+        ips: [],
+      },
+      'cloudflare',
+    )
+
+    expect(result).toContain('expression  = "ip.src eq 192.168.1.1 or ip.src in {10.0.0.0/24 10.0.1.0/24}"')
+  })
+
+  test('warns that action durations are dropped for Cloudflare', () => {
+    const rule = config.rules[0]!
+    const { result, warnings } = generateTerraformConfig(
+      {
+        ...config,
+        rules: [{ ...rule, action: { mitigate: { action: 'deny', actionDuration: '24h' } } }],
+      },
+      'cloudflare',
+    )
+
+    expect(result).not.toContain('24h')
+    expect(warnings).toContainEqual(
+      expect.objectContaining({
+        rule: 'rule_block_admin',
+        field: 'action.mitigate.actionDuration',
+        category: 'lossy_conversion',
+      }),
+    )
+  })
+
+  test('warns about Vercel-only settings when exporting for Cloudflare', () => {
+    const { result, warnings } = generateTerraformConfig({ ...config, attackMode: { enabled: true } }, 'cloudflare')
+
+    expect(result).not.toContain('attack')
+    expect(warnings).toContainEqual(expect.objectContaining({ field: 'attackMode', severity: 'critical' }))
+  })
+
+  test('produces the same output for the same config', () => {
+    expect(generateTerraformConfig(config, 'cloudflare').result).toBe(
+      generateTerraformConfig(config, 'cloudflare').result,
+    )
+  })
+})
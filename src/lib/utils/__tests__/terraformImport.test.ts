@@ -0,0 +1,113 @@
+import { describe, expect, test } from '@jest/globals'
+import type { FirewallConfig } from '../../types'
+import { generateTerraformConfig } from '../terraform'
+import { importTerraformConfig, readTerraformConfiguration, readTerraformState } from '../terraformImport'
+
+const config: FirewallConfig = {
+  projectId: 'prj_123',
+  rules: [
+    {
+      id: 'rule_block_admin',
+      name: 'Block admin',
+      conditionGroup: [
+        {
+          conditions: [
+            { type: 'path', op: 'pre', value: '/admin' },
+            { type: 'method', op: 'inc', value: ['POST', 'PUT'] },
+          ],
+        },
+      ],
+      action: { mitigate: { action: 'deny' } },
+      active: true,
+    },
+    {
+      id: 'rule_api_limit',
+      name: 'API rate limit',
+      conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: '/api' }] }],
+      action: { mitigate: { action: 'rate_limit', rateLimit: { requests: 100, window: '1m' } } },
+      active: true,
+    },
+  ],
+  ips: [{ ip: '1.2.3.4', hostname: '*', action: 'deny', notes: 'Scraper' }],
+}
+
+const roundTrip = (provider: 'vercel' | 'cloudflare', input = config) =>
+  importTerraformConfig(readTerraformConfiguration(generateTerraformConfig(input, provider).result))
+
+describe('importTerraformConfig', () => {
+  test('imports the rules, IPs and settings of an exported Vercel firewall', () => {
+    const { provider, config: imported } = roundTrip('vercel', {
+      ...config,
+      attackMode: { enabled: true },
+      bypass: [{ sourceIp: '203.0.113.10' }],
+    })
+
+    expect(provider).toBe('vercel')
+    expect(imported.projectId).toBe('prj_123')
+    expect(imported.rules).toEqual(config.rules.map(({ id: _id, ...rule }) => expect.objectContaining(rule)))
+    expect(imported.ips).toEqual([expect.objectContaining({ ip: '1.2.3.4', hostname: '*', notes: 'Scraper' })])
+    expect(imported.attackMode).toEqual({ enabled: true })
+    expect(imported.bypass).toEqual([{ sourceIp: '203.0.113.10' }])
+  })
+
+  test('imports exported Cloudflare rulesets without the IP list rule', () => {
+    const { provider, config: imported } = roundTrip('cloudflare')
+
+    expect(provider).toBe('cloudflare')
+    expect(imported.rules.map((rule) => rule.id)).toEqual(['rule_block_admin', 'rule_api_limit'])
+    expect(imported.rules[1]!.action.mitigate).toEqual({
+      action: 'rate_limit',
+      rateLimit: { requests: 100, window: '60s' },
+    })
+    expect(imported.ips).toEqual([expect.objectContaining({ ip: '1.2.3.4', notes: 'Scraper' })])
+  })
+
+  test('reads rules from a state file', () => {
+    const state = JSON.stringify({
+      resources: [
+        {
+          mode: 'managed',
+          type: 'cloudflare_ruleset',
+          name: 'waf',
+          instances: [
+            {
+              attributes: {
+                zone_id: 'zone_1',
+                phase: 'http_request_firewall_custom',
+                rules: [
+                  {
+                    id: 'abc',
+                    ref: 'block_bots',
+                    description: 'Block bots',
+                    expression: '(http.user_agent contains "bot")',
+                    action: 'block',
+                    enabled: true,
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        { mode: 'data', type: 'cloudflare_zone', name: 'main', instances: [{ attributes: {} }] },
+      ],
+    })
+
+    const { config: imported, resources } = importTerraformConfig(readTerraformState(state))
+
+    expect(resources).toEqual(['cloudflare_ruleset.waf'])
+    expect(imported.zoneId).toBe('zone_1')
+    expect(imported.rules).toEqual([
+      expect.objectContaining({ id: 'block_bots', name: 'Block bots', action: { mitigate: { action: 'deny' } } }),
+    ])
+  })
+
+  test('requires a provider when both providers have firewall resources', () => {
+    const resources = [
+      { type: 'vercel_firewall_config', name: 'a', attributes: {} },
+      { type: 'cloudflare_ruleset', name: 'b', attributes: {} },
+    ]
+
+    expect(() => importTerraformConfig(resources)).toThrow(/--provider/)
+    expect(importTerraformConfig(resources, 'vercel').resources).toEqual(['vercel_firewall_config.a'])
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, test } from '@jest/globals'
+import type { FirewallConfig } from '../../types'
+import { generateTypeScriptProgram } from '../typescriptProgram'
+
+const config: FirewallConfig = {
+  projectId: 'prj_123',
+  rules: [
+    {
+      id: 'rule_block_admin',
+      name: "Block 'admin'",
+      conditionGroup: [{ conditions: [{ type: 'method', op: 'inc', value: ['POST', 'PUT'] }] }],
+      action: { mitigate: { action: 'deny' } },
+      active: true,
+    },
+    {
+      id: 'rule_api_limit',
+      name: 'API rate limit',
+      conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: '/api' }] }],
+      action: { mitigate: { action: 'rate_limit', rateLimit: { requests: 100, window: '1m' } } },
+      active: true,
+    },
+  ],
+  ips: [{ ip: '1.2.3.4', hostname: '*', action: 'deny', notes: 'Scraper' }],
+}
+
+describe('generateTypeScriptProgram', () => {
+  test('writes a Pulumi program with config values and pluralized list properties', () => {
+    const { result } = generateTypeScriptProgram(config, 'vercel', 'pulumi')
+
+    expect(result).toContain("import * as vercel from '@pulumiverse/vercel'")
+    expect(result).toContain("const vercelProjectId = config.get('vercelProjectId') ?? 'prj_123'")
+    expect(result).toContain("new vercel.FirewallConfig('doorman', {\n  projectId: vercelProjectId,")
+    expect(result).toMatch(/rules: {\n\s+rules: \[\n\s+{\n\s+name: "Block 'admin'",/)
+    expect(result).toMatch(/conditionGroups: \[/)
+    expect(result).toMatch(/values: \['POST', 'PUT'\]/)
+    expect(result).toMatch(/ipRules: {\n\s+rules: \[/)
+  })
+
+  test('uses rule IDs as refs and binds resources other resources depend on', () => {
+    const { result } = generateTypeScriptProgram(config, 'cloudflare', 'pulumi')
+
+    expect(result).toContain("const doormanIpBlocklist = new cloudflare.List('doorman_ip_blocklist', {")
+    expect(result).toContain("const cloudflareZoneId = config.require('cloudflareZoneId')")
+    expect(result).toContain("ref: 'rule_block_admin',")
+    expect(result).toMatch(/}, { dependsOn: \[doormanIpBlocklist\] }\)/)
+    expect(result).toMatch(
+      /ratelimit: {\n\s+characteristics: \['cf.colo.id', 'ip.src'\],\n\s+period: 60,\n\s+requestsPerPeriod: 100,/,
+    )
+  })
+
+  test('writes a CDK for Terraform stack with variables and provider bindings', () => {
+    const { result } = generateTypeScriptProgram(config, 'cloudflare', 'cdktf')
+
+    expect(result).toContain("import { Ruleset } from '@cdktf/provider-cloudflare/lib/ruleset'")
+    expect(result).toContain("new CloudflareProvider(this, 'cloudflare')")
+    expect(result).toContain("const cloudflareZoneId = new TerraformVariable(this, 'cloudflare_zone_id', {")
+    expect(result).toContain('zoneId: cloudflareZoneId.stringValue,')
+    expect(result).toMatch(/item: \[\n\s+{\n\s+value: {\n\s+ip: '1.2.3.4',/)
+    expect(result).toContain('dependsOn: [doormanIpBlocklist],')
+  })
+
+  test('carries over the warnings of the Terraform export', () => {
+    const { warnings } = generateTypeScriptProgram({ ...config, attackMode: { enabled: true } }, 'cloudflare', 'cdktf')
+
+    expect(warnings).toContainEqual(expect.objectContaining({ field: 'attackMode', severity: 'critical' }))
+  })
+})
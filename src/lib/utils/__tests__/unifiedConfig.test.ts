@@ -0,0 +1,89 @@
+import { describe, expect, test } from '@jest/globals'
+import type { FirewallConfig } from '../../types'
+import type { UnifiedConfig } from '../../types/unified'
+import { applyRemoteState, fromUnifiedConfig, toConfigRule, toUnifiedConfig } from '../unifiedConfig'
+
+const localConfig: FirewallConfig = {
+  projectId: 'prj_123',
+  teamId: 'team_123',
+  version: 3,
+  updatedAt: '2024-01-01T00:00:00Z',
+  rules: [
+    {
+      id: 'rule_block_admin',
+      name: 'Block admin',
+      conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: '/admin' }] }],
+      action: { mitigate: { action: 'deny' } },
+      active: true,
+    },
+  ],
+  ips: [{ ip: '1.2.3.4', hostname: 'example.com', action: 'deny' }],
+}
+
+describe('unifiedConfig', () => {
+  test('toUnifiedConfig carries rules, IPs and metadata', () => {
+    const unified = toUnifiedConfig(localConfig, 'cloudflare')
+
+    expect(unified.provider).toBe('cloudflare')
+    expect(unified.rules[0]).toMatchObject({ id: 'rule_block_admin', name: 'Block admin', enabled: true })
+    expect(unified.ips).toEqual([expect.objectContaining({ ip: '1.2.3.4', hostname: 'example.com' })])
+    expect(unified.metadata).toEqual({ version: 3, updatedAt: '2024-01-01T00:00:00Z' })
+  })
+
+  test('round-trips local rules without adding empty properties', () => {
+    const unified = toUnifiedConfig(localConfig)
+    const restored = fromUnifiedConfig(unified)
+
+    expect(restored.rules).toEqual(localConfig.rules)
+    expect(Object.keys(restored.rules[0]!.action.mitigate)).toEqual(['action'])
+    expect(restored.ips).toEqual(localConfig.ips)
+  })
+
+  test('round-trips managed rulesets and attack mode through the security section', () => {
+    const security = {
+      crs: { sqli: { active: true, action: 'deny' as const } },
+      managedRules: { ai_bots: { active: true, action: 'deny' as const } },
+      attackMode: { enabled: true, activeUntil: null },
+    }
+
+    const unified = toUnifiedConfig({ ...localConfig, ...security })
+    const restored = fromUnifiedConfig(unified)
+
+    expect(unified.security).toEqual({ ...security, attackMode: { enabled: true } })
+    expect(restored).toMatchObject({ ...security, attackMode: { enabled: true } })
+    expect(toUnifiedConfig(localConfig).security).toBeUndefined()
+  })
+
+  test('toConfigRule maps unified-only actions onto config actions', () => {
+    const rule = toConfigRule({
+      name: 'Allow health checks',
+      enabled: true,
+      conditions: [{ field: 'path', operator: 'eq', value: '/health' }],
+      action: { type: 'allow' },
+    })
+
+    expect(rule.action.mitigate.action).toBe('bypass')
+  })
+
+  test('applyRemoteState adopts remote metadata and assigned IDs', () => {
+    const remote: UnifiedConfig = {
+      ...toUnifiedConfig(localConfig),
+      ips: [{ id: 'ip_remote_1', ip: '1.2.3.4', hostname: 'example.com', action: 'deny' }],
+      metadata: { version: 4, updatedAt: '2024-02-01T00:00:00Z' },
+    }
+
+    const updated = applyRemoteState(localConfig, remote)
+
+    expect(updated.version).toBe(4)
+    expect(updated.updatedAt).toBe('2024-02-01T00:00:00Z')
+    expect(updated.ips![0]!.id).toBe('ip_remote_1')
+    expect(updated.rules[0]!.id).toBe('rule_block_admin')
+    expect(updated.projectId).toBe('prj_123')
+  })
+
+  test('applyRemoteState leaves unmatched rules untouched', () => {
+    const remote: UnifiedConfig = { rules: [], ips: [] }
+
+    expect(applyRemoteState(localConfig, remote)).toEqual(localConfig)
+  })
+})
@@ -1,9 +1,13 @@
+import { createHash } from 'crypto'
+import { homedir } from 'os'
+import { join } from 'path'
 import { logger } from '../logger'
+import { FileCacheStore } from './fileCacheStore'
 
 /**
  * Cache entry with TTL and metadata
  */
-interface CacheEntry<T> {
+export interface CacheEntry<T> {
   value: T
   expiresAt: number
   createdAt: number
@@ -21,6 +25,20 @@ export interface CacheStats {
   hitRate: number
 }
 
+/**
+ * Second-level storage that keeps cache entries beyond the lifetime of one `ApiCache`,
+ * e.g. across CLI invocations
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry<unknown> | undefined
+  set(key: string, entry: CacheEntry<unknown>): void
+  delete(key: string): boolean
+  /** @returns The number of entries deleted */
+  deleteByPrefix(prefix: string): number
+  /** @returns The number of entries deleted */
+  clear(): number
+}
+
 /**
  * Cache configuration options
  */
@@ -31,6 +49,8 @@ export interface CacheOptions {
   maxEntries: number
   /** Whether to log cache operations at debug level (default: true) */
   enableLogging: boolean
+  /** Store to read through and write through to (default: none, memory only) */
+  store?: CacheStore
 }
 
 const DEFAULT_CACHE_OPTIONS: CacheOptions = {
@@ -44,6 +64,8 @@ const DEFAULT_CACHE_OPTIONS: CacheOptions = {
  *
  * Used to avoid redundant API calls for data that doesn't change frequently,
  * such as zone info, credential validation results, and ruleset listings.
+ * With a `store`, entries missing from memory are read from the store and every
+ * write and invalidation is applied to both.
  */
 export class ApiCache {
   private cache = new Map<string, CacheEntry<unknown>>()
@@ -58,7 +80,7 @@ export class ApiCache {
    * Get a cached value by key. Returns undefined on miss or expiry.
    */
   get<T>(key: string): T | undefined {
-    const entry = this.cache.get(key)
+    const entry = this.cache.get(key) ?? this.loadFromStore(key)
 
     if (!entry) {
       this.stats.misses++
@@ -71,6 +93,7 @@ export class ApiCache {
     // Check expiry
     if (Date.now() > entry.expiresAt) {
       this.cache.delete(key)
+      this.options.store?.delete(key)
       this.stats.misses++
       if (this.options.enableLogging) {
         logger.debug(`Cache expired: ${key}`)
@@ -96,12 +119,14 @@ export class ApiCache {
     }
 
     const effectiveTTL = ttl ?? this.options.defaultTTL
-    this.cache.set(key, {
+    const entry: CacheEntry<T> = {
       value,
       expiresAt: Date.now() + effectiveTTL,
       createdAt: Date.now(),
       hits: 0,
-    })
+    }
+    this.cache.set(key, entry)
+    this.options.store?.set(key, entry)
 
     if (this.options.enableLogging) {
       logger.debug(`Cache set: ${key} (TTL: ${effectiveTTL}ms)`)
@@ -112,7 +137,8 @@ export class ApiCache {
    * Invalidate a specific cache entry.
    */
   invalidate(key: string): boolean {
-    const deleted = this.cache.delete(key)
+    const stored = this.options.store?.delete(key) ?? false
+    const deleted = this.cache.delete(key) || stored
     if (deleted && this.options.enableLogging) {
       logger.debug(`Cache invalidated: ${key}`)
     }
@@ -131,6 +157,7 @@ export class ApiCache {
         count++
       }
     }
+    count = Math.max(count, this.options.store?.deleteByPrefix(prefix) ?? 0)
     if (count > 0 && this.options.enableLogging) {
       logger.debug(`Cache invalidated ${count} entries with prefix: ${prefix}`)
     }
@@ -141,7 +168,7 @@ export class ApiCache {
    * Clear the entire cache.
    */
   clear(): void {
-    const size = this.cache.size
+    const size = Math.max(this.cache.size, this.options.store?.clear() ?? 0)
     this.cache.clear()
     if (this.options.enableLogging) {
       logger.debug(`Cache cleared (${size} entries removed)`)
@@ -173,7 +200,7 @@ export class ApiCache {
    * Check whether a key exists and is not expired.
    */
   has(key: string): boolean {
-    const entry = this.cache.get(key)
+    const entry = this.cache.get(key) ?? this.loadFromStore(key)
     if (!entry) return false
     if (Date.now() > entry.expiresAt) {
       this.cache.delete(key)
@@ -182,6 +209,20 @@ export class ApiCache {
     return true
   }
 
+  /**
+   * Copy an entry from the store into memory, so later reads skip the store.
+   */
+  private loadFromStore(key: string): CacheEntry<unknown> | undefined {
+    const entry = this.options.store?.get(key)
+    if (entry && Date.now() <= entry.expiresAt) {
+      if (this.cache.size >= this.options.maxEntries) {
+        this.evictLeastRecentlyUsed()
+      }
+      this.cache.set(key, entry)
+    }
+    return entry
+  }
+
   /**
    * Evict the least-recently-used entry (fewest hits, oldest creation).
    */
@@ -229,6 +270,8 @@ export const CacheKeys = {
   listItems: (accountId: string, listId: string) => `account:${accountId}:list:${listId}:items`,
   credentialValidation: (tokenHash: string) => `cred:${tokenHash}`,
   configValidation: (configHash: string) => `config:${configHash}`,
+  /** Prefix scoping persistent entries to one token and zone, so a client can clear only its own */
+  clientScope: (tokenHash: string, zoneId: string) => `client:${tokenHash}:${zoneId}:`,
 }
 
 /**
@@ -250,3 +293,46 @@ export const CacheTTL = {
   /** Config validation – cache for 5 minutes */
   CONFIG_VALIDATION: 5 * 60 * 1000,
 }
+
+/**
+ * Hash an API token for use in cache keys, so tokens never end up in memory dumps or
+ * cache files in a recoverable form.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16)
+}
+
+/**
+ * Default directory of the persistent cache: `$DOORMAN_CACHE_DIR`, or `doorman` under
+ * `$XDG_CACHE_HOME` (`~/.cache` if unset).
+ */
+export function getCacheDir(): string {
+  return process.env.DOORMAN_CACHE_DIR || join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'doorman')
+}
+
+let persistentStore: CacheStore | undefined
+
+/**
+ * Share cached API responses between CLI invocations by storing them on disk. Off by
+ * default, so library use and tests stay in memory; the CLI turns it on unless run with
+ * `--no-cache`.
+ *
+ * @param dir - Directory for the cache files (defaults to `getCacheDir()`)
+ */
+export function enablePersistentCache(dir: string = getCacheDir()): void {
+  persistentStore = new FileCacheStore(dir)
+}
+
+/**
+ * Turn the persistent cache off again. Caches created afterwards stay in memory.
+ */
+export function disablePersistentCache(): void {
+  persistentStore = undefined
+}
+
+/**
+ * The store set up by `enablePersistentCache`, if any, for passing to `ApiCache`.
+ */
+export function getPersistentCacheStore(): CacheStore | undefined {
+  return persistentStore
+}
@@ -0,0 +1,61 @@
+import type { SyncResult } from '../providers/IFirewallProvider'
+import { getProviderDisplayName } from './providerHelper'
+import type { ProviderOutcome } from './withCredentials'
+
+/**
+ * Combines the per-provider results of an `--all-providers` sync into one `SyncResult`.
+ *
+ * Counts are summed, and errors and warnings are prefixed with the provider they came from.
+ * A provider that threw counts as failed, with its error message in `errors`. Providers
+ * without a result (e.g. the user cancelled their sync) add nothing. The combined version
+ * is left out, as every provider versions its rules separately.
+ *
+ * @param outcomes - Outcome of the sync for each provider
+ * @returns The combined result, successful only if every provider succeeded
+ */
+export function combineSyncResults(outcomes: ProviderOutcome<SyncResult | undefined>[]): SyncResult {
+  const combined: SyncResult = {
+    success: true,
+    rulesAdded: 0,
+    rulesUpdated: 0,
+    rulesDeleted: 0,
+    rulesMoved: 0,
+    ipsAdded: 0,
+    ipsUpdated: 0,
+    ipsDeleted: 0,
+    securityUpdated: 0,
+    bypassAdded: 0,
+    bypassDeleted: 0,
+    errors: [],
+    warnings: [],
+  }
+
+  for (const { provider, result, error } of outcomes) {
+    const name = getProviderDisplayName(provider)
+
+    if (error !== undefined) {
+      combined.success = false
+      combined.errors!.push(`${name}: ${error instanceof Error ? error.message : String(error)}`)
+      continue
+    }
+    if (!result) {
+      continue
+    }
+
+    combined.success = combined.success && result.success
+    combined.rulesAdded += result.rulesAdded
+    combined.rulesUpdated += result.rulesUpdated
+    combined.rulesDeleted += result.rulesDeleted
+    combined.rulesMoved! += result.rulesMoved ?? 0
+    combined.ipsAdded! += result.ipsAdded ?? 0
+    combined.ipsUpdated! += result.ipsUpdated ?? 0
+    combined.ipsDeleted! += result.ipsDeleted ?? 0
+    combined.securityUpdated! += result.securityUpdated ?? 0
+    combined.bypassAdded! += result.bypassAdded ?? 0
+    combined.bypassDeleted! += result.bypassDeleted ?? 0
+    combined.errors!.push(...(result.errors || []).map((message) => `${name}: ${message}`))
+    combined.warnings!.push(...(result.warnings || []).map((message) => `${name}: ${message}`))
+  }
+
+  return combined
+}
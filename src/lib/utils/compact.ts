@@ -0,0 +1,28 @@
+/**
+ * Recursively removes `null` and `undefined` properties from plain objects.
+ *
+ * Translated rules carry explicit `null`/`undefined` placeholders (e.g. `rateLimit: null`)
+ * that are absent from hand-written configs. Compacting both sides before comparison
+ * keeps `isDeepEqual` from reporting those placeholders as differences.
+ *
+ * @param value - The value to compact.
+ * @returns A copy of the value without empty properties.
+ */
+export function compact<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => compact(item)) as T
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (entry !== null && entry !== undefined) {
+      result[key] = compact(entry)
+    }
+  }
+
+  return result as T
+}
@@ -4,6 +4,8 @@ import { logger } from '../logger'
 import { ValidationService } from '../services/ValidationService'
 import { FirewallConfig } from '../types'
 import { ConfigFinder } from './configFinder'
+import { getConfigFormat, parseConfigContent, serializeConfig } from './configFormat'
+import { applyEnvironmentState, resolveEnvironment } from './environments'
 
 /**
  * Config loading mode:
@@ -32,10 +34,12 @@ interface ConfigSaveOptions {
  *
  * @param configPath - Explicit path to config file, or undefined to auto-discover
  * @param modeOrOptions - Loading mode string or legacy options object
+ * @param environment - Environment overlay to resolve (from `--env`)
  */
 export async function getConfig(
   configPath?: string,
   modeOrOptions: ConfigLoadMode | LegacyConfigOptions = 'required',
+  environment?: string,
 ): Promise<FirewallConfig> {
   // Resolve mode from legacy options for backward compatibility
   const mode = resolveMode(modeOrOptions)
@@ -59,14 +63,20 @@ export async function getConfig(
   let configJson: FirewallConfig
   try {
     const configContent = readFileSync(filePath, 'utf8')
-    configJson = JSON.parse(configContent)
+    configJson = parseConfigContent(configContent, getConfigFormat(filePath)) as FirewallConfig
   } catch (error) {
     if (error instanceof SyntaxError) {
-      throw new Error(`Invalid JSON in config file (${filePath}): ${error.message}`)
+      const format = getConfigFormat(filePath).toUpperCase()
+      throw new Error(`Invalid ${format} in config file (${filePath}): ${error.message}`)
     }
     throw error
   }
 
+  // Resolve the environment first so validation sees the config that will be used
+  if (environment) {
+    configJson = resolveEnvironment(configJson, environment)
+  }
+
   // Validate unless raw mode
   if (mode !== 'raw') {
     try {
@@ -112,10 +122,29 @@ export async function saveConfig(
     mkdirSync(configDir, { recursive: true })
   }
 
-  writeFileSync(filePath, JSON.stringify(config, null, 2))
+  // Rewrite YAML files in place so their comments survive
+  const format = getConfigFormat(filePath)
+  const previousContent = format === 'yaml' && existsSync(filePath) ? readFileSync(filePath, 'utf8') : undefined
+  writeFileSync(filePath, serializeConfig(config, format, previousContent))
   logger.debug(`Config saved to ${filePath}`)
 }
 
+/**
+ * Save a config loaded with `getConfig` after syncing it.
+ *
+ * Without an environment this is `saveConfig`. For an environment, only the synced version
+ * and timestamp are written to that environment's overlay, since the resolved rules are
+ * derived from the base config.
+ */
+export async function saveSyncedConfig(config: FirewallConfig, configPath?: string, environment?: string) {
+  if (!environment) {
+    return saveConfig(config, configPath)
+  }
+
+  const stored = await getConfig(configPath, 'raw')
+  return saveConfig(applyEnvironmentState(stored, environment, config), configPath)
+}
+
 /**
  * Resolve a mode string from either a ConfigLoadMode or legacy options object.
  */
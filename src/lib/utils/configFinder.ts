@@ -3,9 +3,10 @@ import { dirname, resolve } from 'path'
 
 /**
  * Config file names in priority order.
- * `.doorman.json` is the new default; `vercel-firewall.config.json` is the legacy name.
+ * `.doorman.json` is the new default, `.doorman.yaml`/`.doorman.yml` hold the same config as YAML,
+ * and `vercel-firewall.config.json` is the legacy name.
  */
-const CONFIG_FILE_NAMES = ['.doorman.json', 'vercel-firewall.config.json'] as const
+const CONFIG_FILE_NAMES = ['.doorman.json', '.doorman.yaml', '.doorman.yml', 'vercel-firewall.config.json'] as const
 
 export const DEFAULT_CONFIG_FILE_NAME = CONFIG_FILE_NAMES[0]
 
@@ -13,7 +14,8 @@ export class ConfigFinder {
   /**
    * Find the config file by looking in the current directory and walking up
    * the directory tree until we find it or hit the root.
-   * Checks `.doorman.json` first, then falls back to `vercel-firewall.config.json`.
+   * Checks `.doorman.json` first, then `.doorman.yaml`/`.doorman.yml`, then falls back to
+   * `vercel-firewall.config.json`.
    */
   static async findConfig(startPath?: string): Promise<string | undefined> {
     const { findUp } = await import('find-up')
@@ -0,0 +1,139 @@
+import { Document, isMap, isScalar, isSeq, LineCounter, parseDocument, stringify } from 'yaml'
+import type { Node } from 'yaml'
+
+export type ConfigFormat = 'json' | 'yaml'
+
+/**
+ * A 1-based position in a config file
+ */
+export interface SourceLocation {
+  line: number
+  column: number
+}
+
+/**
+ * Detect the config format from a file path: `.yaml`/`.yml` is YAML, anything else JSON.
+ */
+export function getConfigFormat(filePath: string): ConfigFormat {
+  return /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json'
+}
+
+/**
+ * Parse config file contents.
+ * Throws a `SyntaxError` describing the problem when the contents are malformed.
+ */
+export function parseConfigContent(content: string, format: ConfigFormat): unknown {
+  if (format === 'json') {
+    return JSON.parse(content)
+  }
+
+  const document = parseDocument(content)
+  if (document.errors.length > 0) {
+    throw new SyntaxError(document.errors.map((error) => error.message).join('\n'))
+  }
+  return document.toJS()
+}
+
+/**
+ * Serialize a config.
+ *
+ * For YAML, pass the file's current contents as `previousContent` to keep its comments:
+ * the existing document is updated in place, so comments on keys and items that still
+ * exist survive the rewrite.
+ */
+export function serializeConfig(config: unknown, format: ConfigFormat, previousContent?: string): string {
+  if (format === 'json') {
+    return JSON.stringify(config, null, 2)
+  }
+
+  const document: Document | undefined = previousContent ? parseDocument(previousContent) : undefined
+  if (!document || document.errors.length > 0 || !document.contents) {
+    return stringify(config)
+  }
+
+  document.contents = updateNode(document, document.contents as Node, config)
+  return document.toString()
+}
+
+/**
+ * Create a function resolving JSON pointers (e.g. `/rules/0/name`) to positions in config
+ * file contents, JSON or YAML.
+ *
+ * A pointer to something the file does not contain resolves to its nearest existing parent,
+ * so findings about a missing property point at the object that should have it.
+ */
+export function createPointerLocator(content: string): (pointer: string) => SourceLocation | undefined {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(content, { lineCounter })
+
+  return (pointer) => {
+    let node = document.contents as Node | null
+    if (!node) return undefined
+
+    const segments = pointer
+      .split('/')
+      .slice(1)
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    for (const segment of segments) {
+      const child = isMap(node) ? node.get(segment, true) : isSeq(node) ? node.get(Number(segment), true) : undefined
+      if (!child || typeof child !== 'object') break
+      node = child as Node
+    }
+
+    if (!node.range) return undefined
+    const { line, col } = lineCounter.linePos(node.range[0])
+    return { line, column: col }
+  }
+}
+
+/**
+ * Update `node` to hold `value`, reusing existing map pairs, sequence items and scalars
+ * (and therefore their comments) wherever the shape still matches.
+ */
+function updateNode(document: Document, node: Node, value: unknown): Node {
+  if (isMap(node) && isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined)
+    const keys = new Set(entries.map(([key]) => key))
+
+    node.items = node.items.filter((pair) => keys.has(String(isScalar(pair.key) ? pair.key.value : pair.key)))
+    for (const [key, item] of entries) {
+      const pair = node.items.find((existing) => (isScalar(existing.key) ? existing.key.value : existing.key) === key)
+      if (pair && pair.value) {
+        pair.value = updateNode(document, pair.value as Node, item)
+      } else {
+        node.set(key, document.createNode(item))
+      }
+    }
+    return node
+  }
+
+  if (isSeq(node) && Array.isArray(value)) {
+    const previousItems = node.items as Node[]
+    // The parser attaches a comment above the first item to the sequence itself
+    const first = previousItems[0]
+    if (node.commentBefore && first && !first.commentBefore) {
+      first.commentBefore = node.commentBefore
+      node.commentBefore = undefined
+    }
+    node.items = value.map((item, index) => {
+      // Follow rules by ID so reordering them keeps each rule's comments
+      const id = isPlainObject(item) ? item.id : undefined
+      const existing =
+        (id !== undefined && previousItems.find((previous) => isMap(previous) && previous.get('id') === id)) ||
+        previousItems[index]
+      return existing ? updateNode(document, existing, item) : document.createNode(item)
+    })
+    return node
+  }
+
+  if (isScalar(node) && (value === null || typeof value !== 'object')) {
+    node.value = value
+    return node
+  }
+
+  return document.createNode(value) as Node
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -1,5 +1,8 @@
 import { FirewallConfig, CustomRule } from '../types'
 import chalk from 'chalk'
+import { HealthCheckCode } from '../errors/ErrorCodes'
+import { checkRegexSafety, RegexEngine, RegexIssueCode } from './regexSafety'
+import { lintRules, RuleLintCode } from './ruleLint'
 
 export interface HealthCheckResult {
   score: number // 0-100
@@ -8,14 +11,38 @@ export interface HealthCheckResult {
 }
 
 export interface HealthIssue {
+  /** Stable code of the check that found the issue */
+  code: HealthCheckCode
   severity: 'error' | 'warning' | 'info'
   message: string
   rule?: string
+  /** Path of the offending value in the config */
+  path?: string
   suggestion?: string
 }
 
+/**
+ * Health check code of each regex safety finding
+ */
+export const REGEX_ISSUE_CODES: Record<RegexIssueCode, HealthCheckCode> = {
+  catastrophic_backtracking: HealthCheckCode.REGEX_BACKTRACKING,
+  unsupported_syntax: HealthCheckCode.REGEX_UNSUPPORTED_SYNTAX,
+  invalid_syntax: HealthCheckCode.REGEX_INVALID_SYNTAX,
+  too_large: HealthCheckCode.REGEX_TOO_LARGE,
+}
+
+const LINT_CODES: Record<RuleLintCode, HealthCheckCode> = {
+  shadowed_rule: HealthCheckCode.SHADOWED_RULE,
+  duplicate_rule: HealthCheckCode.DUPLICATE_RULE,
+  contradictory_conditions: HealthCheckCode.CONTRADICTORY_CONDITIONS,
+  always_true_group: HealthCheckCode.ALWAYS_TRUE_GROUP,
+}
+
 export class ConfigHealthChecker {
-  static check(config: FirewallConfig): HealthCheckResult {
+  /**
+   * @param engines - Regex engines the config's patterns must work in
+   */
+  static check(config: FirewallConfig, engines: RegexEngine[] = ['vercel']): HealthCheckResult {
     const issues: HealthIssue[] = []
     const recommendations: string[] = []
     let score = 100
@@ -24,7 +51,7 @@ export class ConfigHealthChecker {
     this.checkRuleNaming(config.rules, issues)
     this.checkRuleComplexity(config.rules, issues)
     this.checkSecurityBestPractices(config, issues, recommendations)
-    this.checkPerformanceImpact(config, issues, recommendations)
+    this.checkPerformanceImpact(config, engines, issues, recommendations)
     this.checkMaintainability(config, issues, recommendations)
 
     // Calculate score based on issues
@@ -50,13 +77,17 @@ export class ConfigHealthChecker {
   }
 
   private static checkRuleNaming(rules: CustomRule[], issues: HealthIssue[]) {
-    rules.forEach((rule) => {
+    rules.forEach((rule, index) => {
+      const path = `rules.${index}`
+
       // Check for proper snake_case ID format
       if (rule.id && !rule.id.match(/^rule_[a-z0-9_]+$/)) {
         issues.push({
+          code: HealthCheckCode.RULE_ID_FORMAT,
           severity: 'warning',
           message: `Rule ID should follow snake_case format: rule_*`,
           rule: rule.name,
+          path: `${path}.id`,
           suggestion: `Consider renaming to: rule_${rule.name.toLowerCase().replace(/\s+/g, '_')}`,
         })
       }
@@ -64,18 +95,22 @@ export class ConfigHealthChecker {
       // Check for descriptive names
       if (rule.name.length < 5) {
         issues.push({
+          code: HealthCheckCode.SHORT_RULE_NAME,
           severity: 'info',
           message: 'Rule name is very short, consider making it more descriptive',
           rule: rule.name,
+          path: `${path}.name`,
         })
       }
 
       // Check for missing descriptions
       if (!rule.description || rule.description.length < 10) {
         issues.push({
+          code: HealthCheckCode.MISSING_DESCRIPTION,
           severity: 'info',
           message: 'Rule lacks a detailed description',
           rule: rule.name,
+          path,
           suggestion: 'Add a clear description explaining what this rule does and why',
         })
       }
@@ -83,23 +118,27 @@ export class ConfigHealthChecker {
   }
 
   private static checkRuleComplexity(rules: CustomRule[], issues: HealthIssue[]) {
-    rules.forEach((rule) => {
+    rules.forEach((rule, index) => {
       const totalConditions = rule.conditionGroup.reduce((sum, group) => sum + group.conditions.length, 0)
 
       if (totalConditions > 10) {
         issues.push({
+          code: HealthCheckCode.MANY_CONDITIONS,
           severity: 'warning',
           message: 'Rule has many conditions, consider splitting into multiple rules',
           rule: rule.name,
+          path: `rules.${index}.conditionGroup`,
           suggestion: 'Complex rules can be harder to maintain and debug',
         })
       }
 
       if (rule.conditionGroup.length > 5) {
         issues.push({
+          code: HealthCheckCode.MANY_CONDITION_GROUPS,
           severity: 'warning',
           message: 'Rule has many condition groups, consider simplifying',
           rule: rule.name,
+          path: `rules.${index}.conditionGroup`,
         })
       }
     })
@@ -130,16 +169,18 @@ export class ConfigHealthChecker {
     }
 
     // Check for overly broad rules
-    rules.forEach((rule) => {
+    rules.forEach((rule, index) => {
       const hasBroadPath = rule.conditionGroup.some((group) =>
         group.conditions.some((condition) => condition.type === 'path' && condition.value === '/'),
       )
 
       if (hasBroadPath && rule.action.mitigate.action === 'deny') {
         issues.push({
+          code: HealthCheckCode.ROOT_PATH_DENY,
           severity: 'error',
           message: 'Rule blocks root path - this could block all traffic',
           rule: rule.name,
+          path: `rules.${index}`,
           suggestion: 'Be more specific with path conditions',
         })
       }
@@ -148,36 +189,43 @@ export class ConfigHealthChecker {
     // Check IP blocking rules
     if (ips && ips.length > 100) {
       issues.push({
+        code: HealthCheckCode.LARGE_IP_LIST,
         severity: 'warning',
         message: 'Large number of IP blocking rules may impact performance',
+        path: 'ips',
         suggestion: 'Consider using CIDR ranges or external IP lists',
       })
     }
   }
 
-  private static checkPerformanceImpact(config: FirewallConfig, issues: HealthIssue[], _recommendations: string[]) {
+  private static checkPerformanceImpact(
+    config: FirewallConfig,
+    engines: RegexEngine[],
+    issues: HealthIssue[],
+    _recommendations: string[],
+  ) {
     const { rules } = config
 
-    // Check for regex conditions (performance impact)
-    rules.forEach((rule) => {
-      const hasRegex = rule.conditionGroup.some((group) => group.conditions.some((condition) => condition.op === 're'))
-
-      if (hasRegex) {
-        issues.push({
-          severity: 'info',
-          message: 'Rule uses regex matching, which may impact performance',
-          rule: rule.name,
-          suggestion: 'Consider using simpler string operations when possible',
-        })
-      }
+    // Check regex conditions for catastrophic backtracking and engine support
+    checkRegexSafety(config, engines).forEach((issue) => {
+      issues.push({
+        code: REGEX_ISSUE_CODES[issue.code],
+        severity: issue.severity,
+        message: issue.message,
+        rule: issue.ruleName,
+        path: issue.path,
+        suggestion: issue.suggestion,
+      })
     })
 
     // Check for too many active rules
     const activeRules = rules.filter((rule) => rule.active)
     if (activeRules.length > 50) {
       issues.push({
+        code: HealthCheckCode.MANY_ACTIVE_RULES,
         severity: 'warning',
         message: 'Large number of active rules may impact performance',
+        path: 'rules',
         suggestion: 'Consider consolidating similar rules or disabling unused ones',
       })
     }
@@ -198,16 +246,31 @@ export class ConfigHealthChecker {
 
     duplicateNames.forEach((name) => {
       issues.push({
+        code: HealthCheckCode.DUPLICATE_RULE_NAME,
         severity: 'error',
         message: 'Duplicate rule name found',
         rule: name,
+        path: `rules.${ruleNames.lastIndexOf(name)}.name`,
         suggestion: 'Rule names must be unique',
       })
     })
 
+    // Check for rules that can never fire or repeat another rule
+    lintRules(rules).forEach((issue) => {
+      issues.push({
+        code: LINT_CODES[issue.code],
+        severity: issue.severity,
+        message: issue.message,
+        rule: issue.rule,
+        path: issue.path,
+        suggestion: issue.suggestion,
+      })
+    })
+
     // Check for version tracking
     if (!config.version) {
       issues.push({
+        code: HealthCheckCode.MISSING_VERSION,
         severity: 'warning',
         message: 'Configuration lacks version information',
         suggestion: 'Version tracking helps with change management',
@@ -231,7 +294,7 @@ export class ConfigHealthChecker {
 
         report += `${icon} ${issue.message}`
         if (issue.rule) {
-          report += chalk.dim(` (${issue.rule})`)
+          report += chalk.dim(` (${issue.rule}${issue.path ? `, ${issue.path}` : ''})`)
         }
         report += '\n'
 
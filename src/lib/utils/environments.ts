@@ -0,0 +1,289 @@
+import { configErrors } from '../errors'
+import type { CustomRule, EnvironmentOverlay, FirewallConfig } from '../types'
+import { isDeepEqual } from './isDeepEqual'
+
+/**
+ * Resolves a config for one environment by applying its overlay to the base config.
+ *
+ * The overlay's project identifiers replace the base ones, base rules listed in `removeRules`
+ * are dropped, `overrideRules` entries are merged onto the base rules with matching IDs, and
+ * `addRules` are appended. The result carries the environment's own `version`/`updatedAt`
+ * and no `environments` section, so it can be validated and synced like any other config.
+ *
+ * @param config - The config as stored on disk
+ * @param environment - Name of the environment to resolve
+ * @returns The resolved config
+ * @throws DoormanError if the environment is unknown or references rules that do not exist
+ */
+export function resolveEnvironment(config: FirewallConfig, environment: string): FirewallConfig {
+  const environments = config.environments || {}
+  const overlay = environments[environment]
+  if (!overlay) {
+    throw configErrors.unknownEnvironment(environment, Object.keys(environments))
+  }
+
+  const { addRules = [], overrideRules = {}, removeRules = [], version, updatedAt, projectId, teamId, zoneId } = overlay
+  const baseRules = config.rules || []
+  const baseIds = new Set(baseRules.map((rule) => rule.id).filter(Boolean))
+
+  const unknownIds = [...removeRules, ...Object.keys(overrideRules)].filter((id) => !baseIds.has(id))
+  if (unknownIds.length > 0) {
+    throw configErrors.invalidEnvironment(environment, `no base rule with ID ${unknownIds.join(', ')}`)
+  }
+
+  const removed = new Set(removeRules)
+  const rules: CustomRule[] = [
+    ...baseRules
+      .filter((rule) => !rule.id || !removed.has(rule.id))
+      .map((rule) => (rule.id && overrideRules[rule.id] ? { ...rule, ...overrideRules[rule.id], id: rule.id } : rule)),
+    ...addRules,
+  ]
+
+  const { environments: _environments, version: _version, updatedAt: _updatedAt, ...base } = config
+  return {
+    ...base,
+    ...(projectId !== undefined ? { projectId } : {}),
+    ...(teamId !== undefined ? { teamId } : {}),
+    ...(zoneId !== undefined ? { zoneId } : {}),
+    ...(version !== undefined ? { version } : {}),
+    ...(updatedAt !== undefined ? { updatedAt } : {}),
+    rules,
+  }
+}
+
+/**
+ * Records the remote state an environment was synced at in its overlay, leaving the base
+ * config and other environments untouched.
+ *
+ * @param config - The config as stored on disk
+ * @param environment - Name of the environment that was synced
+ * @param state - The resolved config after the sync
+ * @returns The config to save
+ */
+export function applyEnvironmentState(
+  config: FirewallConfig,
+  environment: string,
+  state: Pick<FirewallConfig, 'version' | 'updatedAt'>,
+): FirewallConfig {
+  const overlay = config.environments?.[environment]
+  if (!overlay) {
+    throw configErrors.unknownEnvironment(environment, Object.keys(config.environments || {}))
+  }
+
+  return {
+    ...config,
+    environments: {
+      ...config.environments,
+      [environment]: {
+        ...overlay,
+        ...(state.version !== undefined ? { version: state.version } : {}),
+        ...(state.updatedAt !== undefined ? { updatedAt: state.updatedAt } : {}),
+      },
+    },
+  }
+}
+
+/**
+ * Adds a custom rule to an environment only, appending it to the overlay's `addRules`.
+ *
+ * @param config - The config as stored on disk
+ * @param environment - Name of the environment to add the rule to
+ * @param rule - The rule to add
+ * @returns The config to save
+ */
+export function addEnvironmentRule(config: FirewallConfig, environment: string, rule: CustomRule): FirewallConfig {
+  const overlay = getOverlay(config, environment)
+  return withOverlay(config, environment, { ...overlay, addRules: [...(overlay.addRules || []), rule] })
+}
+
+/**
+ * Removes custom rules from an environment only. Base rules are listed in the overlay's
+ * `removeRules` (dropping any override of them), and rules the environment added are
+ * taken out of `addRules`.
+ *
+ * @param config - The config as stored on disk
+ * @param environment - Name of the environment to remove the rules from
+ * @param rules - Rules of the resolved environment config to remove
+ * @returns The config to save
+ * @throws DoormanError if a base rule has no ID, since removals reference rules by ID
+ */
+export function removeEnvironmentRules(
+  config: FirewallConfig,
+  environment: string,
+  rules: CustomRule[],
+): FirewallConfig {
+  const overlay = getOverlay(config, environment)
+  const baseIds = new Set((config.rules || []).map((rule) => rule.id).filter(Boolean))
+  const addRules = overlay.addRules || []
+  const isAdded = (rule: CustomRule) =>
+    addRules.some((added) => (rule.id ? added.id === rule.id : isDeepEqual(added, rule)))
+
+  const removeIds: string[] = []
+  for (const rule of rules) {
+    if (rule.id && baseIds.has(rule.id)) {
+      removeIds.push(rule.id)
+    } else if (!isAdded(rule)) {
+      throw configErrors.invalidEnvironment(environment, `rule "${rule.name}" has no ID to list in removeRules`)
+    }
+  }
+
+  const removedAdds = addRules.filter((added) =>
+    rules.some((rule) => (rule.id ? added.id === rule.id : isDeepEqual(added, rule))),
+  )
+  const overrideRules = Object.fromEntries(
+    Object.entries(overlay.overrideRules || {}).filter(([id]) => !removeIds.includes(id)),
+  )
+  return withOverlay(config, environment, {
+    ...overlay,
+    removeRules: [...new Set([...(overlay.removeRules || []), ...removeIds])],
+    overrideRules,
+    addRules: addRules.filter((added) => !removedAdds.includes(added)),
+  })
+}
+
+/**
+ * Stores the rules of an environment in its overlay, as the removals, overrides and
+ * additions that turn the base rules into `rules`. Used to download an environment.
+ *
+ * Rules are matched to base rules by ID, then by name, since another project assigns its
+ * own IDs. Overrides can only set fields, so a rule that lacks a field of its base rule is
+ * stored as a removal of the base rule plus an addition.
+ *
+ * @param config - The config as stored on disk
+ * @param environment - Name of the environment the rules belong to
+ * @param rules - The environment's complete list of custom rules
+ * @param state - Remote version and timestamp the rules were read at
+ * @returns The config to save
+ */
+export function storeEnvironmentRules(
+  config: FirewallConfig,
+  environment: string,
+  rules: CustomRule[],
+  state: Pick<FirewallConfig, 'version' | 'updatedAt'>,
+): FirewallConfig {
+  const overlay = getOverlay(config, environment)
+  const unmatched = (config.rules || []).filter((rule) => rule.id)
+  const matches = rules.map((rule) => {
+    const index = [
+      unmatched.findIndex((base) => rule.id && base.id === rule.id),
+      unmatched.findIndex((base) => base.name === rule.name),
+    ].find((candidate) => candidate >= 0)
+    return index === undefined ? undefined : unmatched.splice(index, 1)[0]
+  })
+
+  const removeRules = unmatched.map((base) => base.id!)
+  const overrideRules: Record<string, Partial<CustomRule>> = {}
+  const addRules: CustomRule[] = []
+  rules.forEach((rule, index) => {
+    const base = matches[index]
+    if (!base || Object.keys(base).some((key) => key !== 'id' && !(key in rule))) {
+      if (base) removeRules.push(base.id!)
+      addRules.push(rule)
+      return
+    }
+    const changed = (Object.keys(rule) as (keyof CustomRule)[]).filter(
+      (key) => key !== 'id' && !isDeepEqual(base[key], rule[key]),
+    )
+    if (changed.length > 0) {
+      overrideRules[base.id!] = Object.fromEntries(changed.map((key) => [key, rule[key]]))
+    }
+  })
+
+  const { removeRules: _removeRules, overrideRules: _overrideRules, addRules: _addRules, ...rest } = overlay
+  return withOverlay(config, environment, {
+    ...rest,
+    ...(removeRules.length > 0 ? { removeRules } : {}),
+    ...(Object.keys(overrideRules).length > 0 ? { overrideRules } : {}),
+    ...(addRules.length > 0 ? { addRules } : {}),
+    ...(state.version !== undefined ? { version: state.version } : {}),
+    ...(state.updatedAt !== undefined ? { updatedAt: state.updatedAt } : {}),
+  })
+}
+
+/**
+ * Top-level fields an environment overlay can set in place of the base config's
+ */
+const OVERLAY_FIELDS = ['projectId', 'teamId', 'zoneId', 'version', 'updatedAt'] as const
+
+/**
+ * Maps a path in the config resolved for an environment to where it comes from in the config
+ * as stored on disk, so problems found in the resolved config can be shown on the right line.
+ *
+ * Rules point at their base rule, at their entry in `overrideRules` when the override sets the
+ * field, or at their entry in `addRules`. Fields set by the overlay point at the overlay, and
+ * everything else is shared with the base config.
+ *
+ * @param config - The config as stored on disk
+ * @param environment - Name of the environment the config was resolved for
+ * @param path - Path in the resolved config, e.g. `['rules', '3', 'name']`
+ * @returns The path in `config`
+ */
+export function sourcePath(
+  config: FirewallConfig,
+  environment: string,
+  path: (string | number)[],
+): (string | number)[] {
+  const overlay = getOverlay(config, environment)
+  const [section, index, ...rest] = path
+  if (section !== 'rules') {
+    const field = OVERLAY_FIELDS.find((candidate) => candidate === section)
+    return field && overlay[field] !== undefined ? ['environments', environment, ...path] : path
+  }
+
+  const position = Number(index)
+  if (index === undefined || !Number.isInteger(position)) {
+    return path
+  }
+
+  const removed = new Set(overlay.removeRules || [])
+  const kept = (config.rules || [])
+    .map((rule, baseIndex) => ({ rule, baseIndex }))
+    .filter(({ rule }) => !rule.id || !removed.has(rule.id))
+  const base = kept[position]
+  if (!base) {
+    return ['environments', environment, 'addRules', position - kept.length, ...rest]
+  }
+
+  const override = base.rule.id ? overlay.overrideRules?.[base.rule.id] : undefined
+  return override && rest.length > 0 && String(rest[0]) in override
+    ? ['environments', environment, 'overrideRules', base.rule.id!, ...rest]
+    : ['rules', base.baseIndex, ...rest]
+}
+
+/**
+ * Sections an environment overlay cannot hold, so they are shared with the base config
+ */
+const SHARED_SECTIONS = ['ips', 'crs', 'managedRules', 'attackMode', 'bypass'] as const
+
+/**
+ * Lists the sections of `remote` that differ from the resolved environment config but cannot
+ * be stored in its overlay, e.g. to warn that a download left them out. Empty remote sections
+ * only count when the config manages that section.
+ *
+ * @param resolved - The config resolved for the environment
+ * @param remote - The environment's remote state
+ */
+export function unstoredSections(resolved: FirewallConfig, remote: FirewallConfig): string[] {
+  return SHARED_SECTIONS.filter((section) => {
+    const value = remote[section]
+    if (value === undefined || isDeepEqual(value, resolved[section])) return false
+    const empty = Array.isArray(value)
+      ? value.length === 0
+      : section === 'attackMode'
+        ? !remote.attackMode?.enabled
+        : Object.keys(value).length === 0
+    return !empty || resolved[section] !== undefined
+  })
+}
+
+function getOverlay(config: FirewallConfig, environment: string): EnvironmentOverlay {
+  const overlay = config.environments?.[environment]
+  if (!overlay) {
+    throw configErrors.unknownEnvironment(environment, Object.keys(config.environments || {}))
+  }
+  return overlay
+}
+
+function withOverlay(config: FirewallConfig, environment: string, overlay: EnvironmentOverlay): FirewallConfig {
+  return { ...config, environments: { ...config.environments, [environment]: overlay } }
+}
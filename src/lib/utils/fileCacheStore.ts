@@ -0,0 +1,91 @@
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { logger } from '../logger'
+import type { CacheEntry, CacheStore } from './cache'
+
+interface StoredEntry extends CacheEntry<unknown> {
+  key: string
+}
+
+/**
+ * Cache store that keeps one JSON file per entry in a directory.
+ *
+ * File names are hashes of the keys, and each file records its key so prefix
+ * invalidation can find it. Writes go to a temporary file that is renamed into place,
+ * so a concurrent read never sees a partial entry. The cache only saves API calls:
+ * unreadable files count as misses and failed writes are logged at debug level.
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly dir: string
+
+  constructor(dir: string) {
+    this.dir = dir
+  }
+
+  get(key: string): CacheEntry<unknown> | undefined {
+    const entry = this.read(this.pathFor(key))
+    return entry?.key === key ? entry : undefined
+  }
+
+  set(key: string, entry: CacheEntry<unknown>): void {
+    const path = this.pathFor(key)
+    const tempPath = `${path}.${process.pid}.tmp`
+
+    try {
+      mkdirSync(this.dir, { recursive: true, mode: 0o700 })
+      writeFileSync(tempPath, JSON.stringify({ ...entry, key } satisfies StoredEntry), { mode: 0o600 })
+      renameSync(tempPath, path)
+    } catch (error) {
+      logger.debug(`Could not write cache entry ${key}: ${error instanceof Error ? error.message : String(error)}`)
+      rmSync(tempPath, { force: true })
+    }
+  }
+
+  delete(key: string): boolean {
+    const path = this.pathFor(key)
+    if (!existsSync(path)) {
+      return false
+    }
+    rmSync(path, { force: true })
+    return true
+  }
+
+  deleteByPrefix(prefix: string): number {
+    let count = 0
+    for (const path of this.entryPaths()) {
+      if (this.read(path)?.key.startsWith(prefix)) {
+        rmSync(path, { force: true })
+        count++
+      }
+    }
+    return count
+  }
+
+  clear(): number {
+    const paths = this.entryPaths()
+    paths.forEach((path) => rmSync(path, { force: true }))
+    return paths.length
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`)
+  }
+
+  private entryPaths(): string[] {
+    if (!existsSync(this.dir)) {
+      return []
+    }
+    return readdirSync(this.dir)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => join(this.dir, name))
+  }
+
+  private read(path: string): StoredEntry | undefined {
+    try {
+      return JSON.parse(readFileSync(path, 'utf8')) as StoredEntry
+    } catch {
+      return undefined
+    }
+  }
+}
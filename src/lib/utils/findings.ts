@@ -0,0 +1,342 @@
+import { readFileSync, writeFileSync } from 'fs'
+import { relative, sep } from 'path'
+import { HealthCheckCode, TranslationErrorCode, ValidationErrorCode } from '../errors/ErrorCodes'
+import { validationErrors } from '../errors/helpers'
+import type { ValidationError } from '../services/ValidationService'
+import { RuleTranslator } from '../translators/RuleTranslator'
+import type { TranslationWarningCategory, TranslationWarningSeverity } from '../translators/RuleTranslator'
+import type { CustomRule, FirewallConfig } from '../types'
+import type { HealthIssue } from './configHealth'
+import { REGEX_ISSUE_CODES } from './configHealth'
+import { ConfigFinder } from './configFinder'
+import { createPointerLocator, getConfigFormat, parseConfigContent } from './configFormat'
+import { sourcePath } from './environments'
+import type { RegexIssue } from './regexSafety'
+
+export type FindingLevel = 'error' | 'warning' | 'note'
+
+export type FindingsFormat = 'json' | 'sarif' | 'junit'
+
+export const FINDINGS_FORMATS: FindingsFormat[] = ['json', 'sarif', 'junit']
+
+/**
+ * A problem found in a config file, in a shape CI tools can annotate
+ */
+export interface Finding {
+  /** Stable code of the check, e.g. `VAL_2001` or `HEALTH_10014` */
+  code: string
+  level: FindingLevel
+  message: string
+  /** JSON pointer to the part of the config the finding is about, e.g. `/rules/3/name` */
+  pointer?: string
+  suggestion?: string
+  /** 1-based position of `pointer` in the config file, see {@link locateFindings} */
+  line?: number
+  column?: number
+}
+
+const TRANSLATION_CODES: Record<TranslationWarningCategory, TranslationErrorCode> = {
+  feature_unsupported: TranslationErrorCode.UNSUPPORTED_FEATURE,
+  lossy_conversion: TranslationErrorCode.LOSSY_CONVERSION,
+  syntax_limitation: TranslationErrorCode.SYNTAX_LIMITATION,
+  performance_impact: TranslationErrorCode.PERFORMANCE_IMPACT,
+  security_consideration: TranslationErrorCode.SECURITY_CONSIDERATION,
+  compatibility_issue: TranslationErrorCode.COMPATIBILITY_ISSUE,
+}
+
+const TRANSLATION_LEVELS: Record<TranslationWarningSeverity, FindingLevel> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'note',
+}
+
+const HEALTH_LEVELS: Record<HealthIssue['severity'], FindingLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+}
+
+/**
+ * Names of the codes findings can have, e.g. `ShadowedRule` for `HEALTH_10014`
+ */
+const CODE_NAMES = new Map<string, string>(
+  [ValidationErrorCode, TranslationErrorCode, HealthCheckCode].flatMap((codes) =>
+    Object.entries(codes).map(([key, code]): [string, string] => [
+      code,
+      key
+        .toLowerCase()
+        .split('_')
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(''),
+    ]),
+  ),
+)
+
+/**
+ * Convert a dot path (`rules.3.name`) or path array to a JSON pointer (`/rules/3/name`)
+ */
+export function toPointer(path: string | (string | number)[]): string {
+  const segments = typeof path === 'string' ? path.split('.').filter(Boolean) : path
+  return segments.map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')
+}
+
+/**
+ * Findings for the schema and custom validation errors of a config
+ *
+ * Zod and JSON Schema report most problems twice, so JSON Schema errors are only kept for
+ * locations Zod has nothing to say about.
+ */
+export function schemaFindings(error: ValidationError): Finding[] {
+  const findings: Finding[] = (error.zodError?.errors ?? []).map((issue) => ({
+    code: ValidationErrorCode.SCHEMA_ERROR,
+    level: 'error',
+    message: issue.message,
+    pointer: toPointer(issue.path),
+  }))
+
+  const zodPointers = new Set(findings.map((finding) => finding.pointer))
+  for (const ajvError of error.ajvErrors ?? []) {
+    if (zodPointers.has(ajvError.instancePath)) continue
+    findings.push({
+      code: ValidationErrorCode.SCHEMA_ERROR,
+      level: 'error',
+      message: ajvError.message ?? `Failed ${ajvError.keyword} check`,
+      pointer: ajvError.instancePath,
+    })
+  }
+
+  for (const message of error.customErrors) {
+    findings.push({ code: ValidationErrorCode.RULE_ERROR, level: 'error', message })
+  }
+  return findings
+}
+
+export function regexFindings(issues: RegexIssue[]): Finding[] {
+  return issues.map((issue) => ({
+    code: REGEX_ISSUE_CODES[issue.code],
+    level: issue.severity,
+    message: issue.message,
+    pointer: toPointer(issue.path),
+    suggestion: issue.suggestion,
+  }))
+}
+
+export function healthFindings(issues: HealthIssue[]): Finding[] {
+  return issues.map((issue) => ({
+    code: issue.code,
+    level: HEALTH_LEVELS[issue.severity],
+    message: issue.rule ? `${issue.rule}: ${issue.message}` : issue.message,
+    pointer: issue.path === undefined ? undefined : toPointer(issue.path),
+    suggestion: issue.suggestion,
+  }))
+}
+
+/**
+ * Findings for what changes or is lost when each rule is translated to Cloudflare
+ */
+export function translationFindings(rules: CustomRule[]): Finding[] {
+  return rules.flatMap((rule, index): Finding[] => {
+    const pointer = toPointer(['rules', index])
+    try {
+      return RuleTranslator.vercelToCloudflare(rule).warnings.map((warning) => ({
+        code: TRANSLATION_CODES[warning.category],
+        level: TRANSLATION_LEVELS[warning.severity],
+        message: `${rule.name}: ${warning.message}`,
+        pointer,
+        suggestion: warning.suggestion,
+      }))
+    } catch (error) {
+      return [
+        {
+          code: TranslationErrorCode.FAILED,
+          level: 'error',
+          message: `${rule.name}: ${error instanceof Error ? error.message : String(error)}`,
+          pointer,
+        },
+      ]
+    }
+  })
+}
+
+/**
+ * Point findings about the config resolved for `environment` at where their subject is in the
+ * config file, see {@link sourcePath}
+ * @param config - The config as stored in the file
+ */
+export function sourceFindings(findings: Finding[], config: FirewallConfig, environment: string): Finding[] {
+  return findings.map((finding) =>
+    finding.pointer === undefined
+      ? finding
+      : { ...finding, pointer: toPointer(sourcePath(config, environment, fromPointer(finding.pointer))) },
+  )
+}
+
+/**
+ * Add the line and column of each finding's pointer in the config file contents
+ */
+export function locateFindings(findings: Finding[], content: string): Finding[] {
+  const locate = createPointerLocator(content)
+  return findings.map((finding) => {
+    const location = finding.pointer === undefined ? undefined : locate(finding.pointer)
+    return location ? { ...finding, ...location } : finding
+  })
+}
+
+/**
+ * Format findings about `file` as JSON, SARIF 2.1.0 (for code scanning) or JUnit XML (for CI
+ * test reports). In JUnit, errors are failing test cases and warnings and notes skipped ones,
+ * so only errors fail a report.
+ */
+export function formatFindings(findings: Finding[], format: FindingsFormat, file: string): string {
+  const uri = relative(process.cwd(), file).split(sep).join('/')
+  switch (format) {
+    case 'sarif':
+      return JSON.stringify(toSarif(findings, uri), null, 2)
+    case 'junit':
+      return toJUnit(findings, uri)
+    default:
+      return JSON.stringify(
+        {
+          file: uri,
+          findings,
+          summary: {
+            errors: findings.filter((finding) => finding.level === 'error').length,
+            warnings: findings.filter((finding) => finding.level === 'warning').length,
+            notes: findings.filter((finding) => finding.level === 'note').length,
+          },
+        },
+        null,
+        2,
+      )
+  }
+}
+
+/**
+ * Print findings about a config file in `format`, or write them to `output`, and throw if any
+ * of them is an error
+ * @param configPath - Path passed with `--config`, found like `getConfig` does when omitted
+ * @param environment - Environment the findings' config was resolved for (`--env`)
+ */
+export async function reportFindings(
+  findings: Finding[],
+  format: FindingsFormat,
+  configPath?: string,
+  output?: string,
+  environment?: string,
+): Promise<void> {
+  const file = configPath || (await ConfigFinder.findConfig()) || '.doorman.json'
+  let located = findings
+  try {
+    const content = readFileSync(file, 'utf8')
+    if (environment) {
+      const config = parseConfigContent(content, getConfigFormat(file)) as FirewallConfig
+      located = sourceFindings(located, config, environment)
+    }
+    located = locateFindings(located, content)
+  } catch {
+    // Findings are still reported without positions, and without pointers into a resolved
+    // environment that could not be mapped to the file
+    if (environment) {
+      located = findings.map(({ pointer: _pointer, ...finding }) => finding)
+    }
+  }
+
+  const report = formatFindings(located, format, file)
+  if (output && output !== '-') {
+    writeFileSync(output, report, 'utf8')
+  } else {
+    // Not through the logger, which prefixes lines in CI and would break parsing the report
+    process.stdout.write(`${report}\n`)
+  }
+
+  const errors = findings.filter((finding) => finding.level === 'error')
+  if (errors.length > 0) {
+    throw validationErrors.failed(errors.length)
+  }
+}
+
+function toSarif(findings: Finding[], uri: string) {
+  const codes = [...new Set(findings.map((finding) => finding.code))].sort()
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'vercel-doorman',
+            informationUri: 'https://doorman.griffen.codes',
+            rules: codes.map((code) => ({
+              id: code,
+              name: CODE_NAMES.get(code),
+              shortDescription: { text: CODE_NAMES.get(code) ?? code },
+            })),
+          },
+        },
+        results: findings.map((finding) => ({
+          ruleId: finding.code,
+          ruleIndex: codes.indexOf(finding.code),
+          level: finding.level,
+          message: { text: describeFinding(finding) },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri },
+                ...(finding.line !== undefined && {
+                  region: { startLine: finding.line, startColumn: finding.column },
+                }),
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  }
+}
+
+function toJUnit(findings: Finding[], uri: string): string {
+  const failures = findings.filter((finding) => finding.level === 'error').length
+  const skipped = findings.length - failures
+  const testCases = findings.map((finding) => {
+    const position = finding.line === undefined ? uri : `${uri}:${finding.line}:${finding.column}`
+    const attributes = `classname="${escapeXml(finding.code)}" name="${escapeXml(`${position} ${finding.message}`)}" file="${escapeXml(uri)}"${finding.line === undefined ? '' : ` line="${finding.line}"`}`
+    const result =
+      finding.level === 'error'
+        ? `<failure type="${escapeXml(finding.code)}" message="${escapeXml(finding.message)}">${escapeXml(describeFinding(finding))}</failure>`
+        : `<skipped message="${escapeXml(`${finding.level}: ${finding.message}`)}"/>`
+    return `    <testcase ${attributes}>\n      ${result}\n    </testcase>`
+  })
+  if (findings.length === 0) {
+    testCases.push(`    <testcase classname="vercel-doorman" name="${escapeXml(uri)}" file="${escapeXml(uri)}"/>`)
+  }
+
+  const counts = `tests="${testCases.length}" failures="${failures}" errors="0" skipped="${skipped}"`
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="vercel-doorman" ${counts}>`,
+    `  <testsuite name="${escapeXml(uri)}" ${counts}>`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n')
+}
+
+function fromPointer(pointer: string): string[] {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function describeFinding({ message, suggestion }: Finding): string {
+  return suggestion ? `${message}\n${suggestion}` : message
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
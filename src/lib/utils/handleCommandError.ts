@@ -1,5 +1,6 @@
 import chalk from 'chalk'
 import { ZodError } from 'zod'
+import { DoormanError } from '../errors/DoormanError'
 import { logger } from '../logger'
 import { ErrorFormatter } from './errorFormatter'
 
@@ -11,7 +12,9 @@ import { ErrorFormatter } from './errorFormatter'
  * @param context - A short description of what was happening (e.g., 'syncing firewall rules')
  */
 export function handleCommandError(error: unknown, context: string): never {
-  if (error instanceof SyntaxError) {
+  if (DoormanError.isDoormanError(error)) {
+    logger.error(error.format())
+  } else if (error instanceof SyntaxError) {
     logger.log(ErrorFormatter.wrapErrorBlock(['Invalid JSON format in config file:', `  ${error.message}`]))
   } else if (error instanceof ZodError) {
     logger.error(chalk.red('Schema validation failed:'))
@@ -0,0 +1,529 @@
+/**
+ * A Terraform expression written as is, such as a reference to a variable or resource
+ */
+export class HclReference {
+  constructor(public readonly expression: string) {}
+}
+
+/**
+ * A value of a Terraform attribute. Object properties that are undefined are left out
+ */
+export type HclValue =
+  | string
+  | number
+  | boolean
+  | null
+  | HclReference
+  | HclValue[]
+  | { [key: string]: HclValue | undefined }
+
+/**
+ * A Terraform block, e.g. `resource "type" "name" { ... }`
+ */
+export interface HclBlock {
+  type: string
+  labels?: string[]
+  body: HclEntry[]
+}
+
+/**
+ * An attribute or nested block in the body of a block. Attributes that are undefined are left out
+ */
+export type HclEntry = HclBlock | { name: string; value: HclValue | undefined }
+
+const INDENT = '  '
+
+/**
+ * Quotes a string for HCL, escaping characters that would otherwise end the string or
+ * start a template interpolation or directive
+ */
+export function hclString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\$\{/g, () => '$${')
+    .replace(/%\{/g, '%%{')
+  return `"${escaped}"`
+}
+
+/**
+ * Turns an ID into a Terraform resource name. Names are lowercase, start with a letter or
+ * underscore, and are unique among the names in `taken`, which the new name is added to.
+ *
+ * @param id - Rule ID, or another identifier to name the resource after
+ * @param taken - Names already used for this resource type
+ * @returns A valid, unique resource name
+ */
+export function toResourceName(id: string, taken: Set<string>): string {
+  const base =
+    id
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '_')
+      .replace(/^_+|_+$/g, '') || 'rule'
+  const name = /^[a-z_]/.test(base) ? base : `rule_${base}`
+
+  let unique = name
+  for (let suffix = 2; taken.has(unique); suffix++) {
+    unique = `${name}_${suffix}`
+  }
+  taken.add(unique)
+  return unique
+}
+
+/**
+ * Renders blocks as a Terraform file, aligning the equals signs of neighbouring attributes
+ * the way `terraform fmt` does
+ */
+export function renderHcl(entries: HclEntry[]): string {
+  return `${renderEntries(entries, '')}\n`
+}
+
+function renderEntries(entries: HclEntry[], indent: string): string {
+  const lines: string[] = []
+  let attributes: { name: string; value: string }[] = []
+
+  const flush = () => {
+    const width = Math.max(0, ...attributes.map(({ name }) => name.length))
+    attributes.forEach(({ name, value }) => lines.push(`${indent}${name.padEnd(width)} = ${value}`))
+    attributes = []
+  }
+
+  for (const entry of entries) {
+    if ('type' in entry) {
+      flush()
+      if (lines.length > 0) {
+        lines.push('')
+      }
+      lines.push(renderBlock(entry, indent))
+      continue
+    }
+    if (entry.value === undefined) {
+      continue
+    }
+
+    const value = renderValue(entry.value, indent)
+    attributes.push({ name: hclKey(entry.name), value })
+    // A multi-line value ends the run of aligned attributes
+    if (value.includes('\n')) {
+      flush()
+    }
+  }
+  flush()
+
+  return lines.join('\n')
+}
+
+function renderBlock({ type, labels = [], body }: HclBlock, indent: string): string {
+  const header = [type, ...labels.map(hclString)].join(' ')
+  const content = renderEntries(body, indent + INDENT)
+  return content ? `${indent}${header} {\n${content}\n${indent}}` : `${indent}${header} {}`
+}
+
+function renderValue(value: HclValue, indent: string): string {
+  if (value === null) {
+    return 'null'
+  }
+  if (value instanceof HclReference) {
+    return value.expression
+  }
+  if (typeof value === 'string') {
+    return hclString(value)
+  }
+  if (typeof value !== 'object') {
+    return String(value)
+  }
+
+  const inner = indent + INDENT
+  if (Array.isArray(value)) {
+    if (value.every((item) => item === null || typeof item !== 'object' || item instanceof HclReference)) {
+      return `[${value.map((item) => renderValue(item, indent)).join(', ')}]`
+    }
+    return `[\n${value.map((item) => `${inner}${renderValue(item, inner)},`).join('\n')}\n${indent}]`
+  }
+
+  const content = renderEntries(
+    Object.entries(value).map(([name, item]) => ({ name, value: item })),
+    inner,
+  )
+  return content ? `{\n${content}\n${indent}}` : '{}'
+}
+
+function hclKey(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(name) ? name : hclString(name)
+}
+
+/**
+ * A syntax error in an HCL file, or an expression the parser does not support
+ */
+export class HclParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+  ) {
+    super(`${message} (line ${line})`)
+    this.name = 'HclParseError'
+  }
+}
+
+/**
+ * Parses a Terraform file into its blocks and attributes.
+ *
+ * Literal values, collections, heredocs and references are supported. References, function
+ * calls and strings with interpolations are returned as an `HclReference` holding their
+ * source; operators and `for` expressions are not supported.
+ *
+ * @param source - Contents of a `.tf` file
+ * @returns The top-level blocks and attributes, in file order
+ * @throws HclParseError if the file is not valid HCL or uses unsupported expressions
+ */
+export function parseHcl(source: string): HclEntry[] {
+  return new HclParser(source).parseFile()
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' }
+
+class HclParser {
+  private position = 0
+
+  constructor(private readonly source: string) {}
+
+  parseFile(): HclEntry[] {
+    const entries = this.parseBody()
+    if (this.position < this.source.length) {
+      throw this.error(`Unexpected "${this.peek()}"`)
+    }
+    return entries
+  }
+
+  private parseBody(): HclEntry[] {
+    const entries: HclEntry[] = []
+
+    for (;;) {
+      this.skipWhitespace(true)
+      if (this.position >= this.source.length || this.peek() === '}') {
+        return entries
+      }
+
+      const name = this.parseIdentifier()
+      this.skipWhitespace(false)
+
+      if (this.peek() === '=') {
+        this.position++
+        entries.push({ name, value: this.parseExpression() })
+        continue
+      }
+
+      const labels: string[] = []
+      while (this.peek() !== '{') {
+        labels.push(this.peek() === '"' ? this.parseLabel() : this.parseIdentifier())
+        this.skipWhitespace(false)
+      }
+      this.position++
+      const body = this.parseBody()
+      this.expect('}')
+      entries.push({ type: name, labels, body })
+    }
+  }
+
+  private parseExpression(): HclValue {
+    this.skipWhitespace(false)
+    const value = this.parseOperand()
+    this.skipWhitespace(false)
+
+    if (/^[?+\-*/%<>=!&|]/.test(this.peek())) {
+      throw this.error('Operators and conditional expressions are not supported')
+    }
+    return value
+  }
+
+  private parseOperand(): HclValue {
+    const char = this.peek()
+
+    if (char === '"') {
+      return this.parseTemplate()
+    }
+    if (this.source.startsWith('<<', this.position)) {
+      return this.parseHeredoc()
+    }
+    if (char === '[') {
+      return this.parseTuple()
+    }
+    if (char === '{') {
+      return this.parseObject()
+    }
+    if (/[-0-9]/.test(char)) {
+      return this.parseNumber()
+    }
+    if (/[A-Za-z_]/.test(char)) {
+      return this.parseReference()
+    }
+    throw this.error(char ? `Unexpected "${char}"` : 'Unexpected end of file')
+  }
+
+  private parseTuple(): HclValue[] {
+    const items: HclValue[] = []
+    this.position++
+
+    for (;;) {
+      this.skipWhitespace(true)
+      if (this.peek() === ']') {
+        this.position++
+        return items
+      }
+      if (this.source.startsWith('for ', this.position)) {
+        throw this.error('"for" expressions are not supported')
+      }
+
+      items.push(this.parseExpression())
+      this.skipWhitespace(true)
+      if (this.peek() === ',') {
+        this.position++
+      } else if (this.peek() !== ']') {
+        throw this.error(`Expected "," or "]" but found "${this.peek()}"`)
+      }
+    }
+  }
+
+  private parseObject(): { [key: string]: HclValue } {
+    const object: { [key: string]: HclValue } = {}
+    this.position++
+
+    for (;;) {
+      this.skipWhitespace(true)
+      if (this.peek() === '}') {
+        this.position++
+        return object
+      }
+
+      const key = this.peek() === '"' ? this.parseLabel() : this.parseIdentifier()
+      this.skipWhitespace(false)
+      if (this.peek() !== '=' && this.peek() !== ':') {
+        throw this.error(`Expected "=" after "${key}"`)
+      }
+      this.position++
+      object[key] = this.parseExpression()
+
+      this.skipWhitespace(false)
+      if (this.peek() === ',') {
+        this.position++
+      }
+    }
+  }
+
+  private parseNumber(): number {
+    const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(this.source.slice(this.position))
+    if (!match) {
+      throw this.error(`Unexpected "${this.peek()}"`)
+    }
+    this.position += match[0].length
+    return Number(match[0])
+  }
+
+  /**
+   * A literal, or a reference such as `var.zone_id` or `cloudflare_list.ips.id`, including
+   * function calls and index operators
+   */
+  private parseReference(): HclValue {
+    const start = this.position
+    const name = this.parseIdentifier()
+
+    if (name === 'true' || name === 'false') {
+      return name === 'true'
+    }
+    if (name === 'null') {
+      return null
+    }
+
+    for (;;) {
+      const char = this.peek()
+      if (char === '.' && /[A-Za-z_*]/.test(this.source[this.position + 1] ?? '')) {
+        this.position++
+        if (this.peek() === '*') {
+          this.position++
+        } else {
+          this.parseIdentifier()
+        }
+      } else if (char === '[') {
+        this.parseTuple()
+      } else if (char === '(') {
+        this.skipArguments()
+      } else {
+        return new HclReference(this.source.slice(start, this.position))
+      }
+    }
+  }
+
+  private skipArguments(): void {
+    this.position++
+    for (;;) {
+      this.skipWhitespace(true)
+      if (this.peek() === ')') {
+        this.position++
+        return
+      }
+      this.parseExpression()
+      this.skipWhitespace(true)
+      if (this.source.startsWith('...', this.position)) {
+        this.position += 3
+      }
+      if (this.peek() === ',') {
+        this.position++
+      } else if (this.peek() !== ')') {
+        throw this.error(`Expected "," or ")" but found "${this.peek()}"`)
+      }
+    }
+  }
+
+  /**
+   * A quoted string. A string that is a single interpolation, e.g. `"${var.name}"`, is
+   * returned as that reference, and one mixing text and interpolations as its source
+   */
+  private parseTemplate(): HclValue {
+    const start = this.position
+    let value = ''
+    let interpolations = 0
+    let reference = ''
+    this.position++
+
+    for (;;) {
+      const char = this.source[this.position]
+      if (char === undefined || char === '\n') {
+        throw this.error('Unterminated string')
+      }
+      if (char === '"') {
+        this.position++
+        break
+      }
+
+      if (char === '\\') {
+        const escape = this.source[this.position + 1] ?? ''
+        if (escape === 'u' || escape === 'U') {
+          const length = escape === 'u' ? 4 : 8
+          const code = this.source.slice(this.position + 2, this.position + 2 + length)
+          value += String.fromCodePoint(parseInt(code, 16))
+          this.position += 2 + length
+        } else if (ESCAPES[escape] !== undefined) {
+          value += ESCAPES[escape]
+          this.position += 2
+        } else {
+          throw this.error(`Invalid escape sequence "\\${escape}"`)
+        }
+      } else if (this.source.startsWith('$${', this.position) || this.source.startsWith('%%{', this.position)) {
+        value += `${char}{`
+        this.position += 3
+      } else if (this.source.startsWith('${', this.position) || this.source.startsWith('%{', this.position)) {
+        const end = this.findClosingBrace(this.position + 2)
+        reference = this.source.slice(this.position + 2, end).trim()
+        interpolations++
+        this.position = end + 1
+      } else {
+        value += char
+        this.position++
+      }
+    }
+
+    if (interpolations === 0) {
+      return value
+    }
+    const source = this.source.slice(start, this.position)
+    return new HclReference(interpolations === 1 && source === `"\${${reference}}"` ? reference : source)
+  }
+
+  private parseLabel(): string {
+    const label = this.parseTemplate()
+    if (typeof label !== 'string') {
+      throw this.error('Labels and keys cannot contain interpolations')
+    }
+    return label
+  }
+
+  private parseHeredoc(): string {
+    const match = /^<<(-?)([A-Za-z_][A-Za-z0-9_]*)\r?\n/.exec(this.source.slice(this.position))
+    if (!match) {
+      throw this.error('Invalid heredoc')
+    }
+    const [header, indented, marker] = match
+    const bodyStart = this.position + header.length
+    const end = new RegExp(`^[ \\t]*${marker}[ \\t]*$`, 'm')
+    const closing = end.exec(this.source.slice(bodyStart))
+    if (!closing) {
+      throw this.error(`Heredoc is missing its closing "${marker}"`)
+    }
+
+    let lines = this.source.slice(bodyStart, bodyStart + closing.index).split('\n')
+    lines.pop()
+    if (indented) {
+      const indent = Math.min(
+        ...lines.filter((line) => line.trim()).map((line) => line.length - line.trimStart().length),
+      )
+      lines = lines.map((line) => line.slice(indent))
+    }
+
+    this.position = bodyStart + closing.index + closing[0].length
+    return lines.map((line) => `${line}\n`).join('')
+  }
+
+  private parseIdentifier(): string {
+    const match = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(this.source.slice(this.position))
+    if (!match) {
+      const char = this.peek()
+      throw this.error(char ? `Unexpected "${char}"` : 'Unexpected end of file')
+    }
+    this.position += match[0].length
+    return match[0]
+  }
+
+  private findClosingBrace(from: number): number {
+    let depth = 1
+    for (let index = from; index < this.source.length; index++) {
+      const char = this.source[index]
+      if (char === '{') {
+        depth++
+      } else if (char === '}' && --depth === 0) {
+        return index
+      }
+    }
+    throw this.error('Unterminated interpolation')
+  }
+
+  /**
+   * Skips spaces and comments, and newlines too if `newlines` is set
+   */
+  private skipWhitespace(newlines: boolean): void {
+    while (this.position < this.source.length) {
+      const char = this.peek()
+      if (char === ' ' || char === '\t' || char === '\r' || (newlines && char === '\n')) {
+        this.position++
+      } else if (char === '#' || this.source.startsWith('//', this.position)) {
+        const end = this.source.indexOf('\n', this.position)
+        this.position = end === -1 ? this.source.length : end
+      } else if (this.source.startsWith('/*', this.position)) {
+        const end = this.source.indexOf('*/', this.position + 2)
+        if (end === -1) {
+          throw this.error('Unterminated comment')
+        }
+        this.position = end + 2
+      } else {
+        return
+      }
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      throw this.error(`Expected "${char}"`)
+    }
+    this.position++
+  }
+
+  private peek(): string {
+    return this.source[this.position] ?? ''
+  }
+
+  private error(message: string): HclParseError {
+    return new HclParseError(message, this.source.slice(0, this.position).split('\n').length)
+  }
+}
@@ -0,0 +1,265 @@
+import { migrationErrors } from '../errors'
+import type { ProviderType } from '../providers/IFirewallProvider'
+import { RuleTranslator, TranslationWarningSystem } from '../translators'
+import type { TranslationWarning } from '../translators'
+import type { CustomRule, FirewallConfig, IPBlockingRule, ProjectConfig } from '../types'
+import type { VercelRuleType } from '../types/vercel'
+import { compact } from './compact'
+import { CompatibilityMatrix } from './compatibility'
+import { isDeepEqual } from './isDeepEqual'
+import { omitId } from './omitId'
+import { toConfigRule } from './unifiedConfig'
+
+const MITIGATION_FIELDS = ['action', 'rateLimit', 'redirect', 'actionDuration'] as const
+
+/**
+ * How completely a rule survived the migration
+ */
+export type RuleMigrationStatus = 'full' | 'lossy' | 'failed'
+
+export interface RuleMigrationResult {
+  /** Rule name, or the address of an IP rule */
+  name: string
+  id?: string
+  status: RuleMigrationStatus
+  warnings: TranslationWarning[]
+}
+
+export interface MigrationResult {
+  from: ProviderType
+  to: ProviderType
+  /** The config for the target provider. Rules that failed to migrate are left out */
+  config: FirewallConfig
+  rules: RuleMigrationResult[]
+  summary: ReturnType<typeof TranslationWarningSystem.getWarningSummary>
+}
+
+/**
+ * Converts a config for one provider into a config for another, reporting per rule how
+ * completely it translated.
+ *
+ * Config files use the same rule format for every provider, so rules that translate are
+ * copied as written; each is translated to the target provider's format and back to find
+ * what would change. Lossy rules get a note in their description listing what changes, so
+ * the difference stays visible in the migrated config. Rules that fail are left out. Rule
+ * IDs are assigned by each provider and are dropped, and so are the source provider's
+ * identifiers and version.
+ *
+ * @param config - The config to migrate
+ * @param from - The provider the config is written for
+ * @param to - The provider to migrate to
+ * @param target - Identifiers of the target project or zone
+ * @returns The migrated config and the per-rule report
+ * @throws DoormanError if both providers are the same
+ */
+export function migrateConfig(
+  config: FirewallConfig,
+  from: ProviderType,
+  to: ProviderType,
+  target: ProjectConfig = {},
+): MigrationResult {
+  if (from === to) {
+    throw migrationErrors.incompatible(from, to, 'the config is already written for this provider')
+  }
+
+  const results: RuleMigrationResult[] = []
+  const rules: CustomRule[] = []
+
+  for (const rule of config.rules) {
+    const { result, migrated } = migrateRule(rule, from, to)
+    results.push(result)
+    if (migrated) {
+      rules.push(migrated)
+    }
+  }
+
+  const ips = config.ips?.map((ip) => {
+    results.push(migrateIPRule(ip, to))
+    return omitId(ip) as IPBlockingRule
+  })
+
+  return {
+    from,
+    to,
+    config: compact({
+      $schema: config.$schema,
+      ...target,
+      firewallEnabled: config.firewallEnabled,
+      rules,
+      ips,
+      tests: config.tests,
+    }),
+    rules: results,
+    summary: TranslationWarningSystem.getWarningSummary(results.flatMap((result) => result.warnings)),
+  }
+}
+
+function migrateRule(
+  rule: CustomRule,
+  from: ProviderType,
+  to: ProviderType,
+): { result: RuleMigrationResult; migrated?: CustomRule } {
+  const warnings = getCompatibilityWarnings(rule, from, to)
+  let migrated: CustomRule | undefined
+
+  // Rules using features the target lacks cannot be translated
+  if (!warnings.some((warning) => warning.severity === 'critical')) {
+    try {
+      checkTranslation(rule, to, warnings)
+      migrated = omitId(rule) as CustomRule
+    } catch (error) {
+      warnings.push({
+        ...TranslationWarningSystem.createWarning(
+          'complex_expressions',
+          rule.name,
+          'conditionGroup',
+          error instanceof Error ? error.message : String(error),
+          'Rewrite the rule using conditions the target provider supports.',
+        ),
+        severity: 'critical',
+      })
+    }
+  }
+
+  // Both legs of the Cloudflare round trip warn about the same regex patterns
+  const uniqueWarnings = warnings.filter(
+    (warning, index) => warnings.findIndex((other) => other.message === warning.message) === index,
+  )
+  const status = migrated ? getStatus(uniqueWarnings) : 'failed'
+  if (migrated && status === 'lossy') {
+    const changes = uniqueWarnings.filter(isLossy).map((warning) => warning.message)
+    migrated = {
+      ...migrated,
+      description: [rule.description, `Changes on ${to}: ${changes.join('; ')}`].filter(Boolean).join(' | '),
+    }
+  }
+
+  return {
+    result: { name: rule.name, id: rule.id, status, warnings: uniqueWarnings },
+    migrated: status === 'failed' ? undefined : migrated,
+  }
+}
+
+/**
+ * Translates a rule to the target provider's format and back, warning about any fields
+ * that come out different
+ */
+function checkTranslation(rule: CustomRule, to: ProviderType, warnings: TranslationWarning[]): void {
+  const { result: unified, warnings: unifiedWarnings } = RuleTranslator.vercelToUnified(rule)
+  warnings.push(...unifiedWarnings)
+
+  // Compare against the rule as the source provider stores it, so only real losses show up
+  const original = compact(toConfigRule(unified))
+  const translated = to === 'cloudflare' ? compact(translateThroughCloudflare(rule, warnings)) : original
+
+  const changed = [
+    ...(isDeepEqual(translated.conditionGroup, original.conditionGroup) ? [] : ['conditionGroup']),
+    ...(translated.active === original.active ? [] : ['active']),
+    ...MITIGATION_FIELDS.filter(
+      (field) => !isDeepEqual(translated.action.mitigate[field], original.action.mitigate[field]),
+    ),
+  ]
+  if (changed.length > 0) {
+    warnings.push(
+      TranslationWarningSystem.createLossyConversionWarning(
+        rule.name,
+        `the ${to} version changes ${changed.join(', ')}`,
+        rule.name,
+        changed.join(', '),
+      ),
+    )
+  }
+}
+
+function translateThroughCloudflare(rule: CustomRule, warnings: TranslationWarning[]): CustomRule {
+  const cloudflare = RuleTranslator.vercelToCloudflare(rule)
+  const unified = RuleTranslator.cloudflareToUnified(cloudflare.result)
+  warnings.push(...cloudflare.warnings, ...unified.warnings)
+  return toConfigRule(unified.result)
+}
+
+function migrateIPRule(ip: IPBlockingRule, to: ProviderType): RuleMigrationResult {
+  const warnings: TranslationWarning[] = []
+
+  if (to === 'cloudflare' && ip.hostname && ip.hostname !== '*') {
+    warnings.push(
+      TranslationWarningSystem.createLossyConversionWarning(
+        'IP rule hostname',
+        `Cloudflare IP rules apply to every hostname in the zone, not only ${ip.hostname}`,
+        ip.ip,
+        'hostname',
+      ),
+    )
+  }
+
+  return { name: ip.ip, id: ip.id, status: getStatus(warnings), warnings }
+}
+
+/**
+ * Warnings for condition types and actions the compatibility matrix marks as unsupported
+ * or partially supported by the target provider
+ */
+function getCompatibilityWarnings(rule: CustomRule, from: ProviderType, to: ProviderType): TranslationWarning[] {
+  const warnings: TranslationWarning[] = []
+  const types = new Set<VercelRuleType>(
+    rule.conditionGroup.flatMap((group) => group.conditions.map((condition) => condition.type)),
+  )
+
+  for (const type of types) {
+    const compatibility = CompatibilityMatrix.getFieldCompatibility(type, to)
+    if (compatibility.level === 'not-supported') {
+      warnings.push(
+        TranslationWarningSystem.createUnsupportedFeatureWarning(
+          `${type} condition`,
+          from,
+          to,
+          rule.name,
+          'conditionGroup',
+        ),
+      )
+    } else if (compatibility.level === 'partial') {
+      warnings.push(
+        TranslationWarningSystem.createLossyConversionWarning(
+          `${type} condition`,
+          compatibility.limitations?.join(', ') || compatibility.notes || `partially supported by ${to}`,
+          rule.name,
+          'conditionGroup',
+        ),
+      )
+    }
+  }
+
+  const action = rule.action.mitigate.action
+  const compatibility = CompatibilityMatrix.getActionCompatibility(action, to)
+  if (compatibility.level === 'not-supported') {
+    warnings.push(
+      TranslationWarningSystem.createUnsupportedFeatureWarning(`${action} action`, from, to, rule.name, 'action'),
+    )
+  } else if (compatibility.level === 'partial') {
+    warnings.push(
+      TranslationWarningSystem.createLossyConversionWarning(
+        `${action} action`,
+        [compatibility.notes, ...(compatibility.limitations || [])].filter(Boolean).join(', '),
+        rule.name,
+        'action',
+      ),
+    )
+  }
+
+  return warnings
+}
+
+/**
+ * A rule is lossy when any warning says its behavior changes; informational notes about
+ * performance alone leave it fully migrated
+ */
+function getStatus(warnings: TranslationWarning[]): RuleMigrationStatus {
+  if (warnings.some((warning) => warning.severity === 'critical')) {
+    return 'failed'
+  }
+  return warnings.some(isLossy) ? 'lossy' : 'full'
+}
+
+function isLossy(warning: TranslationWarning): boolean {
+  return warning.severity === 'warning' || warning.category === 'lossy_conversion'
+}
@@ -1,6 +1,7 @@
 import { logger } from '../logger'
 import { prompt } from '../ui/prompt'
 import type { UnifiedConfig } from '../types/unified'
+import { flattenConditions } from '../types/unified'
 import type { ChangeSet } from '../providers/IFirewallProvider'
 
 /**
@@ -291,6 +292,9 @@ export class OperationSafety {
     if (changes.rulesToDelete?.length) {
       logger.info(`   • Rules to delete: ${changes.rulesToDelete.length}`)
     }
+    if (changes.rulesToMove?.length) {
+      logger.info(`   • Rules to move: ${changes.rulesToMove.length}`)
+    }
     if (changes.ipsToAdd?.length) {
       logger.info(`   • IPs to add: ${changes.ipsToAdd.length}`)
     }
@@ -422,7 +426,7 @@ export class OperationSafety {
     const potentiallyBlockingRules = config.rules.filter(
       (rule) =>
         rule.action.type === 'deny' &&
-        rule.conditions.some(
+        flattenConditions(rule.conditions).some(
           (condition) => condition.field === 'path' && (condition.value === '/' || condition.value === '*'),
         ),
     )
@@ -0,0 +1,166 @@
+import { createHash } from 'crypto'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { syncErrors } from '../errors/helpers'
+import type { ChangeSet, ProviderTarget, ProviderType } from '../providers/IFirewallProvider'
+import type { UnifiedConfig } from '../types/unified'
+
+export const PLAN_FORMAT_VERSION = 2
+export const DEFAULT_PLAN_PATH = 'doorman.plan.json'
+
+/**
+ * Remote configuration state a plan was computed against
+ */
+export interface PlanRemoteState {
+  version?: number
+  updatedAt?: string
+}
+
+/**
+ * Serialized result of `plan`, consumed by `apply --plan`.
+ *
+ * `config` is the desired state the change set was computed from, so applying
+ * the plan does not depend on the local config file at apply time. `hash`
+ * covers every other field and guards against edits after the plan was made.
+ */
+export interface FirewallPlan {
+  formatVersion: number
+  createdAt: string
+  provider: ProviderType
+  /** Project or zone the plan was computed for, see {@link IFirewallProvider.getTarget} */
+  target: ProviderTarget
+  /** Environment overlay the config was resolved with (`--env`) */
+  environment?: string
+  remote: PlanRemoteState
+  config: UnifiedConfig
+  changes: ChangeSet
+  hash: string
+}
+
+/**
+ * JSON.stringify with object keys sorted, so the hash does not depend on key order
+ */
+function canonicalize(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(Object.entries(val).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    }
+    return val
+  })
+}
+
+/**
+ * SHA-256 of the canonical JSON of a value
+ */
+export function sha256(value: unknown): string {
+  return createHash('sha256').update(canonicalize(value)).digest('hex')
+}
+
+/**
+ * Compute the content hash of a plan (every field except the hash itself)
+ */
+export function hashPlan(plan: Omit<FirewallPlan, 'hash'>): string {
+  const { formatVersion, createdAt, provider, target, environment, remote, config, changes } = plan
+  return sha256({ formatVersion, createdAt, provider, target, environment, remote, config, changes })
+}
+
+/**
+ * Compute a hash of the operations in a change set, ignoring the remote metadata
+ */
+export function hashChanges(changes: ChangeSet): string {
+  return sha256({
+    rulesToAdd: changes.rulesToAdd,
+    rulesToUpdate: changes.rulesToUpdate,
+    rulesToDelete: changes.rulesToDelete,
+    rulesToMove: changes.rulesToMove || [],
+    ipsToAdd: changes.ipsToAdd || [],
+    ipsToUpdate: changes.ipsToUpdate || [],
+    ipsToDelete: changes.ipsToDelete || [],
+    securityChanges: changes.securityChanges || [],
+    bypassToAdd: changes.bypassToAdd || [],
+    bypassToDelete: changes.bypassToDelete || [],
+  })
+}
+
+/**
+ * Build a plan from a change set computed by `provider.getChanges(config)`
+ * @param target - `provider.getTarget()`, so the plan is only applied where it was computed
+ */
+export function createPlan(
+  provider: ProviderType,
+  target: ProviderTarget,
+  config: UnifiedConfig,
+  changes: ChangeSet,
+  environment?: string,
+): FirewallPlan {
+  const plan: Omit<FirewallPlan, 'hash'> = {
+    formatVersion: PLAN_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    provider,
+    target,
+    ...(environment ? { environment } : {}),
+    remote: { version: changes.version, updatedAt: changes.updatedAt },
+    config,
+    changes,
+  }
+  return { ...plan, hash: hashPlan(plan) }
+}
+
+export function writePlan(plan: FirewallPlan, path: string = DEFAULT_PLAN_PATH): void {
+  writeFileSync(path, JSON.stringify(plan, null, 2))
+}
+
+/**
+ * Read a plan file and verify its format version and content hash
+ */
+export function readPlan(path: string): FirewallPlan {
+  if (!existsSync(path)) {
+    throw syncErrors.invalidPlan(path, 'file not found')
+  }
+
+  let plan: FirewallPlan
+  try {
+    plan = JSON.parse(readFileSync(path, 'utf8')) as FirewallPlan
+  } catch {
+    throw syncErrors.invalidPlan(path, 'not valid JSON')
+  }
+
+  if (plan?.formatVersion !== PLAN_FORMAT_VERSION) {
+    throw syncErrors.invalidPlan(path, `unsupported format version ${plan?.formatVersion}`)
+  }
+  if (typeof plan !== 'object' || !plan.changes || !plan.config || !plan.provider || !plan.target) {
+    throw syncErrors.invalidPlan(path, 'missing provider, target, config or changes')
+  }
+  if (plan.hash !== hashPlan(plan)) {
+    throw syncErrors.invalidPlan(path, 'content hash does not match, the file was modified after it was created')
+  }
+
+  return plan
+}
+
+/**
+ * Throw if the remote configuration has drifted from the state the plan was
+ * computed against. `current` is a change set freshly computed from `plan.config`.
+ */
+export function assertPlanCurrent(plan: FirewallPlan, current: ChangeSet): void {
+  const drifted =
+    current.version !== plan.remote.version ||
+    current.updatedAt !== plan.remote.updatedAt ||
+    hashChanges(current) !== hashChanges(plan.changes)
+
+  if (drifted) {
+    throw syncErrors.stalePlan(plan.provider, plan.remote, { version: current.version, updatedAt: current.updatedAt })
+  }
+}
+
+/**
+ * Throw if the plan was computed for a different project or zone than `target`
+ * @param target - `getTarget()` of the provider the plan is about to be applied with
+ */
+export function assertPlanTarget(plan: FirewallPlan, target: ProviderTarget, path: string = DEFAULT_PLAN_PATH): void {
+  const keys = [...new Set([...Object.keys(plan.target), ...Object.keys(target)])].sort()
+  const mismatched = keys.filter((key) => plan.target[key] !== target[key])
+  if (mismatched.length > 0) {
+    const describe = (values: ProviderTarget) => mismatched.map((key) => `${key} ${values[key] ?? '(none)'}`).join(', ')
+    throw syncErrors.invalidPlan(path, `plan was made for ${describe(plan.target)}, not ${describe(target)}`)
+  }
+}
@@ -0,0 +1,193 @@
+import { existsSync, readFileSync } from 'fs'
+import { configErrors, validationErrors } from '../errors/helpers'
+import { RuleEvaluator } from '../evaluator'
+import { logger } from '../logger'
+import type { ChangeSet } from '../providers/IFirewallProvider'
+import { policyFileSchema } from '../schemas/policySchemas'
+import type { FirewallConfig, Policy } from '../types'
+import { getConfigFormat, parseConfigContent } from './configFormat'
+
+/**
+ * Environment variable naming the policies file, so CI can apply policies kept outside the
+ * project's repository
+ */
+export const POLICIES_ENV_VAR = 'DOORMAN_POLICIES'
+
+/**
+ * Policies files looked for in the working directory, in order
+ */
+export const DEFAULT_POLICIES_PATHS = ['doorman.policies.json', 'doorman.policies.yaml', 'doorman.policies.yml']
+
+/**
+ * A policies file and the policies it contains
+ */
+export interface LoadedPolicies {
+  path: string
+  policies: Policy[]
+}
+
+/**
+ * What a policy check can see beyond the config itself
+ * @property changes - Changes about to be applied, for policies on deletions
+ * @property allowDelete - Whether `--allow-delete` was passed
+ */
+export interface PolicyContext {
+  changes?: ChangeSet
+  allowDelete?: boolean
+}
+
+/**
+ * A config's violation of a policy
+ * @property path - Path of the rule or IP blocking rule the violation is about, e.g. `['rules', 3]`
+ */
+export interface PolicyViolation {
+  message: string
+  path?: (string | number)[]
+}
+
+/**
+ * Find and read the policies file: the file named by DOORMAN_POLICIES, then `path` if given,
+ * then `doorman.policies.*` in the working directory.
+ *
+ * DOORMAN_POLICIES comes first so that policies CI sets for the organization cannot be
+ * swapped out by the project. A path that was asked for must exist, so a typo cannot turn
+ * the policies off.
+ *
+ * @returns The policies, or undefined if there is no policies file
+ */
+export function loadPolicies(path?: string): LoadedPolicies | undefined {
+  const enforced = process.env[POLICIES_ENV_VAR]
+  if (enforced && path && path !== enforced) {
+    logger.warn(`Ignoring --policies ${path}: ${POLICIES_ENV_VAR} sets the policies file to ${enforced}`)
+  }
+  const requested = enforced || path
+  const file = requested || DEFAULT_POLICIES_PATHS.find((candidate) => existsSync(candidate))
+  if (!file) {
+    return undefined
+  }
+  if (!existsSync(file)) {
+    throw configErrors.invalidPolicies(file, 'file not found')
+  }
+
+  let content: unknown
+  try {
+    content = parseConfigContent(readFileSync(file, 'utf8'), getConfigFormat(file))
+  } catch (error) {
+    throw configErrors.invalidPolicies(file, error instanceof Error ? error.message : String(error))
+  }
+
+  const parsed = policyFileSchema.safeParse(content)
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0]!
+    throw configErrors.invalidPolicies(file, `${issue.path.join('.') || 'policies'}: ${issue.message}`)
+  }
+
+  return { path: file, policies: parsed.data.policies }
+}
+
+/**
+ * Check a config against policies
+ * @returns A description of each violation, empty if the config satisfies every policy
+ */
+export function evaluatePolicies(policies: Policy[], config: FirewallConfig, context: PolicyContext = {}): string[] {
+  return findPolicyViolations(policies, config, context).map((violation) => violation.message)
+}
+
+/**
+ * Check a config against policies, keeping where in the config each violation is
+ * @returns The violations, empty if the config satisfies every policy
+ */
+export function findPolicyViolations(
+  policies: Policy[],
+  config: FirewallConfig,
+  context: PolicyContext = {},
+): PolicyViolation[] {
+  const { rules, ips = [] } = config
+  const evaluator = new RuleEvaluator({ rules })
+  const violations: PolicyViolation[] = []
+
+  for (const policy of policies) {
+    const report = (message: string, path?: (string | number)[]) =>
+      violations.push({
+        message: `${policy.name || policy.type}: ${message}${policy.description ? ` (${policy.description})` : ''}`,
+        ...(path ? { path } : {}),
+      })
+
+    switch (policy.type) {
+      case 'protected_paths': {
+        const actions = policy.actions || ['deny']
+        for (const [index, rule] of rules.entries()) {
+          if (!rule.active || !actions.includes(rule.action.mitigate.action)) continue
+          // A group without path conditions applies to every path
+          const blocked = policy.paths.filter((path) =>
+            rule.conditionGroup.some((group) =>
+              group.conditions
+                .filter((condition) => condition.type === 'path' || condition.type === 'target_path')
+                .every((condition) => evaluator.matchesCondition(condition, { path })),
+            ),
+          )
+          if (blocked.length > 0) {
+            report(`rule "${rule.name}" would ${rule.action.mitigate.action} requests to ${blocked.join(', ')}`, [
+              'rules',
+              index,
+            ])
+          }
+        }
+        break
+      }
+      case 'rate_limit_duration':
+        rules.forEach((rule, index) => {
+          if (rule.action.mitigate.action === 'rate_limit' && !rule.action.mitigate.actionDuration) {
+            report(`rate limit rule "${rule.name}" does not set actionDuration`, ['rules', index, 'action', 'mitigate'])
+          }
+        })
+        break
+      case 'ip_notes':
+        ips.forEach((ip, index) => {
+          if (!ip.notes?.trim()) report(`IP blocking rule for ${ip.ip} has no notes`, ['ips', index])
+        })
+        break
+      case 'max_rules': {
+        const matching = rules.filter((rule) => rule.active && rule.action.mitigate.action === policy.action)
+        if (matching.length > policy.max) {
+          report(`${matching.length} active ${policy.action} rules, at most ${policy.max} allowed`, ['rules'])
+        }
+        break
+      }
+      case 'no_deletions':
+        if (!context.allowDelete) {
+          for (const rule of context.changes?.rulesToDelete || []) {
+            report(`deleting rule "${rule.name}" requires --allow-delete`)
+          }
+          for (const ip of context.changes?.ipsToDelete || []) {
+            report(`deleting IP blocking rule for ${ip.ip} requires --allow-delete`)
+          }
+        }
+        break
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Load the policies file and throw if the config violates any of its policies
+ * @param path - Policies file passed with `--policies`
+ * @returns The policies that were checked, or undefined if there is no policies file
+ */
+export function enforcePolicies(
+  config: FirewallConfig,
+  path?: string,
+  context: PolicyContext = {},
+): LoadedPolicies | undefined {
+  const loaded = loadPolicies(path)
+  if (!loaded) {
+    return undefined
+  }
+
+  const violations = evaluatePolicies(loaded.policies, config, context)
+  if (violations.length > 0) {
+    throw validationErrors.policyViolation(loaded.path, violations)
+  }
+  return loaded
+}
@@ -6,7 +6,6 @@ import { VercelProvider } from '../providers/vercel'
 import { CloudflareProvider } from '../providers/cloudflare'
 import type { IFirewallProvider, ProviderType } from '../providers/IFirewallProvider'
 import type { FirewallConfig, UnifiedConfig } from '../types'
-import { isUnifiedConfig } from '../types'
 
 export interface ProviderOptions {
   // Common options
@@ -32,31 +31,7 @@ export interface ProviderOptions {
  */
 export async function getProviderInstance(options: ProviderOptions): Promise<IFirewallProvider> {
   // 1. Determine which provider to use
-  let providerType: ProviderType
-
-  if (options.provider) {
-    // Explicit provider specified
-    providerType = options.provider
-    logger.debug(`Using explicitly specified provider: ${providerType}`)
-  } else {
-    // Auto-detect from config or environment
-    const detection = ProviderDetector.detect(options.config as Record<string, unknown> | undefined)
-
-    if (detection.provider) {
-      providerType = detection.provider
-      logger.debug(`Auto-detected provider: ${providerType} (${detection.confidence} confidence)`)
-      if (detection.reasons.length > 0) {
-        logger.debug(`Reasons: ${detection.reasons.join(', ')}`)
-      }
-    } else if (options.interactive !== false) {
-      // Prompt user to select provider
-      providerType = await promptForProvider()
-    } else {
-      // Default to Vercel for backward compatibility
-      providerType = 'vercel'
-      logger.warn('No provider detected, defaulting to Vercel')
-    }
-  }
+  const providerType = await resolveProviderType(options)
 
   // 2. Get provider instance with credentials
   try {
@@ -73,17 +48,49 @@ export async function getProviderInstance(options: ProviderOptions): Promise<IFi
   }
 }
 
+/**
+ * Determine which provider to use from explicit options, config, or environment
+ * @param options - Provider options including config
+ * @returns Resolved provider type
+ */
+export async function resolveProviderType(options: ProviderOptions): Promise<ProviderType> {
+  if (options.provider) {
+    // Explicit provider specified
+    logger.debug(`Using explicitly specified provider: ${options.provider}`)
+    return options.provider
+  }
+
+  // Auto-detect from config or environment
+  const detection = ProviderDetector.detect(options.config as Record<string, unknown> | undefined)
+
+  if (detection.provider) {
+    logger.debug(`Auto-detected provider: ${detection.provider} (${detection.confidence} confidence)`)
+    if (detection.reasons.length > 0) {
+      logger.debug(`Reasons: ${detection.reasons.join(', ')}`)
+    }
+    return detection.provider
+  }
+
+  if (options.interactive !== false) {
+    // Prompt user to select provider
+    return promptForProvider()
+  }
+
+  // Default to Vercel for backward compatibility
+  logger.warn('No provider detected, defaulting to Vercel')
+  return 'vercel'
+}
+
 /**
  * Get Vercel provider instance
  */
 async function getVercelProvider(options: ProviderOptions): Promise<IFirewallProvider> {
   const token = options.token || process.env.VERCEL_TOKEN
 
-  // Type guard for accessing Vercel-specific properties
-  const vercelConfig =
-    options.config && !isUnifiedConfig(options.config) ? (options.config as Partial<FirewallConfig>) : undefined
-  const configProjectId = vercelConfig?.projectId
-  const configTeamId = vercelConfig?.teamId
+  // Read Vercel identifiers from either the legacy top-level fields or the providers section
+  const vercelConfig = options.config as (Partial<FirewallConfig> & Partial<UnifiedConfig>) | undefined
+  const configProjectId = vercelConfig?.projectId || vercelConfig?.providers?.vercel?.projectId
+  const configTeamId = vercelConfig?.teamId || vercelConfig?.providers?.vercel?.teamId
 
   const projectId = options.projectId || configProjectId || process.env.VERCEL_PROJECT_ID
   const teamId = options.teamId || configTeamId || process.env.VERCEL_TEAM_ID
@@ -123,7 +130,11 @@ async function getVercelProvider(options: ProviderOptions): Promise<IFirewallPro
  */
 async function getCloudflareProvider(options: ProviderOptions): Promise<IFirewallProvider> {
   const apiToken = options.apiToken || process.env.CLOUDFLARE_API_TOKEN
-  const zoneId = options.zoneId || process.env.CLOUDFLARE_ZONE_ID
+
+  // Read the zone from either the top-level field or the providers section
+  const cloudflareConfig = options.config as (Partial<FirewallConfig> & Partial<UnifiedConfig>) | undefined
+  const configZoneId = cloudflareConfig?.zoneId || cloudflareConfig?.providers?.cloudflare?.zoneId
+  const zoneId = options.zoneId || configZoneId || process.env.CLOUDFLARE_ZONE_ID
   const accountId = options.accountId || process.env.CLOUDFLARE_ACCOUNT_ID
 
   if (!apiToken || !zoneId) {
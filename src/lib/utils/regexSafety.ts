@@ -0,0 +1,505 @@
+import { ProviderDetector } from '../providers/ProviderDetector'
+import type { FirewallConfig } from '../types'
+
+/**
+ * Regex engines doorman can check patterns against: Vercel's matcher follows JavaScript
+ * syntax and backtracks, Cloudflare uses the Rust regex crate, which runs in linear time
+ * but has no lookarounds or backreferences
+ */
+export type RegexEngine = 'vercel' | 'cloudflare'
+
+export type RegexIssueCode = 'invalid_syntax' | 'unsupported_syntax' | 'catastrophic_backtracking' | 'too_large'
+
+export interface RegexFinding {
+  code: RegexIssueCode
+  severity: 'error' | 'warning'
+  message: string
+  suggestion?: string
+}
+
+export interface RegexIssue extends RegexFinding {
+  /** Id of the rule, or its name when it has no id */
+  ruleId: string
+  ruleName: string
+  /** Path of the value in the config, e.g. `rules.0.conditionGroup.1.conditions.0.value` */
+  path: string
+  pattern: string
+  engines: RegexEngine[]
+}
+
+/**
+ * Longest pattern checked. A Cloudflare rule expression holds at most 4,096 characters, so a
+ * longer pattern can never be deployed there
+ */
+export const MAX_REGEX_LENGTH = 4096
+
+/**
+ * Largest counted repetition, e.g. `{1000}`, before a pattern risks the compiled size limit of
+ * Cloudflare's engine
+ */
+export const MAX_REGEX_REPETITION = 1000
+
+const ENGINE_NAMES: Record<RegexEngine, string> = { vercel: 'Vercel', cloudflare: 'Cloudflare' }
+
+/**
+ * A node of a parsed pattern: a single atom, such as `a`, `\d` or `[a-z]`, or a group
+ */
+interface RegexNode {
+  /** The node as written, including its quantifier */
+  text: string
+  /** The node without its quantifier */
+  atom: string
+  min: number
+  max: number
+  /** Alternatives of a group, each a sequence of nodes */
+  alternatives?: RegexNode[][]
+}
+
+/**
+ * Syntax found while parsing that only some engines understand
+ */
+interface RegexFeatures {
+  lookarounds: string[]
+  backreferences: string[]
+  /** Rust-only syntax such as `(?i)`, `(?P<name>`, `\A` or `[[:alpha:]]` */
+  rustSyntax: string[]
+  repetitions: number[]
+}
+
+/**
+ * Statically analyze a regex pattern for one engine
+ * @returns The problems found, empty if the pattern is safe to use
+ */
+export function analyzeRegex(pattern: string, engine: RegexEngine): RegexFinding[] {
+  const engineName = ENGINE_NAMES[engine]
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return [
+      {
+        code: 'too_large',
+        severity: 'error',
+        message: `Pattern is ${pattern.length} characters long, more than the ${MAX_REGEX_LENGTH} allowed`,
+        suggestion: 'Split the pattern across several conditions or rules',
+      },
+    ]
+  }
+
+  const features: RegexFeatures = { lookarounds: [], backreferences: [], rustSyntax: [], repetitions: [] }
+  const findings: RegexFinding[] = []
+  const nodes = new RegexParser(pattern, features).parse()
+
+  if (engine === 'cloudflare') {
+    for (const lookaround of unique(features.lookarounds)) {
+      findings.push({
+        code: 'unsupported_syntax',
+        severity: 'error',
+        message: `Lookaround "${lookaround}" is not supported by ${engineName}'s regex engine`,
+        suggestion: 'Match the surrounding text with a separate condition instead',
+      })
+    }
+    for (const backreference of unique(features.backreferences)) {
+      findings.push({
+        code: 'unsupported_syntax',
+        severity: 'error',
+        message: `Backreference "${backreference}" is not supported by ${engineName}'s regex engine`,
+        suggestion: 'Spell out the repeated text instead of referring back to a group',
+      })
+    }
+    const repetition = Math.max(0, ...features.repetitions)
+    if (repetition > MAX_REGEX_REPETITION) {
+      findings.push({
+        code: 'too_large',
+        severity: 'warning',
+        message: `Repetition of ${repetition} may exceed the compiled size limit of ${engineName}'s regex engine`,
+        suggestion: `Keep counted repetitions at or below ${MAX_REGEX_REPETITION}`,
+      })
+    }
+  } else {
+    for (const syntax of unique(features.rustSyntax)) {
+      findings.push({
+        code: 'unsupported_syntax',
+        severity: 'warning',
+        message: `"${syntax}" is Rust regex syntax that ${engineName} may not support and local request tests cannot match`,
+        suggestion: 'Use the JavaScript equivalent, e.g. `^` for `\\A` or a character class for `(?i)`',
+      })
+    }
+  }
+
+  // Rust-only syntax has been reported above, so only check what remains
+  const compileError = engine === 'cloudflare' || findings.length === 0 ? syntaxError(toJavaScript(pattern)) : undefined
+  if (compileError) {
+    findings.push({ code: 'invalid_syntax', severity: 'error', message: `Invalid pattern: ${compileError}` })
+    return findings
+  }
+
+  // Cloudflare's engine never backtracks
+  if (engine === 'vercel') {
+    findings.push(...backtrackingFindings(nodes))
+  }
+
+  return findings
+}
+
+/**
+ * The engines a config's patterns must work in: the given provider's, or those of every
+ * provider the config deploys to, falling back to Vercel
+ */
+export function detectRegexEngines(config: FirewallConfig, provider?: RegexEngine): RegexEngine[] {
+  if (provider) return [provider]
+  const detected = ProviderDetector.detectAll(config as unknown as Record<string, unknown>)
+  return detected.length > 0 ? detected : ['vercel']
+}
+
+/**
+ * Statically analyze every regex condition value of a config
+ * @param engines - Engines the patterns must work in
+ * @returns The problems found, each reported once with the engines it applies to
+ */
+export function checkRegexSafety(config: FirewallConfig, engines: RegexEngine[] = ['vercel']): RegexIssue[] {
+  const issues: RegexIssue[] = []
+
+  config.rules.forEach((rule, ruleIndex) => {
+    rule.conditionGroup.forEach((group, groupIndex) => {
+      group.conditions.forEach((condition, conditionIndex) => {
+        if (condition.op !== 're') return
+
+        const path = `rules.${ruleIndex}.conditionGroup.${groupIndex}.conditions.${conditionIndex}.value`
+        const values = Array.isArray(condition.value)
+          ? condition.value.map((value, index) => [value, `${path}.${index}`] as const)
+          : [[condition.value, path] as const]
+
+        for (const [pattern, valuePath] of values) {
+          if (typeof pattern !== 'string') continue
+
+          for (const engine of engines) {
+            for (const finding of analyzeRegex(pattern, engine)) {
+              const existing = issues.find((issue) => issue.path === valuePath && issue.message === finding.message)
+              if (existing) {
+                existing.engines.push(engine)
+                continue
+              }
+              issues.push({
+                ...finding,
+                ruleId: rule.id || rule.name,
+                ruleName: rule.name,
+                path: valuePath,
+                pattern,
+                engines: [engine],
+              })
+            }
+          }
+        }
+      })
+    })
+  })
+
+  return issues
+}
+
+/**
+ * One line describing an issue, e.g. for a validation error list
+ */
+export function formatRegexIssue(issue: RegexIssue): string {
+  return `${issue.path} (${issue.ruleId}): ${issue.message}`
+}
+
+/**
+ * Finds groups that can match the same input in exponentially many ways: a repeated group
+ * containing another unbounded repetition with nothing to tell the iterations apart, e.g.
+ * `(a+)+`, or repeated alternatives that overlap, e.g. `(a|ab)*`
+ */
+function backtrackingFindings(nodes: RegexNode[][]): RegexFinding[] {
+  const findings: RegexFinding[] = []
+  const visit = (alternatives: RegexNode[][]) => {
+    for (const node of alternatives.flat()) {
+      if (!node.alternatives) continue
+
+      if (node.max === Infinity) {
+        const inner = node.alternatives
+          .filter((sequence) => !separated(sequence))
+          .flat()
+          .find(repeatsUnbounded)
+        if (inner) {
+          findings.push({
+            code: 'catastrophic_backtracking',
+            severity: 'error',
+            message: `Nested quantifier in "${node.text}" can backtrack catastrophically on input that does not match`,
+            suggestion: `Remove the quantifier on "${inner.text}" or make the repeated part unambiguous`,
+          })
+          continue
+        }
+        if (overlappingAlternatives(node.alternatives)) {
+          findings.push({
+            code: 'catastrophic_backtracking',
+            severity: 'error',
+            message: `Overlapping alternatives in "${node.text}" can backtrack catastrophically on input that does not match`,
+            suggestion: 'Make the alternatives start with different characters',
+          })
+          continue
+        }
+      }
+      visit(node.alternatives)
+    }
+  }
+
+  visit(nodes)
+  return findings
+}
+
+function repeatsUnbounded(node: RegexNode): boolean {
+  return node.max === Infinity || (node.alternatives?.flat().some(repeatsUnbounded) ?? false)
+}
+
+/**
+ * Whether a sequence has a required atom that none of its unbounded repetitions can match,
+ * such as the `.` in `[a-z]+\.`, which marks where one iteration of the sequence ends
+ */
+function separated(sequence: RegexNode[]): boolean {
+  const repeated = sequence.filter(repeatsUnbounded)
+  return sequence.some((node) => {
+    if (node.min === 0 || repeatsUnbounded(node)) return false
+    const sample = sampleOf(node.atom)
+    return sample !== undefined && !repeated.some((other) => matches(other.atom, sample))
+  })
+}
+
+function overlappingAlternatives(alternatives: RegexNode[][]): boolean {
+  if (alternatives.length < 2) return false
+
+  const texts = alternatives.map((nodes) => nodes.map((node) => node.text).join(''))
+  const firsts = alternatives.map((nodes) => nodes.find((node) => node.atom !== '^' && node.atom !== '$')?.atom)
+
+  return texts.some((text, i) =>
+    texts.some((other, j) => {
+      if (i >= j) return false
+      if (text.startsWith(other) || other.startsWith(text)) return true
+      const [a, b] = [firsts[i], firsts[j]]
+      return !!a && !!b && (overlaps(a, b) || overlaps(b, a))
+    }),
+  )
+}
+
+/**
+ * Whether the atom `outer` matches a character `inner` matches
+ */
+function overlaps(outer: string, inner: string): boolean {
+  if (outer === inner || outer === '.') return true
+  const sample = sampleOf(inner)
+  return sample !== undefined && matches(outer, sample)
+}
+
+function matches(atom: string, sample: string): boolean {
+  try {
+    return new RegExp(`^(?:${atom})$`).test(sample)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * A character an atom matches, or undefined if it is not known
+ */
+function sampleOf(atom: string): string | undefined {
+  if (atom.length === 1) return atom === '.' ? undefined : atom
+  if (atom.length === 2 && atom.startsWith('\\')) {
+    return /[A-Za-z0-9]/.test(atom[1]!) ? SAMPLES[atom[1]!] : atom[1]
+  }
+  if (atom.startsWith('[') && !atom.startsWith('[^') && /^[^\\\]]/.test(atom.slice(1))) {
+    return atom[1]
+  }
+  return undefined
+}
+
+/**
+ * A character each class escape matches
+ */
+const SAMPLES: Record<string, string> = { d: '0', w: 'a', s: ' ', D: 'a', W: '-', S: 'a' }
+
+/**
+ * Rewrites Rust-only syntax to JavaScript so the rest of the pattern can be checked with
+ * the JavaScript parser
+ */
+function toJavaScript(pattern: string): string {
+  return pattern
+    .replace(/\(\?P</g, '(?<')
+    .replace(/\(\?[imsxU-]+\)/g, '')
+    .replace(/\(\?[imsxU-]+:/g, '(?:')
+    .replace(/\\[Az]/g, (anchor) => (anchor === '\\A' ? '^' : '$'))
+    .replace(/\[:\^?[a-z]+:\]/g, 'a')
+}
+
+function syntaxError(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern)
+    return undefined
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)]
+}
+
+/**
+ * A lenient recursive descent parser for the structure of a pattern. It does not validate
+ * the pattern; unbalanced parentheses are left to the JavaScript parser to report.
+ */
+class RegexParser {
+  private index = 0
+
+  constructor(
+    private readonly pattern: string,
+    private readonly features: RegexFeatures,
+  ) {}
+
+  parse(): RegexNode[][] {
+    const alternatives = this.alternatives()
+    while (this.index < this.pattern.length) {
+      // Skip a stray `)` and keep going
+      this.index++
+      alternatives.push(...this.alternatives())
+    }
+    return alternatives
+  }
+
+  private alternatives(): RegexNode[][] {
+    const alternatives: RegexNode[][] = [[]]
+    while (this.index < this.pattern.length) {
+      const char = this.pattern[this.index]!
+      if (char === ')') break
+      if (char === '|') {
+        this.index++
+        alternatives.push([])
+        continue
+      }
+
+      const start = this.index
+      const node = this.atom()
+      if (node) {
+        this.quantifier(node, start)
+        alternatives[alternatives.length - 1]!.push(node)
+      }
+    }
+    return alternatives
+  }
+
+  private atom(): RegexNode | undefined {
+    const { pattern } = this
+    const start = this.index
+    const char = pattern[this.index]!
+
+    if (char === '\\') {
+      this.escape()
+    } else if (char === '[') {
+      this.characterClass()
+    } else if (char === '(') {
+      return this.group()
+    } else {
+      this.index++
+    }
+
+    const text = pattern.slice(start, this.index)
+    return { text, atom: text, min: 1, max: 1 }
+  }
+
+  private escape() {
+    const { pattern } = this
+    const start = this.index
+    const next = pattern[this.index + 1] ?? ''
+    this.index += 2
+
+    if (/[1-9]/.test(next)) {
+      while (/[0-9]/.test(pattern[this.index] ?? '')) this.index++
+      this.features.backreferences.push(pattern.slice(start, this.index))
+    } else if (next === 'k' && pattern[this.index] === '<') {
+      this.index = Math.max(this.index, pattern.indexOf('>', this.index) + 1)
+      this.features.backreferences.push(pattern.slice(start, this.index))
+    } else if (next === 'A' || next === 'z') {
+      this.features.rustSyntax.push(`\\${next}`)
+    } else if ((next === 'p' || next === 'P' || next === 'x' || next === 'u') && pattern[this.index] === '{') {
+      this.index = Math.max(this.index, pattern.indexOf('}', this.index) + 1)
+    }
+  }
+
+  private characterClass() {
+    const { pattern } = this
+    this.index++
+    if (pattern[this.index] === '^') this.index++
+    if (pattern[this.index] === ']') this.index++
+
+    while (this.index < pattern.length && pattern[this.index] !== ']') {
+      if (pattern[this.index] === '\\') {
+        this.index += 2
+        continue
+      }
+      const posix = /^\[:\^?[a-z]+:\]/.exec(pattern.slice(this.index))
+      if (posix) {
+        this.features.rustSyntax.push(posix[0])
+        this.index += posix[0].length
+        continue
+      }
+      this.index++
+    }
+    this.index++
+  }
+
+  private group(): RegexNode | undefined {
+    const { pattern } = this
+    const start = this.index
+    const rest = pattern.slice(this.index)
+
+    const lookaround = /^\(\?<?[=!]/.exec(rest)
+    const inlineFlags = /^\(\?[imsxU-]+\)/.exec(rest)
+    if (lookaround) {
+      this.features.lookarounds.push(lookaround[0])
+    } else if (inlineFlags) {
+      this.features.rustSyntax.push(inlineFlags[0])
+      this.index += inlineFlags[0].length
+      return undefined
+    } else if (/^\(\?P</.test(rest)) {
+      this.features.rustSyntax.push('(?P<')
+    } else if (/^\(\?[imsxU-]+:/.test(rest)) {
+      this.features.rustSyntax.push(/^\(\?[imsxU-]+:/.exec(rest)![0])
+    }
+
+    // Skip the group prefix, e.g. `(?:` or `(?<name>`
+    const prefix = /^\((?:\?(?:<?[=!]|:|P?<[^>]*>|[imsxU-]+:|>))?/.exec(rest)![0]
+    this.index += prefix.length
+
+    const alternatives = this.alternatives()
+    if (pattern[this.index] === ')') this.index++
+
+    const text = pattern.slice(start, this.index)
+    return { text, atom: text, min: 1, max: 1, alternatives }
+  }
+
+  /**
+   * Reads the quantifier after a node, if any, into its `min` and `max`
+   */
+  private quantifier(node: RegexNode, start: number) {
+    const { pattern } = this
+    const char = pattern[this.index]
+    let min: number
+    let max: number
+
+    if (char === '*' || char === '+' || char === '?') {
+      min = char === '+' ? 1 : 0
+      max = char === '?' ? 1 : Infinity
+      this.index++
+    } else {
+      const counted = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(this.index))
+      if (!counted) return
+      min = Number(counted[1])
+      max = counted[2] === undefined ? min : counted[3] ? Number(counted[3]) : Infinity
+      this.features.repetitions.push(Math.max(min, max === Infinity ? 0 : max))
+      this.index += counted[0].length
+    }
+
+    // Lazy and possessive markers do not change what can match
+    if (pattern[this.index] === '?' || pattern[this.index] === '+') this.index++
+
+    node.min = min
+    node.max = max
+    node.text = pattern.slice(start, this.index)
+  }
+}
@@ -0,0 +1,13 @@
+import type { CustomRule } from '../types'
+import type { VercelCustomRule } from '../types/vercel'
+import { compact } from './compact'
+import { omitId } from './omitId'
+import { sha256 } from './plan'
+
+/**
+ * Hash of what a rule does, leaving out its ID. Rule names need not be unique, so this is
+ * what tells apart rules that share one.
+ */
+export function ruleContentHash(rule: CustomRule | VercelCustomRule): string {
+  return sha256(compact(omitId(rule)))
+}
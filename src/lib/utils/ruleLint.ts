@@ -0,0 +1,360 @@
+import { RuleEvaluator } from '../evaluator'
+import type { ConditionGroup, CustomRule, RuleCondition, RuleType, SimulatedRequest } from '../types'
+import { isDeepEqual } from './isDeepEqual'
+
+export type RuleLintCode = 'shadowed_rule' | 'duplicate_rule' | 'contradictory_conditions' | 'always_true_group'
+
+export interface RuleLintIssue {
+  code: RuleLintCode
+  severity: 'error' | 'warning'
+  message: string
+  /** Name of the rule the issue is about */
+  rule: string
+  /** Id of the rule, or its name when it has no id */
+  ruleId: string
+  /** Path of the rule or condition group in the config, e.g. `rules.3.conditionGroup.0` */
+  path: string
+  suggestion: string
+}
+
+/**
+ * Fields every request has, so `ex` on them always matches
+ */
+const ALWAYS_PRESENT: RuleType[] = ['host', 'path', 'target_path', 'method']
+
+/**
+ * Patterns that match any value
+ */
+const MATCH_ALL_PATTERNS = ['', '.*', '^.*', '.*$', '^.*$']
+
+const evaluator = new RuleEvaluator({ rules: [] })
+
+/**
+ * Finds rules that can never fire or do not need to exist, following the evaluation order of
+ * {@link RuleEvaluator}: active rules in order, where the first matching rule that does not
+ * `log` decides.
+ *
+ * - `contradictory_conditions`: a condition group whose conditions cannot all hold
+ * - `always_true_group`: a condition group that matches every request
+ * - `duplicate_rule`: a rule matching the same requests as an earlier one, with the same action
+ * - `shadowed_rule`: a rule matching only requests an earlier rule already decides
+ *
+ * Condition groups are compared condition by condition, so rules that overlap only through a
+ * combination of conditions are not reported.
+ */
+export function lintRules(rules: CustomRule[]): RuleLintIssue[] {
+  const issues: RuleLintIssue[] = []
+
+  rules.forEach((rule, index) => {
+    rule.conditionGroup.forEach((group, groupIndex) => {
+      const issue = (code: RuleLintCode, severity: RuleLintIssue['severity'], message: string, suggestion: string) =>
+        issues.push({
+          code,
+          severity,
+          message,
+          rule: rule.name,
+          ruleId: rule.id || rule.name,
+          path: `rules.${index}.conditionGroup.${groupIndex}`,
+          suggestion,
+        })
+
+      const contradiction = findContradiction(group)
+      if (contradiction) {
+        issue(
+          'contradictory_conditions',
+          'error',
+          `Condition group ${groupIndex + 1} can never match: ${contradiction
+            .map(describeCondition)
+            .join(' contradicts ')}`,
+          contradiction.length === 1
+            ? 'Remove the condition'
+            : 'Remove one of the conditions, or move them to separate condition groups to match either',
+        )
+      } else if (group.conditions.length > 0 && group.conditions.every(alwaysMatches)) {
+        issue(
+          'always_true_group',
+          'warning',
+          `Condition group ${groupIndex + 1} matches every request`,
+          'Add a condition that narrows the group, or remove the rule if it should not apply to all traffic',
+        )
+      }
+    })
+  })
+
+  const active = rules.map((rule, index) => ({ rule, index })).filter(({ rule }) => rule.active)
+  active.forEach((later, position) => {
+    if (liveGroups(later.rule).length === 0) return
+
+    for (const earlier of active.slice(0, position)) {
+      if (!covers(earlier.rule, later.rule)) continue
+
+      const sameAction = isDeepEqual(earlier.rule.action, later.rule.action)
+      const issue = (code: RuleLintCode, message: string, suggestion: string) =>
+        issues.push({
+          code,
+          severity: 'warning',
+          message,
+          rule: later.rule.name,
+          ruleId: later.rule.id || later.rule.name,
+          path: `rules.${later.index}`,
+          suggestion,
+        })
+
+      if (sameAction && covers(later.rule, earlier.rule)) {
+        const exact = canonicalConditions(earlier.rule) === canonicalConditions(later.rule)
+        issue(
+          'duplicate_rule',
+          exact
+            ? `Rule duplicates "${earlier.rule.name}": same conditions and action`
+            : `Rule is equivalent to "${earlier.rule.name}": its conditions match the same requests with the same action`,
+          `Remove "${later.rule.name}" or merge the two rules`,
+        )
+        return
+      }
+
+      if (earlier.rule.action.mitigate.action !== 'log') {
+        issue(
+          'shadowed_rule',
+          `Rule can never fire: "${earlier.rule.name}" comes first and matches every request it does`,
+          sameAction
+            ? `Remove "${later.rule.name}", as "${earlier.rule.name}" covers it`
+            : `Move "${later.rule.name}" above "${earlier.rule.name}", or narrow the conditions of "${earlier.rule.name}"`,
+        )
+        return
+      }
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Whether every request `inner` matches is also matched by `outer`
+ */
+function covers(outer: CustomRule, inner: CustomRule): boolean {
+  const outerGroups = liveGroups(outer)
+  return liveGroups(inner).every((innerGroup) => outerGroups.some((outerGroup) => groupImplies(innerGroup, outerGroup)))
+}
+
+/**
+ * Condition groups that can match some request
+ */
+function liveGroups(rule: CustomRule): ConditionGroup[] {
+  return rule.conditionGroup.filter((group) => group.conditions.length > 0 && !findContradiction(group))
+}
+
+/**
+ * Whether every request matching `group` also matches `other`
+ */
+function groupImplies(group: ConditionGroup, other: ConditionGroup): boolean {
+  return other.conditions.every((condition) => group.conditions.some((own) => implies(own, condition)))
+}
+
+/**
+ * Whether every request matching `a` also matches `b`
+ */
+function implies(a: RuleCondition, b: RuleCondition): boolean {
+  if (alwaysMatches(b)) return true
+  if (!sameField(a, b)) return false
+  if (sameCondition(a, b)) return true
+
+  const samples = sampleRequests(a)
+  if (samples) {
+    return samples.every((request) => evaluator.matchesCondition(b, request))
+  }
+
+  if (a.neg || b.neg) {
+    // Not matching `a` implies not matching `b` when every match of `b` matches `a`
+    return !!a.neg && !!b.neg && implies({ ...b, neg: false }, { ...a, neg: false })
+  }
+
+  const ownValues = toStrings(a.value)
+  const otherValues = toStrings(b.value)
+  switch (b.op) {
+    case 'ex':
+      return a.op !== 'nex'
+    case 'pre':
+      return a.op === 'pre' && ownValues.every((own) => otherValues.some((other) => own.startsWith(other)))
+    case 'suf':
+      return a.op === 'suf' && ownValues.every((own) => otherValues.some((other) => own.endsWith(other)))
+    case 'sub':
+      return (
+        (a.op === 'pre' || a.op === 'suf' || a.op === 'sub') &&
+        ownValues.every((own) => otherValues.some((other) => own.includes(other)))
+      )
+    default:
+      return false
+  }
+}
+
+/**
+ * The first condition, or pair of conditions, of a group that no request can satisfy
+ */
+function findContradiction(group: ConditionGroup): RuleCondition[] | undefined {
+  const { conditions } = group
+  for (const [index, condition] of conditions.entries()) {
+    if (neverMatches(condition)) return [condition]
+
+    for (const other of conditions.slice(index + 1)) {
+      if (disjoint(condition, other) || disjoint(other, condition)) return [condition, other]
+    }
+  }
+  return undefined
+}
+
+/**
+ * Whether no request matching `a` can match `b`
+ */
+function disjoint(a: RuleCondition, b: RuleCondition): boolean {
+  if (!sameField(a, b)) return false
+  if (b.neg && !a.neg && implies(a, { ...b, neg: false })) return true
+
+  const samples = sampleRequests(a)
+  if (samples) {
+    return samples.every((request) => !evaluator.matchesCondition(b, request))
+  }
+  if (a.neg || b.neg) return false
+
+  const ownValues = toStrings(a.value)
+  const otherValues = toStrings(b.value)
+  if (a.op === 'nex') return b.op !== 'nex'
+  if (a.op === 'pre' && b.op === 'pre') {
+    return ownValues.every((own) => otherValues.every((other) => !own.startsWith(other) && !other.startsWith(own)))
+  }
+  if (a.op === 'suf' && b.op === 'suf') {
+    return ownValues.every((own) => otherValues.every((other) => !own.endsWith(other) && !other.endsWith(own)))
+  }
+  return false
+}
+
+function alwaysMatches(condition: RuleCondition): boolean {
+  const positive = { ...condition, neg: false }
+  return condition.neg ? neverMatches(positive) : matchesEverything(positive)
+}
+
+function neverMatches(condition: RuleCondition): boolean {
+  const positive = { ...condition, neg: false }
+  if (condition.neg) return matchesEverything(positive)
+
+  if (condition.op === 'nex') return ALWAYS_PRESENT.includes(condition.type)
+  return condition.op !== 'ex' && Array.isArray(condition.value) && condition.value.length === 0
+}
+
+function matchesEverything({ type, op, value }: RuleCondition): boolean {
+  const conditionValues = toStrings(value)
+  switch (op) {
+    case 'ex':
+      return ALWAYS_PRESENT.includes(type)
+    case 'pre':
+      return conditionValues.some(
+        (item) => item === '' || ((type === 'path' || type === 'target_path') && item === '/'),
+      )
+    case 'suf':
+    case 'sub':
+      return conditionValues.includes('')
+    case 're':
+      return conditionValues.some((item) => MATCH_ALL_PATTERNS.includes(item))
+    default:
+      return false
+  }
+}
+
+/**
+ * One request per value a condition matches exactly, when the condition only matches those
+ * values. IP ranges have no single sample, so they are compared as written.
+ */
+function sampleRequests(condition: RuleCondition): SimulatedRequest[] | undefined {
+  if (condition.neg || (condition.op !== 'eq' && condition.op !== 'inc')) return undefined
+
+  const conditionValues = toStrings(condition.value)
+  if (condition.type === 'ip_address' && conditionValues.some((value) => value.includes('/'))) return undefined
+
+  const requests = conditionValues.map((value) => requestWith(condition.type, condition.key, value))
+  return requests.every((request) => request !== undefined) ? (requests as SimulatedRequest[]) : undefined
+}
+
+/**
+ * A request whose `type` field has the value `value`
+ */
+function requestWith(type: RuleType, key: string | undefined, value: string): SimulatedRequest | undefined {
+  switch (type) {
+    case 'host':
+      return { host: value }
+    case 'path':
+      return value.includes('?') ? undefined : { path: value }
+    case 'target_path':
+      return { targetPath: value }
+    case 'method':
+      return { method: value }
+    case 'user_agent':
+      return { userAgent: value }
+    case 'header':
+      return key === undefined ? undefined : { headers: { [key]: value } }
+    case 'query':
+      return key === undefined ? { path: `/?${value}` } : { query: { [key]: value } }
+    case 'cookie':
+      return key === undefined ? undefined : { cookies: { [key]: value } }
+    case 'ip_address':
+      return { ip: value }
+    case 'region':
+      return { region: value }
+    case 'protocol':
+      return { protocol: value }
+    case 'scheme':
+      return { scheme: value }
+    case 'environment':
+      return { environment: value }
+    case 'geo_continent':
+      return { geo: { continent: value } }
+    case 'geo_country':
+      return { geo: { country: value } }
+    case 'geo_country_region':
+      return { geo: { countryRegion: value } }
+    case 'geo_city':
+      return { geo: { city: value } }
+    case 'ja4_digest':
+      return { ja4Digest: value }
+    case 'ja3_digest':
+      return { ja3Digest: value }
+    case 'rate_limit_api_id':
+      return { rateLimitApiId: value }
+    default:
+      return undefined
+  }
+}
+
+function sameField(a: RuleCondition, b: RuleCondition): boolean {
+  // Header names are case-insensitive
+  const key = (condition: RuleCondition) => (condition.type === 'header' ? condition.key?.toLowerCase() : condition.key)
+  return a.type === b.type && key(a) === key(b)
+}
+
+function sameCondition(a: RuleCondition, b: RuleCondition): boolean {
+  return a.op === b.op && !!a.neg === !!b.neg && isDeepEqual(toStrings(a.value), toStrings(b.value))
+}
+
+function toStrings(value: RuleCondition['value']): string[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value.map(String) : [String(value)]
+}
+
+/**
+ * The conditions of a rule, independent of the order of groups and conditions
+ */
+function canonicalConditions(rule: CustomRule): string {
+  return rule.conditionGroup
+    .map((group) =>
+      group.conditions
+        .map(({ type, key, op, neg, value }) => JSON.stringify([type, key ?? null, op, !!neg, value ?? null]))
+        .sort()
+        .join('&'),
+    )
+    .sort()
+    .join('|')
+}
+
+function describeCondition({ type, key, op, neg, value }: RuleCondition): string {
+  const field = key === undefined ? type : `${type}[${key}]`
+  const operand = value === undefined ? '' : ` ${JSON.stringify(value)}`
+  return `${field} ${neg ? 'not ' : ''}${op}${operand}`
+}
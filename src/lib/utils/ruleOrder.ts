@@ -0,0 +1,79 @@
+import type { UnifiedRule } from '../types/unified'
+
+/**
+ * Sorts rules into the order they should be evaluated in. A rule's `priority` is its
+ * zero-based position; rules without one fill the remaining positions in config order.
+ *
+ * @param rules - Rules in config order
+ * @returns A new array in evaluation order
+ */
+export function orderRules(rules: UnifiedRule[]): UnifiedRule[] {
+  const placed = rules.filter((rule) => rule.priority !== undefined).sort((a, b) => a.priority! - b.priority!)
+  const unplaced = rules.filter((rule) => rule.priority === undefined)
+
+  const ordered: UnifiedRule[] = []
+  while (placed.length > 0 || unplaced.length > 0) {
+    const next = placed.length > 0 && (placed[0]!.priority! <= ordered.length || unplaced.length === 0)
+    ordered.push(next ? placed.shift()! : unplaced.shift()!)
+  }
+  return ordered
+}
+
+/**
+ * Finds the rules that are in a different position relative to the other rules.
+ *
+ * Only rules in both lists are compared, as the others are added or deleted anyway. The
+ * rules kept in place are the longest run that is already in the same order on both sides,
+ * so the fewest rules are reported as moved.
+ *
+ * @param desired - Rules in the order they should be evaluated
+ * @param current - Keys of the remote rules in their current order
+ * @param key - Identifies a rule across both lists
+ * @returns The rules of `desired` to move, with `priority` set to their target position
+ */
+export function findMovedRules(
+  desired: UnifiedRule[],
+  current: string[],
+  key: (rule: UnifiedRule) => string | undefined,
+): UnifiedRule[] {
+  const currentPositions = new Map(current.map((ruleKey, position) => [ruleKey, position]))
+  const shared = desired
+    .map((rule, position) => ({ rule, position, currentPosition: currentPositions.get(key(rule) ?? '') }))
+    .filter((entry): entry is typeof entry & { currentPosition: number } => entry.currentPosition !== undefined)
+
+  const inOrder = longestIncreasingRun(shared.map((entry) => entry.currentPosition))
+
+  return shared
+    .filter((_entry, index) => !inOrder.has(index))
+    .map(({ rule, position }) => ({ ...rule, priority: position }))
+}
+
+/**
+ * Indexes of the longest strictly increasing subsequence of `values`
+ */
+function longestIncreasingRun(values: number[]): Set<number> {
+  // tails[length - 1] is the index of the smallest value ending a run of that length
+  const tails: number[] = []
+  const previous: number[] = new Array(values.length).fill(-1)
+
+  values.forEach((value, index) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (values[tails[middle]!]! < value) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1]! : -1
+    tails[low] = index
+  })
+
+  const run = new Set<number>()
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]!) {
+    run.add(index)
+  }
+  return run
+}
@@ -0,0 +1,247 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { syncErrors } from '../errors/helpers'
+import type { CreatedRule, ProviderType, SyncRecorder } from '../providers/IFirewallProvider'
+import { RuleTranslator } from '../translators'
+import type { UnifiedConfig } from '../types/unified'
+import { getProviderDisplayName } from './providerHelper'
+import { createProgressCheckpoint } from './gracefulShutdown'
+import { getNetworkResilienceManager } from './networkResilience'
+import { sha256 } from './plan'
+import type { PlanRemoteState } from './plan'
+import { ruleContentHash } from './ruleContentHash'
+
+export const JOURNAL_FORMAT_VERSION = 1
+
+/**
+ * Path of the journal a sync to `provider` writes, so syncs to different providers can be
+ * resumed independently
+ */
+export function journalPath(provider: ProviderType): string {
+  return `doorman.${provider}.journal.json`
+}
+
+/**
+ * One API operation of a sync
+ */
+export interface JournalOperation {
+  /** Human readable description, e.g. `delete rule rule_block_admin` */
+  description: string
+  status: 'pending' | 'done'
+  completedAt?: string
+  /** Rule the operation created, see {@link withCreatedRuleIds} */
+  created?: CreatedRule
+}
+
+/**
+ * Operations planned and completed by a sync, written by `sync` as it runs and read by
+ * `sync --resume`.
+ *
+ * The journal is deleted once the sync completes, so a journal on disk means the sync was
+ * interrupted. `configHash` ties it to the config it was started with.
+ */
+export interface SyncJournal {
+  formatVersion: number
+  startedAt: string
+  provider: ProviderType
+  /** Environment overlay the config was resolved with (`--env`) */
+  environment?: string
+  configHash: string
+  /** Remote configuration state the sync started from */
+  remote: PlanRemoteState
+  operations: JournalOperation[]
+}
+
+/**
+ * Start a journal for a sync of `config`. When resuming, the operations completed by the
+ * interrupted sync are carried over from `previous`.
+ */
+export function createJournal(
+  provider: ProviderType,
+  config: UnifiedConfig,
+  remote: PlanRemoteState,
+  environment?: string,
+  previous?: SyncJournal,
+): SyncJournal {
+  return {
+    formatVersion: JOURNAL_FORMAT_VERSION,
+    startedAt: previous?.startedAt ?? new Date().toISOString(),
+    provider,
+    ...(environment ? { environment } : {}),
+    configHash: sha256(config),
+    remote: previous?.remote ?? remote,
+    operations: (previous?.operations || []).filter((operation) => operation.status === 'done'),
+  }
+}
+
+/**
+ * Give the rules an interrupted sync created the IDs the provider assigned them, so the
+ * resumed sync matches them with the remote rules instead of creating them again. The config
+ * file only gets those IDs once the sync completes.
+ *
+ * Rules are matched by content, as names need not be unique. Each created rule gives its ID
+ * to one rule only, so identical rules each keep one of the IDs.
+ */
+export function withCreatedRuleIds(config: UnifiedConfig, journal: SyncJournal): UnifiedConfig {
+  const createdIds = new Map<string, string[]>()
+  for (const { status, created } of journal.operations) {
+    if (status === 'done' && created) {
+      createdIds.set(created.hash, [...(createdIds.get(created.hash) || []), created.id])
+    }
+  }
+  if (createdIds.size === 0) {
+    return config
+  }
+
+  return {
+    ...config,
+    rules: config.rules.map((rule) => {
+      if (rule.id) {
+        return rule
+      }
+      const id = createdIds.get(ruleContentHash(RuleTranslator.unifiedToVercel(rule).result))?.shift()
+      return id ? { ...rule, id } : rule
+    }),
+  }
+}
+
+/**
+ * Read a journal file and verify its format version
+ */
+export function readJournal(path: string): SyncJournal {
+  if (!existsSync(path)) {
+    throw syncErrors.invalidJournal(path, 'no interrupted sync was found')
+  }
+
+  let journal: SyncJournal
+  try {
+    journal = JSON.parse(readFileSync(path, 'utf8')) as SyncJournal
+  } catch {
+    throw syncErrors.invalidJournal(path, 'not valid JSON')
+  }
+
+  if (!journal || typeof journal !== 'object' || !journal.provider || !Array.isArray(journal.operations)) {
+    throw syncErrors.invalidJournal(path, 'missing provider or operations')
+  }
+  if (journal.formatVersion !== JOURNAL_FORMAT_VERSION) {
+    throw syncErrors.invalidJournal(path, `unsupported format version ${journal.formatVersion}`)
+  }
+
+  return journal
+}
+
+/**
+ * Throw unless a journal was written by a sync of the same config, provider and environment.
+ * Resuming with a different config would finish a sync nobody confirmed.
+ */
+export function assertJournalMatches(
+  journal: SyncJournal,
+  path: string,
+  provider: ProviderType,
+  config: UnifiedConfig,
+  environment?: string,
+): void {
+  if (journal.provider !== provider) {
+    throw syncErrors.journalMismatch(path, `it is a sync to ${getProviderDisplayName(journal.provider)}`)
+  }
+  if ((journal.environment || undefined) !== (environment || undefined)) {
+    throw syncErrors.journalMismatch(
+      path,
+      journal.environment
+        ? `it was started for the ${journal.environment} environment`
+        : 'it was started without --env',
+    )
+  }
+  if (journal.configHash !== sha256(config)) {
+    throw syncErrors.journalMismatch(path, 'the config has changed since it was started')
+  }
+}
+
+/**
+ * Records the operations of a sync in its journal file, rewriting the file after each one
+ * so it is accurate however the process ends
+ */
+export class SyncJournalWriter implements SyncRecorder {
+  private progressId?: string
+  private completedInRun = 0
+
+  constructor(
+    readonly path: string,
+    private journal: SyncJournal,
+  ) {}
+
+  get operations(): JournalOperation[] {
+    return this.journal.operations.map((operation) => ({ ...operation }))
+  }
+
+  plan(operations: string[]): void {
+    this.journal.operations.push(...operations.map((description) => ({ description, status: 'pending' as const })))
+    this.write()
+
+    const pending = this.journal.operations.filter((operation) => operation.status === 'pending').length
+    this.progressId = getNetworkResilienceManager().startProgress(
+      `${getProviderDisplayName(this.journal.provider)} sync`,
+      pending,
+    )
+  }
+
+  /**
+   * Mark the first pending operation with this description as done. Operations the sync
+   * did not plan, such as moving rules it has just added, are recorded as they land.
+   */
+  complete(operation: string, created?: CreatedRule): void {
+    const planned = this.journal.operations.find(
+      (candidate) => candidate.status === 'pending' && candidate.description === operation,
+    )
+    const completedAt = new Date().toISOString()
+    if (planned) {
+      planned.status = 'done'
+      planned.completedAt = completedAt
+      if (created) {
+        planned.created = created
+      }
+    } else {
+      this.journal.operations.push({
+        description: operation,
+        status: 'done',
+        completedAt,
+        ...(created ? { created } : {}),
+      })
+    }
+    this.write()
+
+    const completed = this.journal.operations.filter((candidate) => candidate.status === 'done').length
+    createProgressCheckpoint(`sync to ${this.journal.provider}`, {
+      completed,
+      total: this.journal.operations.length,
+      currentItem: operation,
+      metadata: { journal: this.path },
+    })
+    this.completedInRun++
+    if (this.progressId) {
+      getNetworkResilienceManager().updateProgress(this.progressId, this.completedInRun)
+    }
+  }
+
+  /**
+   * Delete the journal once the sync has completed
+   */
+  finish(): void {
+    if (this.progressId) {
+      getNetworkResilienceManager().completeProgress(this.progressId)
+      this.progressId = undefined
+    }
+    this.discard()
+  }
+
+  /**
+   * Delete the journal without completing the sync, when a failed sync was rolled back and
+   * there is nothing left to resume
+   */
+  discard(): void {
+    rmSync(this.path, { force: true })
+  }
+
+  private write(): void {
+    writeFileSync(this.path, JSON.stringify(this.journal, null, 2))
+  }
+}
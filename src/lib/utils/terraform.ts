@@ -0,0 +1,439 @@
+import type { ProviderType } from '../providers/IFirewallProvider'
+import { RuleTranslator, TranslationWarningSystem } from '../translators'
+import type { TranslationResult, TranslationWarning } from '../translators'
+import type { CustomRule, FirewallConfig, IPBlockingRule, RuleCondition } from '../types'
+import type { CloudflareRule } from '../types/cloudflare'
+import { HclReference, renderHcl, toResourceName } from './hcl'
+import type { HclBlock, HclEntry, HclValue } from './hcl'
+
+/**
+ * Versions of the official providers the generated configuration is written for
+ */
+const PROVIDER_VERSIONS: Record<ProviderType, string> = {
+  vercel: '~> 2.0',
+  cloudflare: '~> 4.0',
+}
+
+/**
+ * Name of the Cloudflare list of blocked IPs, which `sync` refers to as `$doorman_ip_blocklist`
+ */
+const CLOUDFLARE_IP_LIST = 'doorman_ip_blocklist'
+
+/**
+ * Cloudflare zone rulesets the rules are spread over, as each phase only accepts some actions
+ */
+const CLOUDFLARE_PHASES = [
+  { phase: 'http_request_firewall_custom', resource: 'doorman_custom_rules', name: 'Doorman custom rules' },
+  { phase: 'http_ratelimit', resource: 'doorman_rate_limits', name: 'Doorman rate limiting rules' },
+  { phase: 'http_request_dynamic_redirect', resource: 'doorman_redirects', name: 'Doorman redirect rules' },
+] as const
+
+type CloudflarePhase = (typeof CLOUDFLARE_PHASES)[number]['phase']
+
+const WINDOW_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 }
+
+/**
+ * Generates a Terraform configuration that creates the firewall of a config with the
+ * official provider resources: `vercel_firewall_config` for Vercel, and `cloudflare_ruleset`
+ * with a `cloudflare_list` of blocked IPs for Cloudflare.
+ *
+ * Project, team, zone and account identifiers become variables that default to the ones in
+ * the config. Resource names and Cloudflare rule refs are derived from rule IDs, so exporting
+ * again after a change only touches the rules that changed. Anything the provider's resources
+ * cannot express is left out with a warning.
+ *
+ * @param config - The config to export
+ * @param provider - The provider to generate resources for
+ * @returns The Terraform configuration, and warnings about what was left out
+ */
+export function generateTerraformConfig(config: FirewallConfig, provider: ProviderType): TranslationResult<string> {
+  const { result, warnings } = buildTerraformEntries(config, provider)
+
+  return {
+    result: `# Firewall configuration exported by vercel-doorman\n\n${renderHcl(result)}`,
+    warnings,
+  }
+}
+
+/**
+ * Builds the blocks of the Terraform configuration `generateTerraformConfig` writes, for
+ * generators that write the same resources in another language
+ *
+ * @param config - The config to export
+ * @param provider - The provider to generate resources for
+ * @returns The `terraform`, `variable` and `resource` blocks, and warnings about what was left out
+ */
+export function buildTerraformEntries(config: FirewallConfig, provider: ProviderType): TranslationResult<HclBlock[]> {
+  const warnings: TranslationWarning[] = []
+  const entries = provider === 'cloudflare' ? cloudflareEntries(config, warnings) : vercelEntries(config, warnings)
+
+  return { result: entries, warnings }
+}
+
+function vercelEntries(config: FirewallConfig, warnings: TranslationWarning[]): HclBlock[] {
+  const projectId = config.projectId || config.providers?.vercel?.projectId
+  const teamId = config.teamId || config.providers?.vercel?.teamId
+  const scope: HclEntry[] = [
+    { name: 'project_id', value: new HclReference('var.vercel_project_id') },
+    { name: 'team_id', value: new HclReference('var.vercel_team_id') },
+  ]
+  const ips = config.ips || []
+
+  const entries: HclBlock[] = [
+    terraformBlock('vercel'),
+    variable('vercel_project_id', 'Vercel project the firewall belongs to', projectId),
+    variable('vercel_team_id', 'Vercel team that owns the project', teamId ?? null),
+    resource('vercel_firewall_config', 'doorman', [
+      ...scope,
+      { name: 'enabled', value: config.firewallEnabled ?? true },
+      ...vercelManagedRulesets(config, warnings),
+      ...(config.rules.length > 0
+        ? [{ type: 'rules', body: config.rules.map((rule) => ({ type: 'rule', body: vercelRule(rule) })) }]
+        : []),
+      ...(ips.length > 0
+        ? [{ type: 'ip_rules', body: ips.map((ip) => ({ type: 'rule', body: vercelIPRule(ip) })) }]
+        : []),
+    ]),
+  ]
+
+  if (config.attackMode) {
+    if (config.attackMode.activeUntil) {
+      warnings.push(
+        TranslationWarningSystem.createLossyConversionWarning(
+          'Attack mode',
+          'vercel_attack_challenge_mode stays on until it is disabled, so its end time is left out',
+          'attackMode',
+          'activeUntil',
+        ),
+      )
+    }
+    entries.push(
+      resource('vercel_attack_challenge_mode', 'doorman', [
+        ...scope,
+        { name: 'enabled', value: config.attackMode.enabled },
+      ]),
+    )
+  }
+
+  const bypassNames = new Set<string>()
+  for (const bypass of config.bypass || []) {
+    entries.push(
+      resource(
+        'vercel_firewall_bypass',
+        toResourceName(`bypass_${bypass.sourceIp}_${bypass.domain ?? 'all'}`, bypassNames),
+        [...scope, { name: 'source_ip', value: bypass.sourceIp }, { name: 'domain', value: bypass.domain ?? '*' }],
+      ),
+    )
+  }
+
+  return entries
+}
+
+function vercelManagedRulesets(config: FirewallConfig, warnings: TranslationWarning[]): HclEntry[] {
+  const { crs, managedRules } = config
+  if (!crs && !managedRules) {
+    return []
+  }
+
+  if (managedRules?.owasp) {
+    warnings.push(
+      TranslationWarningSystem.createLossyConversionWarning(
+        'Managed OWASP ruleset',
+        'vercel_firewall_config manages the OWASP ruleset through its groups, so only the crs groups are exported',
+        'managedRules',
+        'owasp',
+      ),
+    )
+  }
+
+  const toggle = (setting?: { active: boolean; action?: string }): HclValue | undefined =>
+    setting && { action: setting.action, active: setting.active }
+
+  return [
+    {
+      type: 'managed_rulesets',
+      body: [
+        {
+          name: 'owasp',
+          value:
+            crs && Object.keys(crs).length > 0
+              ? Object.fromEntries(Object.entries(crs).map(([group, setting]) => [group, toggle(setting)]))
+              : undefined,
+        },
+        { name: 'bot_protection', value: toggle(managedRules?.bot_protection) },
+        { name: 'ai_bots', value: toggle(managedRules?.ai_bots) },
+      ],
+    },
+  ]
+}
+
+function vercelRule(rule: CustomRule): HclEntry[] {
+  const { action, rateLimit, redirect, actionDuration } = rule.action.mitigate
+
+  return [
+    { name: 'name', value: rule.name },
+    { name: 'description', value: rule.description },
+    { name: 'active', value: rule.active },
+    {
+      name: 'condition_group',
+      value: rule.conditionGroup.map((group) => ({ conditions: group.conditions.map(vercelCondition) })),
+    },
+    {
+      name: 'action',
+      value: {
+        action,
+        rate_limit: rateLimit
+          ? {
+              limit: rateLimit.requests,
+              window: windowToSeconds(rateLimit.window),
+              keys: ['ip'],
+              algo: 'fixed_window',
+              action: 'deny',
+            }
+          : undefined,
+        redirect: redirect ? { location: redirect.location, permanent: redirect.permanent ?? false } : undefined,
+        action_duration: actionDuration ?? undefined,
+      },
+    },
+  ]
+}
+
+function vercelCondition({ type, op, neg, key, value }: RuleCondition): HclValue {
+  return {
+    type,
+    op,
+    neg: neg || undefined,
+    key,
+    value: value !== undefined && !Array.isArray(value) ? String(value) : undefined,
+    values: Array.isArray(value) ? value.map(String) : undefined,
+  }
+}
+
+function vercelIPRule(ip: IPBlockingRule): HclEntry[] {
+  return [
+    { name: 'action', value: ip.action },
+    { name: 'ip', value: ip.ip },
+    { name: 'hostname', value: ip.hostname },
+    { name: 'notes', value: ip.notes },
+  ]
+}
+
+function cloudflareEntries(config: FirewallConfig, warnings: TranslationWarning[]): HclBlock[] {
+  const zoneId = config.zoneId || config.providers?.cloudflare?.zoneId
+  const accountId = config.providers?.cloudflare?.accountId
+  const ips = config.ips || []
+
+  warnVercelOnlySettings(config, warnings)
+
+  const rulesByPhase = new Map<CloudflarePhase, HclEntry[]>()
+  const addRule = (phase: CloudflarePhase, body: HclEntry[]) => {
+    rulesByPhase.set(phase, [...(rulesByPhase.get(phase) || []), { type: 'rules', body }])
+  }
+
+  const refs = new Set<string>([CLOUDFLARE_IP_LIST])
+  for (const rule of config.rules) {
+    const translated = translateCloudflareRule(rule, warnings)
+    if (translated) {
+      addRule(cloudflarePhase(rule), cloudflareRule(translated, toResourceName(rule.id || rule.name, refs)))
+    }
+  }
+
+  if (ips.length > 0) {
+    addRule(
+      'http_request_firewall_custom',
+      cloudflareRule(
+        {
+          id: CLOUDFLARE_IP_LIST,
+          action: 'block',
+          expression: `ip.src in $${CLOUDFLARE_IP_LIST}`,
+          description: 'Block IPs in Doorman IP Blocklist',
+          enabled: true,
+        },
+        CLOUDFLARE_IP_LIST,
+      ),
+    )
+    ips
+      .filter((ip) => ip.hostname && ip.hostname !== '*')
+      .forEach((ip) =>
+        warnings.push(
+          TranslationWarningSystem.createLossyConversionWarning(
+            'IP rule hostname',
+            `Cloudflare IP lists apply to every hostname in the zone, not only ${ip.hostname}`,
+            ip.ip,
+            'hostname',
+          ),
+        ),
+      )
+  }
+
+  const entries: HclBlock[] = [
+    terraformBlock('cloudflare'),
+    variable('cloudflare_zone_id', 'Cloudflare zone the rulesets belong to', zoneId),
+  ]
+
+  if (ips.length > 0) {
+    entries.push(
+      variable('cloudflare_account_id', 'Cloudflare account that owns the IP list', accountId),
+      resource('cloudflare_list', CLOUDFLARE_IP_LIST, [
+        { name: 'account_id', value: new HclReference('var.cloudflare_account_id') },
+        { name: 'name', value: CLOUDFLARE_IP_LIST },
+        { name: 'kind', value: 'ip' },
+        { name: 'description', value: 'IPs blocked by Doorman' },
+        ...ips.map((ip) => ({
+          type: 'item',
+          body: [
+            { type: 'value', body: [{ name: 'ip', value: ip.ip }] },
+            { name: 'comment', value: ip.notes || ip.hostname || 'Blocked by Doorman' },
+          ],
+        })),
+      ]),
+    )
+  }
+
+  for (const { phase, resource: name, name: title } of CLOUDFLARE_PHASES) {
+    const rules = rulesByPhase.get(phase)
+    if (!rules) {
+      continue
+    }
+    entries.push(
+      resource('cloudflare_ruleset', name, [
+        { name: 'zone_id', value: new HclReference('var.cloudflare_zone_id') },
+        { name: 'name', value: title },
+        { name: 'description', value: 'Managed by vercel-doorman' },
+        { name: 'kind', value: 'zone' },
+        { name: 'phase', value: phase },
+        {
+          name: 'depends_on',
+          value:
+            phase === 'http_request_firewall_custom' && ips.length > 0
+              ? [new HclReference(`cloudflare_list.${CLOUDFLARE_IP_LIST}`)]
+              : undefined,
+        },
+        ...rules,
+      ]),
+    )
+  }
+
+  return entries
+}
+
+function cloudflarePhase(rule: CustomRule): CloudflarePhase {
+  switch (rule.action.mitigate.action) {
+    case 'rate_limit':
+      return 'http_ratelimit'
+    case 'redirect':
+      return 'http_request_dynamic_redirect'
+    default:
+      return 'http_request_firewall_custom'
+  }
+}
+
+function translateCloudflareRule(rule: CustomRule, warnings: TranslationWarning[]): CloudflareRule | undefined {
+  try {
+    const { result, warnings: translationWarnings } = RuleTranslator.vercelToCloudflare(rule)
+    warnings.push(...translationWarnings)
+    return result
+  } catch (error) {
+    warnings.push({
+      ...TranslationWarningSystem.createWarning(
+        'complex_expressions',
+        rule.name,
+        'conditionGroup',
+        error instanceof Error ? error.message : String(error),
+        'Rewrite the rule using conditions Cloudflare supports.',
+      ),
+      severity: 'critical',
+    })
+    return undefined
+  }
+}
+
+function cloudflareRule(rule: CloudflareRule, ref: string): HclEntry[] {
+  // Skip rules must say what they skip; skipping the rest of the ruleset matches Vercel's bypass
+  const actionParameters =
+    rule.action === 'skip' && !rule.action_parameters ? { ruleset: 'current' } : rule.action_parameters
+  // Cloudflare counts requests per data center, so every rate limit is keyed by it
+  const ratelimit = rule.ratelimit && {
+    ...rule.ratelimit,
+    characteristics: [...new Set(['cf.colo.id', ...rule.ratelimit.characteristics])],
+  }
+
+  return [
+    { name: 'ref', value: ref },
+    { name: 'description', value: rule.description },
+    { name: 'expression', value: rule.expression },
+    { name: 'action', value: rule.action },
+    { name: 'enabled', value: rule.enabled ?? true },
+    ...(actionParameters ? [toBlock('action_parameters', actionParameters)] : []),
+    ...(ratelimit ? [toBlock('ratelimit', ratelimit)] : []),
+  ]
+}
+
+/**
+ * Writes an object as a block, with nested objects as nested blocks as version 4 of the
+ * Cloudflare provider expects
+ */
+function toBlock(type: string, value: object): HclBlock {
+  return {
+    type,
+    body: Object.entries(value).map(([name, item]) =>
+      item !== null && typeof item === 'object' && !Array.isArray(item)
+        ? toBlock(name, item)
+        : { name, value: item as HclValue | undefined },
+    ),
+  }
+}
+
+function warnVercelOnlySettings(config: FirewallConfig, warnings: TranslationWarning[]): void {
+  const settings = [
+    { field: 'crs', feature: 'OWASP core ruleset groups' },
+    { field: 'managedRules', feature: 'Managed rulesets' },
+    { field: 'attackMode', feature: 'Attack Challenge Mode' },
+    { field: 'bypass', feature: 'System bypass rules' },
+  ] as const
+
+  settings
+    .filter(({ field }) => config[field] !== undefined)
+    .forEach(({ field, feature }) =>
+      warnings.push(
+        TranslationWarningSystem.createUnsupportedFeatureWarning(feature, 'Vercel', 'Cloudflare', undefined, field),
+      ),
+    )
+}
+
+function terraformBlock(provider: ProviderType): HclBlock {
+  return {
+    type: 'terraform',
+    body: [
+      {
+        type: 'required_providers',
+        body: [{ name: provider, value: { source: `${provider}/${provider}`, version: PROVIDER_VERSIONS[provider] } }],
+      },
+    ],
+  }
+}
+
+/**
+ * A string variable. Variables without a default must be set when applying; a `null`
+ * default makes the variable optional
+ */
+function variable(name: string, description: string, defaultValue: string | null | undefined): HclBlock {
+  return {
+    type: 'variable',
+    labels: [name],
+    body: [
+      { name: 'description', value: description },
+      { name: 'type', value: new HclReference('string') },
+      { name: 'default', value: defaultValue },
+    ],
+  }
+}
+
+function resource(type: string, name: string, body: HclEntry[]): HclBlock {
+  return { type: 'resource', labels: [type, name], body }
+}
+
+function windowToSeconds(window: string): number {
+  const match = /^(\d+)([smhd])$/.exec(window)
+  return match ? Number(match[1]) * WINDOW_SECONDS[match[2]!]! : parseInt(window, 10)
+}
@@ -0,0 +1,431 @@
+import { SCHEMA_URL } from '../../constants/schema'
+import type { ProviderType } from '../providers/IFirewallProvider'
+import { RuleTranslator, TranslationWarningSystem } from '../translators'
+import type { TranslationWarning } from '../translators'
+import type { CustomRule, FirewallConfig, IPBlockingRule } from '../types'
+import type { CloudflareRule } from '../types/cloudflare'
+import type { VercelBypassRule, VercelCRSConfig, VercelCustomRule, VercelManagedRulesConfig } from '../types/vercel'
+import { compact } from './compact'
+import { HclReference, parseHcl } from './hcl'
+import type { HclBlock, HclEntry, HclValue } from './hcl'
+import { toConfigRule } from './unifiedConfig'
+
+/**
+ * A Terraform resource read from a configuration or state file, with nested blocks as
+ * arrays of objects
+ */
+export interface TerraformResource {
+  type: string
+  name: string
+  attributes: Record<string, unknown>
+}
+
+export interface TerraformImportResult {
+  provider: ProviderType
+  config: FirewallConfig
+  /** Addresses of the resources the config was built from */
+  resources: string[]
+  warnings: TranslationWarning[]
+}
+
+type Attributes = Record<string, unknown>
+
+/**
+ * Resource types each provider's firewall is built from
+ */
+const FIREWALL_RESOURCES: Record<ProviderType, string[]> = {
+  vercel: ['vercel_firewall_config', 'vercel_attack_challenge_mode', 'vercel_firewall_bypass'],
+  cloudflare: ['cloudflare_ruleset', 'cloudflare_list'],
+}
+
+/**
+ * Cloudflare ruleset phases that hold rules a config can express
+ */
+const CLOUDFLARE_PHASES = ['http_request_firewall_custom', 'http_ratelimit', 'http_request_dynamic_redirect']
+
+/**
+ * Reads the resources of a Terraform configuration file. References to variables and locals
+ * are replaced with their values, and other references with `undefined`.
+ *
+ * @param source - Contents of a `.tf` file
+ * @returns The resources in the file
+ * @throws HclParseError if the file cannot be parsed
+ */
+export function readTerraformConfiguration(source: string): TerraformResource[] {
+  const entries = parseHcl(source)
+  const hclBlocks = entries.filter((entry): entry is HclBlock => 'type' in entry)
+
+  const variables: Record<string, HclValue | undefined> = {}
+  const locals: Record<string, HclValue | undefined> = {}
+  for (const block of hclBlocks) {
+    if (block.type === 'variable' && block.labels?.[0]) {
+      const defaultValue = block.body.find((entry) => 'name' in entry && entry.name === 'default')
+      variables[block.labels[0]] = defaultValue && 'name' in defaultValue ? defaultValue.value : undefined
+    } else if (block.type === 'locals') {
+      block.body.forEach((entry) => 'name' in entry && (locals[entry.name] = entry.value))
+    }
+  }
+
+  const resolve = (value: HclValue | undefined, depth = 0): unknown => {
+    if (value instanceof HclReference) {
+      const [scope, name] = value.expression.split('.')
+      const target = scope === 'var' ? variables : scope === 'local' ? locals : undefined
+      // Only plain references resolve, and a bounded depth keeps cyclic locals from recursing forever
+      return target && name && value.expression === `${scope}.${name}` && depth < 16
+        ? resolve(target[name], depth + 1)
+        : undefined
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => resolve(item, depth))
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item, depth)]))
+    }
+    return value
+  }
+
+  const toAttributes = (body: HclEntry[]): Attributes => {
+    const attributes: Attributes = {}
+    for (const entry of body) {
+      if ('type' in entry) {
+        attributes[entry.type] = [
+          ...((attributes[entry.type] as Attributes[] | undefined) || []),
+          toAttributes(entry.body),
+        ]
+      } else {
+        attributes[entry.name] = resolve(entry.value)
+      }
+    }
+    return attributes
+  }
+
+  return hclBlocks
+    .filter((block) => block.type === 'resource' && block.labels?.length === 2)
+    .map((block) => ({ type: block.labels![0]!, name: block.labels![1]!, attributes: toAttributes(block.body) }))
+}
+
+/**
+ * Reads the managed resources of a Terraform state file
+ *
+ * @param source - Contents of a `terraform.tfstate` file
+ * @returns One resource per instance; instances of resources with `count` or `for_each`
+ *   are named with their index, e.g. `rules[0]`
+ * @throws Error if the file is not a Terraform state file
+ */
+export function readTerraformState(source: string): TerraformResource[] {
+  const state = JSON.parse(source) as { resources?: unknown }
+  if (!Array.isArray(state.resources)) {
+    throw new Error('The file is not a Terraform state file: it has no "resources"')
+  }
+
+  return (state.resources as Attributes[])
+    .filter((resource) => resource.mode === 'managed')
+    .flatMap((resource) =>
+      blocks(resource.instances).map((instance) => ({
+        type: String(resource.type),
+        name:
+          instance.index_key === undefined
+            ? String(resource.name)
+            : `${resource.name}[${JSON.stringify(instance.index_key)}]`,
+        attributes: (instance.attributes as Attributes) || {},
+      })),
+    )
+}
+
+/**
+ * Builds a config from the firewall resources of a Terraform configuration or state.
+ *
+ * Rules are converted with the same translators `sync` uses, so a config imported from the
+ * state of a deployed firewall matches it. Resources other than the provider's firewall
+ * resources are ignored.
+ *
+ * @param resources - Resources read with `readTerraformConfiguration` or `readTerraformState`
+ * @param provider - Provider to import the resources of; detected from the resources if unset
+ * @returns The config, the resources it was built from and warnings about what was left out
+ * @throws Error if there are no firewall resources, or resources for both providers and no `provider`
+ */
+export function importTerraformConfig(resources: TerraformResource[], provider?: ProviderType): TerraformImportResult {
+  const found = (Object.keys(FIREWALL_RESOURCES) as ProviderType[]).filter((candidate) =>
+    resources.some((resource) => FIREWALL_RESOURCES[candidate].includes(resource.type)),
+  )
+  const selected = provider ?? (found.length === 1 ? found[0] : undefined)
+
+  if (!selected) {
+    throw new Error(
+      found.length === 0
+        ? 'No Vercel or Cloudflare firewall resources found'
+        : 'Found firewall resources for both Vercel and Cloudflare; choose one with --provider',
+    )
+  }
+
+  const used = resources.filter((resource) => FIREWALL_RESOURCES[selected].includes(resource.type))
+  const warnings: TranslationWarning[] = []
+  const config = selected === 'cloudflare' ? importCloudflare(used, warnings) : importVercel(used, warnings)
+
+  return {
+    provider: selected,
+    config,
+    resources: used.map((resource) => `${resource.type}.${resource.name}`),
+    warnings,
+  }
+}
+
+function importVercel(resources: TerraformResource[], warnings: TranslationWarning[]): FirewallConfig {
+  const firewalls = resources.filter((resource) => resource.type === 'vercel_firewall_config')
+  if (firewalls.length > 1) {
+    warnings.push(
+      TranslationWarningSystem.createWarning(
+        'multiple_firewalls',
+        undefined,
+        undefined,
+        `Found ${firewalls.length} vercel_firewall_config resources; only ${firewalls[0]!.name} is imported`,
+        'Import each project into its own config file',
+      ),
+    )
+  }
+
+  const firewall = firewalls[0]?.attributes ?? {}
+  const managedRulesets = blocks(firewall.managed_rulesets)[0]
+  const attackMode = resources.find((resource) => resource.type === 'vercel_attack_challenge_mode')?.attributes
+
+  const rules = blocks(firewall.rules)
+    .flatMap((group) => blocks(group.rule))
+    .map((rule) => {
+      const { result, warnings: translationWarnings } = RuleTranslator.vercelToUnified(toVercelRule(rule))
+      warnings.push(...translationWarnings.filter((warning) => warning.category === 'lossy_conversion'))
+      return toConfigRule(result)
+    })
+
+  const ips = blocks(firewall.ip_rules)
+    .flatMap((group) => blocks(group.rule))
+    .map(
+      (ip): IPBlockingRule =>
+        compact({
+          id: text(ip.id),
+          ip: text(ip.ip) ?? '',
+          hostname: text(ip.hostname) ?? '',
+          notes: text(ip.notes) || undefined,
+          action: 'deny' as const,
+        }),
+    )
+
+  const bypass = resources
+    .filter((resource) => resource.type === 'vercel_firewall_bypass')
+    .map(
+      ({ attributes }): VercelBypassRule =>
+        compact({
+          sourceIp: text(attributes.source_ip) ?? '',
+          domain: attributes.domain === '*' ? undefined : text(attributes.domain),
+        }),
+    )
+
+  return compact({
+    $schema: SCHEMA_URL,
+    projectId: text(firewall.project_id),
+    teamId: text(firewall.team_id),
+    firewallEnabled: firewall.enabled !== false,
+    rules,
+    ips,
+    crs: managedRulesets?.owasp ? (toggles(managedRulesets.owasp) as VercelCRSConfig) : undefined,
+    managedRules: managedRulesets
+      ? (toggles({ bot_protection: managedRulesets.bot_protection, ai_bots: managedRulesets.ai_bots }) as
+          | VercelManagedRulesConfig
+          | undefined)
+      : undefined,
+    attackMode: attackMode ? { enabled: attackMode.enabled === true } : undefined,
+    bypass: bypass.length > 0 ? bypass : undefined,
+  })
+}
+
+function toVercelRule(rule: Attributes): VercelCustomRule {
+  const action = blocks(rule.action)[0] ?? {}
+  const rateLimit = blocks(action.rate_limit)[0]
+  const redirect = blocks(action.redirect)[0]
+
+  return compact({
+    id: text(rule.id),
+    name: text(rule.name) ?? '',
+    description: text(rule.description) || undefined,
+    active: rule.active !== false,
+    conditionGroup: blocks(rule.condition_group).map((group) => ({
+      conditions: blocks(group.conditions).map((condition) =>
+        compact({
+          type: condition.type as VercelCustomRule['conditionGroup'][number]['conditions'][number]['type'],
+          op: condition.op as VercelCustomRule['conditionGroup'][number]['conditions'][number]['op'],
+          neg: condition.neg === true ? true : undefined,
+          key: text(condition.key),
+          value:
+            Array.isArray(condition.values) && condition.values.length > 0 ? condition.values : text(condition.value),
+        }),
+      ),
+    })),
+    action: {
+      mitigate: compact({
+        action: (text(action.action) ?? 'log') as VercelCustomRule['action']['mitigate']['action'],
+        rateLimit: rateLimit
+          ? { requests: Number(rateLimit.limit), window: secondsToWindow(Number(rateLimit.window)) }
+          : undefined,
+        redirect: redirect
+          ? { location: text(redirect.location) ?? '', permanent: redirect.permanent === true }
+          : undefined,
+        actionDuration: text(action.action_duration),
+      }),
+    },
+  })
+}
+
+function importCloudflare(resources: TerraformResource[], warnings: TranslationWarning[]): FirewallConfig {
+  const lists = resources.filter((resource) => resource.type === 'cloudflare_list' && resource.attributes.kind === 'ip')
+  const listNames = new Set(lists.map((list) => text(list.attributes.name)))
+  const rulesets = resources.filter((resource) => resource.type === 'cloudflare_ruleset')
+  const rules: CustomRule[] = []
+
+  for (const { name, attributes } of rulesets) {
+    if (!CLOUDFLARE_PHASES.includes(String(attributes.phase))) {
+      warnings.push(
+        TranslationWarningSystem.createUnsupportedFeatureWarning(
+          `Ruleset phase ${attributes.phase}`,
+          'Terraform',
+          'doorman',
+          name,
+          'phase',
+        ),
+      )
+      continue
+    }
+
+    for (const rule of blocks(attributes.rules)) {
+      const expression = text(rule.expression) ?? ''
+      // The rule blocking the IP list is recreated by sync from the list's IPs
+      const listRule = /^ip\.src in \$(\w+)$/.exec(expression.trim())
+      if (listRule && listNames.has(listRule[1])) {
+        continue
+      }
+
+      const cloudflareRule: CloudflareRule = compact({
+        // Exported rulesets use the config rule ID as the ref
+        id: text(rule.ref) ?? text(rule.id) ?? '',
+        action: text(rule.action) as CloudflareRule['action'],
+        expression,
+        description: text(rule.description) || text(rule.ref),
+        enabled: rule.enabled !== false,
+        action_parameters: unwrapBlocks(blocks(rule.action_parameters)[0]) as CloudflareRule['action_parameters'],
+        ratelimit: unwrapBlocks(blocks(rule.ratelimit)[0]) as CloudflareRule['ratelimit'],
+      })
+
+      const { result, warnings: translationWarnings } = RuleTranslator.cloudflareToUnified(cloudflareRule)
+      warnings.push(...translationWarnings)
+      rules.push(withConfigRateLimit(toConfigRule({ ...result, id: result.id || undefined }), warnings))
+    }
+  }
+
+  const ips = lists.flatMap((list) =>
+    blocks(list.attributes.item).map(
+      (item): IPBlockingRule =>
+        compact({
+          id: text(item.id),
+          ip: text(blocks(item.value)[0]?.ip ?? item.ip) ?? '',
+          hostname: '*',
+          notes: text(item.comment) || undefined,
+          action: 'deny' as const,
+        }),
+    ),
+  )
+
+  return compact({
+    $schema: SCHEMA_URL,
+    zoneId: text(rulesets[0]?.attributes.zone_id),
+    rules,
+    ips,
+  })
+}
+
+/**
+ * Turns a Cloudflare rate limiting rule into a config rate limit, dropping the settings a
+ * config cannot hold. Settings `sync` writes by default are dropped silently, so only rules
+ * that would change are reported.
+ */
+function withConfigRateLimit(rule: CustomRule, warnings: TranslationWarning[]): CustomRule {
+  const rateLimit = rule.action.mitigate.rateLimit
+  if (!rateLimit) {
+    return rule
+  }
+
+  const { requests, window, characteristics, mitigationTimeout, countingExpression } = rateLimit as typeof rateLimit & {
+    characteristics?: string[]
+    mitigationTimeout?: number
+    countingExpression?: string
+  }
+  const dropped = [
+    characteristics?.some((characteristic) => !['ip.src', 'cf.colo.id'].includes(characteristic)) &&
+      `characteristics ${characteristics.join(', ')}`,
+    mitigationTimeout !== undefined && mitigationTimeout !== 3600 && `mitigation timeout of ${mitigationTimeout}s`,
+    countingExpression && 'counting expression',
+  ].filter(Boolean)
+
+  if (dropped.length > 0) {
+    warnings.push(
+      TranslationWarningSystem.createLossyConversionWarning(
+        'Rate limit',
+        `the config does not support ${dropped.join(', ')}; sync will count requests per IP instead`,
+        rule.id ?? rule.name,
+        'rateLimit',
+      ),
+    )
+  }
+
+  // Rate limited requests are blocked, which the translator reads back as a plain deny
+  return {
+    ...rule,
+    action: { mitigate: { ...rule.action.mitigate, action: 'rate_limit', rateLimit: { requests, window } } },
+  }
+}
+
+/**
+ * The values of a nested block, which configuration files and state files of different
+ * provider versions write as an object, a list of objects, or not at all
+ */
+function blocks(value: unknown): Attributes[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is Attributes => item !== null && typeof item === 'object')
+  }
+  return value !== null && typeof value === 'object' ? [value as Attributes] : []
+}
+
+/**
+ * Replaces nested blocks written as single-item lists with the item
+ */
+function unwrapBlocks(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.length === 1 && value[0] !== null && typeof value[0] === 'object' ? unwrapBlocks(value[0]) : value
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, unwrapBlocks(item)]))
+  }
+  return value
+}
+
+/**
+ * Managed ruleset toggles, keyed by ruleset, from `{ action, active }` objects
+ */
+function toggles(value: unknown): Record<string, { active: boolean; action?: string }> | undefined {
+  const entries = Object.entries(blocks(value)[0] ?? {})
+    .map(([id, setting]) => [id, blocks(setting)[0]] as const)
+    .filter(([, setting]) => setting !== undefined)
+    .map(([id, setting]) => [id, compact({ active: setting!.active !== false, action: text(setting!.action) })])
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined
+}
+
+function secondsToWindow(seconds: number): string {
+  const units = [
+    { unit: 'd', seconds: 86400 },
+    { unit: 'h', seconds: 3600 },
+    { unit: 'm', seconds: 60 },
+  ]
+  const match = units.find((candidate) => seconds % candidate.seconds === 0)
+  return match ? `${seconds / match.seconds}${match.unit}` : `${seconds}s`
+}
@@ -0,0 +1,354 @@
+import type { ProviderType } from '../providers/IFirewallProvider'
+import type { TranslationResult } from '../translators'
+import type { FirewallConfig } from '../types'
+import { HclReference } from './hcl'
+import type { HclEntry, HclValue } from './hcl'
+import { buildTerraformEntries } from './terraform'
+
+/**
+ * Infrastructure as code tools a TypeScript program can be generated for
+ */
+export type ProgramTarget = 'pulumi' | 'cdktf'
+
+/**
+ * Packages the resources of each provider come from
+ */
+const PACKAGES: Record<ProgramTarget, Record<ProviderType, string>> = {
+  pulumi: { vercel: '@pulumiverse/vercel', cloudflare: '@pulumi/cloudflare' },
+  cdktf: { vercel: '@cdktf/provider-vercel', cloudflare: '@cdktf/provider-cloudflare' },
+}
+
+/**
+ * Nested blocks that can repeat, keyed by resource type. Both tools take these as arrays
+ * and every other block as an object.
+ */
+const LIST_BLOCKS: Record<string, string[]> = {
+  vercel_firewall_config: ['rule'],
+  cloudflare_ruleset: ['rules'],
+  cloudflare_list: ['item'],
+}
+
+/**
+ * Pulumi names list properties in the plural
+ */
+const PULUMI_PLURALS: Record<string, string> = {
+  condition_group: 'conditionGroups',
+  rule: 'rules',
+  item: 'items',
+}
+
+interface ProgramVariable {
+  name: string
+  identifier: string
+  description?: string
+  defaultValue?: string | null
+}
+
+interface ProgramResource {
+  type: string
+  name: string
+  args: Record<string, HclValue>
+  dependsOn: string[]
+}
+
+/**
+ * Generates a TypeScript program that creates the same resources as the Terraform export,
+ * for teams that manage their infrastructure with Pulumi or CDK for Terraform.
+ *
+ * Resources keep the logical names of the Terraform export, which come from rule IDs, and
+ * the Terraform variables become Pulumi config values or Terraform variables.
+ *
+ * @param config - The config to export
+ * @param provider - The provider to generate resources for
+ * @param target - The tool the program is written for
+ * @returns The program, and warnings about what was left out
+ */
+export function generateTypeScriptProgram(
+  config: FirewallConfig,
+  provider: ProviderType,
+  target: ProgramTarget,
+): TranslationResult<string> {
+  const { result: blocks, warnings } = buildTerraformEntries(config, provider)
+
+  const variables = blocks
+    .filter((block) => block.type === 'variable')
+    .map((block): ProgramVariable => {
+      const name = block.labels![0]!
+      const attribute = (key: string) =>
+        block.body.find((entry): entry is { name: string; value: HclValue } => 'name' in entry && entry.name === key)
+          ?.value
+      return {
+        name,
+        identifier: camelCase(name),
+        description: attribute('description') as string | undefined,
+        defaultValue: attribute('default') as string | null | undefined,
+      }
+    })
+
+  const resources = blocks
+    .filter((block) => block.type === 'resource')
+    .map((block): ProgramResource => {
+      const [type, name] = block.labels as [string, string]
+      const dependsOn = block.body.find((entry) => 'name' in entry && entry.name === 'depends_on')
+      return {
+        type,
+        name,
+        args: toArgs(
+          block.body.filter((entry) => entry !== dependsOn),
+          type,
+          target,
+        ),
+        dependsOn:
+          dependsOn && 'value' in dependsOn && Array.isArray(dependsOn.value)
+            ? dependsOn.value.map((reference) => (reference as HclReference).expression)
+            : [],
+      }
+    })
+
+  const referenced = new Set(resources.flatMap((resource) => resource.dependsOn))
+  const bindings = new Map(
+    resources
+      .filter((resource) => referenced.has(`${resource.type}.${resource.name}`))
+      .map((resource) => [`${resource.type}.${resource.name}`, camelCase(resource.name)]),
+  )
+  const references = new Map(
+    variables.map((variable) => [
+      `var.${variable.name}`,
+      target === 'cdktf' ? `${variable.identifier}.stringValue` : variable.identifier,
+    ]),
+  )
+
+  const program =
+    target === 'cdktf'
+      ? cdktfProgram(provider, variables, resources, bindings, references)
+      : pulumiProgram(provider, variables, resources, bindings, references)
+
+  return { result: `// Firewall configuration exported by vercel-doorman\n${program}`, warnings }
+}
+
+function pulumiProgram(
+  provider: ProviderType,
+  variables: ProgramVariable[],
+  resources: ProgramResource[],
+  bindings: Map<string, string>,
+  references: Map<string, string>,
+): string {
+  const lines = [
+    `import * as pulumi from '@pulumi/pulumi'`,
+    `import * as ${provider} from '${PACKAGES.pulumi[provider]}'`,
+    '',
+    'const config = new pulumi.Config()',
+  ]
+
+  for (const variable of variables) {
+    const key = tsString(variable.identifier)
+    lines.push(
+      `// ${variable.description}`,
+      `const ${variable.identifier} = ` +
+        (variable.defaultValue === undefined
+          ? `config.require(${key})`
+          : variable.defaultValue === null
+            ? `config.get(${key})`
+            : `config.get(${key}) ?? ${tsString(variable.defaultValue)}`),
+    )
+  }
+
+  for (const resource of resources) {
+    const binding = bindings.get(`${resource.type}.${resource.name}`)
+    const args = [
+      tsString(resource.name),
+      renderTs(resolve(resource.args, bindings, references), 0),
+      ...(resource.dependsOn.length > 0
+        ? [`{ dependsOn: [${resource.dependsOn.map((address) => bindings.get(address)).join(', ')}] }`]
+        : []),
+    ]
+    lines.push(
+      '',
+      `${binding ? `const ${binding} = ` : ''}new ${provider}.${className(resource.type)}(${args.join(', ')})`,
+    )
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+function cdktfProgram(
+  provider: ProviderType,
+  variables: ProgramVariable[],
+  resources: ProgramResource[],
+  bindings: Map<string, string>,
+  references: Map<string, string>,
+): string {
+  const providerClass = `${provider.charAt(0).toUpperCase()}${provider.slice(1)}Provider`
+  const modules = [...new Set(resources.map((resource) => resource.type))].map((type) => ({
+    name: className(type),
+    path: `${PACKAGES.cdktf[provider]}/lib/${moduleName(type)}`,
+  }))
+
+  const body: string[] = [`new ${providerClass}(this, ${tsString(provider)})`]
+
+  for (const variable of variables) {
+    body.push(
+      '',
+      `const ${variable.identifier} = new TerraformVariable(this, ${tsString(variable.name)}, ${renderTs(
+        { type: 'string', description: variable.description, default: variable.defaultValue },
+        4,
+      )})`,
+    )
+  }
+
+  for (const resource of resources) {
+    const binding = bindings.get(`${resource.type}.${resource.name}`)
+    const args = resolve(resource.args, bindings, references) as Record<string, HclValue>
+    if (resource.dependsOn.length > 0) {
+      args.dependsOn = resource.dependsOn.map((address) => new HclReference(bindings.get(address)!))
+    }
+    body.push(
+      '',
+      `${binding ? `const ${binding} = ` : ''}new ${className(resource.type)}(this, ${tsString(resource.name)}, ${renderTs(args, 4)})`,
+    )
+  }
+
+  return [
+    `import { App, TerraformStack, TerraformVariable } from 'cdktf'`,
+    `import { Construct } from 'constructs'`,
+    `import { ${providerClass} } from '${PACKAGES.cdktf[provider]}/lib/provider'`,
+    ...modules.map((module) => `import { ${module.name} } from '${module.path}'`),
+    '',
+    'class DoormanFirewall extends TerraformStack {',
+    '  constructor(scope: Construct, id: string) {',
+    '    super(scope, id)',
+    '',
+    ...body.map((line) => (line ? `    ${line}` : line)),
+    '  }',
+    '}',
+    '',
+    'const app = new App()',
+    `new DoormanFirewall(app, 'doorman-firewall')`,
+    'app.synth()',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Converts the body of a Terraform block into the arguments object both tools take
+ */
+function toArgs(body: HclEntry[], resourceType: string, target: ProgramTarget): Record<string, HclValue> {
+  const args: Record<string, HclValue> = {}
+  const listBlocks = LIST_BLOCKS[resourceType] || []
+
+  for (const entry of body) {
+    if ('name' in entry) {
+      if (entry.value !== undefined) {
+        args[propertyName(entry.name, Array.isArray(entry.value), target)] = toArgValue(entry.value)
+      }
+      continue
+    }
+
+    const value = toArgs(entry.body, resourceType, target)
+    if (listBlocks.includes(entry.type)) {
+      const key = propertyName(entry.type, true, target)
+      args[key] = [...((args[key] as HclValue[] | undefined) || []), value]
+    } else {
+      args[propertyName(entry.type, false, target)] = value
+    }
+  }
+
+  return args
+}
+
+function toArgValue(value: HclValue): HclValue {
+  if (Array.isArray(value)) {
+    return value.map(toArgValue)
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof HclReference)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => [camelCase(key), toArgValue(item as HclValue)]),
+    )
+  }
+  return value
+}
+
+/**
+ * Replaces Terraform references with the TypeScript expressions they stand for
+ */
+function resolve(value: HclValue, bindings: Map<string, string>, references: Map<string, string>): HclValue {
+  if (value instanceof HclReference) {
+    return new HclReference(references.get(value.expression) ?? bindings.get(value.expression) ?? value.expression)
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolve(item, bindings, references))
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolve(item as HclValue, bindings, references)]),
+    )
+  }
+  return value
+}
+
+/**
+ * Renders a value as a TypeScript expression, with references as code
+ */
+function renderTs(value: HclValue | undefined, indent: number): string {
+  const padding = ' '.repeat(indent + 2)
+
+  if (value instanceof HclReference) {
+    return value.expression
+  }
+  if (typeof value === 'string') {
+    return tsString(value)
+  }
+  if (Array.isArray(value)) {
+    if (value.every((item) => item === null || typeof item !== 'object' || item instanceof HclReference)) {
+      return `[${value.map((item) => renderTs(item, indent)).join(', ')}]`
+    }
+    return `[\n${value.map((item) => `${padding}${renderTs(item, indent + 2)},\n`).join('')}${' '.repeat(indent)}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined)
+    if (entries.length === 0) {
+      return '{}'
+    }
+    const properties = entries.map(
+      ([key, item]) => `${padding}${propertyKey(key)}: ${renderTs(item as HclValue, indent + 2)},\n`,
+    )
+    return `{\n${properties.join('')}${' '.repeat(indent)}}`
+  }
+  return String(value)
+}
+
+function propertyName(name: string, isList: boolean, target: ProgramTarget): string {
+  return target === 'pulumi' && isList && PULUMI_PLURALS[name] ? PULUMI_PLURALS[name]! : camelCase(name)
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : tsString(key)
+}
+
+function tsString(value: string): string {
+  const quote = value.includes("'") && !value.includes('"') ? '"' : "'"
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(new RegExp(quote, 'g'), `\\${quote}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+  return `${quote}${escaped}${quote}`
+}
+
+function camelCase(name: string): string {
+  return name.replace(/_([a-z0-9])/g, (_match, letter: string) => letter.toUpperCase())
+}
+
+/**
+ * Class of a resource type without its provider prefix, e.g. `vercel_firewall_config` is `FirewallConfig`
+ */
+function className(type: string): string {
+  const [, ...words] = type.split('_')
+  return words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('')
+}
+
+function moduleName(type: string): string {
+  return type.split('_').slice(1).join('-')
+}
@@ -0,0 +1,135 @@
+import { logger } from '../logger'
+import type { ProviderType } from '../providers/IFirewallProvider'
+import { RuleTranslator } from '../translators'
+import type { CustomRule, FirewallConfig, IPBlockingRule } from '../types'
+import type { UnifiedConfig, UnifiedIPRule, UnifiedRule } from '../types/unified'
+import { compact } from './compact'
+import { isDeepEqual } from './isDeepEqual'
+import { omitId } from './omitId'
+
+/**
+ * Converts a local config file into the unified format consumed by `IFirewallProvider`.
+ *
+ * @param config - The local (Vercel-format) config.
+ * @param provider - The provider the config will be synced to.
+ * @returns The equivalent unified config.
+ */
+export function toUnifiedConfig(config: FirewallConfig, provider?: ProviderType): UnifiedConfig {
+  const rules = (config.rules || []).map((rule) => {
+    const { result, warnings } = RuleTranslator.vercelToUnified(rule)
+    warnings
+      .filter((warning) => warning.category === 'lossy_conversion')
+      .forEach((warning) => logger.warn(`Rule ${rule.name}: ${warning.explanation}`))
+    return result
+  })
+
+  const { crs, managedRules, attackMode } = config
+  const security = crs || managedRules || attackMode ? compact({ crs, managedRules, attackMode }) : undefined
+
+  return {
+    version: '2.0',
+    provider,
+    rules,
+    ips: (config.ips || []).map((ip) => RuleTranslator.vercelIPToUnified(ip)),
+    ...(security ? { security } : {}),
+    ...(config.bypass ? { bypass: config.bypass } : {}),
+    metadata: {
+      version: config.version,
+      updatedAt: config.updatedAt,
+    },
+  }
+}
+
+/**
+ * Converts a unified rule back into the local config rule format.
+ */
+export function toConfigRule(rule: UnifiedRule): CustomRule {
+  const { result } = RuleTranslator.unifiedToVercel(rule)
+  const { action, ...mitigate } = result.action.mitigate
+
+  // Unified-only actions map onto their closest config equivalent
+  const configAction = action === 'allow' ? 'bypass' : action === 'block' ? 'deny' : action
+
+  return compact({ ...result, action: { mitigate: { ...mitigate, action: configAction } } })
+}
+
+/**
+ * Converts a unified IP rule back into the local config IP rule format.
+ */
+export function toConfigIPRule(ip: UnifiedIPRule): IPBlockingRule {
+  return compact({
+    id: ip.id,
+    ip: ip.ip,
+    hostname: ip.hostname || '',
+    notes: ip.notes,
+    action: ip.action as 'deny',
+  })
+}
+
+/**
+ * Converts a unified config (e.g. fetched from a provider) into the local config fields
+ * it maps to. Project identifiers and other local-only fields are left to the caller.
+ */
+export function fromUnifiedConfig(
+  config: UnifiedConfig,
+): Pick<FirewallConfig, 'version' | 'updatedAt' | 'rules' | 'ips' | 'crs' | 'managedRules' | 'attackMode' | 'bypass'> {
+  return {
+    version: config.metadata?.version,
+    updatedAt: config.metadata?.updatedAt,
+    rules: config.rules.map(toConfigRule),
+    ips: (config.ips || []).map(toConfigIPRule),
+    ...compact(config.security || {}),
+    ...(config.bypass ? { bypass: config.bypass } : {}),
+  }
+}
+
+/**
+ * Reconciles a local config with the remote state after a sync.
+ *
+ * Adopts the remote version and timestamp, and copies remote-assigned IDs onto local rules
+ * whose content matches a remote rule but whose ID does not.
+ *
+ * @param config - The local config that was synced.
+ * @param remote - The remote config fetched after the sync.
+ * @returns The updated local config.
+ */
+export function applyRemoteState(config: FirewallConfig, remote: UnifiedConfig): FirewallConfig {
+  const remoteState = fromUnifiedConfig(remote)
+
+  const rules = reconcileIds(config.rules, remoteState.rules)
+  const ips = config.ips ? reconcileIds(config.ips, remoteState.ips || []) : config.ips
+
+  return {
+    ...config,
+    ...(remoteState.version !== undefined ? { version: remoteState.version } : {}),
+    ...(remoteState.updatedAt !== undefined ? { updatedAt: remoteState.updatedAt } : {}),
+    rules,
+    ...(ips ? { ips } : {}),
+  }
+}
+
+function reconcileIds<T extends CustomRule | IPBlockingRule>(localRules: T[], remoteRules: T[]): T[] {
+  const localIds = new Set(localRules.map((rule) => rule.id).filter(Boolean))
+  const matchedRemoteIds = new Set<string>()
+
+  return localRules.map((localRule) => {
+    if (localRule.id && remoteRules.some((remoteRule) => remoteRule.id === localRule.id)) {
+      return localRule
+    }
+
+    const matchingRemoteRule = remoteRules.find(
+      (remoteRule) =>
+        !!remoteRule.id &&
+        !localIds.has(remoteRule.id) &&
+        !matchedRemoteIds.has(remoteRule.id) &&
+        isDeepEqual(compact(omitId(remoteRule)), compact(omitId(localRule))),
+    )
+
+    if (!matchingRemoteRule?.id) {
+      return localRule
+    }
+
+    matchedRemoteIds.add(matchingRemoteRule.id)
+    return { ...localRule, id: matchingRemoteRule.id }
+  })
+}
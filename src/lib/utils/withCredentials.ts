@@ -1,31 +1,32 @@
+import chalk from 'chalk'
 import { LogLevels } from 'consola'
+import { configErrors, DoormanError, providerErrors } from '../errors'
 import { logger } from '../logger'
 import type { IFirewallProvider, ProviderType } from '../providers/IFirewallProvider'
-import { FirewallService } from '../services/FirewallService'
-import { VercelClient } from '../services/VercelClient'
+import { ProviderDetector } from '../providers/ProviderDetector'
 import { FirewallConfig } from '../types'
 import { promptForCredentials } from '../ui/promptForCredentials'
 import { getConfig } from './config'
 import { handleCommandError } from './handleCommandError'
-import { getProviderInstance } from './providerHelper'
+import { getProviderDisplayName, getProviderInstance, resolveProviderType } from './providerHelper'
 
 /**
  * Context provided to command handlers by `withCredentials`.
  *
- * For Vercel (legacy) usage, `client` and `service` are available.
- * For multi-provider usage, use `provider` which implements `IFirewallProvider`.
- * Both are always populated — `provider` wraps the Vercel client when in legacy mode.
+ * Commands talk to the remote firewall exclusively through `provider`, which
+ * implements `IFirewallProvider` for both Vercel and Cloudflare.
  */
 export interface CommandContext {
   /** The loaded config (FirewallConfig for legacy, may be UnifiedConfig for multi-provider) */
   config: FirewallConfig
   /** The resolved provider instance (works for both Vercel and Cloudflare) */
   provider: IFirewallProvider
-  /** @deprecated Use `provider` instead. Vercel client (only populated for Vercel provider) */
-  client: VercelClient
-  /** @deprecated Use `provider` instead. Vercel firewall service (only populated for Vercel provider) */
-  service: FirewallService
-  /** Resolved credentials */
+  /**
+   * Whether the config file's version and rule IDs belong to this provider. Only false for
+   * the additional providers of `withAllProviders`, which are compared by rules alone
+   */
+  primary: boolean
+  /** Resolved Vercel credentials (empty strings for other providers) */
   token: string
   projectId: string
   teamId: string
@@ -37,6 +38,8 @@ export interface CommandContext {
 export interface WithCredentialsOptions {
   /** CLI --config path */
   config?: string
+  /** CLI --env environment overlay to resolve */
+  env?: string
   /** Explicit provider selection (auto-detected if not specified) */
   provider?: ProviderType
   /** CLI --projectId override (Vercel) */
@@ -64,10 +67,21 @@ export interface WithCredentialsOptions {
    * If true, config is loaded without schema validation.
    */
   skipValidation?: boolean
+  /** Leave out the per-provider headings of `withAllProviders`, e.g. for JSON output */
+  quiet?: boolean
   /** Context string for error messages (e.g., 'syncing firewall rules') */
   errorContext: string
 }
 
+/**
+ * Outcome of running a command handler against one provider with `withAllProviders`.
+ */
+export interface ProviderOutcome<T> {
+  provider: ProviderType
+  result?: T
+  error?: unknown
+}
+
 /**
  * Shared middleware that handles config loading, provider detection, credential
  * resolution, and error handling for all CLI commands.
@@ -80,69 +94,158 @@ export async function withCredentials(
   handler: (ctx: CommandContext) => Promise<void>,
 ): Promise<void> {
   try {
-    if (options.debug) {
-      logger.level = LogLevels.debug
+    const config = await loadConfig(options)
+
+    const providerType = await resolveProviderType({
+      provider: options.provider,
+      config,
+      interactive: !options.ci,
+    })
+
+    await handler({ ...(await resolveCredentials(options, config, providerType)), primary: true })
+  } catch (error) {
+    handleCommandError(error, options.errorContext)
+  }
+}
+
+/**
+ * Runs a command handler against every provider configured in the config file
+ * (`--all-providers`).
+ *
+ * All providers are resolved before the handler runs, so missing credentials fail before
+ * anything changes. The provider the config would use on its own goes first and is the
+ * only `primary` one. A failing provider does not stop the others: its error is reported,
+ * `summarize` receives every outcome, and the command fails once all providers have run.
+ */
+export async function withAllProviders<T>(
+  options: WithCredentialsOptions,
+  handler: (ctx: CommandContext) => Promise<T>,
+  summarize?: (outcomes: ProviderOutcome<T>[]) => void | Promise<void>,
+): Promise<void> {
+  try {
+    const config = await loadConfig(options)
+
+    const configured = ProviderDetector.detectAll(config as unknown as Record<string, unknown>)
+    if (configured.length === 0) {
+      throw configErrors.noProviders()
     }
 
-    // 1. Load config
-    let config: FirewallConfig
+    const detected = ProviderDetector.getProvider(config as unknown as Record<string, unknown>, configured[0])
+    const primary = configured.includes(detected) ? detected : configured[0]!
+    const providerTypes = [primary, ...configured.filter((type) => type !== primary)]
+
+    const contexts: CommandContext[] = []
+    for (const providerType of providerTypes) {
+      contexts.push({
+        ...(await resolveCredentials(options, config, providerType)),
+        primary: providerType === primary,
+      })
+    }
+
+    const outcomes: ProviderOutcome<T>[] = []
+    for (const ctx of contexts) {
+      const name = getProviderDisplayName(ctx.provider.name)
+      if (!options.quiet) {
+        logger.log(chalk.bold.underline(`\n${name}\n`))
+      }
 
-    if (options.optionalConfig) {
       try {
-        config = await getConfig(options.config, 'optional')
-      } catch {
-        config = {} as FirewallConfig
+        outcomes.push({ provider: ctx.provider.name, result: await handler(ctx) })
+      } catch (error) {
+        outcomes.push({ provider: ctx.provider.name, error })
+        logger.error(
+          DoormanError.isDoormanError(error)
+            ? error.format()
+            : `${name}: ${error instanceof Error ? error.message : String(error)}`,
+        )
       }
-    } else if (options.skipValidation) {
-      config = await getConfig(options.config, 'raw')
-    } else {
-      config = await getConfig(options.config, 'required')
     }
 
-    // 2. Get provider instance (handles credential resolution for both providers)
-    const provider = await getProviderInstance({
-      provider: options.provider,
-      config,
-      interactive: !options.ci,
-      // Vercel credentials
-      token: options.token,
-      projectId: options.projectId,
-      teamId: options.teamId,
-      // Cloudflare credentials
-      apiToken: options.apiToken,
-      zoneId: options.zoneId,
-      accountId: options.accountId,
-    })
+    await summarize?.(outcomes)
 
-    // 3. For backward compatibility, also create legacy Vercel client/service
-    //    These are only meaningful when the provider is Vercel.
-    let client: VercelClient
-    let service: FirewallService
-    let token = ''
-    let projectId = ''
-    let teamId = ''
-
-    if (provider.name === 'vercel') {
-      // Resolve Vercel credentials for the legacy context fields
-      const resolved = await promptForCredentials({
-        token: options.token,
-        projectId: options.projectId || config.projectId,
-        teamId: options.teamId || config.teamId,
-      })
+    const failed = outcomes.filter((outcome) => outcome.error !== undefined)
+    if (failed.length > 0) {
+      throw providerErrors.partialFailure(
+        options.errorContext,
+        failed.map((outcome) => getProviderDisplayName(outcome.provider)),
+        outcomes
+          .filter((outcome) => outcome.error === undefined)
+          .map((outcome) => getProviderDisplayName(outcome.provider)),
+      )
+    }
+  } catch (error) {
+    handleCommandError(error, options.errorContext)
+  }
+}
+
+async function loadConfig(options: WithCredentialsOptions): Promise<FirewallConfig> {
+  if (options.debug) {
+    logger.level = LogLevels.debug
+  }
+
+  let config: FirewallConfig
+
+  if (options.optionalConfig) {
+    try {
+      config = await getConfig(options.config, 'optional', options.env)
+    } catch {
+      config = {} as FirewallConfig
+    }
+  } else if (options.skipValidation) {
+    config = await getConfig(options.config, 'raw', options.env)
+  } else {
+    config = await getConfig(options.config, 'required', options.env)
+  }
+
+  if (options.env) {
+    logger.info(`Using the ${options.env} environment (${config.rules?.length ?? 0} rules after overlay)`)
+  }
+
+  return config
+}
+
+async function resolveCredentials(
+  options: WithCredentialsOptions,
+  config: FirewallConfig,
+  providerType: ProviderType,
+): Promise<Omit<CommandContext, 'primary'>> {
+  let token = ''
+  let projectId = ''
+  let teamId = ''
+
+  if (providerType === 'vercel') {
+    token = options.token || process.env.VERCEL_TOKEN || ''
+    projectId =
+      options.projectId ||
+      config.projectId ||
+      config.providers?.vercel?.projectId ||
+      process.env.VERCEL_PROJECT_ID ||
+      ''
+    teamId = options.teamId || config.teamId || config.providers?.vercel?.teamId || process.env.VERCEL_TEAM_ID || ''
+
+    if (!options.ci) {
+      // Prompt once for anything still missing so the provider never asks again
+      const resolved = await promptForCredentials({ token, projectId, teamId })
       token = resolved.token
       projectId = resolved.projectId
       teamId = resolved.teamId
-      client = new VercelClient(projectId, teamId, token)
-      service = new FirewallService(client)
-    } else {
-      // For non-Vercel providers, create stub instances
-      // Commands should use `provider` instead
-      client = {} as VercelClient
-      service = {} as FirewallService
     }
-
-    await handler({ config, provider, client, service, token, projectId, teamId })
-  } catch (error) {
-    handleCommandError(error, options.errorContext)
   }
+
+  // Cloudflare credentials are resolved by the provider helper
+  const provider = await getProviderInstance({
+    provider: providerType,
+    config,
+    interactive: !options.ci,
+    // Vercel credentials
+    token: token || undefined,
+    projectId: projectId || undefined,
+    teamId: teamId || undefined,
+    // Cloudflare credentials
+    apiToken: options.apiToken,
+    zoneId: options.zoneId,
+    accountId: options.accountId,
+  })
+
+  return { config, provider, token, projectId, teamId }
 }
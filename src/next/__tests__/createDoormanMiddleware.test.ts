@@ -0,0 +1,159 @@
+import { describe, expect, it, jest } from '@jest/globals'
+import type { CustomRule, FirewallConfig } from '../../lib/types'
+import { createDoormanMiddleware, MAX_RATE_LIMIT_WINDOWS, toSimulatedRequest } from '../createDoormanMiddleware'
+
+const rule = (id: string, path: string, mitigate: CustomRule['action']['mitigate']): CustomRule => ({
+  id,
+  name: id,
+  active: true,
+  conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: path }] }],
+  action: { mitigate },
+})
+
+const config: FirewallConfig = {
+  rules: [
+    rule('rule_log_all', '/', { action: 'log' }),
+    rule('rule_block_wp', '/wp-admin', { action: 'deny' }),
+    rule('rule_challenge_login', '/login', { action: 'challenge' }),
+    rule('rule_redirect_old', '/old', { action: 'redirect', redirect: { location: '/new', permanent: true } }),
+    rule('rule_limit_api', '/api', { action: 'rate_limit', rateLimit: { requests: 2, window: '60s' } }),
+  ],
+  ips: [{ ip: '198.51.100.0/24', hostname: '', action: 'deny' }],
+}
+
+const request = (path: string, headers: Record<string, string> = {}) =>
+  new Request(`https://example.com${path}`, { headers: { 'x-forwarded-for': '203.0.113.7', ...headers } })
+
+describe('createDoormanMiddleware', () => {
+  const onMatch = jest.fn()
+  const middleware = createDoormanMiddleware(config, { onMatch })
+
+  it('denies and challenges with 403 responses', () => {
+    expect(middleware(request('/wp-admin'))?.status).toBe(403)
+    expect(middleware(request('/login'))?.status).toBe(403)
+  })
+
+  it('blocks IP rules using the forwarded client address', () => {
+    expect(middleware(request('/', { 'x-forwarded-for': '198.51.100.9, 10.0.0.1' }))?.status).toBe(403)
+  })
+
+  it('redirects relative to the request URL', () => {
+    const response = middleware(request('/old'))
+    expect(response?.status).toBe(308)
+    expect(response?.headers.get('location')).toBe('https://example.com/new')
+  })
+
+  it('rate limits per rule and client address', () => {
+    const limited = createDoormanMiddleware(config, { onMatch })
+    expect(limited(request('/api'))).toBeUndefined()
+    expect(limited(request('/api'))).toBeUndefined()
+    expect(limited(request('/api'))?.status).toBe(429)
+    expect(limited(request('/api', { 'x-forwarded-for': '203.0.113.8' }))).toBeUndefined()
+  })
+
+  it('lets other requests through and reports log rules', () => {
+    onMatch.mockClear()
+    expect(middleware(request('/home'))).toBeUndefined()
+    expect(onMatch).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'allow', logged: [{ id: 'rule_log_all', name: 'rule_log_all' }] }),
+      expect.anything(),
+    )
+  })
+
+  it('only reports matches in log-only mode', () => {
+    const report = jest.fn()
+    const logOnly = createDoormanMiddleware(config, { logOnly: true, onMatch: report })
+
+    expect(logOnly(request('/wp-admin'))).toBeUndefined()
+    expect(report).toHaveBeenCalledWith(expect.objectContaining({ action: 'deny' }), expect.anything())
+  })
+
+  it('uses custom deny and challenge responses', () => {
+    const custom = createDoormanMiddleware(config, {
+      onMatch,
+      deny: () => new Response('Nope', { status: 404 }),
+      challenge: () => Response.redirect('https://example.com/verify', 307),
+    })
+
+    expect(custom(request('/wp-admin'))?.status).toBe(404)
+    expect(custom(request('/login'))?.headers.get('location')).toBe('https://example.com/verify')
+  })
+
+  it('builds responses with the given response class', () => {
+    class NextResponse extends Response {
+      static redirect(url: string | URL, status?: number) {
+        return new NextResponse(null, { status, headers: { location: String(url) } })
+      }
+    }
+    const next = createDoormanMiddleware(config, { onMatch, responseClass: NextResponse })
+
+    expect(next(request('/wp-admin'))).toBeInstanceOf(NextResponse)
+    expect(next(request('/old'))).toBeInstanceOf(NextResponse)
+  })
+
+  it('writes match summaries to the given logger', () => {
+    const logger = { info: jest.fn() }
+    createDoormanMiddleware(config, { logger })(request('/wp-admin'))
+
+    expect(logger.info).toHaveBeenCalledWith(
+      '[doorman] GET /wp-admin → deny by rule "rule_block_wp" (logged by "rule_log_all")',
+    )
+  })
+
+  it('evicts the oldest rate limit windows once too many clients are tracked', () => {
+    const limited = createDoormanMiddleware(config, { onMatch })
+    const client = (n: number) => request('/api', { 'x-forwarded-for': `10.${n >> 16}.${(n >> 8) & 255}.${n & 255}` })
+
+    expect(limited(client(0))).toBeUndefined()
+    expect(limited(client(0))).toBeUndefined()
+    for (let n = 1; n <= MAX_RATE_LIMIT_WINDOWS; n++) {
+      limited(client(n))
+    }
+
+    // The first client's window was evicted, so its count starts over
+    expect(limited(client(0))).toBeUndefined()
+    expect(limited(client(MAX_RATE_LIMIT_WINDOWS))).toBeUndefined()
+    expect(limited(client(MAX_RATE_LIMIT_WINDOWS))?.status).toBe(429)
+  })
+})
+
+describe('toSimulatedRequest', () => {
+  it('reads the request fields and Vercel geolocation headers', () => {
+    const simulated = toSimulatedRequest(
+      new Request('https://example.com/search?q=1', {
+        method: 'POST',
+        headers: {
+          'user-agent': 'curl/8.0',
+          'x-real-ip': '203.0.113.7',
+          'x-vercel-ip-country': 'US',
+          'x-vercel-ip-city': 'San%20Francisco',
+        },
+      }),
+      'preview',
+    )
+
+    expect(simulated).toMatchObject({
+      path: '/search?q=1',
+      host: 'example.com',
+      method: 'POST',
+      ip: '203.0.113.7',
+      scheme: 'https',
+      environment: 'preview',
+      headers: { 'user-agent': 'curl/8.0' },
+      geo: { country: 'US', city: 'San Francisco' },
+    })
+  })
+
+  it('prefers the geo and ip fields Next.js provides', () => {
+    const simulated = toSimulatedRequest({
+      url: 'https://example.com/',
+      method: 'GET',
+      headers: new Headers({ 'x-vercel-ip-country': 'US' }),
+      ip: '198.51.100.1',
+      geo: { country: 'CA' },
+    })
+
+    expect(simulated.ip).toBe('198.51.100.1')
+    expect(simulated.geo?.country).toBe('CA')
+  })
+})
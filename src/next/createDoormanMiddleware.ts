@@ -0,0 +1,228 @@
+import { RuleEvaluator } from '../lib/evaluator/RuleEvaluator'
+import type { EvaluationResult } from '../lib/evaluator/RuleEvaluator'
+import type { FirewallConfig, RateLimit, SimulatedRequest } from '../lib/types'
+
+/**
+ * The parts of a `NextRequest` the middleware reads. Any `Request` with these fields works.
+ */
+export interface DoormanMiddlewareRequest {
+  url: string
+  method: string
+  headers: Headers
+  /** Provided by Next.js 14 and earlier on Vercel; read from `x-forwarded-for` otherwise */
+  ip?: string
+  /** Provided by Next.js 14 and earlier on Vercel; read from `x-vercel-ip-*` headers otherwise */
+  geo?: {
+    city?: string
+    country?: string
+    region?: string
+  }
+}
+
+/**
+ * A `Response` class to build the middleware's responses with, such as `NextResponse`
+ */
+export interface DoormanResponseClass<R extends Response> {
+  new (...args: ConstructorParameters<typeof Response>): R
+  redirect(url: string | URL, status?: number): R
+}
+
+/**
+ * Where the default `onMatch` writes its summaries, e.g. `console` or a pino logger
+ */
+export interface DoormanMiddlewareLogger {
+  info: (message: string) => void
+}
+
+export interface DoormanMiddlewareOptions<R extends Response = Response> {
+  /** Evaluate rules and report matches through `onMatch` without enforcing them */
+  logOnly?: boolean
+  /** Value for `environment` conditions (defaults to `VERCEL_ENV`) */
+  environment?: string
+  /**
+   * Class the responses are created with. Pass `NextResponse` from `next/server` to get
+   * `NextResponse` instances (defaults to `Response`).
+   */
+  responseClass?: DoormanResponseClass<R>
+  /** Logger for the default `onMatch` summaries (defaults to `console`) */
+  logger?: DoormanMiddlewareLogger
+  /**
+   * Called for every request a non-allow rule or a `log` rule applies to.
+   * Defaults to a one-line summary written to `logger`.
+   */
+  onMatch?: (result: EvaluationResult, request: DoormanMiddlewareRequest) => void
+  /** Response for denied requests (defaults to `403 Forbidden`) */
+  deny?: (result: EvaluationResult, request: DoormanMiddlewareRequest) => R
+  /**
+   * Response for `challenge` rules. Vercel's browser challenge cannot run in middleware,
+   * so this substitute defaults to `403 Forbidden`.
+   */
+  challenge?: (result: EvaluationResult, request: DoormanMiddlewareRequest) => R
+}
+
+const WINDOW_UNITS_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }
+
+/** Rate limit windows kept per middleware instance before the oldest are evicted */
+export const MAX_RATE_LIMIT_WINDOWS = 10_000
+
+/**
+ * Creates Next.js middleware that enforces the custom rules and IP blocks from a Doorman config,
+ * matching what `sync` deploys to the Vercel Firewall. Useful for local development, preview
+ * parity, and self-hosted deployments. Runs on the Edge runtime.
+ *
+ * Returns a response for blocked or redirected requests and `undefined` to let the request
+ * continue. Rate limits are counted per middleware instance, so they are approximate, and
+ * expired windows are evicted once {@link MAX_RATE_LIMIT_WINDOWS} clients are tracked.
+ *
+ * @param config - A Doorman config, e.g. the imported `.doorman.json`
+ * @param options - Enforcement and reporting options
+ * @returns A middleware function to call from `middleware.ts`
+ *
+ * @example
+ * ```typescript
+ * import { NextResponse } from 'next/server'
+ * import config from './.doorman.json'
+ * import { createDoormanMiddleware, type FirewallConfig } from 'vercel-doorman'
+ *
+ * export const middleware = createDoormanMiddleware(config as FirewallConfig, {
+ *   logOnly: process.env.VERCEL_ENV === 'preview',
+ *   responseClass: NextResponse,
+ * })
+ * ```
+ */
+export function createDoormanMiddleware<R extends Response = Response>(
+  config: FirewallConfig,
+  options: DoormanMiddlewareOptions<R> = {},
+) {
+  const evaluator = new RuleEvaluator(config)
+  const rateLimitWindows = new Map<string, { count: number; resetAt: number }>()
+  const ResponseClass = options.responseClass ?? (Response as unknown as DoormanResponseClass<R>)
+  const { logger = console } = options
+  const { onMatch = (result, request) => logger.info(describeMatch(result, request)) } = options
+  const forbidden = () => new ResponseClass('Forbidden', { status: 403 })
+
+  const exceedsRateLimit = (key: string, rateLimit: RateLimit): boolean => {
+    const now = Date.now()
+    const window = rateLimitWindows.get(key)
+    if (!window || window.resetAt <= now) {
+      rateLimitWindows.delete(key)
+      if (rateLimitWindows.size >= MAX_RATE_LIMIT_WINDOWS) {
+        evictWindows(rateLimitWindows, now)
+      }
+      rateLimitWindows.set(key, { count: 1, resetAt: now + parseWindow(rateLimit.window) })
+      return false
+    }
+    window.count += 1
+    return window.count > rateLimit.requests
+  }
+
+  return (request: DoormanMiddlewareRequest): R | undefined => {
+    const result = evaluator.evaluate(toSimulatedRequest(request, options.environment))
+
+    if (result.action !== 'allow' || result.logged.length > 0) {
+      onMatch(result, request)
+    }
+    if (options.logOnly) {
+      return undefined
+    }
+
+    switch (result.action) {
+      case 'deny':
+        return options.deny?.(result, request) ?? forbidden()
+      case 'challenge':
+        return options.challenge?.(result, request) ?? forbidden()
+      case 'redirect':
+        return result.redirect
+          ? ResponseClass.redirect(
+              new URL(result.redirect.location, request.url),
+              result.redirect.permanent ? 308 : 307,
+            )
+          : undefined
+      case 'rate_limit': {
+        const key = `${result.rule?.id ?? result.rule?.name}:${clientIP(request) ?? ''}`
+        return result.rateLimit && exceedsRateLimit(key, result.rateLimit)
+          ? new ResponseClass('Too Many Requests', { status: 429 })
+          : undefined
+      }
+      default:
+        // allow, bypass and log let the request through
+        return undefined
+    }
+  }
+}
+
+/**
+ * Map an incoming request onto the fields firewall conditions read
+ */
+export function toSimulatedRequest(request: DoormanMiddlewareRequest, environment?: string): SimulatedRequest {
+  const url = new URL(request.url)
+  const headers: Record<string, string> = {}
+  request.headers.forEach((value, name) => {
+    headers[name] = value
+  })
+
+  // Vercel URI-encodes geolocation headers such as the city name
+  const header = (name: string) => {
+    const value = request.headers.get(name) ?? undefined
+    try {
+      return value && decodeURIComponent(value)
+    } catch {
+      return value
+    }
+  }
+
+  return {
+    path: `${url.pathname}${url.search}`,
+    host: request.headers.get('host') ?? url.host,
+    method: request.method,
+    headers,
+    ip: clientIP(request),
+    scheme: url.protocol.replace(/:$/, ''),
+    environment: environment ?? (typeof process !== 'undefined' ? process.env.VERCEL_ENV : undefined),
+    geo: {
+      continent: header('x-vercel-ip-continent'),
+      country: request.geo?.country ?? header('x-vercel-ip-country'),
+      countryRegion: request.geo?.region ?? header('x-vercel-ip-country-region'),
+      city: request.geo?.city ?? header('x-vercel-ip-city'),
+    },
+    ja4Digest: header('x-vercel-ja4-digest'),
+  }
+}
+
+function clientIP(request: DoormanMiddlewareRequest): string | undefined {
+  return (
+    request.ip ??
+    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ??
+    request.headers.get('x-real-ip') ??
+    undefined
+  )
+}
+
+function parseWindow(window: string): number {
+  const match = /^(\d+)([smhd])$/.exec(window)
+  return match ? Number(match[1]) * (WINDOW_UNITS_MS[match[2]!] ?? 1000) : 60_000
+}
+
+/**
+ * Drop the expired windows, and the oldest ones if every window is still running. Windows are
+ * re-inserted when they restart, so the map stays ordered by start time.
+ */
+function evictWindows(windows: Map<string, { resetAt: number }>, now: number): void {
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key)
+  }
+  for (const key of windows.keys()) {
+    if (windows.size < MAX_RATE_LIMIT_WINDOWS) break
+    windows.delete(key)
+  }
+}
+
+function describeMatch(result: EvaluationResult, request: DoormanMiddlewareRequest): string {
+  const decidedBy = result.rule ? `rule "${result.rule.name}"` : result.ipRule ? `IP rule ${result.ipRule.ip}` : ''
+  const logged = result.logged.map((rule) => `"${rule.name}"`).join(', ')
+  return (
+    `[doorman] ${request.method} ${new URL(request.url).pathname} → ${result.action}` +
+    (decidedBy ? ` by ${decidedBy}` : '') +
+    (logged ? ` (logged by ${logged})` : '')
+  )
+}
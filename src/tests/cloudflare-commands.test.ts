@@ -0,0 +1,138 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from '@jest/globals'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { handler as syncHandler } from '../commands/sync'
+import { handler as statusHandler } from '../commands/status'
+import { CloudflareClient } from '../lib/providers/cloudflare/CloudflareClient'
+import { FirewallConfig } from '../lib/types'
+import type { CloudflareRuleset } from '../lib/types/cloudflare'
+
+jest.mock('../lib/ui/prompt')
+
+describe('Cloudflare command flow', () => {
+  let tempDir: string
+  let configPath: string
+
+  const remoteRuleset: CloudflareRuleset = {
+    id: 'ruleset-1',
+    name: 'Doorman',
+    kind: 'zone',
+    phase: 'http_request_firewall_custom',
+    version: '7',
+    last_updated: '2024-03-01T00:00:00Z',
+    rules: [],
+  }
+
+  const localConfig: FirewallConfig = {
+    version: 7,
+    rules: [
+      {
+        id: 'rule_block_admin',
+        name: 'Block admin',
+        conditionGroup: [{ conditions: [{ type: 'path', op: 'pre', value: '/admin' }] }],
+        action: { mitigate: { action: 'deny' } },
+        active: true,
+      },
+    ],
+    ips: [],
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'vercel-doorman-cf-test-'))
+    configPath = join(tempDir, 'test-config.json')
+    await fs.writeFile(configPath, JSON.stringify(localConfig, null, 2))
+
+    jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null | undefined): never => {
+      throw new Error(`process.exit called with "${code}"`)
+    })
+
+    const { prompt } = await import('../lib/ui/prompt')
+    ;(prompt as jest.MockedFunction<typeof prompt>).mockResolvedValue(true)
+
+    jest.spyOn(CloudflareClient.prototype, 'getOrCreateFirewallRuleset').mockResolvedValue(remoteRuleset)
+  })
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true })
+    jest.clearAllMocks()
+    jest.restoreAllMocks()
+  })
+
+  const cloudflareArgs = {
+    provider: 'cloudflare' as const,
+    apiToken: 'cf-token',
+    zoneId: 'cf-zone',
+    debug: false,
+  }
+
+  test('sync pushes local rules to the Cloudflare ruleset and records the new version', async () => {
+    const updateRuleset = jest
+      .spyOn(CloudflareClient.prototype, 'updateRuleset')
+      .mockImplementation(async (_id, request) => {
+        const updated = { ...remoteRuleset, version: '8', rules: request.rules as CloudflareRuleset['rules'] }
+        jest.spyOn(CloudflareClient.prototype, 'getOrCreateFirewallRuleset').mockResolvedValue(updated)
+        return updated
+      })
+
+    await syncHandler({ ...cloudflareArgs, config: configPath } as any)
+
+    expect(updateRuleset).toHaveBeenCalledTimes(1)
+    const [rulesetId, request] = updateRuleset.mock.calls[0]!
+    expect(rulesetId).toBe('ruleset-1')
+    expect(request.rules).toEqual([
+      expect.objectContaining({
+        id: 'rule_block_admin',
+        action: 'block',
+        expression: expect.stringContaining('"/admin"'),
+      }),
+    ])
+
+    const savedConfig = JSON.parse(await fs.readFile(configPath, 'utf8')) as FirewallConfig
+    expect(savedConfig.version).toBe(8)
+    expect(savedConfig.projectId).toBeUndefined()
+  })
+
+  test('sync asks before writing rule IDs assigned by the provider to the local config', async () => {
+    jest.spyOn(CloudflareClient.prototype, 'updateRuleset').mockImplementation(async (_id, request) => {
+      const rules = (request.rules as CloudflareRuleset['rules']).map((rule) => ({ ...rule, id: 'cf-rule-1' }))
+      const updated = { ...remoteRuleset, version: '8', rules }
+      jest.spyOn(CloudflareClient.prototype, 'getOrCreateFirewallRuleset').mockResolvedValue(updated)
+      return updated
+    })
+    // Cloudflare stores the name as the description, so the rule round-trips unchanged
+    const describedConfig = { ...localConfig, rules: [{ ...localConfig.rules[0]!, description: 'Block admin' }] }
+    await fs.writeFile(configPath, JSON.stringify(describedConfig, null, 2))
+    const { prompt } = await import('../lib/ui/prompt')
+    const mockedPrompt = prompt as jest.MockedFunction<typeof prompt>
+
+    // Apply the changes, then keep the local IDs
+    mockedPrompt.mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+    await syncHandler({ ...cloudflareArgs, config: configPath } as any)
+
+    expect(mockedPrompt).toHaveBeenLastCalledWith('Do you want to update the local config with the new IDs?', {
+      type: 'confirm',
+    })
+    let savedConfig = JSON.parse(await fs.readFile(configPath, 'utf8')) as FirewallConfig
+    expect(savedConfig.version).toBe(8)
+    expect(savedConfig.rules[0]!.id).toBe('rule_block_admin')
+
+    // Sync again from the start, this time taking the new IDs
+    await fs.writeFile(configPath, JSON.stringify(describedConfig, null, 2))
+    jest.spyOn(CloudflareClient.prototype, 'getOrCreateFirewallRuleset').mockResolvedValue(remoteRuleset)
+    mockedPrompt.mockResolvedValue(true)
+    await syncHandler({ ...cloudflareArgs, config: configPath } as any)
+
+    savedConfig = JSON.parse(await fs.readFile(configPath, 'utf8')) as FirewallConfig
+    expect(savedConfig.rules[0]!.id).toBe('cf-rule-1')
+  })
+
+  test('status reports pending Cloudflare changes without applying them', async () => {
+    const updateRuleset = jest.spyOn(CloudflareClient.prototype, 'updateRuleset')
+
+    await statusHandler({ ...cloudflareArgs, config: configPath } as any)
+
+    expect(CloudflareClient.prototype.getOrCreateFirewallRuleset).toHaveBeenCalled()
+    expect(updateRuleset).not.toHaveBeenCalled()
+  })
+})
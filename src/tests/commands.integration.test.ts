@@ -5,9 +5,12 @@ import { tmpdir } from 'os'
 import { handler as syncHandler } from '../commands/sync'
 import { handler as downloadHandler } from '../commands/download'
 import { FirewallConfig } from '../lib/types'
+import { ruleContentHash } from '../lib/utils/ruleContentHash'
+import { createJournal, SyncJournalWriter } from '../lib/utils/syncJournal'
+import { toUnifiedConfig } from '../lib/utils/unifiedConfig'
 
 // Mock external dependencies
-jest.mock('../lib/services/VercelClient')
+jest.mock('../lib/providers/vercel/VercelClient')
 jest.mock('../lib/ui/prompt')
 jest.mock('../lib/ui/promptForCredentials')
 
@@ -81,7 +84,7 @@ describe('Command Integration Tests', () => {
     ;(promptForCredentials as jest.MockedFunction<typeof promptForCredentials>).mockResolvedValue(mockCredentials)
 
     // Mock VercelClient
-    const { VercelClient } = await import('../lib/services/VercelClient')
+    const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
     const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
     // @ts-expect-error - Mock type compatibility
@@ -215,7 +218,7 @@ describe('Command Integration Tests', () => {
     test('should handle specific version download', async () => {
       // Given
       const specificVersionConfig = { ...mockRemoteConfig, version: 3 }
-      const { VercelClient } = await import('../lib/services/VercelClient')
+      const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
       const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
       // @ts-expect-error - Mock type compatibility
       MockedVercelClient.prototype.fetchFirewallConfig = jest.fn().mockResolvedValue(specificVersionConfig)
@@ -287,7 +290,7 @@ describe('Command Integration Tests', () => {
       ;(prompt as jest.MockedFunction<typeof prompt>).mockResolvedValue(true) // Confirm sync
 
       // Mock the post-sync validation
-      const { VercelClient } = await import('../lib/services/VercelClient')
+      const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
       const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
       // First call for getChanges, subsequent calls for validation with retry
@@ -342,7 +345,7 @@ describe('Command Integration Tests', () => {
       } as any)
 
       // Then
-      const { VercelClient } = await import('../lib/services/VercelClient')
+      const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
       const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
       // Should not call any modification methods
@@ -354,6 +357,66 @@ describe('Command Integration Tests', () => {
       expect(MockedVercelClient.prototype.deleteIPBlockingRule).not.toHaveBeenCalled()
     })
 
+    test('should resume an interrupted sync without creating its rules again', async () => {
+      // Given - A sync that was interrupted after adding the first of two new rules
+      const newRule = (name: string, value: string): FirewallConfig['rules'][number] => ({
+        name,
+        conditionGroup: [{ conditions: [{ type: 'path', op: 'eq', value }] }],
+        action: { mitigate: { action: 'deny' } },
+        active: true,
+      })
+      const localConfig: FirewallConfig = {
+        version: 5,
+        projectId: 'test-project',
+        teamId: 'test-team',
+        rules: [...mockRemoteConfig.rules, newRule('Block admin', '/admin'), newRule('Block api', '/api')],
+        ips: mockRemoteConfig.ips,
+      }
+      await fs.writeFile(configPath, JSON.stringify(localConfig, null, 2))
+
+      const remoteRules: any[] = [...mockRemoteConfig.rules, { ...localConfig.rules[1], id: 'rule_vercel_1' }]
+      const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
+      const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
+      MockedVercelClient.prototype.fetchFirewallConfig = jest
+        .fn()
+        .mockImplementation(() => Promise.resolve({ ...mockRemoteConfig, rules: [...remoteRules] })) as any
+      MockedVercelClient.prototype.createFirewallRule = jest.fn().mockImplementation((rule: any) => {
+        const created = { ...rule, id: `rule_vercel_${remoteRules.length}` }
+        remoteRules.push(created)
+        return Promise.resolve(created)
+      }) as any
+
+      const cwd = process.cwd()
+      process.chdir(tempDir)
+      try {
+        const interrupted = new SyncJournalWriter(
+          'doorman.vercel.journal.json',
+          createJournal('vercel', toUnifiedConfig(localConfig, 'vercel'), { version: 5 }),
+        )
+        interrupted.plan(['add rule Block admin', 'add rule Block api'])
+        interrupted.complete('add rule Block admin', {
+          hash: ruleContentHash(localConfig.rules[1]!),
+          id: 'rule_vercel_1',
+        })
+
+        // When
+        await syncHandler({ config: configPath, resume: true, debug: false } as any)
+
+        // Then - Only the rule that had not landed is created, and nothing is deleted
+        expect(MockedVercelClient.prototype.deleteFirewallRule).not.toHaveBeenCalled()
+        expect(MockedVercelClient.prototype.createFirewallRule).toHaveBeenCalledTimes(1)
+        expect(MockedVercelClient.prototype.createFirewallRule).toHaveBeenCalledWith(
+          expect.objectContaining({ name: 'Block api' }),
+        )
+        await expect(fs.access(join(tempDir, 'doorman.vercel.journal.json'))).rejects.toThrow()
+
+        const finalConfig = JSON.parse(await fs.readFile(configPath, 'utf8')) as FirewallConfig
+        expect(finalConfig.rules.map((rule) => rule.id)).toEqual(['rule_remote_rule', 'rule_vercel_1', 'rule_vercel_2'])
+      } finally {
+        process.chdir(cwd)
+      }
+    })
+
     test.skip('should handle rule ID updates', async () => {
       // Given
       const localConfig: FirewallConfig = {
@@ -394,7 +457,7 @@ describe('Command Integration Tests', () => {
         .mockResolvedValueOnce(true) // Confirm sync
         .mockResolvedValueOnce(true) // Confirm ID update
 
-      const { VercelClient } = await import('../lib/services/VercelClient')
+      const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
       const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
       // Mock empty remote config so our rule gets added
@@ -469,7 +532,7 @@ describe('Command Integration Tests', () => {
       } as any)
 
       // Then
-      const { VercelClient } = await import('../lib/services/VercelClient')
+      const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
       const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
       // Should not call any modification methods
@@ -518,7 +581,7 @@ describe('Command Integration Tests', () => {
       const { prompt } = await import('../lib/ui/prompt')
       ;(prompt as jest.MockedFunction<typeof prompt>).mockResolvedValue(true)
 
-      const { VercelClient } = await import('../lib/services/VercelClient')
+      const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
       const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
       // Step 1: Sync the initial config
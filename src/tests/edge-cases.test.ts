@@ -19,6 +19,7 @@ describe('Edge Cases and Error Scenarios', () => {
       createIPBlockingRule: jest.fn(),
       updateIPBlockingRule: jest.fn(),
       deleteIPBlockingRule: jest.fn(),
+      putConfig: jest.fn(),
     } as any
 
     firewallService = new FirewallService(mockClient)
@@ -159,10 +160,17 @@ describe('Edge Cases and Error Scenarios', () => {
       // First rule succeeds, second fails
       mockClient.createFirewallRule
         .mockResolvedValueOnce(localConfig.rules[0] as CustomRule)
-        .mockRejectedValueOnce(new Error('Invalid rule configuration'))
+        .mockRejectedValue(new Error('Invalid rule configuration'))
 
-      // When/Then
-      await expect(firewallService.syncRules(localConfig)).rejects.toThrow('Failed to synchronize firewall rules')
+      mockClient.putConfig.mockResolvedValue({} as any)
+
+      // When/Then - the rule that landed is rolled back by restoring version 2
+      await expect(firewallService.syncRules(localConfig)).rejects.toMatchObject({
+        code: 'SYNC_3007',
+        details: { restoredVersion: 2, appliedBeforeFailure: ['add rule Success Rule'] },
+      })
+      expect(mockClient.fetchFirewallConfig).toHaveBeenLastCalledWith(2)
+      expect(mockClient.putConfig).toHaveBeenCalledWith({ firewallEnabled: true, rules: [], ips: [] })
     })
   })
 
@@ -6,7 +6,7 @@ import { handler as syncHandler } from '../commands/sync'
 import { FirewallConfig } from '../lib/types'
 
 // Mock external dependencies
-jest.mock('../lib/services/VercelClient')
+jest.mock('../lib/providers/vercel/VercelClient')
 jest.mock('../lib/ui/prompt')
 jest.mock('../lib/ui/promptForCredentials')
 
@@ -74,7 +74,7 @@ describe('Version Sync Fix', () => {
     await fs.writeFile(configPath, JSON.stringify(localConfig, null, 2))
 
     // Mock VercelClient to return same rules but newer version
-    const { VercelClient } = await import('../lib/services/VercelClient')
+    const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
     const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
     const remoteConfig = {
@@ -122,7 +122,7 @@ describe('Version Sync Fix', () => {
 
     await fs.writeFile(configPath, JSON.stringify(localConfig, null, 2))
 
-    const { VercelClient } = await import('../lib/services/VercelClient')
+    const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
     const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
     const remoteConfig = {
@@ -165,7 +165,7 @@ describe('Version Sync Fix', () => {
 
     await fs.writeFile(configPath, JSON.stringify(localConfig, null, 2))
 
-    const { VercelClient } = await import('../lib/services/VercelClient')
+    const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
     const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
     const remoteConfig = {
@@ -209,7 +209,7 @@ describe('Version Sync Fix', () => {
     await fs.writeFile(configPath, JSON.stringify(localConfig, null, 2))
     const originalStats = await fs.stat(configPath)
 
-    const { VercelClient } = await import('../lib/services/VercelClient')
+    const { VercelClient } = await import('../lib/providers/vercel/VercelClient')
     const MockedVercelClient = VercelClient as jest.MockedClass<typeof VercelClient>
 
     const remoteConfig = {